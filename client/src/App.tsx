@@ -4,6 +4,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
+import BillingBanner from "@/components/billing-banner";
 import NotFound from "@/pages/not-found";
 import Landing from "@/pages/landing";
 import Home from "@/pages/home";
@@ -11,12 +12,14 @@ import Subscribe from "@/pages/subscribe";
 import Profile from "@/pages/profile";
 import Meditation from "@/pages/meditation";
 import Organization from "@/pages/organization";
+import OrganizationBilling from "@/pages/organization-billing";
 import Settings from "@/pages/settings";
 import Assessment from "@/pages/assessment";
 import Matrix from "@/pages/matrix";
 import Chat from "@/pages/chat";
 import DemoLogin from "@/pages/demo-login";
 import GateChallenge from "@/pages/gate-challenge";
+import Invitation from "@/pages/invitation";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -28,6 +31,7 @@ function Router() {
       <Route path="/subscribe" component={Subscribe} />
       <Route path="/matrix" component={Matrix} />
       <Route path="/demo-login" component={DemoLogin} />
+      <Route path="/invite/:token" component={Invitation} />
       
       {/* Gate challenge routes - accessible to authenticated users */}
       <Route path="/gate/identity-mirror" component={GateChallenge} />
@@ -46,6 +50,7 @@ function Router() {
           <Route path="/profile" component={Profile} />
           <Route path="/meditation" component={Meditation} />
           <Route path="/organization" component={Organization} />
+          <Route path="/organization/billing" component={OrganizationBilling} />
           <Route path="/chat" component={Chat} />
           <Route path="/settings" component={Settings} />
           <Route component={NotFound} />
@@ -60,6 +65,7 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
+        <BillingBanner />
         <Router />
       </TooltipProvider>
     </QueryClientProvider>
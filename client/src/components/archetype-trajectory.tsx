@@ -0,0 +1,96 @@
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ArrowRight, CalendarClock } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig,
+} from "@/components/ui/chart";
+import { ARCHETYPE_KEYS, type ArchetypeHistoryResponse } from "@shared/archetypes";
+
+const chartConfig = {
+  pioneer: { label: 'Pioneer', color: '#f97316' },
+  organizer: { label: 'Organizer', color: '#3b82f6' },
+  builder: { label: 'Builder', color: '#22c55e' },
+  guardian: { label: 'Guardian', color: '#a855f7' },
+} satisfies ChartConfig;
+
+const formatDate = (value: string | number) => new Date(value).toLocaleDateString();
+
+const stageLabel = (stage: string) => stage === 'hidden_track' ? 'Hidden' : stage.toUpperCase();
+
+// Archetype scores from each assessment over time, with the moves between stages marked
+export function ArchetypeTrajectory() {
+  const { data: history, isLoading } = useQuery<ArchetypeHistoryResponse>({ queryKey: ['/api/assessments/archetype-history'] });
+
+  if (isLoading) {
+    return <div className="h-48 animate-pulse bg-muted/40 rounded" />;
+  }
+
+  if (!history || history.points.length === 0) {
+    return (
+      <p className="text-muted-foreground text-center py-4" data-testid="text-no-archetype-history">
+        Take the archetype assessment to start tracking your trajectory
+      </p>
+    );
+  }
+
+  const data = history.points.map(point => ({ time: new Date(point.completedAt).getTime(), ...point.scores }));
+  const { retake } = history;
+
+  return (
+    <div className="space-y-4" data-testid="archetype-trajectory">
+      {history.points.length === 1 ? (
+        <p className="text-sm text-muted-foreground">
+          One assessment so far. Your trajectory appears once you retake it.
+        </p>
+      ) : (
+        <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+          <LineChart data={data} margin={{ top: 16, right: 16, left: 0, bottom: 0 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatDate} />
+            <YAxis domain={[0, 100]} width={32} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatDate(payload[0]?.payload.time)} />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {history.stageChanges.map(change => (
+              <ReferenceLine
+                key={change.changedAt}
+                x={new Date(change.changedAt).getTime()}
+                ifOverflow="extendDomain"
+                stroke="hsl(var(--muted-foreground))"
+                strokeDasharray="4 4"
+                label={{ value: stageLabel(change.toStage), position: 'top', fontSize: 10 }}
+              />
+            ))}
+            {ARCHETYPE_KEYS.map(archetype => (
+              <Line key={archetype} dataKey={archetype} type="monotone" stroke={`var(--color-${archetype})`} strokeWidth={2} dot />
+            ))}
+          </LineChart>
+        </ChartContainer>
+      )}
+
+      {history.drift.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold">Shifts in primary archetype</h3>
+          {history.drift.map(shift => (
+            <div key={shift.toAssessmentId} className="flex items-center gap-2 text-sm" data-testid={`drift-${shift.toAssessmentId}`}>
+              <span className="text-muted-foreground">{formatDate(shift.at)}</span>
+              <Badge variant="outline" className="capitalize">{shift.from}</Badge>
+              <ArrowRight className="h-3 w-3" />
+              <Badge variant="outline" className="capitalize">{shift.to}</Badge>
+              <span className="text-muted-foreground">
+                ({shift.scoreChanges[shift.to] >= 0 ? '+' : ''}{shift.scoreChanges[shift.to]} {shift.to})
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 text-sm" data-testid="text-next-retake">
+        <CalendarClock className="h-4 w-4 text-primary" />
+        {retake.due
+          ? <span>A retake is due. Retaking every {retake.intervalDays} days keeps your trajectory current.</span>
+          : <span>Next retake due {formatDate(retake.nextDueAt!)}</span>}
+      </div>
+    </div>
+  );
+}
@@ -4,10 +4,10 @@ import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { useLocation } from "wouter";
+import { STAGE_NAMES, type StageAssessment, type StageAssessmentResponse } from "@shared/stages";
 
 interface AssessmentModalProps {
   open: boolean;
@@ -15,158 +15,42 @@ interface AssessmentModalProps {
   stage: string;
 }
 
-const assessmentQuestions = {
-  r1: [
-    {
-      id: 1,
-      question: "When facing a significant decision, you tend to:",
-      options: [
-        {
-          value: "vision",
-          title: "Seek vision and inspiration first",
-          description: "You look for the bigger picture and divine guidance",
-        },
-        {
-          value: "analysis",
-          title: "Gather all available information",
-          description: "You prefer thorough analysis before moving forward",
-        },
-        {
-          value: "relationships",
-          title: "Consider impact on relationships",
-          description: "You evaluate how it affects your community and team",
-        },
-      ],
-    },
-    {
-      id: 2,
-      question: "Your natural leadership style is:",
-      options: [
-        {
-          value: "pioneering",
-          title: "Pioneering new paths",
-          description: "You enjoy breaking new ground and exploring possibilities",
-        },
-        {
-          value: "organizing",
-          title: "Organizing and coordinating",
-          description: "You excel at bringing order and structure to chaos",
-        },
-        {
-          value: "building",
-          title: "Building strong foundations",
-          description: "You focus on creating stable, lasting systems",
-        },
-      ],
-    },
-    {
-      id: 3,
-      question: "In team settings, you are most energized by:",
-      options: [
-        {
-          value: "innovation",
-          title: "Innovation and creativity",
-          description: "Generating new ideas and exploring possibilities",
-        },
-        {
-          value: "collaboration",
-          title: "Collaboration and harmony",
-          description: "Bringing people together and facilitating connection",
-        },
-        {
-          value: "execution",
-          title: "Execution and results",
-          description: "Getting things done and achieving measurable outcomes",
-        },
-      ],
-    },
-  ],
-  r2: [
-    // Add R2 questions here
-    {
-      id: 1,
-      question: "How do you define boundaries in leadership?",
-      options: [
-        {
-          value: "clear_expectations",
-          title: "Clear expectations and roles",
-          description: "Define what each person should do and when",
-        },
-        {
-          value: "flexible_guidelines",
-          title: "Flexible guidelines",
-          description: "Provide direction while allowing adaptation",
-        },
-        {
-          value: "collaborative_agreements",
-          title: "Collaborative agreements",
-          description: "Co-create boundaries with team input",
-        },
-      ],
-    },
-  ],
-};
-
 export default function AssessmentModal({ open, onOpenChange, stage }: AssessmentModalProps) {
   const [currentQuestion, setCurrentQuestion] = useState(0);
-  const [responses, setResponses] = useState<Record<number, string>>({});
+  const [responses, setResponses] = useState<Record<string, string>>({});
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [, setLocation] = useLocation();
 
-  const questions = assessmentQuestions[stage as keyof typeof assessmentQuestions] || assessmentQuestions.r1;
+  // The stage's questions come from the server, which also scores the answers and applies the promotion rules
+  const { data: stageAssessment } = useQuery<StageAssessment>({ queryKey: ['/api/stages', stage, 'assessment'], enabled: open });
+  const questions = stageAssessment?.questions ?? [];
   const totalQuestions = questions.length;
-  const progress = ((currentQuestion + 1) / totalQuestions) * 100;
+  const progress = totalQuestions > 0 ? ((currentQuestion + 1) / totalQuestions) * 100 : 0;
 
-  const createAssessmentMutation = useMutation({
-    mutationFn: async (assessmentData: any) => {
-      const response = await apiRequest("POST", "/api/assessments", assessmentData);
-      return response.json();
-    },
-    onSuccess: (assessment) => {
-      // Complete the assessment with results
-      completeAssessmentMutation.mutate({
-        id: assessment.id,
-        results: calculateResults(),
-      });
-    },
-    onError: (error) => {
-      console.error("Error creating assessment:", error);
-      toast({
-        title: "Error",
-        description: "Failed to create assessment. Please try again.",
-        variant: "destructive",
-      });
-    },
-  });
-
-  const completeAssessmentMutation = useMutation({
-    mutationFn: async ({ id, results }: { id: string; results: any }) => {
-      const response = await apiRequest("PATCH", `/api/assessments/${id}/complete`, { results });
-      return response.json();
+  const submitAssessmentMutation = useMutation({
+    mutationFn: async (responses: Record<string, string>) => {
+      const response = await apiRequest("POST", `/api/stages/${stage}/assessment`, { responses });
+      return response.json() as Promise<StageAssessmentResponse>;
     },
     onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['/api/progress'] });
       queryClient.invalidateQueries({ queryKey: ['/api/assessments'] });
       queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stages/next'] });
       
-      const assessmentResults = calculateResults();
-      
+      const { promotedTo, next } = result.progression;
       toast({
-        title: "Assessment Complete",
-        description: `You are a ${assessmentResults.archetype} leader. Redirecting to your personalized matrix...`,
+        title: result.passed ? "Assessment Passed" : "Assessment Complete",
+        description: promotedTo
+          ? `You scored ${result.score} and have entered ${STAGE_NAMES[promotedTo]}!`
+          : `You scored ${result.score} (${result.passingScore} to pass).${next?.missing.length ? ` Next: ${next.missing[0]}.` : ''}`,
       });
       
       onOpenChange(false);
       resetAssessment();
-      
-      // Redirect to matrix with archetype and starting chapter
-      setTimeout(() => {
-        setLocation(`/matrix?chapter=1&archetype=${assessmentResults.archetype}&generation=${stage}`);
-      }, 1500);
     },
     onError: (error) => {
-      console.error("Error completing assessment:", error);
+      console.error("Error submitting assessment:", error);
       toast({
         title: "Error",
         description: "Failed to complete assessment. Please try again.",
@@ -186,8 +70,7 @@ export default function AssessmentModal({ open, onOpenChange, stage }: Assessmen
     if (currentQuestion < totalQuestions - 1) {
       setCurrentQuestion(prev => prev + 1);
     } else {
-      // Submit assessment
-      submitAssessment();
+      submitAssessmentMutation.mutate(responses);
     }
   };
 
@@ -197,66 +80,13 @@ export default function AssessmentModal({ open, onOpenChange, stage }: Assessmen
     }
   };
 
-  const submitAssessment = () => {
-    createAssessmentMutation.mutate({
-      stage,
-      responses,
-    });
-  };
-
-  const calculateResults = () => {
-    // Simplified archetype calculation based on responses
-    const responseValues = Object.values(responses);
-    const archetypeScores = {
-      pioneer: 0,
-      organizer: 0,
-      builder: 0,
-      guardian: 0,
-    };
-
-    responseValues.forEach(response => {
-      switch (response) {
-        case 'vision':
-        case 'pioneering':
-        case 'innovation':
-          archetypeScores.pioneer++;
-          break;
-        case 'relationships':
-        case 'collaboration':
-        case 'collaborative_agreements':
-          archetypeScores.organizer++;
-          break;
-        case 'analysis':
-        case 'building':
-        case 'execution':
-          archetypeScores.builder++;
-          break;
-        case 'clear_expectations':
-        case 'flexible_guidelines':
-          archetypeScores.guardian++;
-          break;
-      }
-    });
-
-    const dominantArchetype = Object.entries(archetypeScores).reduce((a, b) => 
-      archetypeScores[a[0] as keyof typeof archetypeScores] > archetypeScores[b[0] as keyof typeof archetypeScores] ? a : b
-    )[0];
-
-    return {
-      archetype: dominantArchetype,
-      scores: archetypeScores,
-      stage,
-      completedAt: new Date().toISOString(),
-    };
-  };
-
   const resetAssessment = () => {
     setCurrentQuestion(0);
     setResponses({});
   };
 
   const currentQuestionData = questions[currentQuestion];
-  const selectedValue = responses[currentQuestionData.id];
+  const selectedValue = currentQuestionData ? responses[currentQuestionData.id] : undefined;
   const canProceed = !!selectedValue;
 
   const getStageTitle = (stage: string) => {
@@ -317,6 +147,9 @@ export default function AssessmentModal({ open, onOpenChange, stage }: Assessmen
           </div>
         </DialogHeader>
         
+        {!currentQuestionData ? (
+          <div className="py-6 text-sm text-muted-foreground">Loading questions...</div>
+        ) : (
         <div className="py-6">
           <h3 className="text-lg font-medium mb-6" data-testid="text-question">
             {currentQuestionData.question}
@@ -344,6 +177,7 @@ export default function AssessmentModal({ open, onOpenChange, stage }: Assessmen
             ))}
           </RadioGroup>
         </div>
+        )}
         
         <div className="flex items-center justify-between">
           <Button 
@@ -357,11 +191,11 @@ export default function AssessmentModal({ open, onOpenChange, stage }: Assessmen
           
           <Button 
             onClick={handleNext}
-            disabled={!canProceed || createAssessmentMutation.isPending || completeAssessmentMutation.isPending}
+            disabled={!canProceed || submitAssessmentMutation.isPending}
             data-testid="button-next"
           >
             {currentQuestion === totalQuestions - 1 
-              ? createAssessmentMutation.isPending || completeAssessmentMutation.isPending 
+              ? submitAssessmentMutation.isPending 
                 ? "Submitting..." 
                 : "Complete Assessment"
               : "Next Question"
@@ -0,0 +1,82 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  Award, CalendarCheck, CalendarHeart, Crown, DoorOpen, Droplets, Flame,
+  Footprints, Hexagon, Mountain, Sparkles, Sprout, Wind, type LucideIcon,
+} from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { BadgeStatus } from "@shared/achievements";
+
+const badgeIcons: Record<string, LucideIcon> = {
+  CalendarCheck, CalendarHeart, Crown, DoorOpen, Droplets, Flame,
+  Footprints, Hexagon, Mountain, Sparkles, Sprout, Wind,
+};
+
+interface BadgeShelfProps {
+  compact?: boolean; // earned badges only, as a row of icons
+}
+
+export function BadgeShelf({ compact }: BadgeShelfProps) {
+  const { data: badges = [], isLoading } = useQuery<BadgeStatus[]>({ queryKey: ['/api/achievements'] });
+
+  if (isLoading) {
+    return <div className="h-10 animate-pulse bg-muted/40 rounded" />;
+  }
+
+  if (compact) {
+    const earned = badges.filter(badge => badge.earned);
+    if (earned.length === 0) return null;
+
+    return (
+      <div className="flex items-center gap-2" data-testid="badge-shelf-compact">
+        {earned.map(badge => {
+          const Icon = badgeIcons[badge.icon] ?? Award;
+          return (
+            <Tooltip key={badge.id}>
+              <TooltipTrigger asChild>
+                <div className="w-8 h-8 rounded-full bg-yellow-400/20 border border-yellow-400/60 flex items-center justify-center" data-testid={`badge-${badge.id}`}>
+                  <Icon className="w-4 h-4 text-yellow-400" />
+                </div>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p className="font-semibold">{badge.name}</p>
+                <p className="text-xs">{badge.description}</p>
+              </TooltipContent>
+            </Tooltip>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4" data-testid="badge-shelf">
+      {badges.map(badge => {
+        const Icon = badgeIcons[badge.icon] ?? Award;
+        return (
+          <div
+            key={badge.id}
+            className={`rounded-lg border p-4 text-center space-y-2 ${badge.earned ? 'border-primary/60 bg-primary/10' : 'border-border opacity-60'}`}
+            data-testid={`badge-${badge.id}`}
+          >
+            <div className={`mx-auto w-12 h-12 rounded-full flex items-center justify-center ${badge.earned ? 'bg-primary/20' : 'bg-muted'}`}>
+              <Icon className={`w-6 h-6 ${badge.earned ? 'text-primary' : 'text-muted-foreground'}`} />
+            </div>
+            <div className="font-semibold text-sm">{badge.name}</div>
+            <p className="text-xs text-muted-foreground">{badge.description}</p>
+            {badge.earned ? (
+              <p className="text-xs text-primary">
+                Earned {badge.awardedAt ? new Date(badge.awardedAt).toLocaleDateString() : ''}
+              </p>
+            ) : (
+              <div className="space-y-1">
+                <Progress value={(badge.progress / badge.target) * 100} className="h-1.5" />
+                <p className="text-xs text-muted-foreground">{badge.progress}/{badge.target}</p>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
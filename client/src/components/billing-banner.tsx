@@ -0,0 +1,48 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { AlertTriangle, CreditCard } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { getQueryFn } from "@/lib/queryClient";
+import type { BillingState } from "@shared/billing";
+
+// Dunning notice shown across the app while the account is past due, in grace or suspended
+export default function BillingBanner() {
+  const { isAuthenticated } = useAuth();
+  const [location] = useLocation();
+  const { data: subscription } = useQuery<{ billing?: BillingState } | null>({
+    queryKey: ['/api/subscription/status'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    enabled: isAuthenticated,
+  });
+
+  const banner = subscription?.billing?.banner;
+  if (!banner) return null;
+
+  const isCritical = banner.level === 'critical';
+
+  return (
+    <Alert
+      variant={isCritical ? "destructive" : "default"}
+      className={`rounded-none border-x-0 border-t-0 ${isCritical ? "bg-red-950/40" : "bg-amber-950/40 border-amber-500/50 text-amber-100"}`}
+      data-testid="billing-banner"
+    >
+      <AlertTriangle className="h-4 w-4" />
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <AlertTitle>{banner.title}</AlertTitle>
+          <AlertDescription>{banner.message}</AlertDescription>
+        </div>
+        {location !== banner.actionUrl && (
+          <Button asChild size="sm" variant={isCritical ? "destructive" : "outline"} data-testid="button-billing-action">
+            <Link href={banner.actionUrl}>
+              <CreditCard className="h-4 w-4 mr-2" />
+              {banner.actionLabel}
+            </Link>
+          </Button>
+        )}
+      </div>
+    </Alert>
+  );
+}
@@ -0,0 +1,169 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { CreditCard, Download, ExternalLink, Receipt, RefreshCw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import type { InvoiceSummary, PaymentMethodSummary } from "@shared/billing";
+
+const INVOICES_QUERY_KEY = ['/api/subscription/invoices'];
+
+function formatAmount(amount: number, currency: string) {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency: currency.toUpperCase() }).format(amount / 100);
+}
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  paid: 'default',
+  open: 'secondary',
+  uncollectible: 'destructive',
+  void: 'outline',
+  draft: 'outline',
+};
+
+// Past charges, receipts and the card on file, with a link out to the Stripe billing portal
+export default function BillingHistory() {
+  const { toast } = useToast();
+
+  const { data: invoices, isLoading } = useQuery<InvoiceSummary[] | null>({
+    queryKey: INVOICES_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const { data: paymentMethodData } = useQuery<{ paymentMethod: PaymentMethodSummary | null } | null>({
+    queryKey: ['/api/subscription/payment-method'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    retry: false,
+  });
+
+  const portalMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/subscription/billing-portal');
+      return response.json();
+    },
+    onSuccess: (data: { url: string }) => {
+      window.location.href = data.url;
+    },
+    onError: () => {
+      toast({
+        title: "Billing portal unavailable",
+        description: "Subscribe to a paid tier first, or try again in a moment.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/subscription/invoices/sync');
+      return response.json();
+    },
+    onSuccess: (data: { invoices: InvoiceSummary[] }) => {
+      queryClient.setQueryData(INVOICES_QUERY_KEY, data.invoices);
+    },
+    onError: () => {
+      toast({ title: "Could not refresh invoices", description: "Please try again.", variant: "destructive" });
+    },
+  });
+
+  // Signed-out visitors see the tiers only
+  if (invoices === null) return null;
+
+  const paymentMethod = paymentMethodData?.paymentMethod;
+
+  return (
+    <Card className="bg-card/80 backdrop-blur-sm border-border mb-12" data-testid="billing-history">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+        <div className="flex items-center">
+          <Receipt className="h-5 w-5 text-primary mr-2" />
+          <CardTitle>Billing History</CardTitle>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => syncMutation.mutate()}
+          disabled={syncMutation.isPending}
+          data-testid="button-sync-invoices"
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${syncMutation.isPending ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between p-3 rounded-lg bg-muted/30">
+          <div className="flex items-center gap-3">
+            <CreditCard className="h-5 w-5 text-muted-foreground" />
+            {paymentMethod ? (
+              <span data-testid="text-payment-method">
+                <span className="capitalize">{paymentMethod.brand || paymentMethod.type.replace(/_/g, ' ')}</span>
+                {paymentMethod.last4 && <> ending in {paymentMethod.last4}</>}
+                {paymentMethod.expMonth && paymentMethod.expYear && (
+                  <span className="text-muted-foreground"> · expires {String(paymentMethod.expMonth).padStart(2, '0')}/{paymentMethod.expYear}</span>
+                )}
+              </span>
+            ) : (
+              <span className="text-muted-foreground">No payment method on file</span>
+            )}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => portalMutation.mutate()}
+            disabled={portalMutation.isPending}
+            data-testid="button-billing-portal"
+          >
+            <ExternalLink className="h-4 w-4 mr-2" />
+            {portalMutation.isPending ? 'Opening...' : 'Manage billing'}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading invoices...</p>
+        ) : !invoices || invoices.length === 0 ? (
+          <p className="text-muted-foreground">No invoices yet</p>
+        ) : (
+          <div className="space-y-3">
+            {invoices.map(invoice => (
+              <div
+                key={invoice.id}
+                className="flex items-center justify-between p-3 rounded-lg bg-muted/30"
+                data-testid={`invoice-${invoice.id}`}
+              >
+                <div>
+                  <div className="font-medium">
+                    {formatAmount(invoice.status === 'paid' ? invoice.amountPaid : invoice.amountDue, invoice.currency)}
+                    <Badge variant={STATUS_VARIANTS[invoice.status] || 'outline'} className="ml-2 capitalize">
+                      {invoice.status}
+                    </Badge>
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {new Date(invoice.issuedAt).toLocaleDateString()}
+                    {invoice.number && <> · {invoice.number}</>}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  {invoice.hostedInvoiceUrl && (
+                    <Button asChild variant="ghost" size="sm">
+                      <a href={invoice.hostedInvoiceUrl} target="_blank" rel="noopener noreferrer">
+                        <ExternalLink className="h-4 w-4 mr-1" />
+                        {invoice.status === 'open' ? 'Pay' : 'View'}
+                      </a>
+                    </Button>
+                  )}
+                  {invoice.invoicePdf && (
+                    <Button asChild variant="ghost" size="sm">
+                      <a href={invoice.invoicePdf} target="_blank" rel="noopener noreferrer" data-testid={`link-invoice-pdf-${invoice.id}`}>
+                        <Download className="h-4 w-4 mr-1" />
+                        Receipt
+                      </a>
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
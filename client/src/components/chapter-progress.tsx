@@ -7,6 +7,8 @@ import { Lock, CheckCircle, Play, BookOpen, Star, Crown, Zap, Sparkles, Shield,
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useEntitlements } from "@/hooks/useEntitlements";
+import { useLocation } from "wouter";
 import { motion, AnimatePresence } from "framer-motion";
 import { GameHUD } from "@/components/game-hud";
 import { GameProgressResponse, SacredMatrixEntry } from "@shared/schema";
@@ -113,6 +115,8 @@ const chapterTitles: Record<number, string> = {
 export default function ChapterProgress({ userId, userGeneration, userArchetype }: ChapterProgressProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const { chapterUpgrade } = useEntitlements(!!userId);
   const [selectedChapter, setSelectedChapter] = useState<number | null>(null);
   const [showLevelUpAnimation, setShowLevelUpAnimation] = useState(false);
 
@@ -236,8 +240,25 @@ export default function ChapterProgress({ userId, userGeneration, userArchetype
       const response = await apiRequest("POST", `/api/chapters/${chapterNumber}/complete`);
       return response.json();
     },
+    onError: (error: any) => {
+      if (error.status === 402) {
+        toast({
+          title: "Upgrade required",
+          description: "This chapter is part of a higher plan.",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to complete chapter. Please try again.",
+        variant: "destructive",
+      });
+    },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['/api/user', userId, 'game-progress'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/xp'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/achievements'] });
       
       // Show level up animation if user leveled up
       if (data.levelUp) {
@@ -249,7 +270,14 @@ export default function ChapterProgress({ userId, userGeneration, userArchetype
       } else {
         toast({
           title: "Chapter Completed!",
-          description: `+${data.xpGained} XP earned. Great progress!`,
+          description: data.awarded ? `+${data.xpGained} XP earned. Great progress!` : "XP for this chapter was already earned.",
+        });
+      }
+
+      for (const badge of data.newBadges ?? []) {
+        toast({
+          title: `🏅 Badge earned: ${badge.name}`,
+          description: badge.description,
         });
       }
     },
@@ -264,6 +292,7 @@ export default function ChapterProgress({ userId, userGeneration, userArchetype
     const unlockedChapters = progress.unlockedChapters || [1];
     
     if (completedChapters.includes(chapterNumber)) return 'completed';
+    if (chapterUpgrade(chapterNumber)) return 'upgrade';
     if (unlockedChapters.includes(chapterNumber)) return 'available';
     return 'locked';
   };
@@ -343,12 +372,15 @@ export default function ChapterProgress({ userId, userGeneration, userArchetype
     const geometryIcon = getGeometryIcon(chapter.geometryIcon);
     const directionColor = getDirectionColor(direction);
     const elementGlow = getElementGlow(chapter.element);
+    const upgrade = chapterUpgrade(chapterNumber);
     
     const getChapterClassName = () => {
       let baseClass = "cursor-pointer transition-all duration-300 relative overflow-hidden ";
       
       if (status === 'locked') {
         baseClass += "bg-gray-800/50 border-gray-600/50 ";
+      } else if (status === 'upgrade') {
+        baseClass += "bg-yellow-900/20 border-yellow-500/40 ";
       } else if (status === 'completed') {
         baseClass += "bg-green-900/30 border-green-500/50 ";
         if (isMilestone) baseClass += "ring-2 ring-yellow-400/50 ";
@@ -366,13 +398,20 @@ export default function ChapterProgress({ userId, userGeneration, userArchetype
         initial={{ opacity: 0, scale: 0.9 }}
         animate={{ opacity: 1, scale: 1 }}
         transition={{ delay: chapterNumber * 0.05 }}
-        whileHover={{ scale: status !== 'locked' ? 1.02 : 1 }}
+        whileHover={{ scale: status !== 'locked' && status !== 'upgrade' ? 1.02 : 1 }}
         className="relative"
       >
         <Card 
           className={`${getChapterClassName()} ${directionColor} ${elementGlow}`}
           onClick={() => {
             if (status === 'available') startChapter(chapterNumber);
+            else if (status === 'upgrade' && upgrade) {
+              toast({
+                title: `Chapter ${chapterNumber} requires the ${upgrade.name} plan`,
+                description: `Upgrade to continue beyond chapter ${upgrade.from - 1}.`,
+              });
+              setLocation('/subscribe');
+            }
             else if (status === 'completed') {
               toast({
                 title: "Chapter Completed",
@@ -427,6 +466,7 @@ export default function ChapterProgress({ userId, userGeneration, userArchetype
                   </motion.div>
                 )}
                 {status === 'locked' && <Lock className="w-4 h-4 text-gray-500" />}
+                {status === 'upgrade' && <Crown className="w-4 h-4 text-yellow-400" />}
               </div>
               
               {/* Chapter Status Badge */}
@@ -436,11 +476,13 @@ export default function ChapterProgress({ userId, userGeneration, userArchetype
                   ${status === 'completed' ? 'bg-green-600 text-white' : ''}
                   ${status === 'available' ? 'bg-blue-600 text-white' : ''}
                   ${status === 'locked' ? 'bg-gray-600 text-gray-300' : ''}
+                  ${status === 'upgrade' ? 'border-yellow-400 text-yellow-300' : ''}
                 `}
               >
                 {status === 'completed' && <><CheckCircle className="w-3 h-3 mr-1" />Completed</>}
                 {status === 'available' && <><Play className="w-3 h-3 mr-1" />Start</>}
                 {status === 'locked' && <><Lock className="w-3 h-3 mr-1" />Locked</>}
+                {status === 'upgrade' && <><Crown className="w-3 h-3 mr-1" />{upgrade?.name}</>}
               </Badge>
             </div>
             
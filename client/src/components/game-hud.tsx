@@ -3,7 +3,10 @@ import { User, Trophy, Star, Zap, Crown } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
+import { useQuery } from "@tanstack/react-query";
 import { GameProgressResponse } from "@shared/schema";
+import type { XpSummary } from "@shared/xp";
+import { BadgeShelf } from "@/components/badge-shelf";
 
 interface GameHUDProps {
   gameProgress: GameProgressResponse;
@@ -11,6 +14,9 @@ interface GameHUDProps {
 }
 
 export function GameHUD({ gameProgress, isLoading }: GameHUDProps) {
+  // Level thresholds follow the server's configured level curve
+  const { data: xpSummary } = useQuery<XpSummary>({ queryKey: ['/api/xp'] });
+
   if (isLoading) {
     return (
       <motion.div 
@@ -33,8 +39,8 @@ export function GameHUD({ gameProgress, isLoading }: GameHUDProps) {
   const { user, progress, nextMilestone } = gameProgress;
   const currentLevel = user.level;
   const currentXP = user.experiencePoints;
-  const xpForCurrentLevel = (currentLevel - 1) * 100;
-  const xpForNextLevel = currentLevel * 100;
+  const xpForCurrentLevel = xpSummary?.currentLevelXp ?? (currentLevel - 1) * 100;
+  const xpForNextLevel = xpSummary?.nextLevelXp ?? currentLevel * 100;
   const xpProgress = ((currentXP - xpForCurrentLevel) / (xpForNextLevel - xpForCurrentLevel)) * 100;
   const xpNeeded = xpForNextLevel - currentXP;
 
@@ -161,6 +167,8 @@ export function GameHUD({ gameProgress, isLoading }: GameHUDProps) {
               <Badge variant="outline" className="border-green-400 text-green-300" data-testid="completion-percentage-badge">
                 {completionPercentage}% Complete
               </Badge>
+
+              <BadgeShelf compact />
             </div>
 
             {nextMilestone && (
@@ -136,7 +136,7 @@ export default function QuickActions() {
       <AssessmentModal 
         open={showAssessment}
         onOpenChange={setShowAssessment}
-        stage="r2"
+        stage={user?.currentStage === 'hidden_track' ? 'r5' : user?.currentStage || 'r1'}
       />
     </>
   );
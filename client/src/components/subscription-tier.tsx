@@ -9,7 +9,8 @@ export default function SubscriptionTier() {
   const { user } = useAuth() as any;
   const [, setLocation] = useLocation();
 
-  const currentTier = user?.subscriptionTier || 'seeker';
+  // Organization seats can lift the personal tier
+  const currentTier = user?.effectiveTier || user?.subscriptionTier || 'seeker';
 
   const tierFeatures = {
     seeker: {
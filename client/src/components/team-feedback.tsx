@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { MessageSquareQuote, Send } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Team } from "@shared/schema";
+import { ARCHETYPE_KEYS } from "@shared/archetypes";
+import type { FeedbackGapReport, FeedbackRequestSummary, PendingFeedbackRequest } from "@shared/feedback";
+
+// apiRequest errors read "<status>: <body>"; show the server's message when there is one
+function serverMessage(error: any, fallback: string): string {
+  const body = String(error?.message || '').replace(/^\d+:\s*/, '');
+  try {
+    return JSON.parse(body).message || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+function GapReport({ report }: { report: FeedbackGapReport }) {
+  return (
+    <div className="space-y-3" data-testid="feedback-gap-report">
+      <p className="text-sm">
+        You see yourself as a <span className="font-semibold capitalize">{report.selfPrimary}</span>; your
+        team sees a <span className="font-semibold capitalize">{report.othersPrimary}</span>.
+      </p>
+      {ARCHETYPE_KEYS.map(archetype => (
+        <div key={archetype} className="grid grid-cols-[6rem_1fr_3rem] items-center gap-2 text-sm">
+          <span className="capitalize">{archetype}</span>
+          <div className="space-y-1">
+            <Progress value={report.self[archetype]} className="h-1.5" />
+            <Progress value={report.others[archetype]} className="h-1.5 [&>div]:bg-accent" />
+          </div>
+          <span className={`text-right ${archetype === report.largestGap ? 'font-semibold text-primary' : 'text-muted-foreground'}`}>
+            {report.gaps[archetype] > 0 ? '+' : ''}{report.gaps[archetype]}
+          </span>
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        Top bar: your own assessment. Bottom bar: the average of {report.respondentCount} anonymous responses.
+      </p>
+    </div>
+  );
+}
+
+function FeedbackDialog({ request, onOpenChange }: { request: PendingFeedbackRequest | null; onOpenChange: (open: boolean) => void }) {
+  const [responses, setResponses] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/feedback/${request!.assessmentId}/responses`, { responses });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/feedback/pending'] });
+      toast({ title: "Feedback sent", description: "Your answers are anonymous and only shown as part of the team's average." });
+      setResponses({});
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: serverMessage(error, "Failed to send feedback. Please try again."), variant: "destructive" });
+    },
+  });
+
+  const answered = request ? request.questions.filter(question => responses[question.id]).length : 0;
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto" data-testid="dialog-feedback">
+        <DialogHeader>
+          <DialogTitle>Feedback for {request?.leaderName}</DialogTitle>
+          <DialogDescription>
+            Answer each question as you see {request?.leaderName} lead. Your answers are never shown on their own.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          {request?.questions.map(question => (
+            <div key={question.id}>
+              <h3 className="font-medium mb-3">{question.question}</h3>
+              <RadioGroup
+                value={responses[question.id] || ""}
+                onValueChange={value => setResponses(prev => ({ ...prev, [question.id]: value }))}
+                className="space-y-2"
+              >
+                {question.options.map(option => (
+                  <div key={option.value} className="flex items-start space-x-3">
+                    <RadioGroupItem value={option.value} id={`${question.id}-${option.value}`} className="mt-1" />
+                    <Label htmlFor={`${question.id}-${option.value}`} className="flex-1 cursor-pointer">
+                      <div className="font-medium">{option.title}</div>
+                      <div className="text-sm text-muted-foreground">{option.description}</div>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          ))}
+        </div>
+
+        <Button
+          onClick={() => submitMutation.mutate()}
+          disabled={!request || answered < request.questions.length || submitMutation.isPending}
+          data-testid="button-submit-feedback"
+        >
+          {submitMutation.isPending ? "Sending..." : `Send Feedback (${answered}/${request?.questions.length ?? 0})`}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// 360 feedback: leaders ask their team how they see the leader's archetype and read the gap
+// report; team members answer the requests waiting on them
+export function TeamFeedback() {
+  const { user } = useAuth() as any;
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [teamId, setTeamId] = useState<string>();
+  const [answering, setAnswering] = useState<PendingFeedbackRequest | null>(null);
+
+  const { data: requests = [] } = useQuery<FeedbackRequestSummary[]>({ queryKey: ['/api/feedback'] });
+  const { data: pending = [] } = useQuery<PendingFeedbackRequest[]>({ queryKey: ['/api/feedback/pending'] });
+  const { data: teams = [] } = useQuery<Team[]>({ queryKey: ['/api/teams'], enabled: !!user });
+  const ledTeams = teams.filter(team => team.leaderId === user?.id);
+
+  const requestMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/teams/${id}/feedback`, {});
+      return response.json() as Promise<FeedbackRequestSummary>;
+    },
+    onSuccess: (request) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/feedback'] });
+      toast({ title: "Feedback requested", description: `${request.invited} team members have been asked.` });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: serverMessage(error, "Failed to request feedback."), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6" data-testid="team-feedback">
+      {pending.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold">Waiting on you</h3>
+          {pending.map(request => (
+            <div key={request.assessmentId} className="flex items-center justify-between p-3 bg-secondary/30 rounded-lg">
+              <div className="text-sm">
+                <span className="font-medium">{request.leaderName}</span>
+                {request.teamName && <span className="text-muted-foreground"> · {request.teamName}</span>}
+              </div>
+              <Button size="sm" onClick={() => setAnswering(request)} data-testid={`button-answer-feedback-${request.assessmentId}`}>
+                <MessageSquareQuote className="h-4 w-4 mr-2" />
+                Give Feedback
+              </Button>
+            </div>
+          ))}
+          <Separator />
+        </div>
+      )}
+
+      {ledTeams.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Select value={teamId} onValueChange={setTeamId}>
+            <SelectTrigger className="max-w-xs" data-testid="select-feedback-team">
+              <SelectValue placeholder="Choose a team you lead" />
+            </SelectTrigger>
+            <SelectContent>
+              {ledTeams.map(team => (
+                <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => teamId && requestMutation.mutate(teamId)}
+            disabled={!teamId || requestMutation.isPending}
+            data-testid="button-request-feedback"
+          >
+            <Send className="h-4 w-4 mr-2" />
+            Ask My Team
+          </Button>
+        </div>
+      )}
+
+      {requests.length === 0 ? (
+        <p className="text-muted-foreground text-sm">
+          {ledTeams.length > 0
+            ? "Ask your team how they see you lead and compare it with your own archetype assessment."
+            : "360 feedback is available to team leaders."}
+        </p>
+      ) : (
+        requests.map(request => (
+          <div key={request.assessmentId} className="space-y-3" data-testid={`feedback-request-${request.assessmentId}`}>
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{request.teamName ?? 'Team feedback'}</span>
+              <Badge variant="outline">{request.responded} of {request.invited} responded</Badge>
+            </div>
+            {request.report ? (
+              <GapReport report={request.report} />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Results appear once {request.minRespondents} team members have responded, so no one's answers stand alone.
+              </p>
+            )}
+          </div>
+        ))
+      )}
+
+      <FeedbackDialog request={answering} onOpenChange={open => !open && setAnswering(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { getQueryFn } from "@/lib/queryClient";
+import { canAccessChapter, type EntitlementsResponse } from "@shared/entitlements";
+
+export function useEntitlements(enabled: boolean = true) {
+  const { data: entitlements, isLoading } = useQuery<EntitlementsResponse | null>({
+    queryKey: ["/api/entitlements"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  // Guests and unknown states are not treated as locked; the server still enforces access
+  const chapterUpgrade = (chapterNumber: number) =>
+    entitlements && !canAccessChapter(entitlements, chapterNumber) ? entitlements.upgrades.chapters : null;
+
+  return {
+    entitlements: entitlements ?? undefined,
+    isLoading,
+    chapterUpgrade,
+  };
+}
@@ -5,12 +5,13 @@ import { Progress } from "@/components/ui/progress";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 import Navigation from "@/components/ui/navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { ArchetypeQuestionBank } from "@shared/archetypes";
 
 interface AssessmentModalProps {
   open: boolean;
@@ -45,83 +46,21 @@ const generationInfo = {
   }
 };
 
-const assessmentQuestions = [
-  {
-    id: 1,
-    question: "When facing a significant decision, you tend to:",
-    options: [
-      {
-        value: "vision",
-        title: "Seek vision and inspiration first",
-        description: "You look for the bigger picture and divine guidance",
-      },
-      {
-        value: "analysis",
-        title: "Gather all available information",
-        description: "You prefer thorough analysis before moving forward",
-      },
-      {
-        value: "relationships",
-        title: "Consider impact on relationships",
-        description: "You evaluate how it affects your community and team",
-      },
-    ],
-  },
-  {
-    id: 2,
-    question: "Your natural leadership style is:",
-    options: [
-      {
-        value: "pioneering",
-        title: "Pioneering new paths",
-        description: "You enjoy breaking new ground and exploring possibilities",
-      },
-      {
-        value: "organizing",
-        title: "Organizing and coordinating",
-        description: "You excel at bringing order and structure to chaos",
-      },
-      {
-        value: "building",
-        title: "Building strong foundations",
-        description: "You focus on creating stable, lasting systems",
-      },
-    ],
-  },
-  {
-    id: 3,
-    question: "In team settings, you are most energized by:",
-    options: [
-      {
-        value: "innovation",
-        title: "Innovation and creativity",
-        description: "Generating new ideas and exploring possibilities",
-      },
-      {
-        value: "collaboration",
-        title: "Collaboration and harmony",
-        description: "Bringing people together and facilitating connection",
-      },
-      {
-        value: "execution",
-        title: "Execution and results",
-        description: "Getting things done and achieving measurable outcomes",
-      },
-    ],
-  },
-];
-
 function AssessmentModal({ open, onOpenChange }: AssessmentModalProps) {
   const [step, setStep] = useState<'generation' | 'assessment' | 'results'>('generation');
   const [birthYear, setBirthYear] = useState<string>('');
   const [email, setEmail] = useState<string>('');
   const [generation, setGeneration] = useState<string>('');
   const [currentQuestion, setCurrentQuestion] = useState(0);
-  const [responses, setResponses] = useState<Record<number, string>>({});
+  const [responses, setResponses] = useState<Record<string, string>>({});
   const [results, setResults] = useState<any>(null);
   const { toast } = useToast();
   const [, setLocation] = useLocation();
 
+  // Questions come from the server's question bank, which also scores the answers
+  const { data: questionBank } = useQuery<ArchetypeQuestionBank>({ queryKey: ['/api/assessment/question-bank'] });
+  const assessmentQuestions = questionBank?.questions ?? [];
+
   const submitAssessmentMutation = useMutation({
     mutationFn: async (assessmentData: any) => {
       const response = await apiRequest("POST", "/api/assessment/public-submit", assessmentData);
@@ -278,6 +217,9 @@ function AssessmentModal({ open, onOpenChange }: AssessmentModalProps) {
 
   const renderAssessmentStep = () => {
     const currentQuestionData = assessmentQuestions[currentQuestion];
+    if (!currentQuestionData) {
+      return <p className="text-sm text-muted-foreground">Loading questions...</p>;
+    }
     const selectedValue = responses[currentQuestionData.id];
     const progress = ((currentQuestion + 1) / assessmentQuestions.length) * 100;
     
@@ -326,6 +268,11 @@ function AssessmentModal({ open, onOpenChange }: AssessmentModalProps) {
         <div className="space-y-4">
           <div className="p-4 bg-cosmic-purple/10 rounded-lg">
             <h4 className="font-medium text-lg">{results.archetype.charAt(0).toUpperCase() + results.archetype.slice(1)} Leader</h4>
+            {results.secondary && (
+              <p className="text-sm text-muted-foreground mt-1">
+                with {results.secondary} strengths ({Math.round(results.confidence * 100)}% confidence)
+              </p>
+            )}
             <p className="text-sm text-muted-foreground mt-1">
               {generationInfo[results.generation as keyof typeof generationInfo]?.name} Generation
             </p>
@@ -386,7 +333,7 @@ function AssessmentModal({ open, onOpenChange }: AssessmentModalProps) {
               </Button>
               <Button 
                 onClick={handleNext}
-                disabled={!responses[assessmentQuestions[currentQuestion].id] || submitAssessmentMutation.isPending}
+                disabled={!responses[assessmentQuestions[currentQuestion]?.id] || submitAssessmentMutation.isPending}
                 data-testid="button-next"
               >
                 {currentQuestion === assessmentQuestions.length - 1 
@@ -2,7 +2,7 @@ import { useState, useRef, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useLocation } from 'wouter';
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, queryClient, streamRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -19,7 +19,12 @@ import {
   User, 
   Lightbulb,
   Crown,
-  Loader2
+  Loader2,
+  History,
+  Plus,
+  Pencil,
+  Trash2,
+  Square
 } from 'lucide-react';
 
 interface ChatMessage {
@@ -29,6 +34,13 @@ interface ChatMessage {
   archetype?: string;
 }
 
+interface ChatConversation {
+  id: string;
+  title: string;
+  chapterNumber: number | null;
+  updatedAt: string;
+}
+
 export default function Chat() {
   const { user, isAuthenticated, isLoading } = useAuth();
   const { toast } = useToast();
@@ -36,6 +48,11 @@ export default function Chat() {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputMessage, setInputMessage] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [editingConversationId, setEditingConversationId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -61,25 +78,63 @@ export default function Chat() {
     retry: false,
   });
 
-  // Chat mutation
-  const chatMutation = useMutation({
-    mutationFn: async (messageData: { message: string; conversationHistory: any[] }) => {
-      const response = await apiRequest("POST", "/api/chat", messageData);
-      return response.json();
-    },
-    onSuccess: (data) => {
-      const assistantMessage: ChatMessage = {
-        role: 'assistant',
-        content: data.response,
-        timestamp: data.timestamp,
-        archetype: data.archetype
-      };
-      setMessages(prev => [...prev, assistantMessage]);
-      setIsTyping(false);
-    },
-    onError: (error) => {
-      setIsTyping(false);
-      if (isUnauthorizedError(error)) {
+  // Saved conversations
+  const { data: conversations } = useQuery<ChatConversation[]>({
+    queryKey: ['/api/chat/conversations'],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  // Stop any in-flight reply when leaving the page
+  useEffect(() => {
+    return () => streamAbortRef.current?.abort();
+  }, []);
+
+  const cancelStream = () => {
+    streamAbortRef.current?.abort();
+    streamAbortRef.current = null;
+  };
+
+  // Streams the coach's reply token by token into a new assistant message
+  const streamReply = async (message: string) => {
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    setIsStreaming(true);
+    setIsTyping(true);
+    let started = false;
+
+    try {
+      await streamRequest(
+        '/api/chat/stream',
+        { message, ...(conversationId ? { conversationId } : {}) },
+        (event, data) => {
+          if (event === 'token') {
+            if (!started) {
+              started = true;
+              setIsTyping(false);
+              setMessages(prev => [...prev, { role: 'assistant', content: data.text, timestamp: new Date().toISOString() }]);
+            } else {
+              setMessages(prev => {
+                const last = prev[prev.length - 1];
+                return [...prev.slice(0, -1), { ...last, content: last.content + data.text }];
+              });
+            }
+          } else if (event === 'done') {
+            setMessages(prev => {
+              const last = prev[prev.length - 1];
+              return [...prev.slice(0, -1), { ...last, timestamp: data.timestamp, archetype: data.archetype }];
+            });
+            setConversationId(data.conversationId);
+            queryClient.invalidateQueries({ queryKey: ['/api/chat/conversations'] });
+          } else if (event === 'error') {
+            throw new Error(data.message);
+          }
+        },
+        controller.signal
+      );
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      if (isUnauthorizedError(error as Error)) {
         toast({
           title: "Unauthorized",
           description: "You are logged out. Logging in again...",
@@ -90,21 +145,112 @@ export default function Chat() {
         }, 500);
         return;
       }
+      const status = (error as any)?.status;
+      if (status === 402 || status === 429) {
+        toast({
+          title: status === 402 ? "Upgrade required" : "Daily limit reached",
+          description: status === 402
+            ? "AI coaching is available on the Pioneer and Visionary plans."
+            : "You've used today's AI coaching allowance. It resets at midnight UTC.",
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to send message. Please try again.",
         variant: "destructive",
       });
+    } finally {
+      if (streamAbortRef.current === controller) {
+        streamAbortRef.current = null;
+      }
+      setIsTyping(false);
+      setIsStreaming(false);
+    }
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, title }: { id: string; title: string }) => {
+      const response = await apiRequest("PATCH", `/api/chat/conversations/${id}`, { title });
+      return response.json();
+    },
+    onSuccess: () => {
+      setEditingConversationId(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/chat/conversations'] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to rename conversation.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/chat/conversations/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      if (id === conversationId) {
+        startNewConversation();
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/chat/conversations'] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete conversation.",
+        variant: "destructive",
+      });
     },
   });
 
+  const startNewConversation = () => {
+    cancelStream();
+    setConversationId(null);
+    setMessages([]);
+    inputRef.current?.focus();
+  };
+
+  const resumeConversation = async (id: string) => {
+    cancelStream();
+    try {
+      const response = await apiRequest("GET", `/api/chat/conversations/${id}`);
+      const conversation = await response.json();
+      setConversationId(conversation.id);
+      setMessages(conversation.messages.map((message: any) => ({
+        role: message.role,
+        content: message.content,
+        timestamp: message.createdAt,
+      })));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load conversation.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const submitRename = () => {
+    const title = editingTitle.trim();
+    if (!editingConversationId || !title) {
+      setEditingConversationId(null);
+      return;
+    }
+    renameMutation.mutate({ id: editingConversationId, title });
+  };
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, isTyping]);
 
   const handleSendMessage = async () => {
-    if (!inputMessage.trim() || chatMutation.isPending) return;
+    if (!inputMessage.trim() || isStreaming) return;
 
     const userMessage: ChatMessage = {
       role: 'user',
@@ -116,16 +262,8 @@ export default function Chat() {
     setIsTyping(true);
     setInputMessage('');
 
-    // Prepare conversation history for Claude
-    const conversationHistory = messages.map(msg => ({
-      role: msg.role,
-      content: msg.content
-    }));
-
-    chatMutation.mutate({
-      message: userMessage.content,
-      conversationHistory
-    });
+    // The server replays the stored history for this conversation
+    streamReply(userMessage.content);
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -260,14 +398,25 @@ export default function Chat() {
                         className="flex-1 bg-gray-800 border-gray-700 text-white"
                         data-testid="input-chat-message"
                       />
-                      <Button 
-                        onClick={handleSendMessage}
-                        disabled={!inputMessage.trim() || chatMutation.isPending}
-                        className="bg-yellow-600 hover:bg-yellow-700"
-                        data-testid="button-send-message"
-                      >
-                        <Send className="w-4 h-4" />
-                      </Button>
+                      {isStreaming ? (
+                        <Button
+                          onClick={cancelStream}
+                          variant="outline"
+                          className="border-gray-700"
+                          data-testid="button-stop-response"
+                        >
+                          <Square className="w-4 h-4" />
+                        </Button>
+                      ) : (
+                        <Button 
+                          onClick={handleSendMessage}
+                          disabled={!inputMessage.trim()}
+                          className="bg-yellow-600 hover:bg-yellow-700"
+                          data-testid="button-send-message"
+                        >
+                          <Send className="w-4 h-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -276,6 +425,78 @@ export default function Chat() {
 
             {/* Sidebar */}
             <div className="space-y-6">
+              {/* Conversations */}
+              <Card className="bg-gray-900/50 border-gray-800">
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2 text-white">
+                      <History className="w-5 h-5 text-yellow-400" />
+                      Conversations
+                    </CardTitle>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={startNewConversation}
+                      data-testid="button-new-conversation"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {!conversations || conversations.length === 0 ? (
+                    <p className="text-sm text-gray-400">Your conversations will be saved here.</p>
+                  ) : (
+                    conversations.map((conversation) => (
+                      <div
+                        key={conversation.id}
+                        className={`flex items-center gap-2 p-2 rounded-lg text-sm ${conversation.id === conversationId ? 'bg-gray-700/70 text-white' : 'bg-gray-800/50 text-gray-300'}`}
+                        data-testid={`conversation-${conversation.id}`}
+                      >
+                        {editingConversationId === conversation.id ? (
+                          <Input
+                            autoFocus
+                            value={editingTitle}
+                            onChange={(e) => setEditingTitle(e.target.value)}
+                            onBlur={submitRename}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') submitRename();
+                              if (e.key === 'Escape') setEditingConversationId(null);
+                            }}
+                            className="h-7 bg-gray-800 border-gray-700 text-white"
+                            data-testid={`input-rename-conversation-${conversation.id}`}
+                          />
+                        ) : (
+                          <button
+                            onClick={() => resumeConversation(conversation.id)}
+                            className="flex-1 text-left truncate hover:text-white"
+                          >
+                            {conversation.title}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => {
+                            setEditingConversationId(conversation.id);
+                            setEditingTitle(conversation.title);
+                          }}
+                          className="text-gray-500 hover:text-white"
+                          data-testid={`button-rename-conversation-${conversation.id}`}
+                        >
+                          <Pencil className="w-3 h-3" />
+                        </button>
+                        <button
+                          onClick={() => deleteMutation.mutate(conversation.id)}
+                          className="text-gray-500 hover:text-red-400"
+                          data-testid={`button-delete-conversation-${conversation.id}`}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+
               {/* Reflection Questions */}
               {(reflectionData as any)?.questions && (
                 <Card className="bg-gray-900/50 border-gray-800">
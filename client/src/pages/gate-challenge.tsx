@@ -12,6 +12,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import type { GateAttemptFailedResponse, GateAttemptSummary, GateChallenge, GateCompletionResponse } from "@shared/gates";
 import { 
   Crown, 
   Flame, 
@@ -34,17 +35,22 @@ interface GateData {
   bgGradient: string;
   chapter: number;
   hebrewLetter: string;
-  questions: {
-    id: string;
-    type: 'reflection' | 'choice';
-    question: string;
-    description?: string;
-    options?: { value: string; title: string; description: string; }[];
-  }[];
   completionMessage: string;
   spiritualSignificance: string;
 }
 
+// The 422 body when an attempt was scored but did not pass; apiRequest errors read "<status>: <body>"
+function failedAttemptOf(error: any): GateAttemptSummary | null {
+  const message = String(error?.message || '');
+  if (!message.startsWith('422:')) return null;
+  try {
+    return (JSON.parse(message.slice('422:'.length)) as GateAttemptFailedResponse).attempt;
+  } catch {
+    return null;
+  }
+}
+
+// Presentation only; questions and scoring come from the server's versioned gate challenges
 const gateConfigs: Record<string, GateData> = {
   'identity-mirror': {
     id: 'identity_mirror',
@@ -56,31 +62,6 @@ const gateConfigs: Record<string, GateData> = {
     bgGradient: 'from-red-900/20 via-orange-900/10 to-red-900/20',
     chapter: 1,
     hebrewLetter: 'א',
-    questions: [
-      {
-        id: 'calling_recognition',
-        type: 'choice',
-        question: 'How do you currently understand your calling in God\'s Kingdom?',
-        description: 'This reflects your foundation of identity in Christ',
-        options: [
-          { value: 'unclear', title: 'Still discovering', description: 'I am in the process of understanding my calling' },
-          { value: 'emerging', title: 'Beginning to see', description: 'I have some clarity but need more understanding' },
-          { value: 'clear', title: 'Clear vision', description: 'I have a strong sense of my divine calling' }
-        ]
-      },
-      {
-        id: 'identity_foundation',
-        type: 'reflection',
-        question: 'What does "leadership begins at the altar" mean to you personally?',
-        description: 'Reflect on how surrender and worship form the foundation of biblical leadership'
-      },
-      {
-        id: 'personal_altar',
-        type: 'reflection',
-        question: 'Describe your own "altar experience" - a moment when you surrendered your will to God\'s purpose.',
-        description: 'This helps establish your spiritual foundation for leadership'
-      }
-    ],
     completionMessage: 'You have passed through the Identity Mirror Gate! Your foundation at the altar is secure.',
     spiritualSignificance: 'The altar represents complete surrender - the starting point of all biblical leadership. Here you discover that true authority comes from submitted authority.'
   },
@@ -94,31 +75,6 @@ const gateConfigs: Record<string, GateData> = {
     bgGradient: 'from-yellow-900/20 via-amber-900/10 to-yellow-900/20',
     chapter: 25,
     hebrewLetter: 'ה',
-    questions: [
-      {
-        id: 'commissioning_readiness',
-        type: 'choice',
-        question: 'How prepared do you feel to be "sent" by God into leadership?',
-        description: 'The shofar calls those who are ready to be commissioned',
-        options: [
-          { value: 'hesitant', title: 'Still preparing', description: 'I need more time to prepare before being sent' },
-          { value: 'willing', title: 'Willing but nervous', description: 'I am willing but feel the weight of responsibility' },
-          { value: 'ready', title: 'Ready and eager', description: 'I feel prepared and excited to be commissioned' }
-        ]
-      },
-      {
-        id: 'authority_understanding',
-        type: 'reflection',
-        question: 'What does it mean to carry divine authority in your leadership context?',
-        description: 'Consider how God\'s authority flows through submitted leaders'
-      },
-      {
-        id: 'commission_vision',
-        type: 'reflection',
-        question: 'Describe the specific mission or territory God is calling you to influence.',
-        description: 'The shofar calls you to a specific assignment - what is yours?'
-      }
-    ],
     completionMessage: 'The Shofar has sounded! You are commissioned to go forth with divine authority.',
     spiritualSignificance: 'The shofar represents the call to divine commissioning. Like the disciples, you are now prepared to be sent with Kingdom authority and purpose.'
   },
@@ -132,31 +88,6 @@ const gateConfigs: Record<string, GateData> = {
     bgGradient: 'from-emerald-900/20 via-teal-900/10 to-emerald-900/20',
     chapter: 26,
     hebrewLetter: 'ש',
-    questions: [
-      {
-        id: 'multiplication_mindset',
-        type: 'choice',
-        question: 'How do you currently approach developing other leaders?',
-        description: 'Apostolic leaders multiply themselves through others',
-        options: [
-          { value: 'individual', title: 'Focus on individual growth', description: 'I primarily focus on my own development' },
-          { value: 'mentoring', title: 'Actively mentoring others', description: 'I regularly invest in developing other leaders' },
-          { value: 'multiplying', title: 'Creating multiplication systems', description: 'I build systems that develop leaders who develop leaders' }
-        ]
-      },
-      {
-        id: 'network_strategy',
-        type: 'reflection',
-        question: 'What is your strategy for building Kingdom networks that expand beyond yourself?',
-        description: 'Consider how apostolic leaders create movements, not just ministries'
-      },
-      {
-        id: 'legacy_vision',
-        type: 'reflection', 
-        question: 'How do you want to see God\'s Kingdom multiplied through your network in the next 5 years?',
-        description: 'Envision the multiplication impact of your leadership influence'
-      }
-    ],
     completionMessage: 'You have mastered the Network Multiplication pattern! Your influence will multiply exponentially.',
     spiritualSignificance: 'This gate represents apostolic multiplication - the ability to create networks that expand the Kingdom beyond your individual capacity. The flame spreads from torch to torch.'
   },
@@ -170,31 +101,6 @@ const gateConfigs: Record<string, GateData> = {
     bgGradient: 'from-purple-900/20 via-violet-900/10 to-purple-900/20',
     chapter: 27,
     hebrewLetter: 'ת',
-    questions: [
-      {
-        id: 'pattern_integration',
-        type: 'choice',
-        question: 'How well do you understand the complete biblical leadership pattern?',
-        description: 'The twelve gates represent complete spiritual maturity and wisdom',
-        options: [
-          { value: 'partial', title: 'Partial understanding', description: 'I see some pieces but not the whole pattern' },
-          { value: 'emerging', title: 'Pattern emerging', description: 'The complete pattern is becoming clear to me' },
-          { value: 'integrated', title: 'Fully integrated', description: 'I understand and can teach the complete pattern' }
-        ]
-      },
-      {
-        id: 'wisdom_application',
-        type: 'reflection',
-        question: 'How will you apply the wisdom from all twelve gates in your leadership context?',
-        description: 'Consider the integration of all biblical leadership principles'
-      },
-      {
-        id: 'completion_commitment',
-        type: 'reflection',
-        question: 'What is your commitment to stewarding this complete biblical leadership pattern?',
-        description: 'How will you ensure this pattern continues through your influence?'
-      }
-    ],
     completionMessage: 'Congratulations! You have completed the full biblical leadership pattern. You are equipped to lead with divine wisdom.',
     spiritualSignificance: 'The twelve gates represent completion - like the New Jerusalem with twelve foundations and twelve gates. You now carry the complete pattern of biblical leadership wisdom.'
   }
@@ -204,7 +110,7 @@ export default function GateChallenge() {
   const [location] = useLocation();
   const navigate = (path: string) => { window.location.href = path; };
   const gateSlug = location.split('/').pop() || '';
-  const gateType = gateSlug.replace('-', '_');
+  const gateType = gateSlug.replace(/-/g, '_');
   const gateConfig = gateConfigs[gateSlug];
   const { isAuthenticated } = useAuth();
   const { toast } = useToast();
@@ -214,6 +120,7 @@ export default function GateChallenge() {
   const [responses, setResponses] = useState<Record<string, string>>({});
   const [reflections, setReflections] = useState<Record<string, string>>({});
   const [showCompletion, setShowCompletion] = useState(false);
+  const [failedAttempt, setFailedAttempt] = useState<GateAttemptSummary | null>(null);
 
   // Redirect if not authenticated
   useEffect(() => {
@@ -225,6 +132,7 @@ export default function GateChallenge() {
   // Check gate progress
   const { data: gateProgress } = useQuery<{
     completedGates: string[];
+    inProgressGates: string[];
     availableGates: string[];
     currentLevel: number;
     totalXP: number;
@@ -233,6 +141,30 @@ export default function GateChallenge() {
     enabled: isAuthenticated,
   });
 
+  const { data: challenge } = useQuery<GateChallenge>({
+    queryKey: ['/api/gates', gateType, 'challenge'],
+    enabled: isAuthenticated && !!gateConfig,
+  });
+  const questions = challenge?.questions ?? [];
+
+  // Opening an unlocked gate starts it, so the challenge shows as in progress until it is submitted
+  const startGateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/gates/${gateType}/start`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/gates/progress'] });
+    },
+  });
+
+  const shouldStartGate = !!gateProgress?.availableGates?.includes(gateType) && !gateProgress?.inProgressGates?.includes(gateType);
+  useEffect(() => {
+    if (shouldStartGate && startGateMutation.isIdle) {
+      startGateMutation.mutate();
+    }
+  }, [shouldStartGate, startGateMutation]);
+
   // Gate completion mutation
   const completeGateMutation = useMutation({
     mutationFn: async () => {
@@ -242,18 +174,36 @@ export default function GateChallenge() {
       });
       return response.json();
     },
-    onSuccess: (data) => {
+    onSuccess: (data: GateCompletionResponse) => {
+      setFailedAttempt(null);
       setShowCompletion(true);
       queryClient.invalidateQueries({ queryKey: ['/api/gates/progress'] });
       queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
       queryClient.invalidateQueries({ queryKey: ['/api/progress'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/achievements'] });
       
       toast({
         title: "Gate Completed! 🎉",
         description: `You earned ${data.xpEarned} XP and reached level ${data.newLevel}!`,
       });
+      for (const badge of data.newBadges) {
+        toast({
+          title: `🏅 Badge earned: ${badge.name}`,
+          description: badge.description,
+        });
+      }
     },
     onError: (error) => {
+      const attempt = failedAttemptOf(error);
+      if (attempt) {
+        setFailedAttempt(attempt);
+        toast({
+          title: "Not quite yet",
+          description: `Your answers scored ${attempt.score} of the ${attempt.passingScore} needed. Review the feedback and try again.`,
+        });
+        return;
+      }
+
       console.error('Error completing gate:', error);
       toast({
         title: "Error",
@@ -279,8 +229,8 @@ export default function GateChallenge() {
 
   const isGateCompleted = gateProgress?.completedGates?.includes(gateConfig.id) || false;
   const isGateAvailable = gateProgress?.availableGates?.includes(gateConfig.id) || false;
-  const progress = ((currentQuestion + 1) / gateConfig.questions.length) * 100;
-  const currentQuestionData = gateConfig.questions[currentQuestion];
+  const progress = questions.length > 0 ? ((currentQuestion + 1) / questions.length) * 100 : 0;
+  const currentQuestionData = questions[currentQuestion];
 
   const handleResponse = (questionId: string, value: string) => {
     if (currentQuestionData.type === 'choice') {
@@ -291,7 +241,7 @@ export default function GateChallenge() {
   };
 
   const handleNext = () => {
-    if (currentQuestion < gateConfig.questions.length - 1) {
+    if (currentQuestion < questions.length - 1) {
       setCurrentQuestion(prev => prev + 1);
     } else {
       completeGateMutation.mutate();
@@ -304,9 +254,9 @@ export default function GateChallenge() {
     }
   };
 
-  const canProceed = currentQuestionData.type === 'choice' 
+  const canProceed = currentQuestionData?.type === 'choice'
     ? !!responses[currentQuestionData.id]
-    : !!reflections[currentQuestionData.id];
+    : !!currentQuestionData && !!reflections[currentQuestionData.id]?.trim();
 
   if (showCompletion) {
     return (
@@ -391,7 +341,7 @@ export default function GateChallenge() {
               <Crown className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
               <h2 className="text-2xl font-semibold mb-2">Gate Locked</h2>
               <p className="text-muted-foreground mb-4">
-                You must reach Chapter {gateConfig.chapter} to access the {gateConfig.name}.
+                Complete the chapters before Chapter {gateConfig.chapter} to access the {gateConfig.name}.
               </p>
               <Button onClick={() => navigate('/matrix')} data-testid="button-continue-progress">
                 Continue Your Journey
@@ -403,6 +353,17 @@ export default function GateChallenge() {
     );
   }
 
+  if (!currentQuestionData) {
+    return (
+      <div className="min-h-screen cosmic-gradient flex items-center justify-center">
+        <p className="text-muted-foreground">Loading gate challenge...</p>
+      </div>
+    );
+  }
+
+  const wordCount = (reflections[currentQuestionData.id] || '').trim().split(/\s+/).filter(Boolean).length;
+  const attemptFeedback = failedAttempt?.feedback.find(entry => entry.questionId === currentQuestionData.id);
+
   return (
     <div className="min-h-screen cosmic-gradient">
       <div className="max-w-4xl mx-auto px-4 py-8">
@@ -443,7 +404,7 @@ export default function GateChallenge() {
             <div className="flex items-center justify-between mb-4">
               <span className="text-sm font-medium">Progress</span>
               <span className="text-sm text-muted-foreground" data-testid="text-progress">
-                {currentQuestion + 1} of {gateConfig.questions.length}
+                {currentQuestion + 1} of {questions.length}
               </span>
             </div>
             <Progress value={progress} className="h-2" data-testid="progress-gate" />
@@ -506,6 +467,16 @@ export default function GateChallenge() {
                     data-testid="textarea-reflection"
                   />
                 )}
+                {currentQuestionData.type === 'reflection' && currentQuestionData.minWords && (
+                  <p className="text-xs text-muted-foreground mt-2" data-testid="text-word-count">
+                    {wordCount} words · at least {currentQuestionData.minWords} needed
+                  </p>
+                )}
+                {attemptFeedback && (
+                  <p className={`text-sm mt-4 ${attemptFeedback.meetsMinimum ? 'text-muted-foreground' : 'text-destructive'}`} data-testid="text-attempt-feedback">
+                    Last attempt: {attemptFeedback.score}/100 · {attemptFeedback.feedback}
+                  </p>
+                )}
               </CardContent>
             </Card>
           </motion.div>
@@ -523,7 +494,7 @@ export default function GateChallenge() {
           </Button>
           
           <div className="flex items-center gap-2">
-            {Array.from({ length: gateConfig.questions.length }).map((_, index) => (
+            {Array.from({ length: questions.length }).map((_, index) => (
               <div
                 key={index}
                 className={`w-2 h-2 rounded-full transition-colors ${
@@ -539,7 +510,7 @@ export default function GateChallenge() {
             className="bg-cosmic-golden hover:bg-cosmic-golden/80 text-black"
             data-testid="button-next"
           >
-            {currentQuestion === gateConfig.questions.length - 1 ? (
+            {currentQuestion === questions.length - 1 ? (
               completeGateMutation.isPending ? (
                 <>
                   <Sparkles className="w-4 h-4 mr-2 animate-spin" />
@@ -0,0 +1,146 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Building2, Mail } from "lucide-react";
+
+export default function Invitation() {
+  const { token } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+
+  const { data: invitation, isLoading, error } = useQuery({
+    queryKey: [`/api/invitations/${token}`],
+    retry: false,
+  }) as { data: any; isLoading: boolean; error: Error | null };
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/invitations/${token}/accept`);
+    },
+    onSuccess: async () => {
+      toast({
+        title: "Welcome aboard",
+        description: `You have joined ${invitation?.organization?.name || "the organization"}.`,
+      });
+      await queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      setLocation("/organization");
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        window.location.href = "/api/login";
+        return;
+      }
+      toast({
+        title: "Unable to accept invitation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/invitations/${token}/decline`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Invitation declined",
+        description: "The organization has been notified.",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/invitations/${token}`] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Unable to decline invitation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen cosmic-gradient flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  const isPending = invitation?.status === "pending";
+
+  return (
+    <div className="min-h-screen cosmic-gradient flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-card/80 backdrop-blur-sm border-border">
+        <CardHeader className="text-center">
+          <Mail className="h-10 w-10 text-primary mx-auto mb-2" />
+          <CardTitle>Organization Invitation</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {error || !invitation ? (
+            <p className="text-center text-muted-foreground" data-testid="text-invitation-missing">
+              This invitation link is invalid.
+            </p>
+          ) : (
+            <>
+              <div className="text-center space-y-2">
+                <div className="flex items-center justify-center space-x-2">
+                  <Building2 className="h-5 w-5 text-primary" />
+                  <span className="text-lg font-semibold">{invitation.organization?.name}</span>
+                </div>
+                <p className="text-muted-foreground">
+                  Invited as <Badge variant="secondary">{invitation.role}</Badge>
+                </p>
+                {invitation.message && (
+                  <p className="italic text-muted-foreground">"{invitation.message}"</p>
+                )}
+              </div>
+
+              {!isPending ? (
+                <p className="text-center text-muted-foreground" data-testid="text-invitation-status">
+                  This invitation is {invitation.status}.
+                </p>
+              ) : (
+                <div className="flex space-x-4">
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => declineMutation.mutate()}
+                    disabled={declineMutation.isPending}
+                    data-testid="button-decline-invitation"
+                  >
+                    Decline
+                  </Button>
+                  {isAuthenticated ? (
+                    <Button
+                      className="flex-1"
+                      onClick={() => acceptMutation.mutate()}
+                      disabled={acceptMutation.isPending}
+                      data-testid="button-accept-invitation"
+                    >
+                      {acceptMutation.isPending ? "Joining..." : "Accept"}
+                    </Button>
+                  ) : (
+                    <Button
+                      className="flex-1"
+                      onClick={() => { window.location.href = "/api/login"; }}
+                      data-testid="button-login-to-accept"
+                    >
+                      Sign in to accept
+                    </Button>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,8 +3,10 @@ import { Button } from "@/components/ui/button";
 import { useState, useMemo, useEffect, useRef } from "react";
 import { X, Play, BookOpen, ArrowRight, ArrowLeft, Home } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { useEntitlements } from "@/hooks/useEntitlements";
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { UserProgress, CHAPTERS, Chapter } from "@shared/schema";
+import type { TierUpgrade } from "@shared/entitlements";
 import { getElementColor } from "@/lib/sacred-geometry";
 import ChapterProgress from '@/components/chapter-progress';
 import GeometricShapeDisplay from '@/components/geometric-shape-display';
@@ -16,6 +18,7 @@ import { toast } from '@/hooks/use-toast';
 // Remove duplicate types - using shared schema types
 
 type ChatContext = {
+  chapterNumber: number;
   chapterTitle: string;
   bookTheme: string;
   element: string;
@@ -48,6 +51,7 @@ export default function Matrix() {
   const [showChat, setShowChat] = useState<boolean>(false);
   const [chatContext, setChatContext] = useState<ChatContext | null>(null);
   const [chatMessages, setChatMessages] = useState<Array<{role: 'user' | 'assistant', content: string}>>([]);
+  const [chatConversationId, setChatConversationId] = useState<string | null>(null);
   const [showChapterDetail, setShowChapterDetail] = useState<boolean>(false);
   const [selectedChapterForDetail, setSelectedChapterForDetail] = useState<Chapter | null>(null);
   const [hasAutoRedirected, setHasAutoRedirected] = useState<boolean>(false);
@@ -60,6 +64,7 @@ export default function Matrix() {
   const prevShapesRef = useRef<string[] | null>(null);
   
   const queryClient = useQueryClient();
+  const { entitlements, chapterUpgrade } = useEntitlements(!!user);
   
   // Fetch user progress - Allow for guests with fallback (MOVED UP to prevent TDZ errors)
   const { data: userProgress } = useQuery({
@@ -471,9 +476,23 @@ export default function Matrix() {
   };
 
   // AI Chat Integration Functions
+  // Sends the user to plans with a note on which one unlocks the feature
+  const promptUpgrade = (feature: string, upgrade: TierUpgrade) => {
+    toast({
+      title: `${feature} requires the ${upgrade.name} plan`,
+      description: "Choose a plan to continue your journey.",
+    });
+    setLocation('/subscribe');
+  };
+
   const openChapterChat = (chapter: Chapter, e: React.MouseEvent) => {
     e.stopPropagation();
+    if (entitlements?.upgrades.aiCoaching) {
+      promptUpgrade("AI coaching", entitlements.upgrades.aiCoaching);
+      return;
+    }
     setChatContext({
+      chapterNumber: chapter.ch,
       chapterTitle: chapter.chapterTitle,
       bookTheme: chapter.bookTheme,
       element: chapter.element,
@@ -501,6 +520,30 @@ ${chapter.apostle ? `• **Apostle:** ${chapter.apostle}` : ''}
 
 What aspect of this fractal leadership tier would you like to explore?`;
     setChatMessages([{role: 'assistant', content: contextualGreeting}]);
+    setChatConversationId(null);
+    resumeChapterConversation(chapter.ch, contextualGreeting);
+  };
+
+  // Pick up the most recent saved conversation for this chapter, if any
+  const resumeChapterConversation = async (chapterNumber: number, greeting: string) => {
+    try {
+      const listResponse = await fetch(`/api/chat/conversations?chapterNumber=${chapterNumber}`);
+      if (!listResponse.ok) return;
+      const [latest] = await listResponse.json();
+      if (!latest) return;
+
+      const conversationResponse = await fetch(`/api/chat/conversations/${latest.id}`);
+      if (!conversationResponse.ok) return;
+      const conversation = await conversationResponse.json();
+
+      setChatConversationId(conversation.id);
+      setChatMessages([
+        {role: 'assistant', content: greeting},
+        ...conversation.messages.map((message: any) => ({ role: message.role, content: message.content })),
+      ]);
+    } catch (error) {
+      console.error('Chat history error:', error);
+    }
   };
 
   const getBookTheme = (book: string): string => {
@@ -533,13 +576,19 @@ What aspect of this fractal leadership tier would you like to explore?`;
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           message,
-          context: `Chapter: ${chatContext.chapterTitle}, Theme: ${chatContext.bookTheme}, Element: ${chatContext.element}, Temple Space: ${chatContext.templeSpace}, Focus: ${chatContext.spiritualFocus}`
+          chapterNumber: chatContext.chapterNumber,
+          ...(chatConversationId ? { conversationId: chatConversationId } : {})
         })
       });
       
       if (response.ok) {
         const data = await response.json();
+        setChatConversationId(data.conversationId);
         setChatMessages([...newMessages, {role: 'assistant', content: data.response}]);
+      } else if (response.status === 402 || response.status === 429) {
+        // Quota and plan limits are explained inline rather than silently dropped
+        const data = await response.json();
+        setChatMessages([...newMessages, {role: 'assistant', content: data.message}]);
       }
     } catch (error) {
       console.error('Chat error:', error);
@@ -556,12 +605,13 @@ What aspect of this fractal leadership tier would you like to explore?`;
 
 
   function ChapterCard({ chapter, isLocked, onClick }: { chapter: Chapter; isLocked: boolean; onClick: () => void }) {
+    const upgrade = chapterUpgrade(chapter.ch);
     return (
       <div 
         className={`p-4 rounded-lg border cursor-pointer transition-all transform hover:scale-105 relative ${
-          isLocked ? 'opacity-50 cursor-not-allowed' : 'hover:shadow-lg'
+          isLocked || upgrade ? 'opacity-50 cursor-not-allowed' : 'hover:shadow-lg'
         } ${getBookColorClass(chapter.bookColor)}`}
-        onClick={!isLocked ? onClick : undefined}
+        onClick={!isLocked && !upgrade ? onClick : undefined}
       >
         <div className="text-2xl mb-2 text-center">{getGeometryIcon(chapter.geometryIcon)}</div>
         <h3 className="font-bold text-sm mb-2 leading-tight">{chapter.chapterTitle}</h3>
@@ -582,18 +632,31 @@ What aspect of this fractal leadership tier would you like to explore?`;
           <span className="text-cosmic-golden">♪ {chapter.spiritualFrequency}</span>
         </div>
         
-        {!isLocked && (
+        {!isLocked && !upgrade && (
           <Button 
             variant="outline" 
             size="sm"
             className="w-full mt-2 text-xs py-1 h-7 bg-cosmic-golden/10 border-cosmic-golden/30 text-cosmic-golden hover:bg-cosmic-golden/20"
             onClick={(e) => openChapterChat(chapter, e)}
           >
-            💬 Ask AI Coach
+            {entitlements?.upgrades.aiCoaching ? `💬 AI Coach (${entitlements.upgrades.aiCoaching.name})` : '💬 Ask AI Coach'}
           </Button>
         )}
         
-        {isLocked && <div className="mt-2 text-xs flex items-center justify-center gap-1">🔒 Locked</div>}
+        {upgrade ? (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full mt-2 text-xs py-1 h-7"
+            onClick={(e) => {
+              e.stopPropagation();
+              promptUpgrade(`Chapter ${chapter.ch}`, upgrade);
+            }}
+            data-testid={`button-upgrade-chapter-${chapter.ch}`}
+          >
+            👑 Unlock with {upgrade.name}
+          </Button>
+        ) : isLocked && <div className="mt-2 text-xs flex items-center justify-center gap-1">🔒 Locked</div>}
       </div>
     );
   }
@@ -0,0 +1,339 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Elements, PaymentElement, useElements, useStripe } from '@stripe/react-stripe-js';
+import { loadStripe } from '@stripe/stripe-js';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import Navigation from '@/components/ui/navigation';
+import { ArrowLeft, CreditCard, Crown, UserMinus, UserPlus, Users } from 'lucide-react';
+import type { OrganizationBillingResponse } from '@shared/billing';
+
+const stripePromise = import.meta.env.VITE_STRIPE_PUBLIC_KEY ? loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY) : null;
+
+const BILLING_QUERY_KEY = ['/api/organizations/billing'];
+
+// apiRequest errors read "<status>: <body>"; show the server's message when there is one
+function serverMessage(error: any, fallback: string): string {
+  const body = String(error?.message || '').replace(/^\d+:\s*/, '');
+  try {
+    return JSON.parse(body).message || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
+function holderName(holder: { firstName: string | null; lastName: string | null; email: string | null }) {
+  return [holder.firstName, holder.lastName].filter(Boolean).join(' ') || holder.email || 'Unnamed member';
+}
+
+const PlanPaymentForm = ({ onSuccess }: { onSuccess: () => void }) => {
+  const stripe = useStripe();
+  const elements = useElements();
+  const { toast } = useToast();
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setIsProcessing(true);
+    const { error } = await stripe.confirmPayment({
+      elements,
+      confirmParams: {
+        return_url: `${window.location.origin}/organization/billing?success=true`,
+      },
+    });
+
+    if (error) {
+      toast({ title: 'Payment Failed', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Payment Successful!', description: 'Your organization plan is now active.' });
+      onSuccess();
+    }
+    setIsProcessing(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <PaymentElement />
+      <Button type="submit" className="w-full" disabled={!stripe || !elements || isProcessing} data-testid="button-confirm-org-payment">
+        {isProcessing ? 'Processing...' : 'Confirm payment'}
+      </Button>
+    </form>
+  );
+};
+
+export default function OrganizationBilling() {
+  const { toast } = useToast();
+  const [tier, setTier] = useState<'pioneer' | 'visionary'>('pioneer');
+  const [seatCount, setSeatCount] = useState('5');
+  const [clientSecret, setClientSecret] = useState<string | null>(null);
+
+  const { data: billing, isLoading, error } = useQuery<OrganizationBillingResponse>({
+    queryKey: BILLING_QUERY_KEY,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: BILLING_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/entitlements'] });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: serverMessage(error, 'Please try again.'), variant: 'destructive' });
+  };
+
+  const createPlanMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/organizations/billing/subscription', { tier, seats: Number(seatCount) });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      if (data.clientSecret) {
+        setClientSecret(data.clientSecret);
+      }
+      refresh();
+    },
+    onError: onError('Could not start plan'),
+  });
+
+  const updateSeatsMutation = useMutation({
+    mutationFn: async (seats: number) => apiRequest('PATCH', '/api/organizations/billing/subscription', { seats }),
+    onSuccess: () => {
+      toast({ title: 'Seats Updated', description: 'Stripe will prorate the change on your next invoice.' });
+      refresh();
+    },
+    onError: onError('Could not update seats'),
+  });
+
+  const cancelPlanMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', '/api/organizations/billing/subscription/cancel'),
+    onSuccess: () => {
+      toast({ title: 'Plan Canceled', description: 'Seats stay active until the end of the billing period.' });
+      refresh();
+    },
+    onError: onError('Could not cancel plan'),
+  });
+
+  const assignSeatMutation = useMutation({
+    mutationFn: async (userId: string) => apiRequest('POST', '/api/organizations/billing/seats', { userId }),
+    onSuccess: refresh,
+    onError: onError('Could not assign seat'),
+  });
+
+  const revokeSeatMutation = useMutation({
+    mutationFn: async (userId: string) => apiRequest('DELETE', `/api/organizations/billing/seats/${userId}`),
+    onSuccess: refresh,
+    onError: onError('Could not revoke seat'),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen cosmic-gradient flex items-center justify-center">
+        <p className="text-muted-foreground">Loading organization billing...</p>
+      </div>
+    );
+  }
+
+  if (error || !billing) {
+    return (
+      <div className="min-h-screen cosmic-gradient">
+        <Navigation />
+        <div className="max-w-4xl mx-auto px-4 py-16 text-center space-y-4">
+          <p className="text-muted-foreground">{serverMessage(error, 'Organization billing is available to organization admins.')}</p>
+          <Link href="/organization"><Button variant="outline">Back to organization</Button></Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { plan } = billing;
+  const hasOpenPlan = !!plan && (plan.status === 'incomplete' || plan.grantsSeats);
+  const seatsFull = !!plan && billing.seats.length >= plan.seats;
+  const requestedSeats = Number(seatCount);
+  const validSeatCount = Number.isInteger(requestedSeats) && requestedSeats >= 1;
+
+  return (
+    <div className="min-h-screen cosmic-gradient">
+      <Navigation />
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div>
+          <Link href="/organization">
+            <Button variant="ghost" size="sm" className="mb-4" data-testid="link-back-organization">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Organization
+            </Button>
+          </Link>
+          <h1 className="text-3xl font-bold text-foreground mb-2">Organization Billing</h1>
+          <p className="text-muted-foreground">
+            Buy seats once for your whole team. Members with a seat get the plan's tier alongside any personal subscription.
+          </p>
+        </div>
+
+        <Card className="bg-card/80 backdrop-blur-sm border-border">
+          <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+            <CreditCard className="h-5 w-5 text-primary mr-2" />
+            <CardTitle>Plan</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {clientSecret && stripePromise ? (
+              <Elements stripe={stripePromise} options={{ clientSecret }}>
+                <PlanPaymentForm onSuccess={() => { setClientSecret(null); refresh(); }} />
+              </Elements>
+            ) : hasOpenPlan && plan ? (
+              <>
+                <div className="flex flex-wrap items-center gap-3">
+                  <Crown className="h-5 w-5 text-primary" />
+                  <span className="text-lg font-semibold capitalize">{plan.tier}</span>
+                  <Badge variant={plan.grantsSeats ? 'default' : 'secondary'} data-testid="badge-plan-status">{plan.status.replace('_', ' ')}</Badge>
+                  {plan.cancelAtPeriodEnd && <Badge variant="outline">Ends at period end</Badge>}
+                </div>
+                <div className="grid sm:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <div className="text-muted-foreground">Seats in use</div>
+                    <div className="text-2xl font-bold text-primary" data-testid="text-seats-used">{billing.seats.length} / {plan.seats}</div>
+                  </div>
+                  {plan.currentPeriodEnd && (
+                    <div>
+                      <div className="text-muted-foreground">{plan.cancelAtPeriodEnd ? 'Ends on' : 'Renews on'}</div>
+                      <div className="text-lg font-medium">{new Date(plan.currentPeriodEnd).toLocaleDateString()}</div>
+                    </div>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-1">
+                    <label className="text-sm text-muted-foreground" htmlFor="seat-count">Seats</label>
+                    <Input
+                      id="seat-count"
+                      type="number"
+                      min={Math.max(1, billing.seats.length)}
+                      className="w-32"
+                      value={seatCount}
+                      onChange={(e) => setSeatCount(e.target.value)}
+                      data-testid="input-seat-count"
+                    />
+                  </div>
+                  <Button
+                    onClick={() => updateSeatsMutation.mutate(requestedSeats)}
+                    disabled={!validSeatCount || requestedSeats === plan.seats || updateSeatsMutation.isPending}
+                    data-testid="button-update-seats"
+                  >
+                    Update seats
+                  </Button>
+                  {!plan.cancelAtPeriodEnd && (
+                    <Button
+                      variant="outline"
+                      onClick={() => cancelPlanMutation.mutate()}
+                      disabled={cancelPlanMutation.isPending}
+                      data-testid="button-cancel-org-plan"
+                    >
+                      Cancel plan
+                    </Button>
+                  )}
+                </div>
+              </>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-muted-foreground">
+                  {plan ? `Your previous ${plan.tier} plan is ${plan.status}. Start a new plan to reactivate seats.` : 'Your organization has no plan yet.'}
+                </p>
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-1">
+                    <label className="text-sm text-muted-foreground">Tier</label>
+                    <Select value={tier} onValueChange={(value) => setTier(value as 'pioneer' | 'visionary')}>
+                      <SelectTrigger className="w-56" data-testid="select-org-plan-tier">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {billing.pricing.map(option => (
+                          <SelectItem key={option.tier} value={option.tier} disabled={!option.available}>
+                            {option.name} · ${(option.pricePerSeat / 100).toFixed(2)}/seat/month
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-sm text-muted-foreground" htmlFor="new-seat-count">Seats</label>
+                    <Input
+                      id="new-seat-count"
+                      type="number"
+                      min={1}
+                      className="w-32"
+                      value={seatCount}
+                      onChange={(e) => setSeatCount(e.target.value)}
+                      data-testid="input-new-seat-count"
+                    />
+                  </div>
+                  <Button
+                    onClick={() => createPlanMutation.mutate()}
+                    disabled={!validSeatCount || createPlanMutation.isPending}
+                    data-testid="button-start-org-plan"
+                  >
+                    Start plan
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-card/80 backdrop-blur-sm border-border">
+          <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+            <Users className="h-5 w-5 text-primary mr-2" />
+            <CardTitle>Seats</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {billing.members.length === 0 ? (
+              <p className="text-muted-foreground">Invite members to your organization to assign them seats.</p>
+            ) : (
+              <div className="space-y-3">
+                {billing.members.map(member => (
+                  <div
+                    key={member.userId}
+                    className="flex items-center justify-between p-3 rounded-lg bg-muted/30"
+                    data-testid={`seat-member-${member.userId}`}
+                  >
+                    <div>
+                      <div className="font-medium">{holderName(member)}</div>
+                      <div className="text-sm text-muted-foreground">{member.email} · {member.role}</div>
+                    </div>
+                    {member.hasSeat ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => revokeSeatMutation.mutate(member.userId)}
+                        disabled={revokeSeatMutation.isPending}
+                        data-testid={`button-revoke-seat-${member.userId}`}
+                      >
+                        <UserMinus className="mr-2 h-4 w-4" />
+                        Revoke seat
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        onClick={() => assignSeatMutation.mutate(member.userId)}
+                        disabled={!plan?.grantsSeats || seatsFull || assignSeatMutation.isPending}
+                        data-testid={`button-assign-seat-${member.userId}`}
+                      >
+                        <UserPlus className="mr-2 h-4 w-4" />
+                        Assign seat
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
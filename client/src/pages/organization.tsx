@@ -12,9 +12,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Separator } from '@/components/ui/separator';
+import { Link } from 'wouter';
 import Navigation from '@/components/ui/navigation';
 import { isUnauthorizedError } from '@/lib/authUtils';
-import { Building2, Users, Settings, Plus, Crown, Target, TrendingUp, Mail } from 'lucide-react';
+import { Building2, Users, Settings, Plus, Crown, Target, TrendingUp, Mail, CreditCard } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -55,7 +56,7 @@ type CreateOrgForm = z.infer<typeof createOrgSchema>;
 
 const inviteMemberSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
-  role: z.enum(['member', 'leader', 'admin']),
+  role: z.enum(['member', 'leader', 'admin', 'observer']),
   message: z.string().optional(),
 });
 
@@ -72,6 +73,13 @@ export default function Organization() {
     enabled: !!user,
   }) as { data: any };
 
+  const canManageMembers = ['owner', 'admin'].includes(userProfile?.organizationRole);
+
+  const { data: invitations } = useQuery({
+    queryKey: ['/api/organizations/invitations'],
+    enabled: canManageMembers,
+  }) as { data: any[] | undefined };
+
   const createForm = useForm<CreateOrgForm>({
     resolver: zodResolver(createOrgSchema),
     defaultValues: {
@@ -134,6 +142,7 @@ export default function Organization() {
         title: 'Invitation Sent',
         description: 'Team member invitation has been sent via email.',
       });
+      queryClient.invalidateQueries({ queryKey: ['/api/organizations/invitations'] });
       setIsInviteDialogOpen(false);
       inviteForm.reset();
     },
@@ -157,6 +166,26 @@ export default function Organization() {
     },
   });
 
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      return await apiRequest('POST', `/api/organizations/invitations/${invitationId}/revoke`);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Invitation Revoked',
+        description: 'The invitation link will no longer work.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/organizations/invitations'] });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to revoke invitation. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
   const onCreateSubmit = (data: CreateOrgForm) => {
     createOrgMutation.mutate(data);
   };
@@ -433,94 +462,97 @@ export default function Organization() {
                 <CardContent className="space-y-4">
                   <p className="text-muted-foreground">Build and manage cross-generational teams</p>
                   <div className="space-y-3">
-                    <Dialog open={isInviteDialogOpen} onOpenChange={setIsInviteDialogOpen}>
-                      <DialogTrigger asChild>
-                        <Button className="w-full" data-testid="button-invite-member">
-                          <Mail className="mr-2 h-4 w-4" />
-                          Invite Team Member
-                        </Button>
-                      </DialogTrigger>
-                      <DialogContent className="sm:max-w-[500px]">
-                        <DialogHeader>
-                          <DialogTitle>Invite Team Member</DialogTitle>
-                        </DialogHeader>
-                        <Form {...inviteForm}>
-                          <form onSubmit={inviteForm.handleSubmit(onInviteSubmit)} className="space-y-4">
-                            <FormField
-                              control={inviteForm.control}
-                              name="email"
-                              render={({ field }) => (
-                                <FormItem>
-                                  <FormLabel>Email Address</FormLabel>
-                                  <FormControl>
-                                    <Input placeholder="Enter email address" {...field} data-testid="input-invite-email" />
-                                  </FormControl>
-                                  <FormMessage />
-                                </FormItem>
-                              )}
-                            />
-
-                            <FormField
-                              control={inviteForm.control}
-                              name="role"
-                              render={({ field }) => (
-                                <FormItem>
-                                  <FormLabel>Role</FormLabel>
-                                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    {canManageMembers && (
+                      <Dialog open={isInviteDialogOpen} onOpenChange={setIsInviteDialogOpen}>
+                        <DialogTrigger asChild>
+                          <Button className="w-full" data-testid="button-invite-member">
+                            <Mail className="mr-2 h-4 w-4" />
+                            Invite Team Member
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent className="sm:max-w-[500px]">
+                          <DialogHeader>
+                            <DialogTitle>Invite Team Member</DialogTitle>
+                          </DialogHeader>
+                          <Form {...inviteForm}>
+                            <form onSubmit={inviteForm.handleSubmit(onInviteSubmit)} className="space-y-4">
+                              <FormField
+                                control={inviteForm.control}
+                                name="email"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Email Address</FormLabel>
                                     <FormControl>
-                                      <SelectTrigger data-testid="select-invite-role">
-                                        <SelectValue />
-                                      </SelectTrigger>
+                                      <Input placeholder="Enter email address" {...field} data-testid="input-invite-email" />
                                     </FormControl>
-                                    <SelectContent>
-                                      <SelectItem value="member">Member - Basic access</SelectItem>
-                                      <SelectItem value="leader">Leader - Team leadership</SelectItem>
-                                      <SelectItem value="admin">Admin - Full management</SelectItem>
-                                    </SelectContent>
-                                  </Select>
-                                  <FormMessage />
-                                </FormItem>
-                              )}
-                            />
-
-                            <FormField
-                              control={inviteForm.control}
-                              name="message"
-                              render={({ field }) => (
-                                <FormItem>
-                                  <FormLabel>Personal Message (Optional)</FormLabel>
-                                  <FormControl>
-                                    <Textarea 
-                                      placeholder="Add a personal message to the invitation"
-                                      {...field} 
-                                      data-testid="textarea-invite-message"
-                                    />
-                                  </FormControl>
-                                  <FormMessage />
-                                </FormItem>
-                              )}
-                            />
-
-                            <div className="flex justify-end space-x-4">
-                              <Button 
-                                type="button" 
-                                variant="outline" 
-                                onClick={() => setIsInviteDialogOpen(false)}
-                              >
-                                Cancel
-                              </Button>
-                              <Button 
-                                type="submit" 
-                                disabled={inviteMemberMutation.isPending}
-                                data-testid="button-send-invite"
-                              >
-                                {inviteMemberMutation.isPending ? 'Sending...' : 'Send Invitation'}
-                              </Button>
-                            </div>
-                          </form>
-                        </Form>
-                      </DialogContent>
-                    </Dialog>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+
+                              <FormField
+                                control={inviteForm.control}
+                                name="role"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Role</FormLabel>
+                                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                      <FormControl>
+                                        <SelectTrigger data-testid="select-invite-role">
+                                          <SelectValue />
+                                        </SelectTrigger>
+                                      </FormControl>
+                                      <SelectContent>
+                                        <SelectItem value="member">Member - Basic access</SelectItem>
+                                        <SelectItem value="leader">Leader - Team leadership</SelectItem>
+                                        <SelectItem value="admin">Admin - Full management</SelectItem>
+                                        <SelectItem value="observer">Observer - Read-only access</SelectItem>
+                                      </SelectContent>
+                                    </Select>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+
+                              <FormField
+                                control={inviteForm.control}
+                                name="message"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Personal Message (Optional)</FormLabel>
+                                    <FormControl>
+                                      <Textarea 
+                                        placeholder="Add a personal message to the invitation"
+                                        {...field} 
+                                        data-testid="textarea-invite-message"
+                                      />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+
+                              <div className="flex justify-end space-x-4">
+                                <Button 
+                                  type="button" 
+                                  variant="outline" 
+                                  onClick={() => setIsInviteDialogOpen(false)}
+                                >
+                                  Cancel
+                                </Button>
+                                <Button 
+                                  type="submit" 
+                                  disabled={inviteMemberMutation.isPending}
+                                  data-testid="button-send-invite"
+                                >
+                                  {inviteMemberMutation.isPending ? 'Sending...' : 'Send Invitation'}
+                                </Button>
+                              </div>
+                            </form>
+                          </Form>
+                        </DialogContent>
+                      </Dialog>
+                    )}
                     
                     <Button variant="outline" className="w-full">
                       <Users className="mr-2 h-4 w-4" />
@@ -546,10 +578,66 @@ export default function Organization() {
                       <Settings className="mr-2 h-4 w-4" />
                       Manage Permissions
                     </Button>
+                    {canManageMembers && (
+                      <Link href="/organization/billing">
+                        <Button variant="outline" className="w-full" data-testid="link-organization-billing">
+                          <CreditCard className="mr-2 h-4 w-4" />
+                          Billing & Seats
+                        </Button>
+                      </Link>
+                    )}
                   </div>
                 </CardContent>
               </Card>
             </div>
+
+            {/* Invitations */}
+            {canManageMembers && (
+              <Card className="bg-card/80 backdrop-blur-sm border-border">
+                <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+                  <Mail className="h-5 w-5 text-primary mr-2" />
+                  <CardTitle>Invitations</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {!invitations || invitations.length === 0 ? (
+                    <p className="text-muted-foreground">No invitations sent yet</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {invitations.map((invitation: any) => (
+                        <div
+                          key={invitation.id}
+                          className="flex items-center justify-between p-3 rounded-lg bg-muted/30"
+                          data-testid={`invitation-${invitation.id}`}
+                        >
+                          <div>
+                            <div className="font-medium">{invitation.email}</div>
+                            <div className="text-sm text-muted-foreground">
+                              {invitation.role} · expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                            </div>
+                          </div>
+                          <div className="flex items-center space-x-3">
+                            <Badge variant={invitation.status === 'pending' ? 'default' : 'secondary'}>
+                              {invitation.status}
+                            </Badge>
+                            {invitation.status === 'pending' && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                                disabled={revokeInvitationMutation.isPending}
+                                data-testid={`button-revoke-invitation-${invitation.id}`}
+                              >
+                                Revoke
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
           </div>
         )}
       </div>
@@ -10,7 +10,10 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import Navigation from '@/components/ui/navigation';
 import { isUnauthorizedError } from '@/lib/authUtils';
-import { User, Settings, Crown, Zap } from 'lucide-react';
+import { BadgeShelf } from '@/components/badge-shelf';
+import { ArchetypeTrajectory } from '@/components/archetype-trajectory';
+import { TeamFeedback } from '@/components/team-feedback';
+import { User, Settings, Crown, Zap, Award, TrendingUp, Users } from 'lucide-react';
 
 const archetypeColors = {
   Pioneer: 'bg-red-500/20 text-red-700 dark:text-red-300',
@@ -241,6 +244,39 @@ export default function Profile() {
             </CardContent>
           </Card>
 
+          {/* Archetype Trajectory */}
+          <Card className="bg-card/80 backdrop-blur-sm border-border md:col-span-2">
+            <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+              <TrendingUp className="h-5 w-5 text-primary mr-2" />
+              <CardTitle>Archetype Trajectory</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ArchetypeTrajectory />
+            </CardContent>
+          </Card>
+
+          {/* 360 Feedback */}
+          <Card className="bg-card/80 backdrop-blur-sm border-border md:col-span-2">
+            <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+              <Users className="h-5 w-5 text-primary mr-2" />
+              <CardTitle>360 Feedback</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TeamFeedback />
+            </CardContent>
+          </Card>
+
+          {/* Badges */}
+          <Card className="bg-card/80 backdrop-blur-sm border-border md:col-span-2">
+            <CardHeader className="flex flex-row items-center space-y-0 pb-4">
+              <Award className="h-5 w-5 text-primary mr-2" />
+              <CardTitle>Badges</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <BadgeShelf />
+            </CardContent>
+          </Card>
+
         </div>
       </div>
     </div>
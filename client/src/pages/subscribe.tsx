@@ -6,9 +6,12 @@ import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Check, Crown, Star, Users } from "lucide-react";
 import Navigation from "@/components/ui/navigation";
+import BillingHistory from "@/components/billing-history";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import type { BillingState } from "@shared/billing";
 
 if (!import.meta.env.VITE_STRIPE_PUBLIC_KEY) {
   console.warn('VITE_STRIPE_PUBLIC_KEY not configured - subscription upgrades disabled');
@@ -34,15 +37,20 @@ interface SubscriptionStatus {
   stripeStatus?: string;
   cancelAtPeriodEnd?: boolean;
   nextPaymentAmount?: number;
+  isTrialing?: boolean;
+  trialEndsAt?: string | null;
+  promoCode?: string | null;
+  billing?: BillingState;
 }
 
 interface PaymentFormProps {
   clientSecret: string;
   selectedTier: SubscriptionTier;
+  trialEndsAt: string | null;
   onSuccess: () => void;
 }
 
-const PaymentForm = ({ clientSecret, selectedTier, onSuccess }: PaymentFormProps) => {
+const PaymentForm = ({ clientSecret, selectedTier, trialEndsAt, onSuccess }: PaymentFormProps) => {
   const stripe = useStripe();
   const elements = useElements();
   const { toast } = useToast();
@@ -57,12 +65,11 @@ const PaymentForm = ({ clientSecret, selectedTier, onSuccess }: PaymentFormProps
 
     setIsProcessing(true);
 
-    const { error } = await stripe.confirmPayment({
-      elements,
-      confirmParams: {
-        return_url: `${window.location.origin}/subscribe?success=true`,
-      },
-    });
+    // Trials only save the card now; the first charge happens when the trial ends
+    const confirmParams = { return_url: `${window.location.origin}/subscribe?success=true` };
+    const { error } = trialEndsAt
+      ? await stripe.confirmSetup({ elements, confirmParams })
+      : await stripe.confirmPayment({ elements, confirmParams });
 
     if (error) {
       toast({
@@ -72,8 +79,10 @@ const PaymentForm = ({ clientSecret, selectedTier, onSuccess }: PaymentFormProps
       });
     } else {
       toast({
-        title: "Payment Successful!",
-        description: `Welcome to ${selectedTier.name} tier! Your subscription is now active.`,
+        title: trialEndsAt ? "Trial Started!" : "Payment Successful!",
+        description: trialEndsAt
+          ? `Enjoy ${selectedTier.name} until ${new Date(trialEndsAt).toLocaleDateString()}. You won't be charged before then.`
+          : `Welcome to ${selectedTier.name} tier! Your subscription is now active.`,
       });
       onSuccess();
     }
@@ -90,7 +99,11 @@ const PaymentForm = ({ clientSecret, selectedTier, onSuccess }: PaymentFormProps
         disabled={!stripe || !elements || isProcessing}
         data-testid="button-confirm-payment"
       >
-        {isProcessing ? "Processing..." : `Subscribe to ${selectedTier.name} - $${(selectedTier.price / 100).toFixed(2)}/month`}
+        {isProcessing
+          ? "Processing..."
+          : trialEndsAt
+          ? `Start ${selectedTier.name} trial`
+          : `Subscribe to ${selectedTier.name} - $${(selectedTier.price / 100).toFixed(2)}/month`}
       </Button>
     </form>
   );
@@ -113,6 +126,8 @@ export default function Subscribe() {
   const [selectedTier, setSelectedTier] = useState<SubscriptionTier | null>(null);
   const [clientSecret, setClientSecret] = useState<string | null>(null);
   const [showPayment, setShowPayment] = useState(false);
+  const [promoCode, setPromoCode] = useState('');
+  const [trialEndsAt, setTrialEndsAt] = useState<string | null>(null);
   const { toast } = useToast();
 
   // Fetch available tiers
@@ -130,12 +145,14 @@ export default function Subscribe() {
   // Create subscription mutation
   const createSubscriptionMutation = useMutation({
     mutationFn: async (tier: string) => {
-      const response = await apiRequest("POST", "/api/subscription/create", { tier });
+      const code = promoCode.trim();
+      const response = await apiRequest("POST", "/api/subscription/create", { tier, ...(code && tier !== 'seeker' && { promoCode: code }) });
       return response.json();
     },
     onSuccess: (data) => {
       if (data.requiresPayment && data.clientSecret) {
         setClientSecret(data.clientSecret);
+        setTrialEndsAt(data.intentType === 'setup' ? data.trialEndsAt : null);
         setShowPayment(true);
       } else {
         toast({
@@ -144,6 +161,7 @@ export default function Subscribe() {
         });
         refetchSubscription();
         queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/entitlements'] });
       }
     },
     onError: (error: any) => {
@@ -172,6 +190,7 @@ export default function Subscribe() {
     setClientSecret(null);
     refetchSubscription();
     queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/entitlements'] });
   };
 
   const formatPrice = (price: number) => {
@@ -206,7 +225,9 @@ export default function Subscribe() {
           <Card className="bg-card/80 backdrop-blur-sm border-border">
             <CardHeader className="text-center">
               <TierIcon tier={selectedTier.id} />
-              <CardTitle className="text-2xl">Complete Your {selectedTier.name} Subscription</CardTitle>
+              <CardTitle className="text-2xl">
+                {trialEndsAt ? `Start Your ${selectedTier.name} Trial` : `Complete Your ${selectedTier.name} Subscription`}
+              </CardTitle>
               <p className="text-muted-foreground">
                 Secure payment powered by Stripe
               </p>
@@ -217,6 +238,7 @@ export default function Subscribe() {
                 <PaymentForm 
                   clientSecret={clientSecret} 
                   selectedTier={selectedTier}
+                  trialEndsAt={trialEndsAt}
                   onSuccess={handlePaymentSuccess}
                 />
               </Elements>
@@ -253,6 +275,11 @@ export default function Subscribe() {
             <div className="mt-6">
               <Badge variant="secondary" className="text-sm">
                 Current: {currentSubscription.currentTier || 'Seeker'} tier
+                {currentSubscription.isTrialing && currentSubscription.trialEndsAt && (
+                  <span className="ml-2">
+                    • Trial ends: {new Date(currentSubscription.trialEndsAt).toLocaleDateString()}
+                  </span>
+                )}
                 {currentSubscription.isPaid && currentSubscription.nextPaymentDate && (
                   <span className="ml-2">
                     • Next payment: {new Date(currentSubscription.nextPaymentDate).toLocaleDateString()}
@@ -261,6 +288,16 @@ export default function Subscribe() {
               </Badge>
             </div>
           )}
+
+          <div className="mt-6 flex justify-center">
+            <Input
+              value={promoCode}
+              onChange={(e) => setPromoCode(e.target.value)}
+              placeholder="Promotion or trial code"
+              className="max-w-xs text-center"
+              data-testid="input-promo-code"
+            />
+          </div>
         </div>
 
         <div className="grid md:grid-cols-3 gap-8 mb-12">
@@ -332,6 +369,10 @@ export default function Subscribe() {
           ))}
         </div>
 
+        <div className="max-w-4xl mx-auto">
+          <BillingHistory />
+        </div>
+
         {/* Additional Information Section */}
         <div className="max-w-4xl mx-auto">
           <Card className="bg-card/80 backdrop-blur-sm border-border">
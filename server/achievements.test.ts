@@ -0,0 +1,35 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApp, type TestApp } from "./test-app";
+
+describe("POST /api/chapters/:id/complete", () => {
+  let app: TestApp;
+  let cookie: string;
+
+  before(async () => {
+    app = await startTestApp();
+    ({ cookie } = await app.login('guardian_demo'));
+  });
+
+  after(() => app.close());
+
+  it("pays chapter XP once and awards the first chapter badge", async () => {
+    const first = await app.request('POST', '/api/chapters/1/complete', cookie);
+    assert.equal(first.status, 200);
+    assert.equal(first.body.awarded, true);
+    assert.ok(first.body.xpGained > 0);
+    assert.ok(first.body.newBadges.some((badge: { id: string }) => badge.id === 'first_chapter'));
+
+    const again = await app.request('POST', '/api/chapters/1/complete', cookie);
+    assert.equal(again.status, 200);
+    assert.equal(again.body.awarded, false);
+    assert.equal(again.body.xpGained, 0);
+    assert.deepEqual(again.body.newBadges, []);
+  });
+
+  it("lists the badge as earned", async () => {
+    const shelf = await app.request('GET', '/api/achievements', cookie);
+    assert.equal(shelf.status, 200);
+    assert.equal(shelf.body.find((badge: { id: string }) => badge.id === 'first_chapter')?.earned, true);
+  });
+});
@@ -0,0 +1,132 @@
+import type { UserBadge } from "@shared/schema";
+import { CHAPTERS } from "@shared/schema";
+import { ACHIEVEMENTS, type AchievementDefinition, type AchievementRule, type BadgeStatus } from "@shared/achievements";
+import { storage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Everything the rules read, loaded once per evaluation
+interface AchievementContext {
+  completedChapters: number[];
+  chaptersByElement: Map<string, number[]>;
+  sacredShapesMastered: string[];
+  practicesCompleted: number;
+  longestPracticeStreak: number;
+  gatesCompleted: number;
+}
+
+function longestStreak(dayKeys: Set<string>): number {
+  let longest = 0;
+  for (const day of Array.from(dayKeys)) {
+    // Only count forward from the first day of each run
+    if (dayKeys.has(new Date(new Date(day).getTime() - DAY_MS).toISOString().slice(0, 10))) continue;
+    let length = 1;
+    while (dayKeys.has(new Date(new Date(day).getTime() + length * DAY_MS).toISOString().slice(0, 10))) {
+      length++;
+    }
+    longest = Math.max(longest, length);
+  }
+  return longest;
+}
+
+async function loadContext(userId: string): Promise<AchievementContext> {
+  const [progress, matrix, gates, practices] = await Promise.all([
+    storage.getUserProgress(userId),
+    storage.getBiblicalMatrix(),
+    storage.getGateStatus(userId),
+    storage.getUserDailyPractices(userId, new Date(0), new Date()),
+  ]);
+
+  // Falls back to the bundled chapter list before the matrix is seeded
+  const chapters = matrix.length > 0
+    ? matrix.map(entry => ({ chapterNumber: entry.chapterNumber, element: entry.element }))
+    : CHAPTERS.map(chapter => ({ chapterNumber: chapter.ch, element: chapter.element }));
+  const chaptersByElement = new Map<string, number[]>();
+  for (const { chapterNumber, element } of chapters) {
+    chaptersByElement.set(element, [...(chaptersByElement.get(element) ?? []), chapterNumber]);
+  }
+
+  const completedPractices = practices.filter(practice => practice.completed);
+
+  return {
+    completedChapters: progress?.completedChapters ?? [],
+    chaptersByElement,
+    sacredShapesMastered: progress?.sacredShapesMastered ?? [],
+    practicesCompleted: completedPractices.length,
+    longestPracticeStreak: longestStreak(new Set(completedPractices.map(practice => practice.date.toISOString().slice(0, 10)))),
+    gatesCompleted: gates.filter(gate => gate.state === 'completed').length,
+  };
+}
+
+function ruleProgress(rule: AchievementRule, context: AchievementContext): { progress: number; target: number } {
+  switch (rule.type) {
+    case 'chapters_completed':
+      return { progress: context.completedChapters.length, target: rule.count };
+    case 'element_chapters': {
+      const chapters = context.chaptersByElement.get(rule.element) ?? [];
+      return { progress: chapters.filter(chapter => context.completedChapters.includes(chapter)).length, target: chapters.length };
+    }
+    case 'practices_completed':
+      return { progress: context.practicesCompleted, target: rule.count };
+    case 'practice_streak':
+      return { progress: context.longestPracticeStreak, target: rule.days };
+    case 'sacred_shapes':
+      return { progress: context.sacredShapesMastered.length, target: rule.count };
+    case 'gates_completed':
+      return { progress: context.gatesCompleted, target: rule.count };
+  }
+}
+
+function toBadgeStatus(achievement: AchievementDefinition, context: AchievementContext, badge?: UserBadge): BadgeStatus {
+  const { progress, target } = ruleProgress(achievement.rule, context);
+  return {
+    id: achievement.id,
+    name: achievement.name,
+    description: achievement.description,
+    icon: achievement.icon,
+    earned: !!badge,
+    awardedAt: badge?.awardedAt?.toISOString() ?? null,
+    progress: badge ? target : Math.min(progress, target),
+    target,
+  };
+}
+
+async function awardMetAchievements(userId: string, context: AchievementContext, badges: UserBadge[]): Promise<UserBadge[]> {
+  const earned = new Set(badges.map(badge => badge.badgeId));
+  const awarded: UserBadge[] = [];
+
+  for (const achievement of ACHIEVEMENTS) {
+    if (earned.has(achievement.id)) continue;
+    const { progress, target } = ruleProgress(achievement.rule, context);
+    // An element with no chapters in the matrix has nothing to complete
+    if (target === 0 || progress < target) continue;
+
+    const badge = await storage.awardBadge({ userId, badgeId: achievement.id });
+    if (badge) awarded.push(badge);
+  }
+
+  return awarded;
+}
+
+// Awards every badge whose rule is now met. Called after progress events (chapters, gates,
+// practices); returns only the badges this call awarded so the caller can announce them.
+// Badges are never taken back, even if the progress behind them is later reset.
+export async function evaluateAchievements(userId: string): Promise<BadgeStatus[]> {
+  const [context, badges] = await Promise.all([loadContext(userId), storage.getUserBadges(userId)]);
+  const awarded = await awardMetAchievements(userId, context, badges);
+
+  return awarded.map(badge =>
+    toBadgeStatus(ACHIEVEMENTS.find(achievement => achievement.id === badge.badgeId)!, context, badge)
+  );
+}
+
+// Every badge with the user's progress toward it. Evaluates first, so progress made before the
+// badge (or the badge system) existed is recognised the first time the shelf is shown.
+export async function getBadgeShelf(userId: string): Promise<BadgeStatus[]> {
+  const [context, badges] = await Promise.all([loadContext(userId), storage.getUserBadges(userId)]);
+  const allBadges = [...badges, ...await awardMetAchievements(userId, context, badges)];
+
+  return ACHIEVEMENTS.map(achievement =>
+    toBadgeStatus(achievement, context, allBadges.find(badge => badge.badgeId === achievement.id))
+  );
+}
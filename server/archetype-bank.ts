@@ -0,0 +1,134 @@
+import type { Archetype } from "@shared/schema";
+import type { ArchetypeQuestionBank } from "@shared/archetypes";
+
+// The archetype assessment's questions with how each answer loads on the four archetypes. Published
+// versions are kept, never edited, so earlier assessments stay explainable by the bank that scored
+// them; changes go in a new version.
+
+export interface ArchetypeOptionDefinition {
+  value: string;
+  title: string;
+  description: string;
+  loadings: Partial<Record<Archetype, number>>; // 0-1 per archetype; missing archetypes load 0
+}
+
+export interface ArchetypeQuestionDefinition {
+  id: string;
+  question: string;
+  weight?: number; // relative to the other questions, default 1
+  options: ArchetypeOptionDefinition[];
+}
+
+export interface ArchetypeQuestionBankDefinition {
+  version: number;
+  questions: ArchetypeQuestionDefinition[];
+}
+
+export const ARCHETYPE_QUESTION_BANKS: ArchetypeQuestionBankDefinition[] = [
+  {
+    version: 1,
+    questions: [
+      {
+        id: 'decision_approach',
+        question: 'When facing a significant decision, you tend to:',
+        options: [
+          { value: 'vision', title: 'Seek vision and inspiration first', description: 'You look for the bigger picture and divine guidance', loadings: { pioneer: 1, builder: 0.2 } },
+          { value: 'analysis', title: 'Gather all available information', description: 'You prefer thorough analysis before moving forward', loadings: { organizer: 0.8, guardian: 0.4 } },
+          { value: 'relationships', title: 'Consider impact on relationships', description: 'You evaluate how it affects your community and team', loadings: { builder: 0.7, guardian: 0.5 } },
+          { value: 'precedent', title: 'Look to what has proven faithful', description: 'You weigh the decision against tested wisdom and tradition', loadings: { guardian: 1, organizer: 0.2 } },
+        ],
+      },
+      {
+        id: 'leadership_style',
+        question: 'Your natural leadership style is:',
+        weight: 1.5,
+        options: [
+          { value: 'pioneering', title: 'Pioneering new paths', description: 'You enjoy breaking new ground and exploring possibilities', loadings: { pioneer: 1 } },
+          { value: 'organizing', title: 'Organizing and coordinating', description: 'You excel at bringing order and structure to chaos', loadings: { organizer: 1 } },
+          { value: 'building', title: 'Building strong foundations', description: 'You focus on creating stable, lasting systems', loadings: { builder: 1, organizer: 0.2 } },
+          { value: 'protecting', title: 'Protecting people and values', description: 'You guard what matters and keep others safe', loadings: { guardian: 1 } },
+        ],
+      },
+      {
+        id: 'team_energy',
+        question: 'In team settings, you are most energized by:',
+        options: [
+          { value: 'innovation', title: 'Innovation and creativity', description: 'Generating new ideas and exploring possibilities', loadings: { pioneer: 1 } },
+          { value: 'collaboration', title: 'Collaboration and harmony', description: 'Bringing people together and facilitating connection', loadings: { builder: 0.6, guardian: 0.4, organizer: 0.2 } },
+          { value: 'execution', title: 'Execution and results', description: 'Getting things done and achieving measurable outcomes', loadings: { builder: 0.7, organizer: 0.5 } },
+          { value: 'stability', title: 'Stability and trust', description: 'Keeping the team steady, loyal and safe', loadings: { guardian: 1 } },
+        ],
+      },
+      {
+        id: 'boundaries',
+        question: 'How do you define boundaries in leadership?',
+        options: [
+          { value: 'clear_expectations', title: 'Clear expectations and roles', description: 'Define what each person should do and when', loadings: { organizer: 0.8, guardian: 0.5 } },
+          { value: 'flexible_guidelines', title: 'Flexible guidelines', description: 'Provide direction while allowing adaptation', loadings: { pioneer: 0.6, builder: 0.4 } },
+          { value: 'collaborative_agreements', title: 'Collaborative agreements', description: 'Co-create boundaries with team input', loadings: { builder: 0.8, organizer: 0.2 } },
+          { value: 'guarded_standards', title: 'Guarded standards', description: 'Hold firm lines that protect the team and its values', loadings: { guardian: 1 } },
+        ],
+      },
+      {
+        id: 'conflict_response',
+        question: 'When conflict arises on your team, you usually:',
+        options: [
+          { value: 'direct', title: 'Address it head-on', description: 'Name the issue quickly and move everyone forward', loadings: { pioneer: 0.8, organizer: 0.3 } },
+          { value: 'process', title: 'Follow a clear process', description: 'Use agreed steps so the outcome is fair', loadings: { organizer: 1 } },
+          { value: 'mediate', title: 'Bridge the people involved', description: 'Help each side understand the other', loadings: { builder: 0.8, guardian: 0.3 } },
+          { value: 'preserve', title: 'Protect the unity of the whole', description: 'Keep the peace and the team\'s values intact', loadings: { guardian: 1 } },
+        ],
+      },
+      {
+        id: 'change_posture',
+        question: 'When your organization faces major change, you:',
+        options: [
+          { value: 'lead_change', title: 'Lead the charge', description: 'Change is an opportunity to go somewhere new', loadings: { pioneer: 1 } },
+          { value: 'plan_change', title: 'Plan the transition', description: 'Map out the steps, owners and timelines', loadings: { organizer: 1, builder: 0.2 } },
+          { value: 'equip_change', title: 'Equip people for it', description: 'Make sure everyone has what they need to adapt', loadings: { builder: 1 } },
+          { value: 'test_change', title: 'Test it carefully', description: 'Make sure the change honours what must not be lost', loadings: { guardian: 1, organizer: 0.2 } },
+        ],
+      },
+      {
+        id: 'biblical_model',
+        question: 'Which biblical leader\'s story resonates with you most?',
+        weight: 0.5,
+        options: [
+          { value: 'abraham', title: 'Abraham', description: 'Going out not knowing where, trusting the promise', loadings: { pioneer: 1 } },
+          { value: 'nehemiah', title: 'Nehemiah', description: 'Planning, organizing and rebuilding the wall', loadings: { organizer: 1 } },
+          { value: 'barnabas', title: 'Barnabas', description: 'Encouraging and developing others into their calling', loadings: { builder: 1 } },
+          { value: 'daniel', title: 'Daniel', description: 'Standing faithful and guarding truth under pressure', loadings: { guardian: 1 } },
+        ],
+      },
+      {
+        id: 'success_measure',
+        question: 'You feel most successful when:',
+        options: [
+          { value: 'breakthrough', title: 'Something new breaks through', description: 'A vision becomes reality for the first time', loadings: { pioneer: 1 } },
+          { value: 'smooth_running', title: 'Everything runs smoothly', description: 'Systems work and nothing falls through the cracks', loadings: { organizer: 1 } },
+          { value: 'people_grow', title: 'People grow', description: 'Those you invested in are leading well', loadings: { builder: 1 } },
+          { value: 'kept_safe', title: 'What matters is kept safe', description: 'People and values came through a storm intact', loadings: { guardian: 1 } },
+        ],
+      },
+    ],
+  },
+];
+
+// The latest version, or a specific one when re-reading an earlier assessment
+export function getArchetypeQuestionBank(version?: number): ArchetypeQuestionBankDefinition | undefined {
+  if (version !== undefined) {
+    return ARCHETYPE_QUESTION_BANKS.find(bank => bank.version === version);
+  }
+  return [...ARCHETYPE_QUESTION_BANKS].sort((a, b) => b.version - a.version)[0];
+}
+
+export function toPublicQuestionBank(bank: ArchetypeQuestionBankDefinition): ArchetypeQuestionBank {
+  return {
+    version: bank.version,
+    questions: bank.questions.map(question => ({
+      id: question.id,
+      question: question.question,
+      options: question.options.map(({ value, title, description }) => ({ value, title, description })),
+    })),
+  };
+}
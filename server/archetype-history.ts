@@ -0,0 +1,100 @@
+import { z } from "zod";
+import type { Assessment, Organization } from "@shared/schema";
+import {
+  ARCHETYPE_KEYS,
+  type ArchetypeDrift, type ArchetypeHistoryPoint, type ArchetypeHistoryResponse, type ArchetypeRetakeSchedule, type ArchetypeScoreResult,
+} from "@shared/archetypes";
+import { storage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Quarterly unless the organization sets its own interval
+export const DEFAULT_ARCHETYPE_RETAKE_DAYS = 90;
+
+// Stored under organizations.settings.assessments
+export const assessmentSettingsSchema = z.object({
+  archetypeRetakeDays: z.number().int().min(30).max(730),
+});
+
+export type AssessmentSettings = z.infer<typeof assessmentSettingsSchema>;
+
+export function getOrganizationAssessmentSettings(organization?: Organization): AssessmentSettings | undefined {
+  const parsed = assessmentSettingsSchema.safeParse((organization?.settings as any)?.assessments);
+  return parsed.success ? parsed.data : undefined;
+}
+
+// Retakes are a prompt, not a lock: the assessment can be taken again at any time
+export function getRetakeSchedule(points: ArchetypeHistoryPoint[], intervalDays: number, now = new Date()): ArchetypeRetakeSchedule {
+  const last = points[points.length - 1];
+  if (!last) return { intervalDays, lastTakenAt: null, nextDueAt: null, due: true };
+
+  const nextDue = new Date(new Date(last.completedAt).getTime() + intervalDays * DAY_MS);
+  return { intervalDays, lastTakenAt: last.completedAt, nextDueAt: nextDue.toISOString(), due: nextDue <= now };
+}
+
+export function analyzeArchetypeDrift(points: ArchetypeHistoryPoint[]): ArchetypeDrift[] {
+  const drift: ArchetypeDrift[] = [];
+
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    const current = points[i];
+    if (previous.primary === current.primary) continue;
+
+    const scoreChanges = {} as ArchetypeDrift['scoreChanges'];
+    for (const archetype of ARCHETYPE_KEYS) {
+      scoreChanges[archetype] = current.scores[archetype] - previous.scores[archetype];
+    }
+    drift.push({
+      fromAssessmentId: previous.assessmentId,
+      toAssessmentId: current.assessmentId,
+      at: current.completedAt,
+      from: previous.primary,
+      to: current.primary,
+      scoreChanges,
+    });
+  }
+
+  return drift;
+}
+
+// Archetype assessments scored before the question bank have no score vector and are left out
+function toHistoryPoint(assessment: Assessment): ArchetypeHistoryPoint | null {
+  const results = assessment.results as Partial<ArchetypeScoreResult> | null;
+  if (assessment.kind !== 'archetype' || !assessment.completedAt || !results?.scores || !results.primary) return null;
+
+  return {
+    assessmentId: assessment.id,
+    completedAt: assessment.completedAt.toISOString(),
+    stage: assessment.stage,
+    bankVersion: results.bankVersion ?? assessment.bankVersion ?? 1,
+    scores: results.scores,
+    primary: results.primary,
+    secondary: results.secondary ?? results.primary,
+    confidence: results.confidence ?? 0,
+  };
+}
+
+export async function getArchetypeHistory(userId: string): Promise<ArchetypeHistoryResponse> {
+  const [assessments, stageChanges, organization] = await Promise.all([
+    storage.getUserAssessments(userId),
+    storage.getStageChanges(userId),
+    storage.getUserOrganization(userId),
+  ]);
+
+  const points = assessments
+    .map(toHistoryPoint)
+    .filter((point): point is ArchetypeHistoryPoint => point !== null)
+    .sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+  const intervalDays = getOrganizationAssessmentSettings(organization)?.archetypeRetakeDays ?? DEFAULT_ARCHETYPE_RETAKE_DAYS;
+
+  return {
+    points,
+    stageChanges: stageChanges.map(change => ({
+      fromStage: change.fromStage,
+      toStage: change.toStage,
+      changedAt: (change.changedAt ?? new Date()).toISOString(),
+    })),
+    drift: analyzeArchetypeDrift(points),
+    retake: getRetakeSchedule(points, intervalDays),
+  };
+}
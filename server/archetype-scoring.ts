@@ -0,0 +1,54 @@
+import type { Archetype } from "@shared/schema";
+import { ARCHETYPE_KEYS, type ArchetypeScoreResult } from "@shared/archetypes";
+import type { ArchetypeQuestionBankDefinition } from "./archetype-bank";
+
+// Unanswered questions and answers that are not options; scoring only runs on complete submissions
+export function validateArchetypeResponses(bank: ArchetypeQuestionBankDefinition, responses: Record<string, string>): string[] {
+  const issues: string[] = [];
+
+  for (const question of bank.questions) {
+    const answer = responses[question.id];
+    if (!answer) {
+      issues.push(`Choose an answer for "${question.question}"`);
+    } else if (!question.options.some(option => option.value === answer)) {
+      issues.push(`"${answer}" is not an option for "${question.question}"`);
+    }
+  }
+
+  return issues;
+}
+
+// Each answer adds its weighted loadings. An archetype's score is its total as a share of the most
+// it could have scored across the bank, so archetypes with fewer loadings are not penalised.
+// Confidence is the primary's lead over the secondary relative to the primary's own score.
+export function scoreArchetype(bank: ArchetypeQuestionBankDefinition, responses: Record<string, string>): ArchetypeScoreResult {
+  const totals = { pioneer: 0, organizer: 0, builder: 0, guardian: 0 } as Record<Archetype, number>;
+  const maximums = { pioneer: 0, organizer: 0, builder: 0, guardian: 0 } as Record<Archetype, number>;
+
+  for (const question of bank.questions) {
+    const weight = question.weight ?? 1;
+    const chosen = question.options.find(option => option.value === responses[question.id]);
+
+    for (const archetype of ARCHETYPE_KEYS) {
+      maximums[archetype] += weight * Math.max(...question.options.map(option => option.loadings[archetype] ?? 0));
+      totals[archetype] += weight * (chosen?.loadings[archetype] ?? 0);
+    }
+  }
+
+  const scores = {} as Record<Archetype, number>;
+  for (const archetype of ARCHETYPE_KEYS) {
+    scores[archetype] = maximums[archetype] > 0 ? Math.round((totals[archetype] / maximums[archetype]) * 100) : 0;
+  }
+
+  // Ties keep ARCHETYPE_KEYS order
+  const [primary, secondary] = [...ARCHETYPE_KEYS].sort((a, b) => scores[b] - scores[a]);
+  const confidence = scores[primary] > 0 ? (scores[primary] - scores[secondary]) / scores[primary] : 0;
+
+  return {
+    bankVersion: bank.version,
+    scores,
+    primary,
+    secondary,
+    confidence: Math.round(confidence * 100) / 100,
+  };
+}
@@ -0,0 +1,65 @@
+import type { Assessment, User } from "@shared/schema";
+import type { ArchetypeScoreResult } from "@shared/archetypes";
+import { storage } from "./storage";
+import { getGenerationalTools } from "./generational-tools";
+
+// What POST /api/assessment/public-submit keeps in the session until the visitor signs in
+export interface PendingAssessment extends ArchetypeScoreResult {
+  archetype: ArchetypeScoreResult['primary'];
+  generation: string; // 'gen-z', 'millennial', 'gen-x', 'boomer', 'silent'
+  birthYear: number;
+  email: string | null;
+  submittedAt: string;
+  responses: Record<string, string>;
+}
+
+interface PendingAssessmentSession {
+  assessmentResults?: PendingAssessment;
+}
+
+// users.generation uses underscores where the generation helpers use hyphens
+function toUserGeneration(generation: string): User['generation'] {
+  return generation.replace('-', '_') as User['generation'];
+}
+
+// Saves an anonymous assessment from the session against the user who just signed in: a completed
+// archetype assessment, their archetype and generation, and (for users who have not started the
+// matrix yet) progress opened at the starting chapter recommended for them. Each session's
+// assessment is claimed once, and a failed claim never blocks sign-in.
+export async function claimPendingAssessment(session: PendingAssessmentSession | undefined, userId: string): Promise<Assessment | null> {
+  const pending = session?.assessmentResults;
+  if (!pending) return null;
+  delete session.assessmentResults;
+
+  try {
+    const user = await storage.getUser(userId);
+    if (!user) return null;
+
+    const { archetype, generation, birthYear, email, submittedAt, responses, ...result } = pending;
+    const assessment = await storage.createAssessment({
+      userId,
+      stage: user.currentStage || 'r1',
+      kind: 'archetype',
+      responses,
+      results: result,
+      bankVersion: result.bankVersion,
+      completedAt: new Date(submittedAt),
+    });
+
+    await storage.upsertUser({ archetype, generation: toUserGeneration(generation) }, userId);
+    await storage.setUserGeneration(userId, birthYear);
+
+    const progress = await storage.getUserProgress(userId);
+    if (!progress?.completedChapters.length) {
+      const startingChapter = getGenerationalTools(generation, archetype).chapter;
+      await storage.seedUserProgress(userId, startingChapter);
+      await storage.unlockChapter(userId, startingChapter); // starts its practice clock
+    }
+
+    return assessment;
+  } catch (error) {
+    // Signing in must still succeed; the visitor can retake the assessment
+    console.error("Error claiming session assessment:", error);
+    return null;
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { startTestApp, createTestOrganization, type TestApp } from "./test-app";
+
+// pioneer owns the organization and leads its team, organizer is an admin, builder a member;
+// guardian belongs to no organization
+describe("authorization middleware", () => {
+  let app: TestApp;
+  const users: Record<string, { userId: string; cookie: string }> = {};
+  let teamId: string;
+  let organizationId: string;
+
+  before(async () => {
+    app = await startTestApp();
+    for (const name of ['pioneer', 'organizer', 'builder', 'guardian']) {
+      users[name] = await app.login(`${name}_demo`);
+    }
+    const organization = await createTestOrganization({
+      [users.pioneer.userId]: 'owner',
+      [users.organizer.userId]: 'admin',
+      [users.builder.userId]: 'member',
+    });
+    organizationId = organization.id;
+    const team = await storage.createTeam({ name: 'Core', organizationId, leaderId: users.pioneer.userId });
+    teamId = team.id;
+  });
+
+  after(() => app.close());
+
+  describe("requireTeamAccess", () => {
+    it("hides a team from users outside its organization", async () => {
+      const response = await app.request('GET', `/api/teams/${teamId}`, users.guardian.cookie);
+      assert.equal(response.status, 403);
+    });
+
+    it("returns 404 for a team that does not exist", async () => {
+      const response = await app.request('GET', '/api/teams/no-such-team', users.pioneer.cookie);
+      assert.equal(response.status, 404);
+    });
+
+    it("lets members view but not manage a team", async () => {
+      assert.equal((await app.request('GET', `/api/teams/${teamId}`, users.builder.cookie)).status, 200);
+      const response = await app.request('PATCH', `/api/teams/${teamId}`, users.builder.cookie, { name: 'Renamed' });
+      assert.equal(response.status, 403);
+    });
+  });
+
+  describe("requireUserAccess", () => {
+    it("keeps a member out of another user's records", async () => {
+      const response = await app.request('GET', `/api/user/${users.pioneer.userId}/progress`, users.builder.cookie);
+      assert.equal(response.status, 403);
+    });
+
+    it("rejects requests without a session", async () => {
+      const response = await app.request('GET', `/api/user/${users.pioneer.userId}/progress`);
+      assert.equal(response.status, 401);
+    });
+  });
+
+  describe("requireOrganizationRole", () => {
+    it("returns 404 for users without an organization", async () => {
+      const response = await app.request('GET', '/api/organizations/invitations', users.guardian.cookie);
+      assert.equal(response.status, 404);
+    });
+
+    it("keeps members out of admin routes", async () => {
+      const response = await app.request('POST', '/api/organizations/invite', users.builder.cookie, { email: 'new@example.com' });
+      assert.equal(response.status, 403);
+    });
+
+    it("stops an admin from promoting a member to owner or admin", async () => {
+      for (const role of ['owner', 'admin']) {
+        const response = await app.request('PATCH', `/api/organizations/members/${users.builder.userId}`, users.organizer.cookie, { role });
+        assert.equal(response.status, 403);
+      }
+      assert.equal((await storage.getOrganizationMember(organizationId, users.builder.userId))?.role, 'member');
+    });
+
+    it("stops an admin from inviting an admin", async () => {
+      const response = await app.request('POST', '/api/organizations/invite', users.organizer.cookie, { email: 'admin@example.com', role: 'admin' });
+      assert.equal(response.status, 403);
+    });
+  });
+
+  describe("requirePlatformAdmin", () => {
+    it("keeps organization owners out of platform admin routes", async () => {
+      const response = await app.request('GET', '/api/admin/stripe-events', users.pioneer.cookie);
+      assert.equal(response.status, 403);
+    });
+  });
+
+  describe("PATCH /api/auth/user", () => {
+    it("ignores fields outside the profile", async () => {
+      const other = await storage.createOrganization({ name: 'Elsewhere', type: 'smb' });
+      const original = await storage.getUser(users.builder.userId);
+      const response = await app.request('PATCH', '/api/auth/user', users.builder.cookie, {
+        firstName: 'Bea',
+        organizationId: other.id,
+        subscriptionTier: 'pioneer',
+        experiencePoints: 100000,
+      });
+
+      assert.equal(response.status, 200);
+      const user = await storage.getUser(users.builder.userId);
+      assert.equal(user?.firstName, 'Bea');
+      assert.equal(user?.organizationId, organizationId);
+      assert.equal(user?.subscriptionTier, original?.subscriptionTier);
+      assert.equal(user?.experiencePoints, original?.experiencePoints);
+    });
+
+    it("rejects an unknown generation", async () => {
+      const response = await app.request('PATCH', '/api/auth/user', users.builder.cookie, { generation: 'alpha' });
+      assert.equal(response.status, 400);
+    });
+  });
+});
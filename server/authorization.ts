@@ -0,0 +1,246 @@
+import type { RequestHandler } from "express";
+import type { OrganizationRole, Team } from "@shared/schema";
+import {
+  getEntitlements,
+  canAccessChapter,
+  canAccessGate,
+  minimumTierFor,
+  GATE_TYPES,
+  ENTITLEMENT_FEATURE_NAMES,
+  type EntitlementFeature,
+  type SubscriptionTierName,
+  type TierEntitlements,
+} from "@shared/entitlements";
+import { storage } from "./storage";
+import { SUBSCRIPTION_TIERS } from "./subscription-tiers";
+
+// Each role carries every permission of the roles ranked below it
+export const ORGANIZATION_ROLE_RANK: Record<OrganizationRole, number> = {
+  observer: 1,
+  member: 2,
+  leader: 3,
+  admin: 4,
+  owner: 5,
+};
+
+export type TeamAccess = 'view' | 'manage';
+
+export function hasOrganizationRole(role: OrganizationRole | undefined, minimum: OrganizationRole): boolean {
+  return !!role && ORGANIZATION_ROLE_RANK[role] >= ORGANIZATION_ROLE_RANK[minimum];
+}
+
+// Replit Auth users carry claims, demo accounts carry a session userId
+export function getRequestUserId(req: any): string | undefined {
+  return req.user?.claims?.sub || req.session?.userId;
+}
+
+export async function getOrganizationRole(userId: string, orgId: string): Promise<OrganizationRole | undefined> {
+  const member = await storage.getOrganizationMember(orgId, userId);
+  return member?.role;
+}
+
+export async function isTeamLeader(userId: string, team: Team): Promise<boolean> {
+  if (team.leaderId === userId) return true;
+  const member = await storage.getTeamMember(team.id, userId);
+  return member?.role === 'leader';
+}
+
+// Teams are visible across their organization; only team leaders and org admins may change them
+export async function canAccessTeam(userId: string, team: Team, access: TeamAccess): Promise<boolean> {
+  const role = await getOrganizationRole(userId, team.organizationId);
+  if (hasOrganizationRole(role, 'admin')) return true;
+  if (await isTeamLeader(userId, team)) return true;
+  if (access === 'manage') return false;
+
+  if (role) return true;
+  return !!(await storage.getTeamMember(team.id, userId));
+}
+
+// A user's own data is visible to them, their organization's admins and the leaders of their teams
+export async function canAccessUserData(viewerId: string, subjectId: string): Promise<boolean> {
+  if (viewerId === subjectId) return true;
+
+  const subject = await storage.getUser(subjectId);
+  if (!subject) return false;
+
+  if (subject.organizationId) {
+    const role = await getOrganizationRole(viewerId, subject.organizationId);
+    if (hasOrganizationRole(role, 'admin')) return true;
+  }
+
+  const subjectTeams = await storage.getUserTeams(subjectId);
+  for (const team of subjectTeams) {
+    if (await isTeamLeader(viewerId, team)) return true;
+  }
+  return false;
+}
+
+// Loads the team named by :id into req.team after checking the caller may access it
+export function requireTeamAccess(access: TeamAccess): RequestHandler {
+  return async (req: any, res, next) => {
+    try {
+      const userId = getRequestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const team = await storage.getTeam(req.params.id);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+
+      if (!(await canAccessTeam(userId, team, access))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      req.team = team;
+      next();
+    } catch (error) {
+      console.error("Error authorizing team access:", error);
+      res.status(500).json({ message: "Failed to authorize request" });
+    }
+  };
+}
+
+// Guards /api/user/:userId style routes against reading someone else's records
+export function requireUserAccess(param: string = 'userId'): RequestHandler {
+  return async (req: any, res, next) => {
+    try {
+      const userId = getRequestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      if (!(await canAccessUserData(userId, req.params[param]))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      next();
+    } catch (error) {
+      console.error("Error authorizing user data access:", error);
+      res.status(500).json({ message: "Failed to authorize request" });
+    }
+  };
+}
+
+// Resolves the caller's organization into req.organization / req.organizationRole
+export function requireOrganizationRole(minimum: OrganizationRole): RequestHandler {
+  return async (req: any, res, next) => {
+    try {
+      const userId = getRequestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const organization = await storage.getUserOrganization(userId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const role = await getOrganizationRole(userId, organization.id);
+      if (!hasOrganizationRole(role, minimum)) {
+        return res.status(403).json({ message: `Requires ${minimum} role in this organization` });
+      }
+
+      req.organization = organization;
+      req.organizationRole = role;
+      next();
+    } catch (error) {
+      console.error("Error authorizing organization access:", error);
+      res.status(500).json({ message: "Failed to authorize request" });
+    }
+  };
+}
+
+// Operators of the whole deployment, e.g. for billing maintenance, listed in PLATFORM_ADMIN_USER_IDS
+export function isPlatformAdmin(userId: string): boolean {
+  const adminIds = (process.env.PLATFORM_ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+  return adminIds.includes(userId);
+}
+
+export function requirePlatformAdmin(): RequestHandler {
+  return (req: any, res, next) => {
+    const userId = getRequestUserId(req);
+    if (!userId) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    if (!isPlatformAdmin(userId)) {
+      return res.status(403).json({ message: "Requires platform admin access" });
+    }
+
+    next();
+  };
+}
+
+// Seat holders get their organization plan's tier when it beats their own
+export async function getUserEntitlements(userId: string): Promise<TierEntitlements> {
+  return getEntitlements(await storage.getEffectiveSubscriptionTier(userId));
+}
+
+// 402 tells the client which tier unlocks the feature so it can prompt an upgrade
+function upgradeRequired(res: any, what: string, entitlements: TierEntitlements, requiredTier?: SubscriptionTierName) {
+  const requiredName = requiredTier ? SUBSCRIPTION_TIERS[requiredTier].name : undefined;
+  return res.status(402).json({
+    message: requiredName ? `${what} requires the ${requiredName} tier` : `${what} is not available on your plan`,
+    tier: entitlements.tier,
+    requiredTier: requiredTier ?? null,
+    upgradeUrl: '/subscribe',
+  });
+}
+
+// Tier checks run per request so upgrades and downgrades apply immediately; each sets req.entitlements
+function requireTierCheck(
+  describe: (req: any) => { what: string; allowed: (entitlements: TierEntitlements) => boolean } | undefined
+): RequestHandler {
+  return async (req: any, res, next) => {
+    try {
+      const userId = getRequestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const entitlements = await getUserEntitlements(userId);
+      const check = describe(req);
+      if (check && !check.allowed(entitlements)) {
+        return upgradeRequired(res, check.what, entitlements, minimumTierFor(check.allowed));
+      }
+
+      req.entitlements = entitlements;
+      next();
+    } catch (error) {
+      console.error("Error checking entitlements:", error);
+      res.status(500).json({ message: "Failed to check entitlements" });
+    }
+  };
+}
+
+export function requireEntitlement(feature: EntitlementFeature): RequestHandler {
+  return requireTierCheck(() => ({
+    what: ENTITLEMENT_FEATURE_NAMES[feature],
+    allowed: entitlements => entitlements[feature],
+  }));
+}
+
+// Malformed chapter numbers and unknown gates are left for the route's own validation
+export function requireChapterEntitlement(param: string = 'chapterNumber'): RequestHandler {
+  return requireTierCheck(req => {
+    const chapterNumber = parseInt(req.params[param]);
+    if (isNaN(chapterNumber)) return undefined;
+    return {
+      what: `Chapter ${chapterNumber}`,
+      allowed: entitlements => canAccessChapter(entitlements, chapterNumber),
+    };
+  });
+}
+
+export function requireGateEntitlement(param: string = 'gateType'): RequestHandler {
+  return requireTierCheck(req => {
+    const gateType = req.params[param];
+    if (!GATE_TYPES.includes(gateType)) return undefined;
+    return {
+      what: `The ${gateType.replace(/_/g, ' ')} gate`,
+      allowed: entitlements => canAccessGate(entitlements, gateType),
+    };
+  });
+}
@@ -0,0 +1,101 @@
+import type Stripe from "stripe";
+import type { InsertInvoice, Invoice, User } from "@shared/schema";
+import type { InvoiceSummary, PaymentMethodSummary } from "@shared/billing";
+import { storage } from "./storage";
+
+function stripeDate(seconds?: number | null): Date | null {
+  return seconds ? new Date(seconds * 1000) : null;
+}
+
+function stripeId(value: string | { id?: string } | null | undefined): string | null {
+  return (typeof value === 'string' ? value : value?.id) || null;
+}
+
+// Maps a Stripe invoice onto the cached row; syncedAt is the time of the event that carried it
+export function invoiceRecord(invoice: Stripe.Invoice & { id: string }, userId: string, syncedAt: Date): InsertInvoice {
+  const subscription = (invoice as any).subscription ?? invoice.parent?.subscription_details?.subscription;
+  return {
+    id: invoice.id,
+    userId,
+    stripeCustomerId: stripeId(invoice.customer),
+    stripeSubscriptionId: stripeId(subscription),
+    number: invoice.number ?? null,
+    status: invoice.status || 'draft',
+    currency: invoice.currency || 'usd',
+    amountDue: invoice.amount_due ?? 0,
+    amountPaid: invoice.amount_paid ?? 0,
+    total: invoice.total ?? 0,
+    hostedInvoiceUrl: invoice.hosted_invoice_url ?? null,
+    invoicePdf: invoice.invoice_pdf ?? null,
+    periodStart: stripeDate(invoice.period_start),
+    periodEnd: stripeDate(invoice.period_end),
+    issuedAt: stripeDate(invoice.created) ?? syncedAt,
+    paidAt: stripeDate(invoice.status_transitions?.paid_at),
+    syncedAt,
+  };
+}
+
+export function summarizeInvoice(invoice: Invoice): InvoiceSummary {
+  return {
+    id: invoice.id,
+    number: invoice.number,
+    status: invoice.status,
+    currency: invoice.currency,
+    amountDue: invoice.amountDue,
+    amountPaid: invoice.amountPaid,
+    total: invoice.total,
+    issuedAt: invoice.issuedAt.toISOString(),
+    paidAt: invoice.paidAt?.toISOString() ?? null,
+    periodStart: invoice.periodStart?.toISOString() ?? null,
+    periodEnd: invoice.periodEnd?.toISOString() ?? null,
+    hostedInvoiceUrl: invoice.hostedInvoiceUrl,
+    invoicePdf: invoice.invoicePdf,
+  };
+}
+
+// Backfills the cache from Stripe, e.g. for invoices issued before the webhook cache existed.
+// Drafts are skipped because they have no receipt yet and may still change.
+export async function syncUserInvoices(client: Stripe, user: User & { stripeCustomerId: string }): Promise<number> {
+  const listed = await client.invoices.list({ customer: user.stripeCustomerId, limit: 24 });
+  const syncedAt = new Date();
+  let synced = 0;
+
+  for (const invoice of listed.data) {
+    if (!invoice.id || invoice.status === 'draft') continue;
+    if (await storage.saveInvoice(invoiceRecord(invoice as Stripe.Invoice & { id: string }, user.id, syncedAt))) {
+      synced++;
+    }
+  }
+
+  return synced;
+}
+
+function summarizePaymentMethod(method: Stripe.PaymentMethod): PaymentMethodSummary {
+  return {
+    type: method.type,
+    brand: method.card?.brand ?? null,
+    last4: method.card?.last4 ?? method.sepa_debit?.last4 ?? method.us_bank_account?.last4 ?? null,
+    expMonth: method.card?.exp_month ?? null,
+    expYear: method.card?.exp_year ?? null,
+  };
+}
+
+// The card invoices will be charged to: the subscription's own default, then the customer's invoice default
+export async function getPaymentMethodSummary(client: Stripe, user: User & { stripeCustomerId: string }): Promise<PaymentMethodSummary | null> {
+  if (user.stripeSubscriptionId) {
+    const subscription = await client.subscriptions.retrieve(user.stripeSubscriptionId, {
+      expand: ['default_payment_method'],
+    });
+    if (subscription.default_payment_method && typeof subscription.default_payment_method !== 'string') {
+      return summarizePaymentMethod(subscription.default_payment_method);
+    }
+  }
+
+  const customer = await client.customers.retrieve(user.stripeCustomerId, {
+    expand: ['invoice_settings.default_payment_method'],
+  });
+  if (customer.deleted) return null;
+
+  const method = customer.invoice_settings?.default_payment_method;
+  return method && typeof method !== 'string' ? summarizePaymentMethod(method) : null;
+}
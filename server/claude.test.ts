@@ -0,0 +1,175 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { AnthropicCoachingProvider } from "./claude";
+import { basicCoachingContext } from "./coaching-context";
+import type { TokenUsage } from "./coaching";
+
+// A stand-in for the Messages API: each test sets how the next request is answered
+type FakeReply = (body: any, req: IncomingMessage, res: ServerResponse) => void;
+
+function sendEvent(res: ServerResponse, type: string, data: object) {
+  res.write(`event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`);
+}
+
+function startStream(res: ServerResponse, inputTokens: number) {
+  res.writeHead(200, { 'content-type': 'text/event-stream' });
+  sendEvent(res, 'message_start', {
+    message: {
+      id: 'msg_test', type: 'message', role: 'assistant', model: 'test-model', content: [],
+      stop_reason: null, stop_sequence: null, usage: { input_tokens: inputTokens, output_tokens: 1 },
+    },
+  });
+  sendEvent(res, 'content_block_start', { index: 0, content_block: { type: 'text', text: '' } });
+}
+
+function streamText(chunks: string[], usage: TokenUsage): FakeReply {
+  return (_body, _req, res) => {
+    startStream(res, usage.inputTokens);
+    for (const text of chunks) {
+      sendEvent(res, 'content_block_delta', { index: 0, delta: { type: 'text_delta', text } });
+    }
+    sendEvent(res, 'content_block_stop', { index: 0 });
+    sendEvent(res, 'message_delta', { delta: { stop_reason: 'end_turn', stop_sequence: null }, usage: { output_tokens: usage.outputTokens } });
+    sendEvent(res, 'message_stop', {});
+    res.end();
+  };
+}
+
+function replyText(text: string, usage: TokenUsage): FakeReply {
+  return (_body, _req, res) => {
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({
+      id: 'msg_test', type: 'message', role: 'assistant', model: 'test-model',
+      content: [{ type: 'text', text }], stop_reason: 'end_turn', stop_sequence: null,
+      usage: { input_tokens: usage.inputTokens, output_tokens: usage.outputTokens },
+    }));
+  };
+}
+
+function replyError(status: number, type: string, message: string): FakeReply {
+  return (_body, _req, res) => {
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ type: 'error', error: { type, message } }));
+  };
+}
+
+describe("AnthropicCoachingProvider", () => {
+  let server: Server;
+  let reply: FakeReply;
+  let requests: any[];
+  let usage: TokenUsage[];
+  let provider: AnthropicCoachingProvider;
+  const context = basicCoachingContext('pioneer', 'millennial');
+
+  before(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => raw += chunk);
+      req.on('end', () => {
+        const body = JSON.parse(raw || '{}');
+        requests.push(body);
+        reply(body, req, res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    // Read when the shared client is first created, which happens in the first test
+    process.env.ANTHROPIC_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.ANTHROPIC_API_KEY = 'sk-ant-test';
+  });
+
+  after(() => new Promise<void>(resolve => {
+    server.closeAllConnections();
+    server.close(() => resolve());
+  }));
+
+  beforeEach(() => {
+    requests = [];
+    usage = [];
+    provider = new AnthropicCoachingProvider('test-model', entry => usage.push(entry));
+  });
+
+  it("returns a reply and reports its tokens", async () => {
+    reply = replyText("Lead from the altar.", { inputTokens: 40, outputTokens: 6 });
+
+    const text = await provider.provideGuidance("How do I start?", context, [{ role: 'assistant', content: 'Welcome.' }]);
+
+    assert.equal(text, "Lead from the altar.");
+    assert.deepEqual(usage, [{ inputTokens: 40, outputTokens: 6 }]);
+    assert.equal(requests[0].model, 'test-model');
+    assert.deepEqual(requests[0].messages.map((message: any) => message.role), ['assistant', 'user']);
+    assert.match(requests[0].system, /Pioneer/);
+  });
+
+  it("streams text deltas and resolves with the whole reply", async () => {
+    reply = streamText(["Lead ", "from ", "the altar."], { inputTokens: 30, outputTokens: 9 });
+
+    const chunks: string[] = [];
+    const text = await provider.streamGuidance("How do I start?", context, [], { onText: chunk => chunks.push(chunk) });
+
+    assert.deepEqual(chunks, ["Lead ", "from ", "the altar."]);
+    assert.equal(text, "Lead from the altar.");
+    assert.deepEqual(usage, [{ inputTokens: 30, outputTokens: 9 }]);
+    assert.equal(requests[0].stream, true);
+  });
+
+  it("stops the upstream request when the stream is aborted and reports the tokens used so far", async () => {
+    let upstreamClosed!: () => void;
+    const closed = new Promise<void>(resolve => upstreamClosed = resolve);
+    reply = (_body, _req, res) => {
+      startStream(res, 30);
+      sendEvent(res, 'content_block_delta', { index: 0, delta: { type: 'text_delta', text: "Lead " } });
+      res.on('close', upstreamClosed); // never finishes on its own
+    };
+
+    const controller = new AbortController();
+    const chunks: string[] = [];
+    await assert.rejects(provider.streamGuidance("How do I start?", context, [], {
+      onText: chunk => {
+        chunks.push(chunk);
+        controller.abort();
+      },
+      signal: controller.signal,
+    }));
+
+    await closed;
+    assert.deepEqual(chunks, ["Lead "]);
+    assert.deepEqual(usage, [{ inputTokens: 30, outputTokens: 2 }]);
+  });
+
+  it("wraps provider errors and reports no usage", async () => {
+    reply = replyError(400, 'invalid_request_error', 'max_tokens is too large');
+
+    await assert.rejects(provider.provideGuidance("How do I start?", context), /Failed to generate guidance: .*max_tokens is too large/);
+    assert.equal(requests.length, 1);
+    assert.deepEqual(usage, []);
+  });
+
+  it("wraps errors sent partway through a stream", async () => {
+    reply = (_body, _req, res) => {
+      startStream(res, 30);
+      sendEvent(res, 'content_block_delta', { index: 0, delta: { type: 'text_delta', text: "Lead " } });
+      sendEvent(res, 'error', { error: { type: 'overloaded_error', message: 'Overloaded' } });
+      res.end();
+    };
+
+    const chunks: string[] = [];
+    await assert.rejects(
+      provider.streamGuidance("How do I start?", context, [], { onText: chunk => chunks.push(chunk) }),
+      /Failed to generate guidance: .*Overloaded/
+    );
+    assert.deepEqual(chunks, ["Lead "]);
+    assert.deepEqual(usage, []);
+  });
+
+  it("parses gate reflection grades from the reply", async () => {
+    reply = replyText('Here are the grades: {"q1": {"score": 82, "feedback": "Specific and honest."}}', { inputTokens: 50, outputTokens: 20 });
+
+    const grades = await provider.gradeGateReflections([{ id: 'q1', question: 'Where are you rooted?', answer: 'In my family.' }]);
+
+    assert.deepEqual(grades, { q1: { score: 82, feedback: "Specific and honest." } });
+    assert.deepEqual(JSON.parse(requests[0].messages[0].content), [{ id: 'q1', question: 'Where are you rooted?', answer: 'In my family.' }]);
+    assert.deepEqual(usage, [{ inputTokens: 50, outputTokens: 20 }]);
+  });
+});
@@ -0,0 +1,44 @@
+// Biblical leadership archetypes shared by every coaching provider
+export const ARCHETYPES = {
+  pioneer: {
+    name: "Pioneer",
+    description: "Called to blaze new trails and discover uncharted territories of faith and leadership",
+    biblical_examples: "Abraham, Moses, Paul",
+    strengths: "Vision, courage, innovation, faith in the unknown",
+    growth_areas: "Patience with followers, building sustainable systems"
+  },
+  organizer: {
+    name: "Organizer",
+    description: "Gifted at bringing order, structure, and efficiency to God's work",
+    biblical_examples: "Nehemiah, Joseph, Timothy",
+    strengths: "Planning, systems thinking, resource management, administration",
+    growth_areas: "Flexibility with change, empowering others"
+  },
+  builder: {
+    name: "Builder",
+    description: "Called to construct and establish lasting foundations for God's kingdom",
+    biblical_examples: "Solomon, Ezra, Barnabas",
+    strengths: "Implementation, team building, creating lasting impact",
+    growth_areas: "Innovation, adapting to new situations"
+  },
+  guardian: {
+    name: "Guardian",
+    description: "Protector and preserver of truth, traditions, and people",
+    biblical_examples: "Joshua, Daniel, John",
+    strengths: "Loyalty, protection, maintaining standards, wisdom",
+    growth_areas: "Embracing necessary change, developing others"
+  }
+};
+
+export type ArchetypeProfile = typeof ARCHETYPES.pioneer;
+
+export function getArchetype(archetype: string = 'pioneer'): ArchetypeProfile {
+  return ARCHETYPES[archetype.toLowerCase() as keyof typeof ARCHETYPES] || ARCHETYPES.pioneer;
+}
+
+// Fallback when a provider cannot produce questions
+export const DEFAULT_REFLECTION_QUESTIONS = [
+  "What specific calling is God placing on your heart as a leader?",
+  "How can you better serve those you lead while staying true to biblical principles?",
+  "What biblical leader most inspires your leadership journey and why?"
+];
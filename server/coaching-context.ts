@@ -0,0 +1,181 @@
+import { CHAPTERS, type Chapter } from "@shared/schema";
+import { storage } from "./storage";
+
+const RECENT_PRACTICE_DAYS = 14;
+const RECENT_PRACTICE_LIMIT = 5;
+const ASSESSMENT_RESULTS_MAX_LENGTH = 600;
+
+export interface CoachingChapter {
+  chapterNumber: number;
+  title: string;
+  book: string;
+  bookName: string;
+  stone: string;
+  element: string;
+  templeSpace: string;
+  fractalGate: string;
+  spiritualFrequency: string;
+  geometryIcon: string;
+  storyStage: string;
+}
+
+// Everything the coach knows about the learner for a single turn
+export interface CoachingContext {
+  archetype: string;
+  generation: string;
+  chapter?: CoachingChapter;
+  completedChapters: number[];
+  gatesPassed: { gateType: string; chapterNumber: number; completedAt: string | null }[];
+  recentPractices: { date: string; practiceType: string; notes: string }[];
+  latestAssessment?: { stage: string; completedAt: string | null; results: unknown };
+}
+
+function toCoachingChapter(chapter: Chapter): CoachingChapter {
+  return {
+    chapterNumber: chapter.ch,
+    title: chapter.chapterTitle,
+    book: chapter.book,
+    bookName: chapter.bookName,
+    stone: chapter.stone,
+    element: chapter.element,
+    templeSpace: chapter.templeSpace,
+    fractalGate: chapter.fractalGate,
+    spiritualFrequency: chapter.spiritualFrequency,
+    geometryIcon: chapter.geometryIcon,
+    storyStage: chapter.storyStage,
+  };
+}
+
+export function getCoachingChapter(chapterNumber?: number): CoachingChapter | undefined {
+  const chapter = CHAPTERS.find(entry => entry.ch === chapterNumber);
+  return chapter ? toCoachingChapter(chapter) : undefined;
+}
+
+// Context for callers that only know the archetype, e.g. anonymous insight requests
+export function basicCoachingContext(archetype?: string, generation?: string): CoachingContext {
+  return {
+    archetype: archetype || 'pioneer',
+    generation: generation || 'millennial',
+    completedChapters: [],
+    gatesPassed: [],
+    recentPractices: [],
+  };
+}
+
+// Chapter in focus: the one being discussed, else the saved current chapter, else the first open one
+async function resolveCurrentChapter(
+  currentChapterId: string | undefined,
+  unlockedChapters: number[],
+  completedChapters: number[],
+  requestedChapter?: number
+): Promise<number> {
+  if (requestedChapter) return requestedChapter;
+
+  if (currentChapterId) {
+    const matrix = await storage.getBiblicalMatrix();
+    const entry = matrix.find(chapter => chapter.id === currentChapterId);
+    if (entry) return entry.chapterNumber;
+  }
+
+  const open = unlockedChapters.filter(ch => !completedChapters.includes(ch));
+  return open.length > 0 ? Math.min(...open) : Math.max(1, ...unlockedChapters);
+}
+
+export async function buildCoachingContext(userId: string, requestedChapter?: number): Promise<CoachingContext> {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    return { ...basicCoachingContext(), chapter: getCoachingChapter(requestedChapter) };
+  }
+
+  const since = new Date(Date.now() - RECENT_PRACTICE_DAYS * 24 * 60 * 60 * 1000);
+  const [gameProgress, practices, assessments] = await Promise.all([
+    storage.getUserGameProgress(userId),
+    storage.getUserDailyPractices(userId, since, new Date()),
+    storage.getUserAssessments(userId),
+  ]);
+
+  const { completedChapters, unlockedChapters } = gameProgress.progress;
+  const chapterNumber = await resolveCurrentChapter(
+    gameProgress.user.currentChapterId,
+    unlockedChapters,
+    completedChapters,
+    requestedChapter
+  );
+  const latestAssessment = assessments.find(assessment => assessment.completedAt && assessment.results);
+
+  return {
+    archetype: user.archetype || 'pioneer',
+    generation: user.generation || 'millennial',
+    chapter: getCoachingChapter(chapterNumber),
+    completedChapters: [...completedChapters].sort((a, b) => a - b),
+    gatesPassed: gameProgress.gates
+      .filter(gate => gate.completed)
+      .map(gate => ({
+        gateType: gate.gateType,
+        chapterNumber: gate.chapterNumber,
+        completedAt: gate.completedAt?.toISOString() ?? null,
+      })),
+    recentPractices: practices
+      .filter(practice => practice.notes?.trim())
+      .slice(0, RECENT_PRACTICE_LIMIT)
+      .map(practice => ({
+        date: practice.date.toISOString().slice(0, 10),
+        practiceType: practice.practiceType,
+        notes: practice.notes!.trim(),
+      })),
+    latestAssessment: latestAssessment && {
+      stage: latestAssessment.stage,
+      completedAt: latestAssessment.completedAt?.toISOString() ?? null,
+      results: latestAssessment.results,
+    },
+  };
+}
+
+// Renders the learner context as the structured block providers put into their system prompt
+export function formatCoachingContext(context: CoachingContext): string {
+  const lines: string[] = [];
+
+  const { chapter } = context;
+  if (chapter) {
+    lines.push(
+      `CURRENT CHAPTER: ${chapter.chapterNumber} of ${CHAPTERS.length} - "${chapter.title}"`,
+      `- ${chapter.book}: ${chapter.bookName}`,
+      `- Stone: ${chapter.stone}`,
+      `- Element: ${chapter.element}`,
+      `- Temple space: ${chapter.templeSpace}`,
+      `- Fractal gate: ${chapter.fractalGate}`,
+      `- Spiritual frequency: ${chapter.spiritualFrequency}`,
+      `- Sacred geometry: ${chapter.geometryIcon}`,
+      `- Story stage: ${chapter.storyStage}`
+    );
+  } else {
+    lines.push('CURRENT CHAPTER: not started');
+  }
+
+  lines.push(
+    '',
+    `COMPLETED CHAPTERS: ${context.completedChapters.length > 0 ? context.completedChapters.join(', ') : 'none yet'}`,
+    `GATES PASSED: ${context.gatesPassed.length > 0
+      ? context.gatesPassed.map(gate => `${gate.gateType} (chapter ${gate.chapterNumber})`).join(', ')
+      : 'none yet'}`
+  );
+
+  if (context.recentPractices.length > 0) {
+    lines.push('', 'RECENT DAILY PRACTICE NOTES:');
+    for (const practice of context.recentPractices) {
+      lines.push(`- ${practice.date} ${practice.practiceType}: ${practice.notes}`);
+    }
+  }
+
+  if (context.latestAssessment) {
+    const results = JSON.stringify(context.latestAssessment.results);
+    lines.push(
+      '',
+      `LATEST ASSESSMENT (${context.latestAssessment.stage.toUpperCase()}): ${results.length > ASSESSMENT_RESULTS_MAX_LENGTH
+        ? results.slice(0, ASSESSMENT_RESULTS_MAX_LENGTH) + '...'
+        : results}`
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,109 @@
+import { z } from "zod";
+import type { Organization } from "@shared/schema";
+import { storage } from "./storage";
+import { AnthropicCoachingProvider, DEFAULT_MODEL_STR } from "./claude";
+import { LocalCoachingProvider } from "./local-coach";
+import type { CoachingContext } from "./coaching-context";
+
+export interface CoachingMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Called once per model call that used tokens, including streams cancelled partway, so usage can be metered
+export type UsageListener = (usage: TokenUsage) => void;
+
+export interface GuidanceStreamOptions {
+  onText: (text: string) => void;
+  signal?: AbortSignal; // aborting stops the upstream request
+}
+
+// Everything the app asks of an AI coach; implementations must not depend on request state
+export interface CoachingProvider {
+  readonly name: CoachingProviderName;
+  readonly model: string;
+  provideGuidance(message: string, context: CoachingContext, history?: CoachingMessage[]): Promise<string>;
+  streamGuidance(message: string, context: CoachingContext, history: CoachingMessage[], options: GuidanceStreamOptions): Promise<string>;
+  generateReflectionQuestions(archetype: string): Promise<string[]>;
+  analyzeArchetypeDeepDive(responses: Record<string, string>, archetype: string): Promise<string>;
+  generateMeditationScript(frequency: string, archetype?: string): Promise<string>;
+  // Scores gate reflections 0-100 by id; providers without it leave gates to the local rubric
+  gradeGateReflections?(reflections: GateReflection[]): Promise<Record<string, { score: number; feedback: string }>>;
+}
+
+export interface GateReflection {
+  id: string;
+  question: string;
+  answer: string;
+}
+
+export const coachingProviderNames = ['anthropic', 'local'] as const;
+export type CoachingProviderName = typeof coachingProviderNames[number];
+
+// Stored under organizations.settings.coaching
+export const coachingSettingsSchema = z.object({
+  provider: z.enum(coachingProviderNames),
+  model: z.string().trim().min(1).max(100).optional(),
+});
+
+export type CoachingSettings = z.infer<typeof coachingSettingsSchema>;
+
+export interface ActiveCoaching {
+  provider: CoachingProvider;
+  source: 'organization' | 'environment' | 'default';
+  requested?: CoachingProviderName; // set when the requested provider was unavailable
+}
+
+export function isAnthropicConfigured(): boolean {
+  return !!process.env.ANTHROPIC_API_KEY;
+}
+
+export function getOrganizationCoachingSettings(organization?: Organization): CoachingSettings | undefined {
+  const parsed = coachingSettingsSchema.safeParse((organization?.settings as any)?.coaching);
+  return parsed.success ? parsed.data : undefined;
+}
+
+function createProvider(name: CoachingProviderName, model?: string, onUsage?: UsageListener): CoachingProvider {
+  if (name === 'anthropic') {
+    return new AnthropicCoachingProvider(model || process.env.COACHING_MODEL || DEFAULT_MODEL_STR, onUsage);
+  }
+  return new LocalCoachingProvider(onUsage);
+}
+
+// Organization settings win over COACHING_PROVIDER; Anthropic without an API key falls back to local
+export function resolveCoaching(organization?: Organization, onUsage?: UsageListener): ActiveCoaching {
+  const orgSettings = getOrganizationCoachingSettings(organization);
+  const envProvider = coachingProviderNames.find(name => name === process.env.COACHING_PROVIDER);
+
+  let requested: CoachingProviderName;
+  let source: ActiveCoaching['source'];
+  if (orgSettings) {
+    requested = orgSettings.provider;
+    source = 'organization';
+  } else if (envProvider) {
+    requested = envProvider;
+    source = 'environment';
+  } else {
+    requested = isAnthropicConfigured() ? 'anthropic' : 'local';
+    source = 'default';
+  }
+
+  if (requested === 'anthropic' && !isAnthropicConfigured()) {
+    return { provider: createProvider('local', undefined, onUsage), source, requested };
+  }
+  return { provider: createProvider(requested, orgSettings?.model, onUsage), source };
+}
+
+export async function resolveCoachingForUser(userId?: string, onUsage?: UsageListener): Promise<ActiveCoaching> {
+  const organization = userId ? await storage.getUserOrganization(userId) : undefined;
+  return resolveCoaching(organization, onUsage);
+}
+
+export async function getCoachingProvider(userId?: string, onUsage?: UsageListener): Promise<CoachingProvider> {
+  return (await resolveCoachingForUser(userId, onUsage)).provider;
+}
@@ -0,0 +1,35 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { backfillOrganizationMembers } from "./data-migrations";
+
+async function legacyUser(name: string, organizationId: string) {
+  return storage.createUser({ username: `${name}_${Date.now()}`, organizationId });
+}
+
+describe("backfillOrganizationMembers", () => {
+  it("gives users with only users.organizationId a membership and the earliest one ownership", async () => {
+    const organization = await storage.createOrganization({ name: 'Legacy church', type: 'church' });
+    const founder = await legacyUser('founder', organization.id);
+    const member = await legacyUser('member', organization.id);
+
+    await backfillOrganizationMembers();
+
+    assert.equal((await storage.getOrganizationMember(organization.id, founder.id))?.role, 'owner');
+    assert.equal((await storage.getOrganizationMember(organization.id, member.id))?.role, 'member');
+  });
+
+  it("keeps existing memberships and owners", async () => {
+    const organization = await storage.createOrganization({ name: 'Mixed org', type: 'smb' });
+    const legacy = await legacyUser('legacy', organization.id);
+    const owner = await legacyUser('owner', organization.id);
+    await storage.addOrganizationMember(organization.id, owner.id, 'owner');
+
+    await backfillOrganizationMembers();
+    await backfillOrganizationMembers();
+
+    assert.equal((await storage.getOrganizationMember(organization.id, legacy.id))?.role, 'member');
+    assert.equal((await storage.getOrganizationMember(organization.id, owner.id))?.role, 'owner');
+    assert.equal((await storage.getOrganizationMembers(organization.id)).length, 2);
+  });
+});
@@ -0,0 +1,58 @@
+import { storage } from "./storage";
+import { migratePracticeGateRecords } from "./gates";
+
+// One-off data fixes run at startup. Each is recorded in data_migrations once it succeeds and never
+// runs again; one that fails is retried on the next start, so each must be safe to run twice.
+interface DataMigrationDefinition {
+  id: string;
+  description: string;
+  run(): Promise<number>; // rows changed
+}
+
+// Users who joined an organization before organization_members existed only have users.organizationId,
+// and organization roles now come from memberships alone. Each such user becomes a member; an
+// organization without an owner gets its earliest account as owner, since creators were not recorded.
+export async function backfillOrganizationMembers(): Promise<number> {
+  const hasOwner = new Map<string, boolean>();
+  let added = 0;
+
+  for (const user of await storage.getUsersWithOrganization()) {
+    const orgId = user.organizationId!;
+    if (!hasOwner.has(orgId)) {
+      const members = await storage.getOrganizationMembers(orgId);
+      hasOwner.set(orgId, members.some(member => member.role === 'owner'));
+    }
+
+    if (await storage.getOrganizationMember(orgId, user.id)) continue;
+
+    const role = hasOwner.get(orgId) ? 'member' : 'owner';
+    await storage.addOrganizationMember(orgId, user.id, role);
+    hasOwner.set(orgId, true);
+    added++;
+  }
+
+  return added;
+}
+
+const DATA_MIGRATIONS: DataMigrationDefinition[] = [
+  {
+    id: '2026-10-practice-gate-records',
+    description: 'practice-based gate completions',
+    run: migratePracticeGateRecords,
+  },
+  {
+    id: '2026-10-organization-members',
+    description: 'organization memberships',
+    run: backfillOrganizationMembers,
+  },
+];
+
+export async function runDataMigrations(): Promise<void> {
+  for (const migration of DATA_MIGRATIONS) {
+    if (await storage.getDataMigration(migration.id)) continue;
+
+    const affectedRows = await migration.run();
+    await storage.recordDataMigration(migration.id, affectedRows);
+    console.log(`Data migration ${migration.id}: migrated ${affectedRows} ${migration.description}`);
+  }
+}
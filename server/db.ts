@@ -15,11 +15,16 @@ try {
   }
 }
 
-if (!process.env.DATABASE_URL) {
+// STORAGE_DRIVER=memory runs the API against MemStorage, no Postgres required
+export const useMemoryStorage = process.env.STORAGE_DRIVER === 'memory';
+
+if (!process.env.DATABASE_URL && !useMemoryStorage) {
   throw new Error(
     "DATABASE_URL must be set. Did you forget to provision a database?",
   );
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+// No pool is opened under the memory driver; DatabaseStorage, the only user of db, is never
+// constructed then
+export const pool = useMemoryStorage ? undefined : new Pool({ connectionString: process.env.DATABASE_URL });
+export const db = drizzle({ client: pool!, schema });
\ No newline at end of file
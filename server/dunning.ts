@@ -0,0 +1,174 @@
+import type { BillingStatus, UpsertUser, User } from "@shared/schema";
+import type { BillingBanner, BillingState } from "@shared/billing";
+import { storage } from "./storage";
+import { SUBSCRIPTION_TIERS, validateSubscriptionTier } from "./subscription-tiers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reads a day or minute count such as BILLING_GRACE_DAYS, keeping the default when unset
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// past_due while Stripe retries the card, grace once the retries are likely exhausted,
+// suspended (downgraded to seeker) when the grace window measured from the first failure ends
+export function getDunningSettings() {
+  return {
+    pastDueDays: numberFromEnv('BILLING_PAST_DUE_DAYS', 3),
+    graceDays: numberFromEnv('BILLING_GRACE_DAYS', 7),
+    intervalMinutes: numberFromEnv('BILLING_DUNNING_INTERVAL_MINUTES', 60),
+  };
+}
+
+const BILLING_TRANSITIONS: Record<BillingStatus, BillingStatus[]> = {
+  active: ['past_due', 'canceled'],
+  past_due: ['active', 'grace', 'canceled'],
+  grace: ['active', 'suspended', 'canceled'],
+  suspended: ['active', 'canceled'],
+  canceled: ['active'],
+};
+
+export function canTransitionBilling(from: BillingStatus, to: BillingStatus): boolean {
+  return BILLING_TRANSITIONS[from].includes(to);
+}
+
+export function getBillingStatus(user: User): BillingStatus {
+  return user.billingStatus || 'active';
+}
+
+// Suspended and canceled accounts keep their Stripe subscription record but not its tier
+export function hasPaidAccess(user: User): boolean {
+  const status = getBillingStatus(user);
+  return status !== 'suspended' && status !== 'canceled';
+}
+
+// Moves the user to the given state; staying put or an illegal move leaves the row untouched
+async function transitionBilling(user: User, to: BillingStatus, updates: Partial<UpsertUser> = {}): Promise<User> {
+  const from = getBillingStatus(user);
+  if (from === to) return user;
+
+  if (!canTransitionBilling(from, to)) {
+    console.warn(`Ignoring billing transition ${from} -> ${to} for user ${user.id}`);
+    return user;
+  }
+
+  const updated = await storage.upsertUser({ billingStatus: to, ...updates }, user.id);
+  console.log(`Billing status for user ${user.id}: ${from} -> ${to}`);
+  return updated;
+}
+
+// Later failures of the same invoice keep the original dates, so retries do not extend the grace window
+export async function recordPaymentFailed(user: User, failedAt: Date = new Date()): Promise<User> {
+  if (getBillingStatus(user) !== 'active') return user;
+
+  return transitionBilling(user, 'past_due', {
+    paymentFailedAt: failedAt,
+    graceEndsAt: new Date(failedAt.getTime() + getDunningSettings().graceDays * DAY_MS),
+  });
+}
+
+export async function recordPaymentSucceeded(user: User): Promise<User> {
+  return transitionBilling(user, 'active', { paymentFailedAt: null, graceEndsAt: null });
+}
+
+export async function recordSubscriptionCanceled(user: User): Promise<User> {
+  return transitionBilling(user, 'canceled', { paymentFailedAt: null, graceEndsAt: null });
+}
+
+// Applies every time-based transition that is due, so a job that missed runs catches up in one pass
+export async function advanceDunning(user: User, now: Date = new Date()): Promise<User> {
+  const { pastDueDays } = getDunningSettings();
+  let current = user;
+
+  const failedAt = current.paymentFailedAt?.getTime();
+  if (getBillingStatus(current) === 'past_due' && failedAt !== undefined && now.getTime() >= failedAt + pastDueDays * DAY_MS) {
+    current = await transitionBilling(current, 'grace');
+  }
+
+  const graceEndsAt = current.graceEndsAt?.getTime();
+  if (getBillingStatus(current) === 'grace' && graceEndsAt !== undefined && now.getTime() >= graceEndsAt) {
+    current = await transitionBilling(current, 'suspended', { subscriptionTier: 'seeker' });
+  }
+
+  return current;
+}
+
+export async function runDunningCycle(now: Date = new Date()): Promise<{ checked: number; changed: number }> {
+  const users = await storage.getUsersByBillingStatus(['past_due', 'grace']);
+  let changed = 0;
+
+  for (const user of users) {
+    try {
+      const updated = await advanceDunning(user, now);
+      if (updated.billingStatus !== user.billingStatus) changed++;
+    } catch (error) {
+      console.error(`Error advancing dunning for user ${user.id}:`, error);
+    }
+  }
+
+  return { checked: users.length, changed };
+}
+
+export function startDunningJob(): NodeJS.Timeout | undefined {
+  const { intervalMinutes } = getDunningSettings();
+  if (intervalMinutes === 0) return undefined;
+
+  const run = () => runDunningCycle()
+    .then(({ checked, changed }) => {
+      if (changed > 0) console.log(`Dunning job checked ${checked} accounts, changed ${changed}`);
+    })
+    .catch(error => console.error("Error running dunning job:", error));
+
+  run();
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  timer.unref();
+  return timer;
+}
+
+function formatBannerDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' });
+}
+
+function billingBanner(user: User): BillingBanner | null {
+  const tier = user.subscriptionTier && validateSubscriptionTier(user.subscriptionTier) ? user.subscriptionTier : 'seeker';
+  const tierName = SUBSCRIPTION_TIERS[tier].name;
+  const action = { actionLabel: 'Update payment method', actionUrl: '/subscribe' };
+
+  switch (getBillingStatus(user)) {
+    case 'past_due':
+      return {
+        level: 'warning',
+        title: 'Your last payment failed',
+        message: `We'll retry the charge automatically. Update your payment method to keep your ${tierName} access.`,
+        ...action,
+      };
+    case 'grace':
+      return {
+        level: 'critical',
+        title: 'Payment still outstanding',
+        message: user.graceEndsAt
+          ? `Your ${tierName} access ends on ${formatBannerDate(user.graceEndsAt)} unless the payment goes through.`
+          : `Your ${tierName} access will end soon unless the payment goes through.`,
+        ...action,
+      };
+    case 'suspended':
+      return {
+        level: 'critical',
+        title: 'Subscription suspended',
+        message: 'Your account was moved to the Seeker tier after an unpaid invoice. Paying it restores your plan.',
+        ...action,
+      };
+    default:
+      return null;
+  }
+}
+
+export function getBillingState(user: User): BillingState {
+  return {
+    status: getBillingStatus(user),
+    paymentFailedAt: user.paymentFailedAt?.toISOString() ?? null,
+    graceEndsAt: user.graceEndsAt?.toISOString() ?? null,
+    banner: billingBanner(user),
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Team } from "@shared/schema";
+import { FEEDBACK_MIN_RESPONDENTS, type FeedbackRequestSummary } from "@shared/feedback";
+import { storage } from "./storage";
+import { getArchetypeQuestionBank } from "./archetype-bank";
+import { scoreArchetype } from "./archetype-scoring";
+import { requestTeamFeedback, submitFeedback, getFeedbackRequests } from "./feedback";
+
+// Every respondent picks a different option so each answer moves the average
+function answersFor(respondent: number): Record<string, string> {
+  const bank = getArchetypeQuestionBank()!;
+  return Object.fromEntries(bank.questions.map(question =>
+    [question.id, question.options[respondent % question.options.length].value]));
+}
+
+async function createFeedbackTeam(suffix: string, size: number) {
+  const leader = await storage.createUser({ username: `leader_${suffix}` });
+  const bank = getArchetypeQuestionBank()!;
+  const self = await storage.createAssessment({ userId: leader.id, stage: 'r1', kind: 'archetype', responses: answersFor(0) });
+  await storage.completeAssessment(self.id, scoreArchetype(bank, answersFor(0)), bank.version);
+
+  const organization = await storage.createOrganization({ name: `Feedback ${suffix}`, type: 'smb' });
+  const team = await storage.createTeam({ name: 'Feedback team', organizationId: organization.id, leaderId: leader.id });
+  await storage.addTeamMember(team.id, leader.id, 'leader');
+  const respondents = [];
+  for (let i = 0; i < size; i++) {
+    respondents.push(await addRespondent(team, `${suffix}_${i}`));
+  }
+  return { leader, team, respondents };
+}
+
+async function addRespondent(team: Team, suffix: string) {
+  const member = await storage.createUser({ username: `respondent_${suffix}` });
+  await storage.addTeamMember(team.id, member.id);
+  return member;
+}
+
+describe("360 feedback report", () => {
+  it("only moves in batches of FEEDBACK_MIN_RESPONDENTS answers", async () => {
+    const { leader, team, respondents } = await createFeedbackTeam(`${Date.now()}`, FEEDBACK_MIN_RESPONDENTS * 2 + 1);
+
+    const request = await requestTeamFeedback(leader.id, team);
+    assert.ok(!('error' in request));
+    const assessmentId = (request as FeedbackRequestSummary).assessmentId;
+
+    const reportedCounts: (number | null)[] = [];
+    for (const [index, respondent] of respondents.entries()) {
+      const result = await submitFeedback(respondent.id, assessmentId, answersFor(index + 1));
+      assert.ok(!('error' in result));
+      const [summary] = await getFeedbackRequests(leader.id);
+      reportedCounts.push(summary.report?.respondentCount ?? null);
+    }
+
+    const min = FEEDBACK_MIN_RESPONDENTS;
+    const expected = respondents.map((_, index) => {
+      const answered = index + 1;
+      return answered < min ? null : Math.floor(answered / min) * min;
+    });
+    assert.deepEqual(reportedCounts, expected);
+  });
+});
+
+describe("requestTeamFeedback", () => {
+  it("refuses a request whose respondents differ from an earlier one by too few members", async () => {
+    const suffix = `${Date.now()}_again`;
+    const { leader, team, respondents } = await createFeedbackTeam(suffix, FEEDBACK_MIN_RESPONDENTS);
+    const first = await requestTeamFeedback(leader.id, team) as FeedbackRequestSummary;
+    for (const [index, respondent] of respondents.entries()) {
+      await submitFeedback(respondent.id, first.assessmentId, answersFor(index + 1));
+    }
+
+    // Comparing the two reports would isolate the answers of the members who joined
+    await addRespondent(team, `${suffix}_late_0`);
+    assert.deepEqual(await requestTeamFeedback(leader.id, team), { error: 'team_barely_changed', changed: 1 });
+
+    for (let i = 1; i < FEEDBACK_MIN_RESPONDENTS; i++) {
+      await addRespondent(team, `${suffix}_late_${i}`);
+    }
+    const second = await requestTeamFeedback(leader.id, team);
+    assert.ok(!('error' in second));
+    assert.equal((second as FeedbackRequestSummary).invited, FEEDBACK_MIN_RESPONDENTS * 2);
+  });
+});
@@ -0,0 +1,187 @@
+import type { Archetype, Assessment, Team } from "@shared/schema";
+import { ARCHETYPE_KEYS, type ArchetypeScoreResult } from "@shared/archetypes";
+import {
+  FEEDBACK_MIN_RESPONDENTS,
+  type FeedbackGapReport, type FeedbackRequestSummary, type PendingFeedbackRequest,
+} from "@shared/feedback";
+import { storage } from "./storage";
+import { getArchetypeQuestionBank, toPublicQuestionBank } from "./archetype-bank";
+import { validateArchetypeResponses, scoreArchetype } from "./archetype-scoring";
+
+// 360 feedback asks a leader's team the archetype questions about the leader. Each request is a
+// feedback assessment owned by the leader; who was asked is kept apart from what was answered, and
+// nothing about the answers is reported until FEEDBACK_MIN_RESPONDENTS have responded. After that
+// the report only moves in batches of FEEDBACK_MIN_RESPONDENTS new answers, since comparing the
+// report before and after a single response would give that response away.
+
+type ScoredAssessment = Assessment & { results: ArchetypeScoreResult };
+
+function latestSelfAssessment(assessments: Assessment[]): ScoredAssessment | undefined {
+  return assessments
+    .filter((assessment): assessment is ScoredAssessment =>
+      assessment.kind === 'archetype' && !!assessment.completedAt && !!(assessment.results as ArchetypeScoreResult | null)?.scores)
+    .sort((a, b) => b.completedAt!.getTime() - a.completedAt!.getTime())[0];
+}
+
+// Ties keep ARCHETYPE_KEYS order, as in scoring
+function highest(scores: Record<Archetype, number>, by: (score: number) => number = score => score): Archetype {
+  return [...ARCHETYPE_KEYS].sort((a, b) => by(scores[b]) - by(scores[a]))[0];
+}
+
+// A new report once a full batch of answers has come in since the last one, otherwise null
+async function aggregateFeedback(assessment: Assessment): Promise<FeedbackGapReport | null> {
+  const responses = await storage.getFeedbackResponses(assessment.id);
+  const reported = (assessment.results as FeedbackGapReport | null)?.respondentCount ?? 0;
+  if (responses.length - reported < FEEDBACK_MIN_RESPONDENTS) return null;
+
+  const bank = getArchetypeQuestionBank(assessment.bankVersion ?? undefined);
+  const self = latestSelfAssessment(await storage.getUserAssessments(assessment.userId));
+  if (!bank || !self) return null;
+
+  const others = {} as Record<Archetype, number>;
+  const gaps = {} as Record<Archetype, number>;
+  const scored = responses.map(response => scoreArchetype(bank, response.responses).scores);
+  for (const archetype of ARCHETYPE_KEYS) {
+    others[archetype] = Math.round(scored.reduce((sum, scores) => sum + scores[archetype], 0) / scored.length);
+    gaps[archetype] = others[archetype] - self.results.scores[archetype];
+  }
+
+  return {
+    bankVersion: bank.version,
+    respondentCount: responses.length,
+    selfAssessmentId: self.id,
+    self: self.results.scores,
+    others,
+    gaps,
+    selfPrimary: self.results.primary,
+    othersPrimary: highest(others),
+    largestGap: highest(gaps, Math.abs),
+  };
+}
+
+async function summarizeRequest(assessment: Assessment, team?: Team): Promise<FeedbackRequestSummary> {
+  const invitations = await storage.getFeedbackInvitations(assessment.id);
+  const teamName = team?.name ?? (assessment.teamId ? (await storage.getTeam(assessment.teamId))?.name : undefined);
+
+  return {
+    assessmentId: assessment.id,
+    teamId: assessment.teamId,
+    teamName: teamName ?? null,
+    requestedAt: assessment.createdAt?.toISOString() ?? null,
+    invited: invitations.length,
+    responded: invitations.filter(invitation => invitation.respondedAt).length,
+    minRespondents: FEEDBACK_MIN_RESPONDENTS,
+    report: (assessment.results as FeedbackGapReport | null) ?? null,
+  };
+}
+
+export type FeedbackRequestResult =
+  | FeedbackRequestSummary
+  | { error: 'no_self_assessment' | 'request_open' }
+  | { error: 'not_enough_respondents'; available: number }
+  | { error: 'team_barely_changed'; changed: number };
+
+// Members present in only one of two requests
+function respondentsChanged(previous: string[], next: string[]): number {
+  return previous.filter(id => !next.includes(id)).length + next.filter(id => !previous.includes(id)).length;
+}
+
+// Asks the whole team for feedback on the requester in one step. Leaders never pick respondents:
+// reports from overlapping groups would give individual answers away, so a new request must also
+// differ from every earlier one by none or at least FEEDBACK_MIN_RESPONDENTS members.
+export async function requestTeamFeedback(userId: string, team: Team): Promise<FeedbackRequestResult> {
+  const assessments = await storage.getUserAssessments(userId);
+  if (!latestSelfAssessment(assessments)) return { error: 'no_self_assessment' };
+
+  const earlierRequests = assessments.filter(assessment => assessment.kind === 'feedback' && assessment.teamId === team.id);
+  // One open request per team, so members are not asked the same thing twice
+  if (earlierRequests.some(assessment => !assessment.results)) {
+    return { error: 'request_open' };
+  }
+
+  const respondentIds = (await storage.getTeamMembers(team.id))
+    .map(member => member.user.id)
+    .filter(memberId => memberId !== userId);
+  if (respondentIds.length < FEEDBACK_MIN_RESPONDENTS) return { error: 'not_enough_respondents', available: respondentIds.length };
+
+  for (const earlier of earlierRequests) {
+    const previous = (await storage.getFeedbackInvitations(earlier.id)).map(invitation => invitation.respondentId);
+    const changed = respondentsChanged(previous, respondentIds);
+    if (changed > 0 && changed < FEEDBACK_MIN_RESPONDENTS) return { error: 'team_barely_changed', changed };
+  }
+
+  const bank = getArchetypeQuestionBank()!;
+  const user = await storage.getUser(userId);
+  const assessment = await storage.createAssessment({
+    userId,
+    stage: user?.currentStage || 'r1',
+    kind: 'feedback',
+    responses: {},
+    bankVersion: bank.version,
+    teamId: team.id,
+  });
+  await storage.createFeedbackInvitations(assessment.id, respondentIds);
+
+  return summarizeRequest(assessment, team);
+}
+
+export async function getFeedbackRequests(userId: string): Promise<FeedbackRequestSummary[]> {
+  const assessments = (await storage.getUserAssessments(userId)).filter(assessment => assessment.kind === 'feedback');
+  return Promise.all(assessments.map(assessment => summarizeRequest(assessment)));
+}
+
+export async function getPendingFeedback(userId: string): Promise<PendingFeedbackRequest[]> {
+  const pending: PendingFeedbackRequest[] = [];
+
+  for (const invitation of await storage.getPendingFeedbackInvitations(userId)) {
+    const assessment = await storage.getAssessment(invitation.assessmentId);
+    const bank = getArchetypeQuestionBank(assessment?.bankVersion ?? undefined);
+    if (!assessment || !bank) continue;
+
+    const [leader, team] = await Promise.all([
+      storage.getUser(assessment.userId),
+      assessment.teamId ? storage.getTeam(assessment.teamId) : undefined,
+    ]);
+    pending.push({
+      assessmentId: assessment.id,
+      leaderName: [leader?.firstName, leader?.lastName].filter(Boolean).join(' ') || leader?.username || 'Your team leader',
+      teamName: team?.name ?? null,
+      bankVersion: bank.version,
+      questions: toPublicQuestionBank(bank).questions,
+    });
+  }
+
+  return pending;
+}
+
+export type FeedbackSubmissionResult =
+  | { responded: number; minRespondents: number; reportReady: boolean }
+  | { error: 'not_invited' | 'already_responded' }
+  | { error: 'invalid_submission'; issues: string[] };
+
+export async function submitFeedback(userId: string, assessmentId: string, responses: Record<string, string>): Promise<FeedbackSubmissionResult> {
+  const invitations = await storage.getFeedbackInvitations(assessmentId);
+  const invitation = invitations.find(candidate => candidate.respondentId === userId);
+  const assessment = await storage.getAssessment(assessmentId);
+  if (!invitation || !assessment) return { error: 'not_invited' };
+  if (invitation.respondedAt) return { error: 'already_responded' };
+
+  const bank = getArchetypeQuestionBank(assessment.bankVersion ?? undefined)!;
+  const issues = validateArchetypeResponses(bank, responses);
+  if (issues.length > 0) return { error: 'invalid_submission', issues };
+
+  if (!(await storage.recordFeedbackResponse(invitation.id, responses))) return { error: 'already_responded' };
+
+  // Re-read so a report written by another response since is counted
+  const current = (await storage.getAssessment(assessmentId)) ?? assessment;
+  const report = await aggregateFeedback(current);
+  if (report) {
+    await storage.completeAssessment(assessment.id, report, bank.version);
+  }
+
+  return {
+    responded: invitations.filter(candidate => candidate.respondedAt).length + 1,
+    minRespondents: FEEDBACK_MIN_RESPONDENTS,
+    reportReady: !!(report ?? current.results),
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { scanTeamDynamics, fractalScanToMetrics, metricsToFractalScan, FRACTAL_TIER_COUNT } from "./fractal-scan";
+
+// The team log from test_fractal_tiers.py
+const TIER_TEST_LOGS = [
+  { timestamp: 1000, sender: "leader", message: "Strategic planning", replies: [1, 2, 3] },
+  { timestamp: 1001, sender: "dev1", message: "I can build this", replies: [4] },
+  { timestamp: 1002, sender: "dev2", message: "Timeline concerns", replies: [5, 6] },
+  { timestamp: 1025, sender: "leader", message: "Daily standup", replies: [7, 8, 9, 10] },
+  { timestamp: 1026, sender: "dev1", message: "Progress update", replies: [] },
+  { timestamp: 1050, sender: "leader", message: "Team sync", replies: [11, 12] },
+  { timestamp: 1051, sender: "dev2", message: "Blocker found", replies: [13] },
+];
+
+describe("scanTeamDynamics", () => {
+  it("matches the Python scanner on the test_fractal_tiers.py log", () => {
+    const result = scanTeamDynamics(TIER_TEST_LOGS);
+
+    const expectedTiers = Array<number>(FRACTAL_TIER_COUNT).fill(0);
+    expectedTiers[17] = 2.25; // tier 18: branches [1, 4]
+    expectedTiers[18] = 0.89; // tier 19: branches [2, 0, 2]
+    assert.deepEqual(result.fractalTiers, expectedTiers);
+
+    assert.equal(result.activeTiers, 2);
+    assert.equal(result.alignedTiers, 0);
+    assert.equal(result.teamHealth, 0);
+    assert.deepEqual(result.senderInfluence, { leader: 9, dev1: 1, dev2: 3 });
+    assert.equal(result.rippleScore, 4.33);
+  });
+
+  it("aligns a tier whose chaos is within 0.5 of the 2.8 ideal", () => {
+    const result = scanTeamDynamics([
+      { timestamp: 0, sender: "a", replies: [1] },
+      { timestamp: 0, sender: "b", replies: [1, 2, 3, 4] },
+      { timestamp: 0, sender: "c", replies: [] },
+    ]);
+
+    assert.equal(result.fractalTiers[0], 2.89);
+    assert.equal(result.patternAlignment[0], true);
+    assert.equal(result.alignedTiers, 1);
+    assert.equal(result.teamHealth, 1);
+  });
+
+  it("wraps timestamps onto the 24 hourly tiers", () => {
+    const result = scanTeamDynamics([
+      { timestamp: 24, replies: [1] },
+      { timestamp: 48, replies: [1, 2, 3] },
+    ]);
+
+    assert.equal(result.fractalTiers[0], 1);
+    assert.deepEqual(result.senderInfluence, { unknown: 4 });
+  });
+
+  it("reports nothing for an empty log", () => {
+    const result = scanTeamDynamics([]);
+
+    assert.ok(result.fractalTiers.every(dim => dim === 0));
+    assert.equal(result.activeTiers, 0);
+    assert.equal(result.rippleScore, 0);
+    assert.equal(result.teamHealth, 0);
+  });
+});
+
+describe("fractal scan metrics", () => {
+  it("round-trips a scan through progress metrics", () => {
+    const result = scanTeamDynamics(TIER_TEST_LOGS);
+    const calculatedAt = new Date();
+    const metrics = fractalScanToMetrics(result, "user-1", "team-1").map(metric => ({ ...metric, calculatedAt }));
+
+    const restored = metricsToFractalScan(metrics);
+    assert.ok(restored);
+    assert.deepEqual(restored.fractalTiers, result.fractalTiers);
+    assert.deepEqual(restored.patternAlignment, result.patternAlignment);
+    assert.equal(restored.rippleScore, result.rippleScore);
+    assert.equal(restored.teamHealth, result.teamHealth);
+    assert.equal(restored.scannedAt, calculatedAt);
+  });
+
+  it("has no scan without a pattern alignment metric", () => {
+    assert.equal(metricsToFractalScan([]), null);
+  });
+});
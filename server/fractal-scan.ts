@@ -0,0 +1,125 @@
+import type { FractalScanLog, InsertProgressMetric } from "@shared/schema";
+
+// 25 Fractal Tiers: The Pattern (Christ) & The Ripple (Paul)
+// Ported from fractal_detector.py so team dynamics run inside the Express server
+
+export const FRACTAL_TIER_COUNT = 25;
+export const PATTERN_IDEAL_DIMENSION = 2.8; // The Pattern (Christ): optimal fractal dimension
+export const PATTERN_ALIGNMENT_TOLERANCE = 0.5; // Within 0.5 of the ideal is "aligned"
+
+export interface FractalScanResult {
+  fractalTiers: number[]; // 25-tier chaos levels
+  patternAlignment: boolean[]; // True if tier matches ideal
+  rippleScore: number; // Influence spread
+  activeTiers: number;
+  alignedTiers: number;
+  teamHealth: number; // Share of active tiers aligned to The Pattern, 0-1
+  senderInfluence: Record<string, number>; // Replies received per sender
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Population variance, matching numpy.var
+function variance(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+}
+
+// Map a timestamp to a tier (1-based) by hour, as the Flask scanner does
+function tierForTimestamp(timestamp: number): number {
+  const hour = ((timestamp % 24) + 24) % 24;
+  return Math.trunc(hour) + 1;
+}
+
+export function scanTeamDynamics(logs: FractalScanLog[]): FractalScanResult {
+  const tiers: FractalScanLog[][] = Array.from({ length: FRACTAL_TIER_COUNT }, () => []);
+  for (const msg of logs) {
+    tiers[tierForTimestamp(msg.timestamp || 0) - 1].push(msg);
+  }
+
+  // Fractal dimension per tier: variance of branching (replies per message) as a chaos proxy
+  const fractalTiers = tiers.map(tier => {
+    if (tier.length === 0) return 0;
+    const branches = tier.map(msg => (msg.replies || []).length);
+    return round2(variance(branches));
+  });
+
+  // The Pattern (Christ): compare each tier to the ideal dimension
+  const patternAlignment = fractalTiers.map(dim =>
+    Math.abs(dim - PATTERN_IDEAL_DIMENSION) < PATTERN_ALIGNMENT_TOLERANCE
+  );
+
+  // The Ripple (Paul): influence spread as average replies per sender
+  const senderInfluence: Record<string, number> = {};
+  for (const msg of logs) {
+    const sender = msg.sender || 'unknown';
+    senderInfluence[sender] = (senderInfluence[sender] || 0) + (msg.replies || []).length;
+  }
+  const influence = Object.values(senderInfluence);
+  const rippleScore = influence.length
+    ? round2(influence.reduce((sum, v) => sum + v, 0) / influence.length)
+    : 0;
+
+  const activeTiers = fractalTiers.filter(dim => dim > 0).length;
+  const alignedTiers = patternAlignment.filter(Boolean).length;
+
+  return {
+    fractalTiers,
+    patternAlignment,
+    rippleScore,
+    activeTiers,
+    alignedTiers,
+    teamHealth: activeTiers > 0 ? alignedTiers / activeTiers : 0,
+    senderInfluence,
+  };
+}
+
+// progress_metrics stores integers, so fractional scores are kept in hundredths
+export function fractalScanToMetrics(
+  result: FractalScanResult,
+  userId: string,
+  teamId: string
+): InsertProgressMetric[] {
+  const period = 'scan';
+  return [
+    { userId, teamId, period, metricType: 'pattern_alignment', value: Math.round(result.teamHealth * 100) },
+    { userId, teamId, period, metricType: 'ripple_score', value: Math.round(result.rippleScore * 100) },
+    ...result.fractalTiers.map((dim, index) => ({
+      userId,
+      teamId,
+      period,
+      metricType: `fractal_tier_${index + 1}`,
+      value: Math.round(dim * 100),
+    })),
+  ];
+}
+
+// Rebuild the latest scan from stored team metrics (newest first)
+export function metricsToFractalScan(metrics: { metricType: string; value: number; calculatedAt: Date | null }[]) {
+  const latest = new Map<string, { value: number; calculatedAt: Date | null }>();
+  for (const metric of metrics) {
+    if (!latest.has(metric.metricType)) {
+      latest.set(metric.metricType, metric);
+    }
+  }
+
+  const alignment = latest.get('pattern_alignment');
+  if (!alignment) return null;
+
+  const fractalTiers = Array.from({ length: FRACTAL_TIER_COUNT }, (_, index) =>
+    (latest.get(`fractal_tier_${index + 1}`)?.value || 0) / 100
+  );
+
+  return {
+    fractalTiers,
+    patternAlignment: fractalTiers.map(dim =>
+      Math.abs(dim - PATTERN_IDEAL_DIMENSION) < PATTERN_ALIGNMENT_TOLERANCE
+    ),
+    rippleScore: (latest.get('ripple_score')?.value || 0) / 100,
+    teamHealth: alignment.value / 100,
+    scannedAt: alignment.calculatedAt,
+  };
+}
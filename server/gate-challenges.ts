@@ -0,0 +1,214 @@
+import type { GateType } from "@shared/entitlements";
+import type { GateChallenge } from "@shared/gates";
+
+// Gate challenge questions with their scoring. Published versions are kept, never edited, so earlier
+// attempts can still be reviewed against the questions they answered; changes go in a new version.
+
+export interface ChoiceQuestionDefinition {
+  id: string;
+  type: 'choice';
+  question: string;
+  description?: string;
+  weight?: number; // relative to the other questions, default 1
+  // score is 0-100; honest early-stage answers still score well enough to pass with solid reflections
+  options: { value: string; title: string; description: string; score: number }[];
+}
+
+export interface ReflectionQuestionDefinition {
+  id: string;
+  type: 'reflection';
+  question: string;
+  description?: string;
+  weight?: number;
+  minWords: number;    // below this the attempt fails
+  targetWords: number; // full marks for length from here
+  themes: string[];    // words a reflection that engages with the question tends to use
+}
+
+export type GateQuestionDefinition = ChoiceQuestionDefinition | ReflectionQuestionDefinition;
+
+export interface GateChallengeDefinition {
+  gateType: GateType;
+  version: number;
+  passingScore: number; // 0-100
+  questions: GateQuestionDefinition[];
+}
+
+export const GATE_CHALLENGES: GateChallengeDefinition[] = [
+  {
+    gateType: 'identity_mirror',
+    version: 1,
+    passingScore: 60,
+    questions: [
+      {
+        id: 'calling_recognition',
+        type: 'choice',
+        question: 'How do you currently understand your calling in God\'s Kingdom?',
+        description: 'This reflects your foundation of identity in Christ',
+        options: [
+          { value: 'unclear', title: 'Still discovering', description: 'I am in the process of understanding my calling', score: 60 },
+          { value: 'emerging', title: 'Beginning to see', description: 'I have some clarity but need more understanding', score: 80 },
+          { value: 'clear', title: 'Clear vision', description: 'I have a strong sense of my divine calling', score: 100 },
+        ],
+      },
+      {
+        id: 'identity_foundation',
+        type: 'reflection',
+        question: 'What does "leadership begins at the altar" mean to you personally?',
+        description: 'Reflect on how surrender and worship form the foundation of biblical leadership',
+        minWords: 20,
+        targetWords: 80,
+        themes: ['altar', 'surrender', 'worship', 'identity', 'god', 'christ', 'serve', 'humble', 'submit', 'foundation'],
+      },
+      {
+        id: 'personal_altar',
+        type: 'reflection',
+        question: 'Describe your own "altar experience" - a moment when you surrendered your will to God\'s purpose.',
+        description: 'This helps establish your spiritual foundation for leadership',
+        minWords: 20,
+        targetWords: 80,
+        themes: ['surrender', 'will', 'purpose', 'prayer', 'god', 'moment', 'trust', 'changed', 'learned', 'obey'],
+      },
+    ],
+  },
+  {
+    gateType: 'shofar_convergence',
+    version: 1,
+    passingScore: 60,
+    questions: [
+      {
+        id: 'commissioning_readiness',
+        type: 'choice',
+        question: 'How prepared do you feel to be "sent" by God into leadership?',
+        description: 'The shofar calls those who are ready to be commissioned',
+        options: [
+          { value: 'hesitant', title: 'Still preparing', description: 'I need more time to prepare before being sent', score: 60 },
+          { value: 'willing', title: 'Willing but nervous', description: 'I am willing but feel the weight of responsibility', score: 85 },
+          { value: 'ready', title: 'Ready and eager', description: 'I feel prepared and excited to be commissioned', score: 100 },
+        ],
+      },
+      {
+        id: 'authority_understanding',
+        type: 'reflection',
+        question: 'What does it mean to carry divine authority in your leadership context?',
+        description: 'Consider how God\'s authority flows through submitted leaders',
+        minWords: 25,
+        targetWords: 100,
+        themes: ['authority', 'submit', 'submitted', 'serve', 'responsibility', 'steward', 'team', 'god', 'sent', 'accountable'],
+      },
+      {
+        id: 'commission_vision',
+        type: 'reflection',
+        question: 'Describe the specific mission or territory God is calling you to influence.',
+        description: 'The shofar calls you to a specific assignment - what is yours?',
+        minWords: 25,
+        targetWords: 100,
+        themes: ['mission', 'calling', 'community', 'people', 'city', 'church', 'team', 'assignment', 'influence', 'serve'],
+      },
+    ],
+  },
+  {
+    gateType: 'network_multiplication',
+    version: 1,
+    passingScore: 60,
+    questions: [
+      {
+        id: 'multiplication_mindset',
+        type: 'choice',
+        question: 'How do you currently approach developing other leaders?',
+        description: 'Apostolic leaders multiply themselves through others',
+        options: [
+          { value: 'individual', title: 'Focus on individual growth', description: 'I primarily focus on my own development', score: 60 },
+          { value: 'mentoring', title: 'Actively mentoring others', description: 'I regularly invest in developing other leaders', score: 85 },
+          { value: 'multiplying', title: 'Creating multiplication systems', description: 'I build systems that develop leaders who develop leaders', score: 100 },
+        ],
+      },
+      {
+        id: 'network_strategy',
+        type: 'reflection',
+        question: 'What is your strategy for building Kingdom networks that expand beyond yourself?',
+        description: 'Consider how apostolic leaders create movements, not just ministries',
+        minWords: 25,
+        targetWords: 100,
+        themes: ['network', 'leaders', 'mentor', 'train', 'disciple', 'relationships', 'multiply', 'develop', 'empower', 'movement'],
+      },
+      {
+        id: 'legacy_vision',
+        type: 'reflection',
+        question: 'How do you want to see God\'s Kingdom multiplied through your network in the next 5 years?',
+        description: 'Envision the multiplication impact of your leadership influence',
+        minWords: 25,
+        targetWords: 100,
+        themes: ['kingdom', 'multiply', 'years', 'leaders', 'legacy', 'generation', 'growth', 'churches', 'teams', 'impact'],
+      },
+    ],
+  },
+  {
+    gateType: 'twelve_gate_convergence',
+    version: 1,
+    passingScore: 65,
+    questions: [
+      {
+        id: 'pattern_integration',
+        type: 'choice',
+        question: 'How well do you understand the complete biblical leadership pattern?',
+        description: 'The twelve gates represent complete spiritual maturity and wisdom',
+        options: [
+          { value: 'partial', title: 'Partial understanding', description: 'I see some pieces but not the whole pattern', score: 55 },
+          { value: 'emerging', title: 'Pattern emerging', description: 'The complete pattern is becoming clear to me', score: 80 },
+          { value: 'integrated', title: 'Fully integrated', description: 'I understand and can teach the complete pattern', score: 100 },
+        ],
+      },
+      {
+        id: 'wisdom_application',
+        type: 'reflection',
+        question: 'How will you apply the wisdom from all twelve gates in your leadership context?',
+        description: 'Consider the integration of all biblical leadership principles',
+        minWords: 30,
+        targetWords: 120,
+        themes: ['wisdom', 'pattern', 'apply', 'identity', 'authority', 'multiply', 'integrate', 'practice', 'team', 'lead'],
+      },
+      {
+        id: 'completion_commitment',
+        type: 'reflection',
+        question: 'What is your commitment to stewarding this complete biblical leadership pattern?',
+        description: 'How will you ensure this pattern continues through your influence?',
+        minWords: 30,
+        targetWords: 120,
+        themes: ['commit', 'steward', 'teach', 'pattern', 'generation', 'disciple', 'faithful', 'continue', 'legacy', 'others'],
+      },
+    ],
+  },
+];
+
+// The latest version, or a specific one when reviewing an earlier attempt
+export function getGateChallenge(gateType: GateType, version?: number): GateChallengeDefinition | undefined {
+  const versions = GATE_CHALLENGES.filter(challenge => challenge.gateType === gateType);
+  if (version !== undefined) {
+    return versions.find(challenge => challenge.version === version);
+  }
+  return versions.sort((a, b) => b.version - a.version)[0];
+}
+
+export function toPublicChallenge(challenge: GateChallengeDefinition): GateChallenge {
+  return {
+    gateType: challenge.gateType,
+    version: challenge.version,
+    passingScore: challenge.passingScore,
+    questions: challenge.questions.map(question => question.type === 'choice'
+      ? {
+          id: question.id,
+          type: question.type,
+          question: question.question,
+          description: question.description,
+          options: question.options.map(({ value, title, description }) => ({ value, title, description })),
+        }
+      : {
+          id: question.id,
+          type: question.type,
+          question: question.question,
+          description: question.description,
+          minWords: question.minWords,
+        }),
+  };
+}
@@ -0,0 +1,155 @@
+import type { CompleteGateRequest, GateQuestionFeedback } from "@shared/schema";
+import type { GateChallengeDefinition, ReflectionQuestionDefinition } from "./gate-challenges";
+import { getCoachingProvider, type UsageListener } from "./coaching";
+import { reserveAiUsage } from "./usage";
+import { storage } from "./storage";
+
+export interface GateScore {
+  score: number; // weighted 0-100 across every question
+  passed: boolean;
+  feedback: GateQuestionFeedback[];
+  scoredBy: 'rubric' | 'ai';
+}
+
+// What is missing or malformed in a submission; scoring only runs on complete ones
+export function validateGateSubmission(challenge: GateChallengeDefinition, submission: CompleteGateRequest): string[] {
+  const issues: string[] = [];
+
+  for (const question of challenge.questions) {
+    if (question.type === 'choice') {
+      const answer = submission.responses[question.id];
+      if (!answer) {
+        issues.push(`Choose an answer for "${question.question}"`);
+      } else if (!question.options.some(option => option.value === answer)) {
+        issues.push(`"${answer}" is not an option for "${question.question}"`);
+      }
+    } else if (!submission.reflections[question.id]?.trim()) {
+      issues.push(`Answer "${question.question}"`);
+    }
+  }
+
+  return issues;
+}
+
+function wordsOf(text: string): string[] {
+  return text.toLowerCase().split(/\s+/).map(word => word.replace(/[.,;:!?"()\[\]]/g, '')).filter(Boolean);
+}
+
+// Depth without a model: length toward the target, vocabulary variety, more than one sentence,
+// and whether the answer touches the question's themes
+function reflectionRubric(question: ReflectionQuestionDefinition, answer: string): GateQuestionFeedback {
+  const words = wordsOf(answer);
+  const base = { questionId: question.id, type: 'reflection' as const };
+
+  if (words.length < question.minWords) {
+    return {
+      ...base,
+      score: 0,
+      meetsMinimum: false,
+      feedback: `Write at least ${question.minWords} words; this reflection has ${words.length}.`,
+    };
+  }
+
+  const uniqueWords = new Set(words);
+  const sentences = answer.split(/[.!?]+/).filter(sentence => wordsOf(sentence).length >= 3).length;
+  const themesTouched = question.themes.filter(theme => words.some(word => word.startsWith(theme))).length;
+
+  const parts = {
+    length: Math.min(1, words.length / question.targetWords),
+    variety: Math.min(1, uniqueWords.size / words.length / 0.6),
+    structure: Math.min(1, sentences / 3),
+    themes: Math.min(1, themesTouched / 2),
+  };
+  const score = Math.round(100 * (0.4 * parts.length + 0.2 * parts.variety + 0.2 * parts.structure + 0.2 * parts.themes));
+
+  let feedback = "A thoughtful, well-developed reflection.";
+  if (parts.themes < 1) {
+    feedback = "Tie your answer more directly to the question's theme.";
+  } else if (parts.length < 1) {
+    feedback = "Go deeper: a concrete example from your own leadership would strengthen this.";
+  } else if (parts.structure < 1) {
+    feedback = "Develop your thoughts across a few sentences.";
+  }
+
+  return { ...base, score, meetsMinimum: true, feedback };
+}
+
+// The AI rubric is off unless GATE_AI_RUBRIC=true. It grades with the user's coaching provider
+// (their organization's choice) against their daily AI quota, and only rescores reflections that
+// already meet the word minimum. A provider that cannot grade, a used-up quota or any failure
+// keeps the local rubric's scores.
+async function applyAiRubric(
+  userId: string,
+  challenge: GateChallengeDefinition,
+  submission: CompleteGateRequest,
+  feedback: GateQuestionFeedback[]
+): Promise<boolean> {
+  if (process.env.GATE_AI_RUBRIC !== 'true') return false;
+
+  const gradable = challenge.questions.filter((question): question is ReflectionQuestionDefinition =>
+    question.type === 'reflection' && !!feedback.find(entry => entry.questionId === question.id)?.meetsMinimum
+  );
+  if (gradable.length === 0) return false;
+
+  // The provider is built before the reservation exists, so usage is forwarded once it does
+  let onUsage: UsageListener | undefined;
+  const provider = await getCoachingProvider(userId, usage => onUsage?.(usage));
+  const user = await storage.getUser(userId);
+  if (!provider.gradeGateReflections || !user) return false;
+
+  const reservation = await reserveAiUsage(user, 'gate_grading');
+  if ('error' in reservation) return false;
+  onUsage = reservation.onUsage;
+
+  try {
+    const grades = await provider.gradeGateReflections(gradable.map(question => ({
+      id: question.id,
+      question: question.question,
+      answer: submission.reflections[question.id],
+    })));
+
+    for (const entry of feedback) {
+      const grade = grades[entry.questionId];
+      if (entry.type !== 'reflection' || !entry.meetsMinimum || typeof grade?.score !== 'number') continue;
+      entry.score = Math.max(0, Math.min(100, Math.round(grade.score)));
+      if (grade.feedback) entry.feedback = String(grade.feedback);
+    }
+    reservation.settle(true);
+    return true;
+  } catch (error) {
+    console.error("Error grading gate reflections, keeping rubric scores:", error);
+    reservation.settle(false);
+    return false;
+  }
+}
+
+// Weighted average of every question's score. Passing needs the challenge's passing score
+// and every reflection over its word minimum.
+export async function scoreGateSubmission(userId: string, challenge: GateChallengeDefinition, submission: CompleteGateRequest): Promise<GateScore> {
+  const feedback: GateQuestionFeedback[] = challenge.questions.map(question => {
+    if (question.type === 'reflection') {
+      return reflectionRubric(question, submission.reflections[question.id] || '');
+    }
+    const option = question.options.find(candidate => candidate.value === submission.responses[question.id]);
+    return {
+      questionId: question.id,
+      type: 'choice',
+      score: option?.score ?? 0,
+      meetsMinimum: !!option,
+      feedback: option ? `You answered "${option.title}".` : "No answer chosen.",
+    };
+  });
+
+  const scoredByAi = await applyAiRubric(userId, challenge, submission, feedback);
+
+  const totalWeight = challenge.questions.reduce((sum, question) => sum + (question.weight ?? 1), 0);
+  const weighted = challenge.questions.reduce((sum, question, index) => sum + feedback[index].score * (question.weight ?? 1), 0);
+  const score = Math.round(weighted / totalWeight);
+
+  return {
+    score,
+    passed: score >= challenge.passingScore && feedback.every(entry => entry.meetsMinimum),
+    feedback,
+    scoredBy: scoredByAi ? 'ai' : 'rubric',
+  };
+}
@@ -0,0 +1,42 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { migratePracticeGateRecords } from "./gates";
+import { startTestApp, type TestApp } from "./test-app";
+
+describe("practice-based gate records", () => {
+  let app: TestApp;
+  let user: { userId: string; cookie: string };
+
+  before(async () => {
+    app = await startTestApp();
+    user = await app.login('builder_demo');
+  });
+
+  after(() => app.close());
+
+  it("refuses gate challenges posted as daily practices", async () => {
+    const response = await app.request('POST', '/api/practices', user.cookie, {
+      date: new Date().toISOString(),
+      practiceType: 'gate_challenge_twelve_gate_convergence',
+      completed: true,
+    });
+
+    assert.equal(response.status, 400);
+    assert.match(response.body.message, /Gate challenges are completed through the gate endpoints/);
+    assert.equal((await storage.getUserGate(user.userId, 'twelve_gate_convergence'))?.state ?? 'locked', 'locked');
+  });
+
+  it("converts only records from before the gate service", async () => {
+    const owner = await storage.createUser({ username: `legacy_gates_${Date.now()}` });
+    const legacy = await storage.createDailyPractice({ userId: owner.id, date: new Date('2025-03-01'), practiceType: 'gate_challenge_identity-mirror', completed: true });
+    // Written by the old client before gate completion moved to the gate service
+    legacy.createdAt = new Date('2025-03-01');
+    await storage.createDailyPractice({ userId: owner.id, date: new Date(), practiceType: 'gate_challenge_shofar_convergence', completed: true });
+
+    await migratePracticeGateRecords();
+
+    assert.equal((await storage.getUserGate(owner.id, 'identity_mirror'))?.state, 'completed');
+    assert.equal((await storage.getUserGate(owner.id, 'shofar_convergence'))?.state ?? 'locked', 'locked');
+  });
+});
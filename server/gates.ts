@@ -0,0 +1,226 @@
+import type { GateProgress, GateAttempt, CompleteGateRequest } from "@shared/schema";
+import { CHAPTERS, GATE_PRACTICE_PREFIX } from "@shared/schema";
+import { GATE_TYPES, canAccessGate, type GateType, type TierEntitlements } from "@shared/entitlements";
+import { GATE_DEFINITIONS, type GateStatus, type GateAttemptSummary } from "@shared/gates";
+import { storage } from "./storage";
+import { getGateChallenge } from "./gate-challenges";
+import { validateGateSubmission, scoreGateSubmission } from "./gate-scoring";
+import { getXpRules, awardGateXp } from "./xp";
+
+// Gates move locked -> unlocked -> in_progress -> completed and never back. A gate unlocks once its
+// prerequisite chapters are complete, starts when the user opens the challenge, and completes exactly
+// once; every step is a conditional update on the previous state, and only completion awards XP.
+
+export function isGateType(value: string): value is GateType {
+  return (GATE_TYPES as readonly string[]).includes(value);
+}
+
+// Every matrix chapter before the gate's own; falls back to the bundled chapter list before the matrix is seeded
+async function getMatrixChapterNumbers(): Promise<number[]> {
+  const matrix = await storage.getBiblicalMatrix();
+  return matrix.length > 0 ? matrix.map(entry => entry.chapterNumber) : CHAPTERS.map(chapter => chapter.ch);
+}
+
+function prerequisiteChapters(gateType: GateType, matrixChapters: number[]): number[] {
+  const { chapterNumber } = GATE_DEFINITIONS[gateType];
+  return matrixChapters.filter(chapter => chapter < chapterNumber).sort((a, b) => a - b);
+}
+
+function toGateStatus(gate: GateProgress, prerequisites: number[], completedChapters: number[], entitled: boolean): GateStatus {
+  const gateType = gate.gateType as GateType;
+  const definition = GATE_DEFINITIONS[gateType];
+
+  return {
+    gateType,
+    name: definition.name,
+    chapterNumber: gate.chapterNumber,
+    state: gate.state,
+    prerequisiteChapters: prerequisites,
+    missingChapters: gate.state === 'locked' ? prerequisites.filter(chapter => !completedChapters.includes(chapter)) : [],
+    entitled,
+    xp: getXpRules().gateCompleted[gateType],
+    unlockedAt: gate.unlockedAt?.toISOString() ?? null,
+    startedAt: gate.startedAt?.toISOString() ?? null,
+    completedAt: gate.completedAt?.toISOString() ?? null,
+    score: gate.score,
+    responses: gate.responses ?? null,
+    reflections: gate.reflections ?? null,
+  };
+}
+
+// Creates any missing gate rows and unlocks the locked ones whose prerequisites are now complete.
+// Runs on every read, so finishing a chapter needs no gate bookkeeping of its own.
+async function refreshUserGates(userId: string) {
+  const [matrixChapters, progress] = await Promise.all([getMatrixChapterNumbers(), storage.getUserProgress(userId)]);
+  const completedChapters = progress?.completedChapters ?? [];
+  const gates: { gate: GateProgress; prerequisites: number[] }[] = [];
+
+  for (const gateType of GATE_TYPES) {
+    const prerequisites = prerequisiteChapters(gateType, matrixChapters);
+    let gate = await storage.ensureUserGate(userId, gateType, GATE_DEFINITIONS[gateType].chapterNumber);
+
+    if (gate.state === 'locked' && prerequisites.every(chapter => completedChapters.includes(chapter))) {
+      gate = await storage.transitionGate(gate.id, 'locked', {
+        state: 'unlocked',
+        unlocked: true,
+        unlockedAt: new Date(),
+      }) ?? (await storage.getUserGate(userId, gateType))!;
+    }
+
+    gates.push({ gate, prerequisites });
+  }
+
+  return { gates, completedChapters };
+}
+
+export async function getUserGates(userId: string, entitlements: TierEntitlements): Promise<GateStatus[]> {
+  const { gates, completedChapters } = await refreshUserGates(userId);
+  return gates.map(({ gate, prerequisites }) =>
+    toGateStatus(gate, prerequisites, completedChapters, canAccessGate(entitlements, gate.gateType))
+  );
+}
+
+export type GateTransitionError = 'locked' | 'already_completed';
+
+export type GateCompletionResult =
+  | { gate: GateStatus; attempt: GateAttemptSummary; xpEarned: number; totalXP: number; newLevel: number; levelUp: boolean; unlockedChapter: number | null }
+  | { error: GateTransitionError }
+  | { error: 'invalid_submission'; issues: string[] }
+  | { error: 'not_passed'; attempt: GateAttemptSummary };
+
+export function toAttemptSummary(attempt: GateAttempt): GateAttemptSummary {
+  return {
+    id: attempt.id,
+    gateType: attempt.gateType,
+    challengeVersion: attempt.challengeVersion,
+    score: attempt.score,
+    passingScore: attempt.passingScore,
+    passed: attempt.passed,
+    feedback: attempt.feedback,
+    scoredBy: attempt.scoredBy,
+    createdAt: attempt.createdAt?.toISOString() ?? null,
+  };
+}
+
+// unlocked -> in_progress; a gate that is already in progress stays as it is
+async function startUserGate(
+  userId: string,
+  gateType: GateType
+): Promise<{ gate: GateProgress; prerequisites: number[]; completedChapters: number[] } | { error: GateTransitionError }> {
+  const { gates, completedChapters } = await refreshUserGates(userId);
+  const { gate, prerequisites } = gates.find(entry => entry.gate.gateType === gateType)!;
+
+  if (gate.state === 'locked') return { error: 'locked' };
+  if (gate.state === 'completed') return { error: 'already_completed' };
+
+  const started = gate.state === 'unlocked'
+    ? await storage.transitionGate(gate.id, 'unlocked', { state: 'in_progress', startedAt: new Date() })
+    : gate;
+
+  return { gate: started ?? (await storage.getUserGate(userId, gateType))!, prerequisites, completedChapters };
+}
+
+// Callers check the gate entitlement first, so the returned status is always an entitled one
+export async function startGate(userId: string, gateType: GateType): Promise<{ gate: GateStatus } | { error: GateTransitionError }> {
+  const started = await startUserGate(userId, gateType);
+  if ('error' in started) return started;
+  return { gate: toGateStatus(started.gate, started.prerequisites, started.completedChapters, true) };
+}
+
+// Starts the gate first when the client went straight to submitting, then scores the submission
+// against the current challenge version and saves it as an attempt. A passing attempt completes
+// the gate, awards its XP and moves the user on to the chapter after it; a failing one leaves it in progress.
+export async function completeGate(userId: string, gateType: GateType, submission: CompleteGateRequest): Promise<GateCompletionResult> {
+  const challenge = getGateChallenge(gateType)!;
+  const issues = validateGateSubmission(challenge, submission);
+  if (issues.length > 0) return { error: 'invalid_submission', issues };
+
+  const started = await startUserGate(userId, gateType);
+  if ('error' in started) return started;
+
+  const result = await scoreGateSubmission(userId, challenge, submission);
+  const attempt = toAttemptSummary(await storage.createGateAttempt({
+    userId,
+    gateType,
+    challengeVersion: challenge.version,
+    responses: submission.responses,
+    reflections: submission.reflections,
+    score: result.score,
+    passingScore: challenge.passingScore,
+    passed: result.passed,
+    feedback: result.feedback,
+    scoredBy: result.scoredBy,
+  }));
+  if (!result.passed) return { error: 'not_passed', attempt };
+
+  const definition = GATE_DEFINITIONS[gateType];
+  const completed = await storage.transitionGate(started.gate.id, 'in_progress', {
+    state: 'completed',
+    completed: true,
+    completedAt: new Date(),
+    responses: submission.responses,
+    reflections: submission.reflections,
+    score: result.score,
+    experienceGained: getXpRules().gateCompleted[gateType],
+  });
+  // Another request completed it first
+  if (!completed) return { error: 'already_completed' };
+
+  const { user, levelUp, xpGained } = await awardGateXp(userId, gateType);
+
+  const currentChapter = user.currentChapterId ? parseInt(user.currentChapterId.replace('chapter-', '')) : 1;
+  if (definition.nextChapter && currentChapter < definition.nextChapter) {
+    await storage.upsertUser({ currentChapterId: `chapter-${definition.nextChapter}` }, userId);
+  }
+
+  return {
+    gate: toGateStatus(completed, started.prerequisites, started.completedChapters, true),
+    attempt,
+    xpEarned: xpGained,
+    totalXP: user.experiencePoints || 0,
+    newLevel: user.level || 1,
+    levelUp,
+    unlockedChapter: definition.nextChapter,
+  };
+}
+
+// When completion moved to this service; later gate practices were never a way to complete a gate
+const GATE_PRACTICE_RECORDS_BEFORE = new Date('2026-10-19T00:00:00Z');
+
+// Runs once as a recorded data migration (server/data-migrations.ts). Practices recorded before the
+// gate service become completed gates with the practice's reflections and date; their XP was awarded
+// at the time.
+export async function migratePracticeGateRecords(): Promise<number> {
+  const practices = await storage.getGatePracticeRecords(GATE_PRACTICE_RECORDS_BEFORE);
+  let migrated = 0;
+
+  for (const practice of practices) {
+    // Some records were written with the client's dashed slug, e.g. gate_challenge_twelve_gate-convergence
+    const gateType = practice.practiceType.slice(GATE_PRACTICE_PREFIX.length).replace(/-/g, '_');
+    if (!practice.completed || !isGateType(gateType)) continue;
+
+    const gate = await storage.ensureUserGate(practice.userId, gateType, GATE_DEFINITIONS[gateType].chapterNumber);
+    if (gate.state === 'completed') continue;
+
+    let reflections: Record<string, string> | null = null;
+    try {
+      reflections = practice.notes ? JSON.parse(practice.notes) : null;
+    } catch {
+      reflections = null;
+    }
+
+    const updated = await storage.transitionGate(gate.id, gate.state, {
+      state: 'completed',
+      unlocked: true,
+      completed: true,
+      unlockedAt: gate.unlockedAt ?? practice.date,
+      startedAt: gate.startedAt ?? practice.date,
+      completedAt: practice.date,
+      reflections,
+      experienceGained: getXpRules().gateCompleted[gateType],
+    });
+    if (updated) migrated++;
+  }
+
+  return migrated;
+}
@@ -0,0 +1,105 @@
+// Generational tools function for biblical mapping
+export function getGenerationalTools(generation: string, archetype: string) {
+  const toolsMatrix = {
+    books: [] as string[],
+    chapter: 1,
+    tools: [] as any[]
+  };
+
+  // Archetype-specific biblical book mapping
+  const archetypeBooks = {
+    pioneer: ['Genesis', 'Joshua', 'Acts', 'Hebrews'],
+    organizer: ['Leviticus', 'Nehemiah', '1 Corinthians', 'Ephesians'], 
+    builder: ['Exodus', 'Ezra', '2 Corinthians', 'Colossians'],
+    guardian: ['Deuteronomy', 'Psalms', '1 Timothy', '1 Peter']
+  };
+
+  // Generation-specific starting chapters and approaches
+  const generationSettings = {
+    'gen-z': { startChapter: 1, approach: 'micro-learning' },
+    'millennial': { startChapter: 3, approach: 'collaborative' },
+    'gen-x': { startChapter: 5, approach: 'practical' },
+    'boomer': { startChapter: 1, approach: 'comprehensive' },
+    'silent': { startChapter: 1, approach: 'traditional' }
+  };
+
+  // Set books and chapter based on archetype and generation
+  toolsMatrix.books = archetypeBooks[archetype as keyof typeof archetypeBooks] || archetypeBooks.pioneer;
+  toolsMatrix.chapter = generationSettings[generation as keyof typeof generationSettings]?.startChapter || 1;
+
+  // Generation-specific tools
+  switch (generation) {
+    case 'gen-z':
+      toolsMatrix.tools = [
+        { name: 'Biblical Micro-Learning', duration: '5-10 min', format: 'bite-sized' },
+        { name: 'Gamified Scripture Study', type: 'interactive', frequency: 'daily' },
+        { name: 'Social Leadership Challenge', format: 'peer-competition', sharing: true }
+      ];
+      break;
+      
+    case 'millennial':
+      toolsMatrix.tools = [
+        { name: 'Group Bible Study', duration: '30-45 min', format: 'collaborative' },
+        { name: 'Video Devotional Series', type: 'multimedia', frequency: 'weekly' },
+        { name: 'Peer Leadership Circles', format: 'discussion-based', community: true }
+      ];
+      break;
+      
+    case 'gen-x':
+      toolsMatrix.tools = [
+        { name: 'Practical Leadership Study', duration: '20-30 min', format: 'application-focused' },
+        { name: 'Email Devotional Series', type: 'written', frequency: 'daily' },
+        { name: 'Milestone-Based Assessment', format: 'structured', quarterly: true }
+      ];
+      break;
+      
+    case 'boomer':
+      toolsMatrix.tools = [
+        { name: 'Deep Scriptural Meditation', duration: '45-60 min', format: 'contemplative' },
+        { name: 'Comprehensive Biblical Commentary', type: 'thorough', depth: 'scholarly' },
+        { name: 'Mentorship Preparation Guide', format: 'wisdom-sharing', legacy: true }
+      ];
+      break;
+      
+    case 'silent':
+      toolsMatrix.tools = [
+        { name: 'Traditional Bible Reading', duration: '60+ min', format: 'sequential' },
+        { name: 'Prayer and Reflection Journal', type: 'written', personal: true },
+        { name: 'Wisdom Literature Study', format: 'traditional', depth: 'foundational' }
+      ];
+      break;
+  }
+
+  // Archetype-specific tool additions
+  switch (archetype) {
+    case 'pioneer':
+      toolsMatrix.tools.push(
+        { name: 'Prophetic Vision Exercises', type: 'spiritual', focus: 'breakthrough' },
+        { name: 'Risk Assessment Framework', type: 'practical', decision: 'faith-based' }
+      );
+      break;
+      
+    case 'organizer':
+      toolsMatrix.tools.push(
+        { name: 'Team Unity Building', type: 'relational', focus: 'harmony' },
+        { name: 'Communication Templates', type: 'practical', efficiency: 'high' }
+      );
+      break;
+      
+    case 'builder':
+      toolsMatrix.tools.push(
+        { name: 'Project Planning Templates', type: 'systematic', focus: 'execution' },
+        { name: 'Ministry Development Guide', type: 'strategic', growth: 'sustainable' }
+      );
+      break;
+      
+    case 'guardian':
+      toolsMatrix.tools.push(
+        { name: 'Value Protection Strategies', type: 'defensive', focus: 'preservation' },
+        { name: 'Shepherding Techniques', type: 'nurturing', care: 'pastoral' }
+      );
+      break;
+  }
+
+  return toolsMatrix;
+}
@@ -0,0 +1,50 @@
+import { randomBytes } from "crypto";
+import type { Organization, OrganizationInvitation, User } from "@shared/schema";
+import type { MailMessage } from "./mailer";
+
+const INVITATION_TTL_DAYS = parseInt(process.env.INVITATION_TTL_DAYS || '7', 10);
+
+export function createInvitationToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+export function invitationExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export function isInvitationExpired(invitation: OrganizationInvitation, now: Date = new Date()): boolean {
+  return invitation.expiresAt.getTime() <= now.getTime();
+}
+
+// Invitation as shown to org admins: the token only ever travels by email
+export function toPublicInvitation(invitation: OrganizationInvitation) {
+  const { token, ...rest } = invitation;
+  return rest;
+}
+
+export function buildInvitationEmail(
+  invitation: OrganizationInvitation,
+  organization: Organization,
+  inviter: User | undefined,
+  baseUrl: string
+): MailMessage {
+  const inviterName = inviter
+    ? `${inviter.firstName || ''} ${inviter.lastName || ''}`.trim() || inviter.email || 'A leader'
+    : 'A leader';
+  const acceptUrl = `${baseUrl}/invite/${invitation.token}`;
+
+  const lines = [
+    `${inviterName} has invited you to join ${organization.name} on Fractal Leader as a ${invitation.role}.`,
+    '',
+    ...(invitation.message ? [invitation.message, ''] : []),
+    `Accept or decline your invitation here: ${acceptUrl}`,
+    '',
+    `This invitation expires on ${invitation.expiresAt.toDateString()}.`,
+  ];
+
+  return {
+    to: invitation.email,
+    subject: `You're invited to join ${organization.name} on Fractal Leader`,
+    text: lines.join('\n'),
+  };
+}
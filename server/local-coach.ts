@@ -0,0 +1,129 @@
+import type { CoachingMessage, CoachingProvider, GuidanceStreamOptions, UsageListener } from './coaching';
+import { getArchetype } from './coaching-archetypes';
+import type { CoachingContext } from './coaching-context';
+
+// Offline coach for development and tests: same input, same output, no network
+export const LOCAL_MODEL = 'local-deterministic-v1';
+
+const SCRIPTURES = [
+  { reference: 'Proverbs 3:5-6', theme: 'trusting God over your own understanding' },
+  { reference: 'Nehemiah 2:17-18', theme: 'rallying people around a shared vision' },
+  { reference: 'Joshua 1:9', theme: 'courage when the path ahead is unclear' },
+  { reference: 'Exodus 18:17-23', theme: 'sharing the load and raising up other leaders' },
+  { reference: 'Mark 10:43-45', theme: 'leading by serving' },
+  { reference: 'Micah 6:8', theme: 'justice, mercy and humility' },
+  { reference: 'Ecclesiastes 3:1', theme: 'discerning the right season' },
+];
+
+// Stable string hash (djb2) so the same prompt always picks the same material
+function hash(text: string): number {
+  let value = 5381;
+  for (let i = 0; i < text.length; i++) {
+    value = ((value << 5) + value + text.charCodeAt(i)) >>> 0;
+  }
+  return value;
+}
+
+function pick<T>(items: T[], seed: string): T {
+  return items[hash(seed) % items.length];
+}
+
+// Rough token estimate (about four characters per token) so metering behaves like a real model
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export class LocalCoachingProvider implements CoachingProvider {
+  readonly name = 'local' as const;
+  readonly model = LOCAL_MODEL;
+
+  constructor(private readonly onUsage?: UsageListener) {}
+
+  private respond(prompt: string, text: string): string {
+    this.onUsage?.({ inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text) });
+    return text;
+  }
+
+  async provideGuidance(message: string, context: CoachingContext, history: CoachingMessage[] = []): Promise<string> {
+    const archetype = getArchetype(context.archetype);
+    const scripture = pick(SCRIPTURES, `${message}:${history.length}`);
+    const [firstExample] = archetype.biblical_examples.split(', ');
+    const { chapter } = context;
+    const [latestPractice] = context.recentPractices;
+
+    return this.respond(message + history.map(entry => entry.content).join(''), [
+      `Your ${archetype.name} calling brings ${archetype.strengths.toLowerCase()} to this question.`,
+      `Consider ${scripture.reference}, which speaks to ${scripture.theme}. ${firstExample} faced a similar moment and grew through it.`,
+      chapter
+        ? `In chapter ${chapter.chapterNumber}, "${chapter.title}", you stand at the ${chapter.templeSpace} with the ${chapter.stone} stone and the element of ${chapter.element}. Let the ${chapter.fractalGate} gate and the ${chapter.spiritualFrequency} frequency shape how you answer this.`
+        : 'Begin the journey at chapter 1 to anchor this question in the Pattern.',
+      latestPractice
+        ? `Your practice note from ${latestPractice.date} is worth revisiting alongside this.`
+        : undefined,
+      `Next step: pick one concrete action this week that stretches your growth area (${archetype.growth_areas.toLowerCase()}), and invite someone from another generation than your own (${context.generation.replace('_', ' ')}) to reflect on it with you.`,
+    ].filter(Boolean).join('\n\n'));
+  }
+
+  async streamGuidance(
+    message: string,
+    context: CoachingContext,
+    history: CoachingMessage[],
+    { onText, signal }: GuidanceStreamOptions
+  ): Promise<string> {
+    const response = await this.provideGuidance(message, context, history);
+
+    // Emit word by word so clients exercise the same incremental path as with Anthropic
+    for (const chunk of response.match(/\S+\s*/g) || []) {
+      if (signal?.aborted) {
+        throw new Error('Request was aborted.');
+      }
+      onText(chunk);
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    return response;
+  }
+
+  async generateReflectionQuestions(archetype: string): Promise<string[]> {
+    const archetypeData = getArchetype(archetype);
+    const [firstExample] = archetypeData.biblical_examples.split(', ');
+
+    const questions = [
+      `Where is God inviting you to use your ${archetypeData.name} gifts of ${archetypeData.strengths.split(', ')[0].toLowerCase()} this season?`,
+      `What would ${firstExample} do with the leadership challenge in front of you right now?`,
+      `What would shift for the people you lead if you grew in this area: ${archetypeData.growth_areas.split(', ')[0].toLowerCase()}?`,
+    ];
+    this.respond(archetype, questions.join('\n'));
+    return questions;
+  }
+
+  async analyzeArchetypeDeepDive(responses: Record<string, string>, archetype: string): Promise<string> {
+    const archetypeData = getArchetype(archetype);
+    const answered = Object.keys(responses).length;
+
+    return this.respond(JSON.stringify(responses), [
+      `${archetypeData.name} profile (${answered} responses analyzed)`,
+      archetypeData.description + '.',
+      `Biblical companions: ${archetypeData.biblical_examples}.`,
+      `Strengths to lean on: ${archetypeData.strengths}.`,
+      `Growth edges: ${archetypeData.growth_areas}.`,
+      `Scripture to sit with: ${pick(SCRIPTURES, archetype).reference}.`,
+    ].join('\n'));
+  }
+
+  async generateMeditationScript(frequency: string, userArchetype?: string): Promise<string> {
+    const scripture = pick(SCRIPTURES, frequency);
+    const archetype = userArchetype ? getArchetype(userArchetype) : undefined;
+    const archetypeLine = archetype
+      ? `Offer your ${archetype.name} growth areas to God: ${archetype.growth_areas.toLowerCase()}.`
+      : 'Release whatever you are carrying into this moment.';
+
+    return this.respond(frequency, [
+      `${frequency} meditation (about 7 minutes)`,
+      '1. Settle (1 min): sit upright, breathe in for four counts and out for six.',
+      `2. Scripture (2 min): read ${scripture.reference} slowly twice, noticing ${scripture.theme}.`,
+      `3. Stillness (2 min): hold the ${frequency} tone in mind. ${archetypeLine}`,
+      '4. Listen (1 min): ask what one step of faithful leadership is yours today.',
+      '5. Sending (1 min): close with thanks and write down that step.',
+    ].join('\n'));
+  }
+}
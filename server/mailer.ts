@@ -0,0 +1,62 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Any email provider can be plugged in by implementing this interface
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+// Local stand-in: prints outgoing mail to the server log
+export class ConsoleMailTransport implements MailTransport {
+  name = 'console';
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[MAIL] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Local stand-in: writes each outgoing mail as a JSON file in MAIL_OUTBOX_DIR
+export class FileMailTransport implements MailTransport {
+  name = 'file';
+
+  constructor(private outboxDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${Date.now()}-${safeRecipient}.json`;
+    await fs.writeFile(
+      path.join(this.outboxDir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+function createDefaultTransport(): MailTransport {
+  if (process.env.MAIL_TRANSPORT === 'file') {
+    return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || path.resolve('mail-outbox'));
+  }
+  return new ConsoleMailTransport();
+}
+
+let transport: MailTransport = createDefaultTransport();
+
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+export function getMailTransport(): MailTransport {
+  return transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await transport.send(message);
+}
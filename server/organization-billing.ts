@@ -0,0 +1,138 @@
+import type Stripe from "stripe";
+import type { Organization, OrganizationSubscription, User } from "@shared/schema";
+import { organizationPlanGrantsSeats } from "@shared/billing";
+import { storage } from "./storage";
+import { SUBSCRIPTION_TIERS, validateSubscriptionTier } from "./subscription-tiers";
+
+function periodEnd(subscription: Stripe.Subscription): Date | null {
+  const end = subscription.items.data[0]?.current_period_end ?? (subscription as any).current_period_end;
+  return end ? new Date(end * 1000) : null;
+}
+
+// Plans that are set up and not ended; a new plan may only be bought when there is none
+export function hasOpenOrganizationPlan(plan?: OrganizationSubscription): boolean {
+  return !!plan && (plan.status === 'incomplete' || organizationPlanGrantsSeats(plan.status));
+}
+
+// Creates the Stripe subscription for the organization with one unit per seat.
+// Callers check there is no open plan and that the tier has a price.
+export async function createOrganizationPlan(
+  client: Stripe,
+  organization: Organization,
+  admin: User & { email: string },
+  tier: 'pioneer' | 'visionary',
+  seats: number,
+  existing?: OrganizationSubscription
+): Promise<{ plan: OrganizationSubscription; clientSecret: string | null }> {
+  const selectedTier = SUBSCRIPTION_TIERS[tier];
+  let customerId = existing?.stripeCustomerId;
+  if (!customerId) {
+    const customer = await client.customers.create({
+      email: admin.email,
+      name: organization.name,
+      metadata: { organizationId: organization.id },
+    });
+    customerId = customer.id;
+  }
+
+  const subscription = await client.subscriptions.create({
+    customer: customerId,
+    items: [{ price: selectedTier.priceId!, quantity: seats }],
+    payment_behavior: 'default_incomplete',
+    payment_settings: {
+      save_default_payment_method: 'on_subscription'
+    },
+    expand: ['latest_invoice.payment_intent'],
+    metadata: {
+      organizationId: organization.id,
+      tier,
+    }
+  });
+
+  const plan = await storage.saveOrganizationSubscription({
+    organizationId: organization.id,
+    tier,
+    seats,
+    status: subscription.status,
+    stripeCustomerId: customerId,
+    stripeSubscriptionId: subscription.id,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    currentPeriodEnd: periodEnd(subscription),
+    createdBy: admin.id,
+  });
+
+  const latestInvoice = subscription.latest_invoice as any;
+  return { plan, clientSecret: latestInvoice?.payment_intent?.client_secret || null };
+}
+
+// Changes the Stripe quantity and the recorded seat count together
+export async function updateOrganizationSeatCount(
+  client: Stripe,
+  plan: OrganizationSubscription & { stripeSubscriptionId: string },
+  seats: number
+): Promise<OrganizationSubscription> {
+  const subscription = await client.subscriptions.retrieve(plan.stripeSubscriptionId);
+  const item = subscription.items.data[0];
+  if (!item) {
+    throw new Error(`Organization subscription ${subscription.id} has no billable item`);
+  }
+
+  const updated = await client.subscriptions.update(plan.stripeSubscriptionId, {
+    items: [{ id: item.id, quantity: seats }],
+    proration_behavior: 'create_prorations',
+  });
+
+  return storage.updateOrganizationSubscription(plan.organizationId, {
+    seats,
+    status: updated.status,
+    currentPeriodEnd: periodEnd(updated),
+  });
+}
+
+// Ends the plan with the current billing period; seats keep working until then
+export async function cancelOrganizationPlan(
+  client: Stripe,
+  plan: OrganizationSubscription & { stripeSubscriptionId: string }
+): Promise<OrganizationSubscription> {
+  const updated = await client.subscriptions.update(plan.stripeSubscriptionId, { cancel_at_period_end: true });
+  return storage.updateOrganizationSubscription(plan.organizationId, {
+    status: updated.status,
+    cancelAtPeriodEnd: updated.cancel_at_period_end,
+    currentPeriodEnd: periodEnd(updated),
+  });
+}
+
+// Webhook sync: Stripe is the source of truth for status, quantity and tier of organization plans
+export async function syncOrganizationSubscription(subscription: Stripe.Subscription, deleted: boolean = false) {
+  const organizationId = subscription.metadata?.organizationId;
+  const plan = await storage.getOrganizationSubscriptionByStripeId(subscription.id)
+    ?? (organizationId ? await storage.getOrganizationSubscription(organizationId) : undefined);
+
+  if (!plan) {
+    console.error(`No organization plan for subscription: ${subscription.id}`);
+    return;
+  }
+
+  // An older subscription of the same organization must not overwrite its current plan
+  if (plan.stripeSubscriptionId && plan.stripeSubscriptionId !== subscription.id) {
+    console.log(`Ignoring superseded organization subscription ${subscription.id}`);
+    return;
+  }
+
+  const tier = subscription.metadata?.tier;
+  const item = subscription.items.data[0];
+  const updated = await storage.updateOrganizationSubscription(plan.organizationId, {
+    status: deleted ? 'canceled' : subscription.status,
+    tier: tier && validateSubscriptionTier(tier) && tier !== 'seeker' ? tier : plan.tier,
+    seats: item?.quantity ?? plan.seats,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    currentPeriodEnd: periodEnd(subscription),
+  });
+
+  const assigned = (await storage.getOrganizationSeats(plan.organizationId)).length;
+  if (assigned > updated.seats) {
+    console.warn(`Organization ${plan.organizationId} has ${assigned} seats assigned but pays for ${updated.seats}`);
+  }
+
+  console.log(`Synced organization ${plan.organizationId} plan: ${updated.status}, ${updated.seats} ${updated.tier} seats`);
+}
@@ -0,0 +1,143 @@
+import type Stripe from "stripe";
+import type { PromoCampaign, PromoRedemption } from "@shared/schema";
+import { storage } from "./storage";
+import { SUBSCRIPTION_TIERS } from "./subscription-tiers";
+
+type PaidTier = 'pioneer' | 'visionary';
+
+// A code that checked out for this user and tier, in the shape subscription creation needs
+export interface AppliedPromotion {
+  code: string;
+  campaign?: PromoCampaign; // set for internal campaigns, absent for Stripe promotion codes
+  trialDays: number | null;
+  discounts: { coupon?: string; promotion_code?: string }[];
+}
+
+export type PromotionLookup = { promotion: AppliedPromotion } | { error: string };
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// Why the campaign cannot be used right now, or null when it can
+function campaignUnavailableReason(campaign: PromoCampaign, tier: PaidTier, now: Date): string | null {
+  if (!campaign.active) return "This promotion code is no longer active";
+  if (campaign.startsAt && campaign.startsAt > now) return "This promotion code is not active yet";
+  if (campaign.expiresAt && campaign.expiresAt <= now) return "This promotion code has expired";
+  if (campaign.tier && campaign.tier !== tier) {
+    return `This promotion code applies to the ${SUBSCRIPTION_TIERS[campaign.tier].name} tier only`;
+  }
+  if (campaign.maxRedemptions !== null && campaign.redemptionCount >= campaign.maxRedemptions) {
+    return "This promotion code has reached its redemption limit";
+  }
+  return null;
+}
+
+// Checks an internal campaign code first, then Stripe's own promotion codes.
+// Trials only start with a new subscription and each user gets one trial in total.
+export async function resolvePromotion(
+  client: Stripe,
+  code: string,
+  tier: PaidTier,
+  userId: string,
+  options: { allowTrial: boolean }
+): Promise<PromotionLookup> {
+  const normalized = normalizePromoCode(code);
+  const campaign = await storage.getPromoCampaignByCode(normalized);
+
+  if (campaign) {
+    const reason = campaignUnavailableReason(campaign, tier, new Date());
+    if (reason) return { error: reason };
+
+    const redemptions = await storage.getUserPromoRedemptions(userId);
+    if (redemptions.some(redemption => redemption.campaignId === campaign.id)) {
+      return { error: "You have already used this promotion code" };
+    }
+
+    if (campaign.trialDays) {
+      if (!options.allowTrial) {
+        return { error: "Trial codes apply when starting a new subscription" };
+      }
+      if (redemptions.some(redemption => redemption.trialDays)) {
+        return { error: "You have already used a free trial" };
+      }
+    }
+
+    return {
+      promotion: {
+        code: normalized,
+        campaign,
+        trialDays: campaign.trialDays,
+        discounts: campaign.stripeCouponId ? [{ coupon: campaign.stripeCouponId }] : [],
+      },
+    };
+  }
+
+  // Stripe enforces its promotion codes' own limits and restrictions when the subscription is created
+  const promotionCodes = await client.promotionCodes.list({ code, active: true, limit: 1 });
+  const promotionCode = promotionCodes.data[0];
+  if (!promotionCode) {
+    return { error: "Promotion code not found" };
+  }
+
+  return {
+    promotion: {
+      code: promotionCode.code,
+      trialDays: null,
+      discounts: [{ promotion_code: promotionCode.id }],
+    },
+  };
+}
+
+// Holds a redemption slot for an internal campaign before Stripe is called; release it if that call fails
+export async function reservePromotion(promotion: AppliedPromotion, userId: string, tier: PaidTier): Promise<PromoRedemption | undefined> {
+  if (!promotion.campaign) return undefined;
+  return storage.redeemPromoCampaign({
+    campaignId: promotion.campaign.id,
+    userId,
+    tier,
+    trialDays: promotion.trialDays,
+  });
+}
+
+// Subscription parameters for the promotion. A trial without a card on file cancels instead of invoicing.
+export function promotionSubscriptionParams(promotion?: AppliedPromotion) {
+  if (!promotion) return {};
+
+  return {
+    ...(promotion.discounts.length > 0 && { discounts: promotion.discounts }),
+    ...(promotion.trialDays && {
+      trial_period_days: promotion.trialDays,
+      trial_settings: { end_behavior: { missing_payment_method: 'cancel' as const } },
+    }),
+  };
+}
+
+// The Stripe coupon behind a discount campaign; without durationInMonths it covers the first invoice
+export async function createCampaignCoupon(
+  client: Stripe,
+  campaign: { code: string; name: string; percentOff: number; durationInMonths?: number }
+): Promise<string> {
+  const coupon = await client.coupons.create({
+    name: campaign.name,
+    percent_off: campaign.percentOff,
+    duration: campaign.durationInMonths ? 'repeating' : 'once',
+    duration_in_months: campaign.durationInMonths,
+    metadata: { promoCode: campaign.code },
+  });
+  return coupon.id;
+}
+
+// What the client needs to finish signing up: a payment intent for a charge now, or a setup intent
+// that saves the card for a trial that bills later
+export function subscriptionCheckoutDetails(subscription: Stripe.Subscription) {
+  const paymentIntent = (subscription.latest_invoice as any)?.payment_intent;
+  const setupIntent = subscription.pending_setup_intent as Stripe.SetupIntent | string | null;
+  const clientSecret = paymentIntent?.client_secret || (typeof setupIntent === 'object' ? setupIntent?.client_secret : null) || null;
+
+  return {
+    clientSecret,
+    intentType: paymentIntent?.client_secret ? 'payment' as const : clientSecret ? 'setup' as const : null,
+    trialEndsAt: subscription.trial_end ? new Date(subscription.trial_end * 1000) : null,
+  };
+}
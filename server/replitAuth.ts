@@ -1,15 +1,21 @@
 import * as client from "openid-client";
-import { Strategy, type VerifyFunction } from "openid-client/passport";
+import { Strategy, type VerifyFunctionWithRequest } from "openid-client/passport";
 
 import passport from "passport";
 import session from "express-session";
 import type { Express, RequestHandler } from "express";
 import memoize from "memoizee";
 import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
 import { storage } from "./storage";
+import { useMemoryStorage } from "./db";
+import { claimPendingAssessment, type PendingAssessment } from "./assessment-claim";
 
-if (!process.env.REPLIT_DOMAINS) {
-  throw new Error("Environment variable REPLIT_DOMAINS not provided");
+declare module "express-session" {
+  interface SessionData {
+    // Kept by POST /api/assessment/public-submit until the visitor signs in
+    assessmentResults?: PendingAssessment;
+  }
 }
 
 const getOidcConfig = memoize(
@@ -24,15 +30,22 @@ const getOidcConfig = memoize(
 
 export function getSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
-  const pgStore = connectPg(session);
-  const sessionStore = new pgStore({
-    conString: process.env.DATABASE_URL,
-    createTableIfMissing: false,
-    ttl: sessionTtl,
-    tableName: "sessions",
-  });
+  let sessionStore: session.Store;
+  if (useMemoryStorage) {
+    const MemoryStore = createMemoryStore(session);
+    sessionStore = new MemoryStore({ checkPeriod: sessionTtl });
+  } else {
+    const pgStore = connectPg(session);
+    sessionStore = new pgStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: false,
+      ttl: sessionTtl,
+      tableName: "sessions",
+    });
+  }
   return session({
-    secret: process.env.SESSION_SECRET!,
+    // The memory driver runs offline for development and tests, where no secret is configured
+    secret: process.env.SESSION_SECRET || (useMemoryStorage ? 'memory-driver-session' : ''),
     store: sessionStore,
     resave: false,
     saveUninitialized: false,
@@ -71,15 +84,30 @@ export async function setupAuth(app: Express) {
   app.use(passport.initialize());
   app.use(passport.session());
 
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  // Offline under the memory driver: no OIDC discovery, sign in through /api/auth/demo-login
+  if (useMemoryStorage) return;
+
+  if (!process.env.REPLIT_DOMAINS) {
+    throw new Error("Environment variable REPLIT_DOMAINS not provided");
+  }
+
   const config = await getOidcConfig();
 
-  const verify: VerifyFunction = async (
+  // The session is regenerated once the user is logged in, so an assessment taken before signing
+  // in is claimed here while it is still on the session
+  const verify: VerifyFunctionWithRequest = async (
+    req,
     tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers,
     verified: passport.AuthenticateCallback
   ) => {
     const user = {};
     updateUserSession(user, tokens);
-    await upsertUser(tokens.claims());
+    const claims = tokens.claims()!;
+    await upsertUser(claims);
+    await claimPendingAssessment(req.session, claims["sub"]);
     verified(null, user);
   };
 
@@ -91,15 +119,13 @@ export async function setupAuth(app: Express) {
         config,
         scope: "openid email profile offline_access",
         callbackURL: `https://${domain}/api/callback`,
+        passReqToCallback: true,
       },
       verify,
     );
     passport.use(strategy);
   }
 
-  passport.serializeUser((user: Express.User, cb) => cb(null, user));
-  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
-
   app.get("/api/login", (req, res, next) => {
     passport.authenticate(`replitauth:${req.hostname}`, {
       prompt: "login consent",
@@ -127,6 +153,14 @@ export async function setupAuth(app: Express) {
 }
 
 export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  // Under the memory driver, demo accounts carry a session userId instead of OIDC tokens; expose it
+  // the same way as claims. Elsewhere only Replit Auth sessions authenticate.
+  const sessionUserId = (req.session as any)?.userId;
+  if (useMemoryStorage && sessionUserId && !req.user) {
+    (req as any).user = { claims: { sub: sessionUserId } };
+    return next();
+  }
+
   const user = req.user as any;
 
   if (!req.isAuthenticated() || !user.expires_at) {
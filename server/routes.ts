@@ -1,11 +1,44 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import Stripe from "stripe";
+import type Stripe from "stripe";
 import { storage } from "./storage";
+import { stripe, logSecurityEvent } from "./stripe";
+import { getBillingState } from "./dunning";
+import { createOrganizationPlan, updateOrganizationSeatCount, cancelOrganizationPlan, hasOpenOrganizationPlan } from "./organization-billing";
+import { processStripeEvent, replayStripeEvent, hashStripePayload, type StripeEventResult } from "./stripe-webhooks";
+import { summarizeInvoice, syncUserInvoices, getPaymentMethodSummary } from "./billing-history";
+import { getUserGates, startGate, completeGate, isGateType, toAttemptSummary, type GateTransitionError } from "./gates";
+import { runDataMigrations } from "./data-migrations";
+import { getGateChallenge, toPublicChallenge } from "./gate-challenges";
+import { getXpRules, getXpSummary, completeChapterWithXp, awardPracticeXp, recomputeExperience } from "./xp";
+import { evaluateAchievements, getBadgeShelf } from "./achievements";
+import { getArchetypeQuestionBank, toPublicQuestionBank } from "./archetype-bank";
+import { validateArchetypeResponses, scoreArchetype } from "./archetype-scoring";
+import { getStageProgression, promoteStage, recordChapterPractice, submitStageAssessment, completeStageAssessment, isDevelopmentStage, type StageAssessmentResult } from "./stages";
+import { getStageAssessment, toPublicStageAssessment } from "./stage-assessments";
+import { resolvePromotion, reservePromotion, promotionSubscriptionParams, subscriptionCheckoutDetails, createCampaignCoupon, type AppliedPromotion } from "./promotions";
 import { setupAuth, isAuthenticated } from "./replitAuth";
-import { insertAssessmentSchema, insertDailyPracticeSchema, insertTeamSchema, insertOrganizationSchema, createSubscriptionSchema, cancelSubscriptionSchema, updateTierSchema, webhookEventSchema } from "@shared/schema";
-import { provideBiblicalGuidance, generateReflectionQuestions } from "./claude";
+import { insertAssessmentSchema, createDailyPracticeSchema, insertTeamSchema, insertOrganizationSchema, createSubscriptionSchema, cancelSubscriptionSchema, updateTierSchema, webhookEventSchema, fractalScanRequestSchema, createInvitationSchema, updateOrganizationMemberSchema, updateTeamSchema, addTeamMemberSchema, updateTeamMemberSchema, sendChatMessageSchema, createChatConversationSchema, updateChatConversationSchema, stripeEventStatusSchema, createOrganizationSubscriptionSchema, updateOrganizationSeatsSchema, assignOrganizationSeatSchema, createPromoCampaignSchema, updatePromoCampaignSchema, completeGateSchema, submitArchetypeAssessmentSchema, publicArchetypeAssessmentSchema, submitStageAssessmentSchema, updateProfileSchema, CHAPTERS } from "@shared/schema";
+import type { Team, ChatConversation, User } from "@shared/schema";
+import { organizationPlanGrantsSeats, type OrganizationBillingResponse } from "@shared/billing";
+import type { GateCompletionResponse, GateAttemptFailedResponse } from "@shared/gates";
+import { FEEDBACK_MIN_RESPONDENTS } from "@shared/feedback";
+import { getEntitlements, canAccessGate, canAccessChapter, minimumTierFor, GATE_TYPES } from "@shared/entitlements";
+import type { EntitlementsResponse, TierEntitlements, TierUpgrade } from "@shared/entitlements";
+import { getCoachingProvider, resolveCoachingForUser, coachingSettingsSchema, isAnthropicConfigured } from "./coaching";
+import { getArchetypeHistory, assessmentSettingsSchema } from "./archetype-history";
+import { getGenerationalTools } from "./generational-tools";
+import { claimPendingAssessment, type PendingAssessment } from "./assessment-claim";
+import { requestTeamFeedback, getFeedbackRequests, getPendingFeedback, submitFeedback } from "./feedback";
+import { buildCoachingContext, basicCoachingContext, formatCoachingContext } from "./coaching-context";
+import { openEventStream } from "./sse";
+import { SUBSCRIPTION_TIERS, validateSubscriptionTier } from "./subscription-tiers";
+import { meterAiUsage, getQuotaStatus, getUserTier, summarizeUsage, groupUsage, usageDaysAgo } from "./usage";
 import { uploadProjectToGitHub } from "./github-upload";
+import { scanTeamDynamics, fractalScanToMetrics, metricsToFractalScan } from "./fractal-scan";
+import { sendMail } from "./mailer";
+import { requireTeamAccess, requireUserAccess, requireOrganizationRole, requireEntitlement, requireChapterEntitlement, requireGateEntitlement, getUserEntitlements, getRequestUserId, getOrganizationRole, hasOrganizationRole, requirePlatformAdmin } from "./authorization";
+import { createInvitationToken, invitationExpiry, isInvitationExpired, toPublicInvitation, buildInvitationEmail } from "./invitations";
 import { z } from "zod";
 
 // Generation determination function - returns hyphenated format to match frontend
@@ -17,95 +50,6 @@ function determineGeneration(birthYear: number, culturalMarkers?: string[], work
   return 'silent';
 }
 
-// Helper function for calculating archetype from responses
-function calculateArchetypeFromResponses(responses: Record<string, string>): string {
-  const scores = {
-    pioneer: 0,
-    organizer: 0,
-    builder: 0,
-    guardian: 0,
-  };
-  
-  Object.values(responses).forEach(response => {
-    switch (response) {
-      case 'vision':
-      case 'pioneering':
-      case 'innovation':
-        scores.pioneer++;
-        break;
-      case 'relationships':
-      case 'collaboration':
-      case 'collaborative_agreements':
-        scores.organizer++;
-        break;
-      case 'analysis':
-      case 'building':
-      case 'execution':
-        scores.builder++;
-        break;
-      case 'clear_expectations':
-      case 'flexible_guidelines':
-        scores.guardian++;
-        break;
-    }
-  });
-  
-  return Object.entries(scores).reduce((a, b) => 
-    scores[a[0] as keyof typeof scores] > scores[b[0] as keyof typeof scores] ? a : b
-  )[0];
-}
-
-// Calculate archetype results from assessment responses
-function calculateArchetypeResults(responses: any[]) {
-  const scores = {
-    pioneer: 0,
-    organizer: 0,
-    builder: 0,
-    guardian: 0
-  };
-
-  // Score each response based on archetype alignment
-  responses.forEach((response, index) => {
-    switch(index) {
-      case 0: // Leadership approach
-        if (response.includes('vision') || response.includes('innovative')) scores.pioneer += 3;
-        if (response.includes('organize') || response.includes('structure')) scores.organizer += 3;
-        if (response.includes('build') || response.includes('develop')) scores.builder += 3;
-        if (response.includes('protect') || response.includes('maintain')) scores.guardian += 3;
-        break;
-      case 1: // Decision making
-        if (response.includes('quick') || response.includes('instinct')) scores.pioneer += 2;
-        if (response.includes('analyze') || response.includes('process')) scores.organizer += 2;
-        if (response.includes('consensus') || response.includes('team')) scores.builder += 2;
-        if (response.includes('careful') || response.includes('thorough')) scores.guardian += 2;
-        break;
-      case 2: // Conflict resolution
-        if (response.includes('direct') || response.includes('confront')) scores.pioneer += 2;
-        if (response.includes('systematic') || response.includes('procedure')) scores.organizer += 2;
-        if (response.includes('mediate') || response.includes('bridge')) scores.builder += 2;
-        if (response.includes('preserve') || response.includes('stability')) scores.guardian += 2;
-        break;
-      case 3: // Team motivation
-        if (response.includes('inspire') || response.includes('challenge')) scores.pioneer += 3;
-        if (response.includes('clear goals') || response.includes('metrics')) scores.organizer += 3;
-        if (response.includes('support') || response.includes('develop')) scores.builder += 3;
-        if (response.includes('values') || response.includes('tradition')) scores.guardian += 3;
-        break;
-    }
-  });
-
-  // Determine primary archetype
-  const primaryArchetype = Object.entries(scores).reduce((a, b) => 
-    scores[a[0] as keyof typeof scores] > scores[b[0] as keyof typeof scores] ? a : b
-  )[0];
-
-  return {
-    archetype: primaryArchetype,
-    scores,
-    responses
-  };
-}
-
 // Assessment tools function
 async function getAssessmentTools(generation: string, archetype: string) {
   const tools = {
@@ -233,174 +177,64 @@ async function getAssessmentTools(generation: string, archetype: string) {
   return tools;
 }
 
-// Generational tools function for biblical mapping
-function getGenerationalTools(generation: string, archetype: string) {
-  const toolsMatrix = {
-    books: [] as string[],
-    chapter: 1,
-    tools: [] as any[]
-  };
-
-  // Archetype-specific biblical book mapping
-  const archetypeBooks = {
-    pioneer: ['Genesis', 'Joshua', 'Acts', 'Hebrews'],
-    organizer: ['Leviticus', 'Nehemiah', '1 Corinthians', 'Ephesians'], 
-    builder: ['Exodus', 'Ezra', '2 Corinthians', 'Colossians'],
-    guardian: ['Deuteronomy', 'Psalms', '1 Timothy', '1 Peter']
-  };
+// Only the most recent turns are replayed to the coach to keep prompts bounded
+const CHAT_HISTORY_LIMIT = 20;
 
-  // Generation-specific starting chapters and approaches
-  const generationSettings = {
-    'gen-z': { startChapter: 1, approach: 'micro-learning' },
-    'millennial': { startChapter: 3, approach: 'collaborative' },
-    'gen-x': { startChapter: 5, approach: 'practical' },
-    'boomer': { startChapter: 1, approach: 'comprehensive' },
-    'silent': { startChapter: 1, approach: 'traditional' }
-  };
+function chatConversationTitle(message: string, chapterNumber?: number): string {
+  const chapter = chapterNumber ? CHAPTERS.find(c => c.ch === chapterNumber) : undefined;
+  if (chapter) {
+    return `Chapter ${chapter.ch}: ${chapter.chapterTitle}`;
+  }
+  return message.length > 60 ? `${message.slice(0, 57)}...` : message;
+}
 
-  // Set books and chapter based on archetype and generation
-  toolsMatrix.books = archetypeBooks[archetype as keyof typeof archetypeBooks] || archetypeBooks.pioneer;
-  toolsMatrix.chapter = generationSettings[generation as keyof typeof generationSettings]?.startChapter || 1;
+// Everything a chat turn needs before calling the coach; conversation is null when the id is unknown
+async function prepareChatTurn(userId: string, body: unknown) {
+  const { message, conversationId, chapterNumber } = sendChatMessageSchema.parse(body);
 
-  // Generation-specific tools
-  switch (generation) {
-    case 'gen-z':
-      toolsMatrix.tools = [
-        { name: 'Biblical Micro-Learning', duration: '5-10 min', format: 'bite-sized' },
-        { name: 'Gamified Scripture Study', type: 'interactive', frequency: 'daily' },
-        { name: 'Social Leadership Challenge', format: 'peer-competition', sharing: true }
-      ];
-      break;
-      
-    case 'millennial':
-      toolsMatrix.tools = [
-        { name: 'Group Bible Study', duration: '30-45 min', format: 'collaborative' },
-        { name: 'Video Devotional Series', type: 'multimedia', frequency: 'weekly' },
-        { name: 'Peer Leadership Circles', format: 'discussion-based', community: true }
-      ];
-      break;
-      
-    case 'gen-x':
-      toolsMatrix.tools = [
-        { name: 'Practical Leadership Study', duration: '20-30 min', format: 'application-focused' },
-        { name: 'Email Devotional Series', type: 'written', frequency: 'daily' },
-        { name: 'Milestone-Based Assessment', format: 'structured', quarterly: true }
-      ];
-      break;
-      
-    case 'boomer':
-      toolsMatrix.tools = [
-        { name: 'Deep Scriptural Meditation', duration: '45-60 min', format: 'contemplative' },
-        { name: 'Comprehensive Biblical Commentary', type: 'thorough', depth: 'scholarly' },
-        { name: 'Mentorship Preparation Guide', format: 'wisdom-sharing', legacy: true }
-      ];
-      break;
-      
-    case 'silent':
-      toolsMatrix.tools = [
-        { name: 'Traditional Bible Reading', duration: '60+ min', format: 'sequential' },
-        { name: 'Prayer and Reflection Journal', type: 'written', personal: true },
-        { name: 'Wisdom Literature Study', format: 'traditional', depth: 'foundational' }
-      ];
-      break;
+  let conversation: ChatConversation | undefined;
+  if (conversationId) {
+    conversation = await storage.getChatConversation(conversationId);
+    if (!conversation || conversation.userId !== userId) {
+      return null;
+    }
   }
 
-  // Archetype-specific tool additions
-  switch (archetype) {
-    case 'pioneer':
-      toolsMatrix.tools.push(
-        { name: 'Prophetic Vision Exercises', type: 'spiritual', focus: 'breakthrough' },
-        { name: 'Risk Assessment Framework', type: 'practical', decision: 'faith-based' }
-      );
-      break;
-      
-    case 'organizer':
-      toolsMatrix.tools.push(
-        { name: 'Team Unity Building', type: 'relational', focus: 'harmony' },
-        { name: 'Communication Templates', type: 'practical', efficiency: 'high' }
-      );
-      break;
-      
-    case 'builder':
-      toolsMatrix.tools.push(
-        { name: 'Project Planning Templates', type: 'systematic', focus: 'execution' },
-        { name: 'Ministry Development Guide', type: 'strategic', growth: 'sustainable' }
-      );
-      break;
-      
-    case 'guardian':
-      toolsMatrix.tools.push(
-        { name: 'Value Protection Strategies', type: 'defensive', focus: 'preservation' },
-        { name: 'Shepherding Techniques', type: 'nurturing', care: 'pastoral' }
-      );
-      break;
-  }
+  // History comes from storage, never from the client
+  const history = conversation ? await storage.getChatMessages(conversation.id) : [];
+  const conversationHistory = history
+    .slice(-CHAT_HISTORY_LIMIT)
+    .map(entry => ({ role: entry.role, content: entry.content }));
 
-  return toolsMatrix;
-}
+  // A resumed conversation stays anchored to the chapter it was started from
+  const context = await buildCoachingContext(userId, chapterNumber ?? conversation?.chapterNumber ?? undefined);
 
-// Enhanced Stripe configuration for biblical leadership tiers
-const stripe = process.env.STRIPE_SECRET_KEY ? new Stripe(process.env.STRIPE_SECRET_KEY, {
-  apiVersion: "2025-08-27.basil",
-}) : null;
-
-// Webhook event idempotency storage (in-memory for now)
-const processedEvents = new Set<string>();
-const eventExpiryTime = 24 * 60 * 60 * 1000; // 24 hours
-const processedEventTimestamps = new Map<string, number>();
-
-// Security logging function
-function logSecurityEvent(event: string, details: any, isSuccess = true) {
-  const timestamp = new Date().toISOString();
-  const logLevel = isSuccess ? 'INFO' : 'WARN';
-  console.log(`[${logLevel}] [${timestamp}] STRIPE_SECURITY: ${event}`, JSON.stringify(details, null, 2));
+  return {
+    message,
+    chapterNumber,
+    conversation,
+    conversationHistory,
+    context,
+    archetype: context.archetype,
+  };
 }
 
-// Biblical Leadership Subscription Tiers with Stripe Price IDs
-const SUBSCRIPTION_TIERS = {
-  seeker: {
-    name: "Seeker",
-    price: 0,
-    interval: "month",
-    priceId: process.env.STRIPE_SEEKER_PRICE_ID || null, // Free tier, no Stripe needed
-    features: [
-      "Access to first 5 biblical chapters",
-      "Basic archetype assessment",
-      "Community access"
-    ]
-  },
-  pioneer: {
-    name: "Pioneer", 
-    price: 4500, // $45.00 in cents
-    interval: "month",
-    priceId: process.env.STRIPE_PIONEER_PRICE_ID || "price_pioneer_default",
-    features: [
-      "Full 27-chapter biblical framework access",
-      "AI biblical coaching with Claude",
-      "Advanced progress tracking",
-      "Team formation tools",
-      "Frequency meditation guides"
-    ]
-  },
-  visionary: {
-    name: "Visionary",
-    price: 9900, // $99.00 in cents  
-    interval: "month",
-    priceId: process.env.STRIPE_VISIONARY_PRICE_ID || "price_visionary_default",
-    features: [
-      "Everything in Pioneer tier",
-      "Advanced analytics and insights",
-      "Multi-generational team optimization",
-      "Custom organizational assessments",
-      "Priority coaching and support",
-      "Early access to new features"
-    ]
-  }
-} as const;
-
-// Helper function to validate subscription tier
-function validateSubscriptionTier(tier: string): tier is keyof typeof SUBSCRIPTION_TIERS {
-  return tier in SUBSCRIPTION_TIERS;
+// Persists a completed turn, starting the conversation on its first message
+async function saveChatTurn(
+  userId: string,
+  turn: NonNullable<Awaited<ReturnType<typeof prepareChatTurn>>>,
+  response: string
+): Promise<ChatConversation> {
+  const conversation = turn.conversation || await storage.createChatConversation({
+    userId,
+    title: chatConversationTitle(turn.message, turn.chapterNumber),
+    chapterNumber: turn.chapterNumber,
+  });
+  await storage.addChatMessages(conversation.id, [
+    { role: 'user', content: turn.message },
+    { role: 'assistant', content: response },
+  ]);
+  return conversation;
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -411,6 +245,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     await storage.initializeDemoAccounts();
     console.log("Demo accounts initialized successfully");
+
+    await runDataMigrations();
   } catch (error) {
     console.error("Failed to initialize data:", error);
   }
@@ -442,12 +278,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Include additional user data
       const progress = await storage.calculateUserProgress(userId);
       const organization = await storage.getUserOrganization(userId);
+      const organizationRole = organization ? await getOrganizationRole(userId, organization.id) : null;
       const teams = await storage.getUserTeams(userId);
 
       res.json({
         ...user,
+        effectiveTier: await storage.getEffectiveSubscriptionTier(userId),
         progress,
         organization,
+        organizationRole,
         teams,
       });
     } catch (error) {
@@ -473,6 +312,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Store user ID in session
       (req.session as any).userId = user.id;
       (req.session as any).authType = 'demo';
+      await claimPendingAssessment(req.session, user.id);
       
       res.json({ message: "Login successful", user: { id: user.id, username: user.username, firstName: user.firstName } });
     } catch (error) {
@@ -504,6 +344,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const orgData = insertOrganizationSchema.parse(req.body);
       
       const organization = await storage.createOrganization(orgData);
+      await storage.addOrganizationMember(organization.id, userId, 'owner');
       
       // Update user's organization
       await storage.upsertUser({
@@ -518,13 +359,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Team routes
-  app.post('/api/teams', isAuthenticated, async (req: any, res) => {
+  app.get('/api/teams', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const organization = await storage.getUserOrganization(userId);
+      const memberTeams = await storage.getUserTeams(userId);
+
+      let orgTeams: Team[] = [];
+      if (organization) {
+        const role = await getOrganizationRole(userId, organization.id);
+        // Archived teams are only listed for org admins who ask for them
+        const includeArchived = req.query.includeArchived === 'true' && hasOrganizationRole(role, 'admin');
+        orgTeams = await storage.getOrganizationTeams(organization.id, includeArchived);
+      }
+
+      const teamsById = new Map<string, Team>();
+      for (const team of [...orgTeams, ...memberTeams]) {
+        teamsById.set(team.id, team);
+      }
+      res.json(Array.from(teamsById.values()));
+    } catch (error) {
+      console.error("Error fetching teams:", error);
+      res.status(500).json({ message: "Failed to fetch teams" });
+    }
+  });
+
+  app.post('/api/teams', isAuthenticated, requireEntitlement('teamTools'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const teamData = insertTeamSchema.parse({
         ...req.body,
         leaderId: userId,
       });
+
+      const role = await getOrganizationRole(userId, teamData.organizationId);
+      if (!hasOrganizationRole(role, 'leader')) {
+        return res.status(403).json({ message: "Requires leader role in this organization" });
+      }
       
       const team = await storage.createTeam(teamData);
       await storage.addTeamMember(team.id, userId, 'leader');
@@ -536,13 +407,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/teams/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/teams/:id', isAuthenticated, requireTeamAccess('view'), async (req: any, res) => {
     try {
-      const team = await storage.getTeam(req.params.id);
-      if (!team) {
-        return res.status(404).json({ message: "Team not found" });
-      }
-
+      const team = req.team;
       const members = await storage.getTeamMembers(team.id);
       const effectiveness = await storage.calculateTeamEffectiveness(team.id);
 
@@ -557,27 +424,169 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/teams/:id/members', isAuthenticated, async (req, res) => {
+  app.patch('/api/teams/:id', isAuthenticated, requireTeamAccess('manage'), async (req: any, res) => {
+    try {
+      if (req.team.archivedAt) {
+        return res.status(409).json({ message: "Team is archived" });
+      }
+
+      const updates = updateTeamSchema.parse(req.body);
+
+      // Leadership can only pass to someone already on the team; the old leader stays on as a member
+      const { leaderId, ...details } = updates;
+      if (leaderId && leaderId !== req.team.leaderId) {
+        if (!(await storage.getTeamMember(req.team.id, leaderId))) {
+          return res.status(400).json({ message: "New leader must be a member of this team" });
+        }
+        await storage.transferTeamLeadership(req.team.id, leaderId);
+      }
+
+      const team = await storage.updateTeam(req.team.id, details);
+      res.json(team);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid team update", errors: error.errors });
+      }
+      console.error("Error updating team:", error);
+      res.status(500).json({ message: "Failed to update team" });
+    }
+  });
+
+  // Soft archival: the team and its history stay, but it leaves listings and effectiveness
+  app.delete('/api/teams/:id', isAuthenticated, requireTeamAccess('manage'), async (req: any, res) => {
+    try {
+      if (req.team.archivedAt) {
+        return res.json(req.team);
+      }
+
+      const team = await storage.archiveTeam(req.team.id);
+      res.json(team);
+    } catch (error) {
+      console.error("Error archiving team:", error);
+      res.status(500).json({ message: "Failed to archive team" });
+    }
+  });
+
+  app.post('/api/teams/:id/restore', isAuthenticated, requireTeamAccess('manage'), async (req: any, res) => {
+    try {
+      const team = await storage.restoreTeam(req.team.id);
+      res.json(team);
+    } catch (error) {
+      console.error("Error restoring team:", error);
+      res.status(500).json({ message: "Failed to restore team" });
+    }
+  });
+
+  app.post('/api/teams/:id/members', isAuthenticated, requireTeamAccess('manage'), requireEntitlement('teamTools'), async (req: any, res) => {
     try {
-      const { userId, role = 'member' } = req.body;
-      const member = await storage.addTeamMember(req.params.id, userId, role);
+      const { userId, role } = addTeamMemberSchema.parse(req.body);
+
+      if (req.team.archivedAt) {
+        return res.status(409).json({ message: "Team is archived" });
+      }
+
+      if (await storage.getTeamMember(req.team.id, userId)) {
+        return res.status(409).json({ message: "User is already on this team" });
+      }
+
+      if (!(await getOrganizationRole(userId, req.team.organizationId))) {
+        return res.status(400).json({ message: "User is not a member of this organization" });
+      }
+
+      const member = await storage.addTeamMember(req.team.id, userId, role);
       res.json(member);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid team member", errors: error.errors });
+      }
       console.error("Error adding team member:", error);
       res.status(500).json({ message: "Failed to add team member" });
     }
   });
 
+  app.patch('/api/teams/:id/members/:userId', isAuthenticated, requireTeamAccess('manage'), requireEntitlement('teamTools'), async (req: any, res) => {
+    try {
+      const { role } = updateTeamMemberSchema.parse(req.body);
+      const member = await storage.getTeamMember(req.team.id, req.params.userId);
+      if (!member) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+
+      if (req.team.leaderId === member.userId && role !== 'leader') {
+        return res.status(400).json({ message: "Assign a new team leader before changing this member's role" });
+      }
+
+      const updated = await storage.updateTeamMemberRole(req.team.id, member.userId, role);
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid role", errors: error.errors });
+      }
+      console.error("Error updating team member:", error);
+      res.status(500).json({ message: "Failed to update team member" });
+    }
+  });
+
+  app.delete('/api/teams/:id/members/:userId', isAuthenticated, requireTeamAccess('manage'), async (req: any, res) => {
+    try {
+      const member = await storage.getTeamMember(req.team.id, req.params.userId);
+      if (!member) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+
+      if (req.team.leaderId === member.userId) {
+        return res.status(400).json({ message: "Assign a new team leader before removing this member" });
+      }
+
+      await storage.removeTeamMember(req.team.id, member.userId);
+      res.json({ message: "Team member removed" });
+    } catch (error) {
+      console.error("Error removing team member:", error);
+      res.status(500).json({ message: "Failed to remove team member" });
+    }
+  });
+
+  // 360 feedback: the leader asks their team, in one step, how they see the leader's archetype
+  app.post('/api/teams/:id/feedback', isAuthenticated, requireTeamAccess('manage'), requireEntitlement('teamTools'), async (req: any, res) => {
+    try {
+      const result = await requestTeamFeedback(getRequestUserId(req)!, req.team);
+      if (!('error' in result)) {
+        return res.status(201).json(result);
+      }
+
+      switch (result.error) {
+        case 'no_self_assessment':
+          return res.status(400).json({ message: "Take the archetype assessment before asking for feedback" });
+        case 'request_open':
+          return res.status(409).json({ message: "This team already has an open feedback request" });
+        case 'not_enough_respondents':
+          return res.status(400).json({
+            message: `Feedback needs at least ${FEEDBACK_MIN_RESPONDENTS} respondents to stay anonymous`,
+            available: result.available,
+          });
+        case 'team_barely_changed':
+          return res.status(409).json({
+            message: `The team must change by at least ${FEEDBACK_MIN_RESPONDENTS} members from an earlier request, or not at all, to keep answers anonymous`,
+            changed: result.changed,
+          });
+      }
+    } catch (error) {
+      console.error("Error requesting team feedback:", error);
+      res.status(500).json({ message: "Failed to request feedback" });
+    }
+  });
+
   // Assessment routes
   app.post('/api/assessments', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const assessmentData = insertAssessmentSchema.parse({
+      const { stage, responses } = insertAssessmentSchema.parse({
         ...req.body,
         userId,
       });
       
-      const assessment = await storage.createAssessment(assessmentData);
+      // Results are only ever worked out on the server, when the assessment is completed
+      const assessment = await storage.createAssessment({ userId, stage, responses, kind: 'stage' });
       res.json(assessment);
     } catch (error: any) {
       console.error("Error creating assessment:", error);
@@ -585,26 +594,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/assessments/:id/complete', isAuthenticated, async (req, res) => {
+  app.patch('/api/assessments/:id/complete', isAuthenticated, async (req: any, res) => {
     try {
-      const { results } = req.body;
-      const assessment = await storage.completeAssessment(req.params.id, results);
-      
-      // Update user's current stage if this was a progression assessment
-      if (assessment.stage && assessment.results) {
-        const userId = assessment.userId;
-        await storage.upsertUser({
-          currentStage: assessment.stage,
-        }, userId);
+      const existing = await storage.getAssessment(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Assessment not found" });
       }
 
-      res.json(assessment);
+      if (existing.userId !== getRequestUserId(req)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (existing.kind !== 'stage' || existing.completedAt) {
+        return res.status(409).json({ message: "This assessment has already been scored" });
+      }
+
+      // Scored from the stored responses; the stage only changes if the promotion rules are met
+      sendStageAssessmentResult(res, await completeStageAssessment(existing));
     } catch (error) {
       console.error("Error completing assessment:", error);
       res.status(500).json({ message: "Failed to complete assessment" });
     }
   });
 
+  function sendStageAssessmentResult(res: any, result: StageAssessmentResult) {
+    if (!('error' in result)) {
+      return res.json(result);
+    }
+    switch (result.error) {
+      case 'invalid_submission':
+        return res.status(400).json({ message: "Answer every question before submitting", issues: result.issues });
+      case 'no_assessment':
+        return res.status(404).json({ message: "This stage has no assessment" });
+      case 'stage_locked':
+        return res.status(403).json({ message: "Reach this stage before taking its assessment" });
+    }
+  }
+
+  // Development stages: each stage's assessment, and the promotion rules for moving on
+  app.get('/api/stages/next', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      res.json(await getStageProgression(userId));
+    } catch (error) {
+      console.error("Error fetching stage progression:", error);
+      res.status(500).json({ message: "Failed to fetch stage progression" });
+    }
+  });
+
+  app.get('/api/stages/:stage/assessment', isAuthenticated, async (req: any, res) => {
+    const { stage } = req.params;
+    const definition = isDevelopmentStage(stage) ? getStageAssessment(stage) : undefined;
+    if (!definition) {
+      return res.status(404).json({ message: "This stage has no assessment" });
+    }
+    res.json(toPublicStageAssessment(definition));
+  });
+
+  app.post('/api/stages/:stage/assessment', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      const { stage } = req.params;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+      if (!isDevelopmentStage(stage)) {
+        return res.status(404).json({ message: "This stage has no assessment" });
+      }
+
+      const { responses } = submitStageAssessmentSchema.parse(req.body);
+      sendStageAssessmentResult(res, await submitStageAssessment(userId, stage, responses));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid assessment submission", errors: error.errors });
+      }
+      console.error("Error submitting stage assessment:", error);
+      res.status(500).json({ message: "Failed to submit assessment" });
+    }
+  });
+
   app.get('/api/assessments', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -620,24 +692,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/practices', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const practiceData = insertDailyPracticeSchema.parse({
+      const practiceData = createDailyPracticeSchema.parse({
         ...req.body,
         userId,
       });
       
       const practice = await storage.createDailyPractice(practiceData);
-      res.json(practice);
+      if (!practice.completed) {
+        return res.json(practice);
+      }
+
+      const { xpGained, levelUp } = await awardPracticeXp(userId, practice);
+      const newBadges = await evaluateAchievements(userId);
+      res.json({ ...practice, xpGained, levelUp, newBadges });
     } catch (error: any) {
       console.error("Error creating practice:", error);
       res.status(400).json({ message: error.message });
     }
   });
 
-  app.patch('/api/practices/:id/complete', isAuthenticated, async (req, res) => {
+  app.patch('/api/practices/:id/complete', isAuthenticated, async (req: any, res) => {
     try {
+      const existing = await storage.getDailyPractice(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Practice not found" });
+      }
+
+      if (existing.userId !== getRequestUserId(req)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (existing.completed) {
+        return res.status(409).json({ message: "Practice already completed" });
+      }
+
       const { duration, notes } = req.body;
       const practice = await storage.completeDailyPractice(req.params.id, duration, notes);
-      res.json(practice);
+      const { xpGained, levelUp } = await awardPracticeXp(existing.userId, practice);
+      const newBadges = await evaluateAchievements(existing.userId);
+      res.json({ ...practice, xpGained, levelUp, newBadges });
     } catch (error) {
       console.error("Error completing practice:", error);
       res.status(500).json({ message: "Failed to complete practice" });
@@ -693,7 +786,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/teams/:id/effectiveness', isAuthenticated, async (req, res) => {
+  app.get('/api/teams/:id/effectiveness', isAuthenticated, requireTeamAccess('view'), requireEntitlement('analytics'), async (req, res) => {
     try {
       const effectiveness = await storage.calculateTeamEffectiveness(req.params.id);
       res.json(effectiveness);
@@ -703,83 +796,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Gate completion routes for biblical leadership milestones
-  app.post('/api/gates/:gateType/complete', isAuthenticated, async (req: any, res) => {
+  // Fractal scan routes: 25 tiers, Pattern alignment and Ripple score from team message logs
+  app.post('/api/teams/:id/fractal-scan', isAuthenticated, requireTeamAccess('manage'), requireEntitlement('analytics'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub || (req.session as any)?.userId;
-      const { gateType } = req.params;
-      const { responses, reflections } = req.body;
+      const userId = req.user.claims.sub;
+      const team = req.team;
 
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
+      const { logs } = fractalScanRequestSchema.parse(req.body);
+      const result = scanTeamDynamics(logs);
+      await storage.createProgressMetrics(fractalScanToMetrics(result, userId, team.id));
 
-      // Validate gate type
-      const validGateTypes = ['identity_mirror', 'shofar_convergence', 'network_multiplication', 'twelve_gate_convergence'];
-      if (!validGateTypes.includes(gateType)) {
-        return res.status(400).json({ message: "Invalid gate type" });
+      res.json({
+        teamId: team.id,
+        ...result,
+        scannedAt: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid logs" });
       }
+      console.error("Error running fractal scan:", error);
+      res.status(500).json({ message: "Failed to run fractal scan" });
+    }
+  });
 
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+  app.get('/api/teams/:id/fractal-scan', isAuthenticated, requireTeamAccess('view'), requireEntitlement('analytics'), async (req: any, res) => {
+    try {
+      const team = req.team;
+      const metrics = await storage.getTeamProgressMetrics(team.id);
+      const scan = metricsToFractalScan(metrics);
+      if (!scan) {
+        return res.status(404).json({ message: "No fractal scan recorded for this team" });
       }
 
-      // Calculate XP reward based on gate type
-      const gateRewards = {
-        'identity_mirror': { xp: 100, chapter: 2 },
-        'shofar_convergence': { xp: 100, chapter: 26 },
-        'network_multiplication': { xp: 100, chapter: 27 }, 
-        'twelve_gate_convergence': { xp: 150, chapter: null } // Final gate
-      };
-
-      const reward = gateRewards[gateType as keyof typeof gateRewards];
-      const newXP = (user.experiencePoints || 0) + reward.xp;
-      const newLevel = Math.floor(newXP / 100) + 1;
-
-      // Update user progress and XP
-      await storage.upsertUser({
-        experiencePoints: newXP,
-        level: newLevel,
-        currentChapterId: reward.chapter ? `chapter-${reward.chapter}` : user.currentChapterId
-      }, userId);
-
-      // Mark gate completion in daily practices instead
-      // Progress will be tracked through practice records
+      res.json({ teamId: team.id, ...scan });
+    } catch (error) {
+      console.error("Error fetching fractal scan:", error);
+      res.status(500).json({ message: "Failed to fetch fractal scan" });
+    }
+  });
 
-      // Create a practice record for the gate challenge
-      await storage.createDailyPractice({
-        userId,
-        date: new Date(),
-        practiceType: `gate_challenge_${gateType}`,
-        completed: true,
-        duration: 30, // Estimated 30 minutes for gate challenge
-        notes: reflections ? JSON.stringify(reflections) : null,
-        generationAdaptation: null
-      });
+  // Gate routes for biblical leadership milestones, backed by the gate service
+  const GATE_TRANSITION_MESSAGES: Record<GateTransitionError, string> = {
+    locked: "Complete the chapters before this gate to unlock it",
+    already_completed: "You have already completed this gate",
+  };
 
-      res.json({
-        success: true,
-        gateType,
-        xpEarned: reward.xp,
-        totalXP: newXP,
-        newLevel,
-        unlockedChapter: reward.chapter,
-        completedAt: new Date().toISOString(),
-        message: getGateCompletionMessage(gateType)
-      });
+  app.get('/api/gates', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
 
+      const gates = await getUserGates(userId, await getUserEntitlements(userId));
+      res.json(gates);
     } catch (error) {
-      console.error("Error completing gate:", error);
-      res.status(500).json({ message: "Failed to complete gate challenge" });
+      console.error("Error fetching gate status:", error);
+      res.status(500).json({ message: "Failed to fetch gate status" });
     }
   });
 
-  // Get gate progress and status
+  // Summary of the same gate states, in the shape the gate challenge page reads
   app.get('/api/gates/progress', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub || (req.session as any)?.userId;
-      
+      const userId = getRequestUserId(req);
       if (!userId) {
         return res.status(401).json({ message: "User not authenticated" });
       }
@@ -789,65 +870,148 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
 
-      // Get completed gates from progress metrics
-      const gateTypes = ['identity_mirror', 'shofar_convergence', 'network_multiplication', 'twelve_gate_convergence'];
-      const completedGates = [];
-
-      for (const gateType of gateTypes) {
-        const practices = await storage.getUserDailyPractices(
-          userId,
-          new Date(Date.now() - 365 * 24 * 60 * 60 * 1000), // Last year
-          new Date()
-        );
-        const gateCompleted = practices.some(p => 
-          p.practiceType === `gate_challenge_${gateType}` && p.completed
-        );
-        if (gateCompleted) {
-          completedGates.push(gateType);
-        }
-      }
-
-      // Determine available gates based on current progress
-      const currentChapter = user.currentChapterId ? parseInt(user.currentChapterId.replace('chapter-', '')) : 1;
-      const availableGates = [];
-
-      if (currentChapter >= 1) availableGates.push('identity_mirror');
-      if (currentChapter >= 25) availableGates.push('shofar_convergence');
-      if (currentChapter >= 26) availableGates.push('network_multiplication');
-      if (currentChapter >= 27) availableGates.push('twelve_gate_convergence');
+      const gates = await getUserGates(userId, await getUserEntitlements(userId));
+      const openGates = gates.filter(gate => gate.state === 'unlocked' || gate.state === 'in_progress');
 
       res.json({
-        completedGates,
-        availableGates,
+        gates,
+        completedGates: gates.filter(gate => gate.state === 'completed').map(gate => gate.gateType),
+        inProgressGates: gates.filter(gate => gate.state === 'in_progress').map(gate => gate.gateType),
+        // Gates reached by progress but outside the user's tier are reported separately for upgrade prompts
+        availableGates: openGates.filter(gate => gate.entitled).map(gate => gate.gateType),
+        upgradeRequiredGates: openGates.filter(gate => !gate.entitled).map(gate => gate.gateType),
         currentLevel: user.level || 1,
         totalXP: user.experiencePoints || 0
       });
-
     } catch (error) {
       console.error("Error fetching gate progress:", error);
       res.status(500).json({ message: "Failed to fetch gate progress" });
     }
   });
 
-  // Helper function for gate completion messages
-  function getGateCompletionMessage(gateType: string): string {
-    const messages = {
-      'identity_mirror': "Congratulations! You have discovered your identity at the Altar. The foundation of biblical leadership begins with knowing who you are in Christ.",
-      'shofar_convergence': "Well done! You understand the commissioning pattern. Like the disciples, you are now prepared to be sent with divine authority.",
-      'network_multiplication': "Excellent! You grasp the power of apostolic multiplication. Your network will now expand the Kingdom through intentional relationships.",
-      'twelve_gate_convergence': "Outstanding! You have completed the full biblical leadership pattern. You are now equipped to lead with the wisdom of all 12 gates of the city."
-    };
-    return messages[gateType as keyof typeof messages] || "Gate completed successfully!";
-  }
-
-  // Enhanced Stripe subscription routes for biblical leadership platform
-  
-  // Get available subscription tiers
-  app.get('/api/subscription/tiers', async (req, res) => {
+  // Questions for the current challenge version, without their scoring
+  app.get('/api/gates/:gateType/challenge', isAuthenticated, requireGateEntitlement(), async (req: any, res) => {
     try {
-      const tiers = Object.entries(SUBSCRIPTION_TIERS).map(([key, tier]) => ({
-        id: key,
-        name: tier.name,
+      const { gateType } = req.params;
+      if (!isGateType(gateType)) {
+        return res.status(400).json({ message: "Invalid gate type" });
+      }
+
+      res.json(toPublicChallenge(getGateChallenge(gateType)!));
+    } catch (error) {
+      console.error("Error fetching gate challenge:", error);
+      res.status(500).json({ message: "Failed to fetch gate challenge" });
+    }
+  });
+
+  app.get('/api/gates/:gateType/attempts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      const { gateType } = req.params;
+
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+      if (!isGateType(gateType)) {
+        return res.status(400).json({ message: "Invalid gate type" });
+      }
+
+      const attempts = await storage.getGateAttempts({ userId, gateType });
+      res.json(attempts.map(toAttemptSummary));
+    } catch (error) {
+      console.error("Error fetching gate attempts:", error);
+      res.status(500).json({ message: "Failed to fetch gate attempts" });
+    }
+  });
+
+  app.post('/api/gates/:gateType/start', isAuthenticated, requireGateEntitlement(), async (req: any, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      const { gateType } = req.params;
+
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+      if (!isGateType(gateType)) {
+        return res.status(400).json({ message: "Invalid gate type" });
+      }
+
+      const result = await startGate(userId, gateType);
+      if ('error' in result) {
+        return res.status(409).json({ message: GATE_TRANSITION_MESSAGES[result.error], reason: result.error });
+      }
+
+      res.json(result.gate);
+    } catch (error) {
+      console.error("Error starting gate:", error);
+      res.status(500).json({ message: "Failed to start gate challenge" });
+    }
+  });
+
+  app.post('/api/gates/:gateType/complete', isAuthenticated, requireGateEntitlement(), async (req: any, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      const { gateType } = req.params;
+
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+      if (!isGateType(gateType)) {
+        return res.status(400).json({ message: "Invalid gate type" });
+      }
+
+      const submission = completeGateSchema.parse(req.body);
+      const result = await completeGate(userId, gateType, submission);
+      if ('error' in result) {
+        if (result.error === 'invalid_submission') {
+          return res.status(400).json({ message: "Answer every question before completing the gate", reason: result.error, issues: result.issues });
+        }
+        if (result.error === 'not_passed') {
+          const failed: GateAttemptFailedResponse = {
+            message: `Your attempt scored ${result.attempt.score}; ${result.attempt.passingScore} is needed to pass this gate`,
+            reason: result.error,
+            attempt: result.attempt,
+          };
+          return res.status(422).json(failed);
+        }
+        return res.status(409).json({ message: GATE_TRANSITION_MESSAGES[result.error], reason: result.error });
+      }
+
+      const response: GateCompletionResponse = {
+        ...result,
+        newBadges: await evaluateAchievements(userId),
+        message: getGateCompletionMessage(gateType)
+      };
+      await promoteStage(userId);
+      res.json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid gate submission", errors: error.errors });
+      }
+      console.error("Error completing gate:", error);
+      res.status(500).json({ message: "Failed to complete gate challenge" });
+    }
+  });
+
+  // Helper function for gate completion messages
+  function getGateCompletionMessage(gateType: string): string {
+    const messages = {
+      'identity_mirror': "Congratulations! You have discovered your identity at the Altar. The foundation of biblical leadership begins with knowing who you are in Christ.",
+      'shofar_convergence': "Well done! You understand the commissioning pattern. Like the disciples, you are now prepared to be sent with divine authority.",
+      'network_multiplication': "Excellent! You grasp the power of apostolic multiplication. Your network will now expand the Kingdom through intentional relationships.",
+      'twelve_gate_convergence': "Outstanding! You have completed the full biblical leadership pattern. You are now equipped to lead with the wisdom of all 12 gates of the city."
+    };
+    return messages[gateType as keyof typeof messages] || "Gate completed successfully!";
+  }
+
+  // Enhanced Stripe subscription routes for biblical leadership platform
+  
+  // Get available subscription tiers
+  app.get('/api/subscription/tiers', async (req, res) => {
+    try {
+      const tiers = Object.entries(SUBSCRIPTION_TIERS).map(([key, tier]) => ({
+        id: key,
+        name: tier.name,
         price: tier.price,
         interval: tier.interval,
         features: tier.features,
@@ -861,6 +1025,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Entitlements for the signed-in user's tier, with the tier that unlocks what they lack
+  app.get('/api/entitlements', isAuthenticated, async (req: any, res) => {
+    try {
+      const entitlements = await getUserEntitlements(req.user.claims.sub);
+      const upgradeFor = (check: (e: TierEntitlements) => boolean): TierUpgrade | null => {
+        if (check(entitlements)) return null;
+        const tier = minimumTierFor(check);
+        return tier ? { tier, name: SUBSCRIPTION_TIERS[tier].name } : null;
+      };
+
+      const firstLockedChapter = entitlements.chapters.to + 1;
+      const chapterUpgrade = firstLockedChapter <= CHAPTERS.length
+        ? upgradeFor(e => canAccessChapter(e, firstLockedChapter))
+        : null;
+
+      const response: EntitlementsResponse = {
+        ...entitlements,
+        upgrades: {
+          chapters: chapterUpgrade && { ...chapterUpgrade, from: firstLockedChapter },
+          gates: GATE_TYPES.flatMap(gateType => {
+            const upgrade = upgradeFor(e => canAccessGate(e, gateType));
+            return upgrade ? [{ ...upgrade, gateType }] : [];
+          }),
+          teamTools: upgradeFor(e => e.teamTools),
+          analytics: upgradeFor(e => e.analytics),
+          aiCoaching: upgradeFor(e => e.aiCoaching),
+        },
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Error fetching entitlements:", error);
+      res.status(500).json({ message: "Failed to fetch entitlements" });
+    }
+  });
+
   // Create subscription for specific tier
   app.post('/api/subscription/create', isAuthenticated, async (req: any, res) => {
     if (!stripe) {
@@ -897,6 +1096,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Handle free tier (Seeker)
       if (tier === 'seeker') {
+        if (validatedData.promoCode) {
+          return res.status(400).json({
+            error: { message: "Promotion codes apply to paid tiers only", type: 'promo_error' }
+          });
+        }
+
         await storage.upsertUser({
           subscriptionTier: 'seeker',
           stripeCustomerId: null,
@@ -938,53 +1143,85 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      // Create or retrieve Stripe customer
+      // Trials and discounts come from an internal campaign or a Stripe promotion code
+      let promotion: AppliedPromotion | undefined;
+      if (validatedData.promoCode) {
+        const lookup = await resolvePromotion(stripe, validatedData.promoCode, tier, userId, { allowTrial: true });
+        if ('error' in lookup) {
+          return res.status(400).json({ error: { message: lookup.error, type: 'promo_error' } });
+        }
+        promotion = lookup.promotion;
+      }
+
+      const redemption = promotion ? await reservePromotion(promotion, userId, tier) : undefined;
+      if (promotion?.campaign && !redemption) {
+        return res.status(409).json({
+          error: { message: "This promotion code has reached its redemption limit", type: 'promo_error' }
+        });
+      }
+
       let customerId = user.stripeCustomerId;
-      if (!customerId) {
-        const customer = await stripe.customers.create({
-          email: user.email,
-          name: `${user.firstName || ''} ${user.lastName || ''}`.trim(),
+      let subscription: Stripe.Subscription;
+      try {
+        // Create or retrieve Stripe customer
+        if (!customerId) {
+          const customer = await stripe.customers.create({
+            email: user.email,
+            name: `${user.firstName || ''} ${user.lastName || ''}`.trim(),
+            metadata: {
+              userId: userId,
+              archetype: user.archetype || 'unknown',
+              generation: user.generation || 'unknown'
+            }
+          });
+          customerId = customer.id;
+        }
+
+        // Create subscription
+        subscription = await stripe.subscriptions.create({
+          customer: customerId,
+          items: [{
+            price: selectedTier.priceId,
+          }],
+          payment_behavior: 'default_incomplete',
+          payment_settings: {
+            save_default_payment_method: 'on_subscription'
+          },
+          expand: ['latest_invoice.payment_intent', 'pending_setup_intent'],
+          ...promotionSubscriptionParams(promotion),
           metadata: {
             userId: userId,
+            tier: tier,
             archetype: user.archetype || 'unknown',
-            generation: user.generation || 'unknown'
+            generation: user.generation || 'unknown',
+            ...(promotion && { promoCode: promotion.code })
           }
         });
-        customerId = customer.id;
-      }
-
-      // Create subscription
-      const subscription = await stripe.subscriptions.create({
-        customer: customerId,
-        items: [{
-          price: selectedTier.priceId,
-        }],
-        payment_behavior: 'default_incomplete',
-        payment_settings: {
-          save_default_payment_method: 'on_subscription'
-        },
-        expand: ['latest_invoice.payment_intent'],
-        metadata: {
-          userId: userId,
-          tier: tier,
-          archetype: user.archetype || 'unknown',
-          generation: user.generation || 'unknown'
+      } catch (error) {
+        // Give the campaign slot back; the code was never used
+        if (redemption) {
+          await storage.releasePromoRedemption(redemption);
         }
-      });
+        throw error;
+      }
 
       // Update user with Stripe information
       await storage.updateUserStripeInfo(userId, customerId, subscription.id);
       
-      const latestInvoice = subscription.latest_invoice as any;
-      const clientSecret = latestInvoice?.payment_intent?.client_secret || null;
+      const { clientSecret, intentType, trialEndsAt } = subscriptionCheckoutDetails(subscription);
 
       res.json({
         success: true,
         subscriptionId: subscription.id,
         clientSecret,
+        intentType,
+        trialEndsAt,
+        promoCode: promotion?.code ?? null,
         tier: tier,
         requiresPayment: true,
-        message: `Successfully created ${selectedTier.name} subscription`
+        message: trialEndsAt
+          ? `Your ${selectedTier.name} trial has started`
+          : `Successfully created ${selectedTier.name} subscription`
       });
 
     } catch (error: any) {
@@ -1033,9 +1270,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         currentTier: user.subscriptionTier || 'seeker',
         tierInfo: SUBSCRIPTION_TIERS[user.subscriptionTier || 'seeker'],
         isActive: true,
-        isPaid: false
+        isPaid: false,
+        isTrialing: false,
+        billing: getBillingState(user),
+        effectiveTier: await storage.getEffectiveSubscriptionTier(userId),
       };
 
+      // Seats from an organization plan apply alongside any personal subscription
+      const seat = await storage.getUserOrganizationSeat(userId);
+      const seatPlan = seat ? await storage.getOrganizationSubscription(seat.organizationId) : undefined;
+      response.organizationSeat = seatPlan && organizationPlanGrantsSeats(seatPlan.status)
+        ? { organizationId: seatPlan.organizationId, tier: seatPlan.tier, tierInfo: SUBSCRIPTION_TIERS[seatPlan.tier] }
+        : null;
+
       // If user has Stripe subscription, get detailed status
       if (user.stripeSubscriptionId && stripe) {
         try {
@@ -1046,6 +1293,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           response.isPaid = subscription.status === 'active';
           response.currentPeriodEnd = new Date((subscription as any).current_period_end * 1000);
           response.cancelAtPeriodEnd = subscription.cancel_at_period_end;
+          response.isTrialing = subscription.status === 'trialing';
+          response.trialEndsAt = subscription.trial_end ? new Date(subscription.trial_end * 1000) : null;
+          response.promoCode = subscription.metadata?.promoCode || null;
           
           if (subscription.latest_invoice) {
             const invoice = await stripe.invoices.retrieve(subscription.latest_invoice as string);
@@ -1198,6 +1448,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Handle downgrade to free tier (seeker)
       if (newTier === 'seeker') {
+        if (validatedData.promoCode) {
+          return res.status(400).json({
+            error: { message: "Promotion codes apply to paid tiers only", type: 'promo_error' }
+          });
+        }
+
         if (user.stripeSubscriptionId) {
           await stripe.subscriptions.update(user.stripeSubscriptionId, {
             cancel_at_period_end: true,
@@ -1226,95 +1482,137 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      const existingSubscription = user.stripeSubscriptionId
+        ? await stripe.subscriptions.retrieve(user.stripeSubscriptionId)
+        : undefined;
+      const isChangingPlan = existingSubscription?.status === 'active' || existingSubscription?.status === 'trialing';
+
+      // If no active subscription, a new one is created below
+      if (!isChangingPlan && !user.email) {
+        return res.status(400).json({ 
+          error: { message: "User email is required for paid subscriptions" }
+        });
+      }
+
+      // Discounts apply to plan changes too; trials only start with a new subscription
+      let promotion: AppliedPromotion | undefined;
+      if (validatedData.promoCode) {
+        const lookup = await resolvePromotion(stripe, validatedData.promoCode, newTier, userId, { allowTrial: !isChangingPlan });
+        if ('error' in lookup) {
+          return res.status(400).json({ error: { message: lookup.error, type: 'promo_error' } });
+        }
+        promotion = lookup.promotion;
+      }
+
+      const redemption = promotion ? await reservePromotion(promotion, userId, newTier) : undefined;
+      if (promotion?.campaign && !redemption) {
+        return res.status(409).json({
+          error: { message: "This promotion code has reached its redemption limit", type: 'promo_error' }
+        });
+      }
+
       // If user has existing subscription, update it
-      if (user.stripeSubscriptionId) {
-        const subscription = await stripe.subscriptions.retrieve(user.stripeSubscriptionId);
-        
-        if (subscription.status === 'active' || subscription.status === 'trialing') {
-          // Update existing subscription
-          const updatedSubscription = await stripe.subscriptions.update(user.stripeSubscriptionId, {
+      if (existingSubscription && isChangingPlan) {
+        let updatedSubscription: Stripe.Subscription;
+        try {
+          updatedSubscription = await stripe.subscriptions.update(existingSubscription.id, {
             items: [{
-              id: subscription.items.data[0].id,
+              id: existingSubscription.items.data[0].id,
               price: targetTier.priceId,
             }],
             proration_behavior: 'create_prorations',
+            ...promotionSubscriptionParams(promotion),
             metadata: {
-              ...subscription.metadata,
+              ...existingSubscription.metadata,
               previous_tier: currentTier,
               new_tier: newTier,
-              tier_change_date: new Date().toISOString()
-            }
-          });
-
-          await storage.upsertUser({
-            subscriptionTier: newTier,
-          }, userId);
-
-          return res.json({
-            success: true,
-            message: `Successfully updated to ${targetTier.name} tier`,
-            newTier: newTier,
-            subscription: {
-              id: updatedSubscription.id,
-              status: updatedSubscription.status
+              tier_change_date: new Date().toISOString(),
+              ...(promotion && { promoCode: promotion.code })
             }
           });
+        } catch (error) {
+          if (redemption) {
+            await storage.releasePromoRedemption(redemption);
+          }
+          throw error;
         }
-      }
 
-      // If no active subscription, create new one
-      if (!user.email) {
-        return res.status(400).json({ 
-          error: { message: "User email is required for paid subscriptions" }
+        await storage.upsertUser({
+          subscriptionTier: newTier,
+        }, userId);
+
+        return res.json({
+          success: true,
+          message: `Successfully updated to ${targetTier.name} tier`,
+          newTier: newTier,
+          promoCode: promotion?.code ?? null,
+          subscription: {
+            id: updatedSubscription.id,
+            status: updatedSubscription.status
+          }
         });
       }
 
-      // Create or retrieve customer
       let customerId = user.stripeCustomerId;
-      if (!customerId) {
-        const customer = await stripe.customers.create({
-          email: user.email,
-          name: `${user.firstName || ''} ${user.lastName || ''}`.trim(),
+      let subscription: Stripe.Subscription;
+      try {
+        // Create or retrieve customer
+        if (!customerId) {
+          const customer = await stripe.customers.create({
+            email: user.email,
+            name: `${user.firstName || ''} ${user.lastName || ''}`.trim(),
+            metadata: {
+              userId: userId,
+              archetype: user.archetype || 'unknown',
+              generation: user.generation || 'unknown'
+            }
+          });
+          customerId = customer.id;
+        }
+
+        // Create new subscription
+        subscription = await stripe.subscriptions.create({
+          customer: customerId,
+          items: [{
+            price: targetTier.priceId,
+          }],
+          payment_behavior: 'default_incomplete',
+          payment_settings: {
+            save_default_payment_method: 'on_subscription'
+          },
+          expand: ['latest_invoice.payment_intent', 'pending_setup_intent'],
+          ...promotionSubscriptionParams(promotion),
           metadata: {
             userId: userId,
+            tier: newTier,
+            previous_tier: currentTier,
             archetype: user.archetype || 'unknown',
-            generation: user.generation || 'unknown'
+            generation: user.generation || 'unknown',
+            ...(promotion && { promoCode: promotion.code })
           }
         });
-        customerId = customer.id;
-      }
-
-      // Create new subscription
-      const subscription = await stripe.subscriptions.create({
-        customer: customerId,
-        items: [{
-          price: targetTier.priceId,
-        }],
-        payment_behavior: 'default_incomplete',
-        payment_settings: {
-          save_default_payment_method: 'on_subscription'
-        },
-        expand: ['latest_invoice.payment_intent'],
-        metadata: {
-          userId: userId,
-          tier: newTier,
-          previous_tier: currentTier,
-          archetype: user.archetype || 'unknown',
-          generation: user.generation || 'unknown'
+      } catch (error) {
+        if (redemption) {
+          await storage.releasePromoRedemption(redemption);
         }
-      });
+        throw error;
+      }
 
       await storage.updateUserStripeInfo(userId, customerId, subscription.id);
       
-      const latestInvoice = subscription.latest_invoice as any;
-      const clientSecret = latestInvoice?.payment_intent?.client_secret || null;
+      const { clientSecret, intentType, trialEndsAt } = subscriptionCheckoutDetails(subscription);
 
       res.json({
         success: true,
-        message: `Successfully created ${targetTier.name} subscription`,
+        message: trialEndsAt
+          ? `Your ${targetTier.name} trial has started`
+          : `Successfully created ${targetTier.name} subscription`,
         newTier: newTier,
         subscriptionId: subscription.id,
         clientSecret,
+        intentType,
+        trialEndsAt,
+        promoCode: promotion?.code ?? null,
         requiresPayment: true
       });
 
@@ -1343,6 +1641,130 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Billing history from the webhook-fed invoice cache; no Stripe call on this path
+  app.get('/api/subscription/invoices', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: { message: "User not authenticated" } });
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 24, 1), 100);
+      const userInvoices = await storage.getUserInvoices(userId, limit);
+      res.json(userInvoices.map(summarizeInvoice));
+    } catch (error: any) {
+      console.error("Error fetching invoices:", error);
+      res.status(500).json({ error: { message: "Failed to fetch invoices" } });
+    }
+  });
+
+  // Pulls recent invoices from Stripe into the cache, for history that predates the webhook cache
+  app.post('/api/subscription/invoices/sync', isAuthenticated, async (req: any, res) => {
+    if (!stripe) {
+      return res.status(503).json({ 
+        error: { message: "Payment processing not configured. Please contact support." }
+      });
+    }
+
+    try {
+      const userId = getRequestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: { message: "User not authenticated" } });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: { message: "User not found" } });
+      }
+
+      if (!user.stripeCustomerId) {
+        return res.json({ synced: 0, invoices: [] });
+      }
+
+      const synced = await syncUserInvoices(stripe, { ...user, stripeCustomerId: user.stripeCustomerId });
+      const userInvoices = await storage.getUserInvoices(userId);
+      res.json({ synced, invoices: userInvoices.map(summarizeInvoice) });
+    } catch (error: any) {
+      console.error("Error syncing invoices:", error);
+      res.status(500).json({ error: { message: "Failed to sync invoices" } });
+    }
+  });
+
+  app.get('/api/subscription/payment-method', isAuthenticated, async (req: any, res) => {
+    if (!stripe) {
+      return res.status(503).json({ 
+        error: { message: "Payment processing not configured. Please contact support." }
+      });
+    }
+
+    try {
+      const userId = getRequestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: { message: "User not authenticated" } });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: { message: "User not found" } });
+      }
+
+      const paymentMethod = user.stripeCustomerId
+        ? await getPaymentMethodSummary(stripe, { ...user, stripeCustomerId: user.stripeCustomerId })
+        : null;
+      res.json({ paymentMethod });
+    } catch (error: any) {
+      console.error("Error fetching payment method:", error);
+      res.status(500).json({ error: { message: "Failed to fetch payment method" } });
+    }
+  });
+
+  // Stripe-hosted page for updating the card, downloading receipts and managing the subscription
+  app.post('/api/subscription/billing-portal', isAuthenticated, async (req: any, res) => {
+    if (!stripe) {
+      return res.status(503).json({ 
+        error: { message: "Payment processing not configured. Please contact support." }
+      });
+    }
+
+    let userId: string | undefined;
+
+    try {
+      userId = getRequestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ error: { message: "User not authenticated" } });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: { message: "User not found" } });
+      }
+
+      if (!user.stripeCustomerId) {
+        return res.status(400).json({ 
+          error: { message: "No billing account yet. Subscribe to a paid tier first." }
+        });
+      }
+
+      // Built from this request's host so the portal can only send users back to this app
+      const session = await stripe.billingPortal.sessions.create({
+        customer: user.stripeCustomerId,
+        return_url: `${req.protocol}://${req.get('host')}/subscribe`,
+      });
+
+      res.json({ url: session.url });
+    } catch (error: any) {
+      logSecurityEvent('BILLING_PORTAL_FAILED', {
+        userId: userId || 'unknown',
+        error: error.message,
+        stripeError: error.type || 'unknown'
+      }, false);
+
+      res.status(500).json({ 
+        error: { message: "Failed to open the billing portal. Please try again." }
+      });
+    }
+  });
+
   // Stripe webhook handler for automatic subscription management
   app.post('/api/webhooks/stripe', async (req, res) => {
     if (!stripe) {
@@ -1380,309 +1802,775 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(400).json({ error: `Webhook signature verification failed: ${err.message}` });
     }
 
-    // Idempotency check - prevent processing duplicate events
-    const now = Date.now();
-    if (processedEvents.has(event.id)) {
-      logSecurityEvent('WEBHOOK_DUPLICATE_IGNORED', { eventId: event.id, eventType: event.type });
-      return res.json({ received: true, status: 'duplicate_ignored', eventId: event.id });
+    let result: StripeEventResult | undefined;
+    try {
+      result = await processStripeEvent(event, hashStripePayload(req.body));
+    } catch (error: any) {
+      logSecurityEvent('WEBHOOK_LEDGER_ERROR', { eventType: event.type, eventId: event.id, error: error.message }, false);
     }
 
-    // Clean up old processed events to prevent memory issues
-    const entriesToDelete: string[] = [];
-    processedEventTimestamps.forEach((timestamp, eventId) => {
-      if (now - timestamp > eventExpiryTime) {
-        entriesToDelete.push(eventId);
-      }
-    });
-    
-    entriesToDelete.forEach(eventId => {
-      processedEvents.delete(eventId);
-      processedEventTimestamps.delete(eventId);
-    });
+    // Non-2xx responses make Stripe redeliver, which retries failed events against the ledger
+    if (!result || result.outcome === 'failed') {
+      return res.status(500).json({
+        error: "Webhook processing failed",
+        eventType: event.type,
+        eventId: event.id,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (result.outcome === 'in_progress') {
+      return res.status(409).json({ error: "Webhook event is already being processed", eventId: event.id });
+    }
 
-    // Mark event as processed
-    processedEvents.add(event.id);
-    processedEventTimestamps.set(event.id, now);
+    if (result.outcome === 'duplicate') {
+      return res.json({ received: true, status: 'duplicate_ignored', eventId: event.id });
+    }
 
-    logSecurityEvent('WEBHOOK_PROCESSING', { eventType: event.type, eventId: event.id });
+    res.json({ received: true, eventType: event.type, eventId: event.id, processedAt: result.event.processedAt });
+  });
 
+  // Webhook ledger maintenance for platform admins
+  app.get('/api/admin/stripe-events', isAuthenticated, requirePlatformAdmin(), async (req, res) => {
     try {
-      switch (event.type) {
-        case 'customer.subscription.created':
-        case 'customer.subscription.updated': {
-          const subscription = event.data.object as Stripe.Subscription;
-          await handleSubscriptionUpdate(subscription, event.type);
-          break;
-        }
+      const status = stripeEventStatusSchema.optional().parse(req.query.status);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+      const events = await storage.getStripeEvents(status, limit);
+      res.json(events.map(({ payload, ...event }) => event));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid event status", errors: error.errors });
+      }
+      console.error("Error fetching Stripe events:", error);
+      res.status(500).json({ message: "Failed to fetch Stripe events" });
+    }
+  });
 
-        case 'customer.subscription.deleted': {
-          const subscription = event.data.object as Stripe.Subscription;
-          await handleSubscriptionCancellation(subscription);
-          break;
-        }
+  app.post('/api/admin/stripe-events/:eventId/replay', isAuthenticated, requirePlatformAdmin(), async (req: any, res) => {
+    try {
+      const result = await replayStripeEvent(req.params.eventId);
+      if (!result) {
+        return res.status(404).json({ message: "Stripe event not found" });
+      }
 
-        case 'invoice.payment_succeeded': {
-          const invoice = event.data.object as Stripe.Invoice;
-          await handlePaymentSuccess(invoice);
-          break;
-        }
+      if (result.outcome === 'duplicate') {
+        return res.status(409).json({ message: "Stripe event was already processed", status: result.event.status });
+      }
 
-        case 'invoice.payment_failed': {
-          const invoice = event.data.object as Stripe.Invoice;
-          await handlePaymentFailure(invoice);
-          break;
-        }
+      if (result.outcome === 'in_progress') {
+        return res.status(409).json({ message: "Stripe event is being processed", status: result.event.status });
+      }
 
-        case 'checkout.session.completed': {
-          const session = event.data.object as Stripe.Checkout.Session;
-          await handleCheckoutCompleted(session);
-          break;
-        }
+      const { payload, ...event } = result.event;
+      res.status(result.outcome === 'failed' ? 502 : 200).json({ outcome: result.outcome, error: result.error, event });
+    } catch (error) {
+      console.error("Error replaying Stripe event:", error);
+      res.status(500).json({ message: "Failed to replay Stripe event" });
+    }
+  });
 
-        default:
-          console.log(`Unhandled webhook event type: ${event.type}`);
+  // Rebuilds a user's experiencePoints and level from their XP ledger
+  app.post('/api/admin/users/:id/xp/recompute', isAuthenticated, requirePlatformAdmin(), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      logSecurityEvent('WEBHOOK_SUCCESS', { eventType: event.type, eventId: event.id });
-      res.json({ received: true, eventType: event.type, eventId: event.id, processedAt: new Date().toISOString() });
-
-    } catch (error: any) {
-      logSecurityEvent('WEBHOOK_PROCESSING_ERROR', {
-        eventType: event.type,
-        eventId: event.id,
-        error: error.message,
-        stack: error.stack?.substring(0, 500) // Log partial stack for debugging
-      }, false);
-      res.status(500).json({ 
-        error: "Webhook processing failed",
-        eventType: event.type,
-        eventId: event.id,
-        timestamp: new Date().toISOString()
-      });
+      res.json(await recomputeExperience(user.id));
+    } catch (error) {
+      console.error("Error recomputing XP:", error);
+      res.status(500).json({ message: "Failed to recompute XP" });
     }
   });
 
-  // Webhook helper functions
-  async function handleSubscriptionUpdate(subscription: Stripe.Subscription, eventType: string) {
-    const userId = subscription.metadata?.userId;
-    const tier = subscription.metadata?.tier;
+  // Gate attempts for review, including the submitted answers, newest first
+  app.get('/api/admin/gate-attempts', isAuthenticated, requirePlatformAdmin(), async (req, res) => {
+    try {
+      const gateType = typeof req.query.gateType === 'string' && isGateType(req.query.gateType) ? req.query.gateType : undefined;
+      const userId = typeof req.query.userId === 'string' ? req.query.userId : undefined;
+
+      if (req.query.gateType && !gateType) {
+        return res.status(400).json({ message: "Invalid gate type" });
+      }
+
+      const attempts = await storage.getGateAttempts({ userId, gateType }, 200);
+      res.json(attempts);
+    } catch (error) {
+      console.error("Error fetching gate attempts:", error);
+      res.status(500).json({ message: "Failed to fetch gate attempts" });
+    }
+  });
 
-    if (!userId) {
-      console.error(`No userId in subscription metadata: ${subscription.id}`);
-      return;
+  // Promo campaigns: platform admins define trial and discount codes with redemption limits
+  app.get('/api/admin/promo-campaigns', isAuthenticated, requirePlatformAdmin(), async (req, res) => {
+    try {
+      const campaigns = await storage.getPromoCampaigns();
+      res.json(campaigns);
+    } catch (error) {
+      console.error("Error fetching promo campaigns:", error);
+      res.status(500).json({ message: "Failed to fetch promo campaigns" });
     }
+  });
 
+  app.post('/api/admin/promo-campaigns', isAuthenticated, requirePlatformAdmin(), async (req: any, res) => {
     try {
-      const user = await storage.getUser(userId);
-      if (!user) {
-        console.error(`User not found for subscription: ${userId}`);
-        return;
+      const campaignData = createPromoCampaignSchema.parse(req.body);
+
+      if (await storage.getPromoCampaignByCode(campaignData.code)) {
+        return res.status(409).json({ message: "A campaign with this code already exists" });
       }
 
-      // Determine tier from subscription
-      let subscriptionTier: 'seeker' | 'pioneer' | 'visionary' = 'seeker';
-      
-      if (tier && validateSubscriptionTier(tier)) {
-        subscriptionTier = tier as any;
-      } else {
-        // Fallback: determine tier from price
-        const price = subscription.items.data[0]?.price;
-        if (price) {
-          for (const [tierKey, tierData] of Object.entries(SUBSCRIPTION_TIERS)) {
-            if (tierData.priceId === price.id) {
-              subscriptionTier = tierKey as any;
-              break;
-            }
-          }
+      // Discounts are applied through a Stripe coupon created alongside the campaign
+      let stripeCouponId: string | null = null;
+      if (campaignData.percentOff) {
+        if (!stripe) {
+          return res.status(503).json({ message: "Payment processing not configured" });
         }
+        stripeCouponId = await createCampaignCoupon(stripe, {
+          code: campaignData.code,
+          name: campaignData.name,
+          percentOff: campaignData.percentOff,
+          durationInMonths: campaignData.durationInMonths,
+        });
       }
 
-      // Update user subscription status
-      await storage.upsertUser({
-        subscriptionTier,
-        stripeCustomerId: subscription.customer as string,
-        stripeSubscriptionId: subscription.id,
-      }, userId);
+      const campaign = await storage.createPromoCampaign({
+        ...campaignData,
+        stripeCouponId,
+        createdBy: getRequestUserId(req)!,
+      });
+      res.status(201).json(campaign);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid campaign data", errors: error.errors });
+      }
+      console.error("Error creating promo campaign:", error);
+      res.status(500).json({ message: "Failed to create promo campaign" });
+    }
+  });
 
-      console.log(`Updated user ${userId} subscription to ${subscriptionTier} tier (${eventType})`);
+  app.patch('/api/admin/promo-campaigns/:id', isAuthenticated, requirePlatformAdmin(), async (req, res) => {
+    try {
+      const updates = updatePromoCampaignSchema.parse(req.body);
+
+      const existing = await storage.getPromoCampaign(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Promo campaign not found" });
+      }
 
+      const campaign = await storage.updatePromoCampaign(req.params.id, updates);
+      res.json(campaign);
     } catch (error) {
-      console.error(`Error updating user subscription:`, error);
-      throw error;
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid campaign data", errors: error.errors });
+      }
+      console.error("Error updating promo campaign:", error);
+      res.status(500).json({ message: "Failed to update promo campaign" });
     }
-  }
+  });
+
+  // Biblical Matrix routes
+  app.get('/api/biblical-matrix', async (req, res) => {
+    try {
+      const matrix = await storage.getBiblicalMatrix();
+      res.json(matrix);
+    } catch (error) {
+      console.error("Error fetching biblical matrix:", error);
+      res.status(500).json({ message: "Failed to fetch biblical matrix" });
+    }
+  });
 
-  async function handleSubscriptionCancellation(subscription: Stripe.Subscription) {
-    const userId = subscription.metadata?.userId;
+  app.get('/api/biblical-matrix/book/:bookNumber', async (req, res) => {
+    try {
+      const bookNumber = parseInt(req.params.bookNumber);
+      const bookEntries = await storage.getBiblicalMatrixByBook(bookNumber);
+      res.json(bookEntries);
+    } catch (error) {
+      console.error("Error fetching biblical matrix book:", error);
+      res.status(500).json({ message: "Failed to fetch biblical matrix book" });
+    }
+  });
 
-    if (!userId) {
-      console.error(`No userId in subscription metadata: ${subscription.id}`);
-      return;
+  app.get('/api/biblical-matrix/chapter/:chapterNumber', async (req, res) => {
+    try {
+      const chapterNumber = parseInt(req.params.chapterNumber);
+      const entry = await storage.getBiblicalMatrixByChapter(chapterNumber);
+      res.json(entry || null);
+    } catch (error) {
+      console.error("Error fetching biblical matrix chapter:", error);
+      res.status(500).json({ message: "Failed to fetch biblical matrix chapter" });
     }
+  });
+
+  // Archetype question bank, without the loadings that score it
+  app.get('/api/assessment/question-bank', async (req, res) => {
+    res.json(toPublicQuestionBank(getArchetypeQuestionBank()!));
+  });
 
+  // Archetype assessment for signed-in users: scored here against the current question bank and
+  // saved as a completed assessment recording the bank version
+  app.post('/api/assessment/submit', isAuthenticated, async (req: any, res) => {
     try {
-      // Downgrade user to free tier
-      await storage.upsertUser({
-        subscriptionTier: 'seeker',
-        stripeSubscriptionId: null,
-      }, userId);
+      const userId = getRequestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
 
-      console.log(`Downgraded user ${userId} to Seeker tier due to subscription cancellation`);
+      const { responses } = submitArchetypeAssessmentSchema.parse(req.body);
+      const bank = getArchetypeQuestionBank()!;
+      const issues = validateArchetypeResponses(bank, responses);
+      if (issues.length > 0) {
+        return res.status(400).json({ message: "Answer every question before submitting", issues });
+      }
 
+      const result = scoreArchetype(bank, responses);
+      const user = await storage.getUser(userId);
+      const assessment = await storage.createAssessment({
+        userId,
+        stage: user?.currentStage || 'r1',
+        kind: 'archetype',
+        responses,
+        results: result,
+        bankVersion: result.bankVersion,
+        completedAt: new Date(),
+      });
+      await storage.upsertUser({ archetype: result.primary }, userId);
+
+      res.json({ ...result, archetype: result.primary, assessmentId: assessment.id });
     } catch (error) {
-      console.error(`Error handling subscription cancellation:`, error);
-      throw error;
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid assessment submission", errors: error.errors });
+      }
+      console.error("Error submitting assessment:", error);
+      res.status(500).json({ message: "Failed to submit assessment" });
     }
-  }
+  });
 
-  async function handlePaymentSuccess(invoice: Stripe.Invoice) {
-    const subscription = (invoice as any).subscription;
-    
-    if (!subscription) {
-      console.log("Invoice not associated with subscription, skipping");
-      return;
+  // Archetype score vectors over time with stage changes, shifts in primary archetype and when
+  // the next retake is due
+  app.get('/api/assessments/archetype-history', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      res.json(await getArchetypeHistory(userId));
+    } catch (error) {
+      console.error("Error fetching archetype history:", error);
+      res.status(500).json({ message: "Failed to fetch archetype history" });
     }
+  });
 
+  // The signed-in leader's 360 feedback requests with their gap reports
+  app.get('/api/feedback', isAuthenticated, async (req: any, res) => {
     try {
-      // Retrieve full subscription details
-      const fullSubscription = await stripe!.subscriptions.retrieve(subscription as string);
-      await handleSubscriptionUpdate(fullSubscription, 'payment_succeeded');
+      const userId = getRequestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
 
-      console.log(`Payment successful for subscription: ${subscription}`);
+      res.json(await getFeedbackRequests(userId));
+    } catch (error) {
+      console.error("Error fetching feedback requests:", error);
+      res.status(500).json({ message: "Failed to fetch feedback requests" });
+    }
+  });
 
+  // 360 feedback the signed-in user has been asked for and not yet given
+  app.get('/api/feedback/pending', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      res.json(await getPendingFeedback(userId));
     } catch (error) {
-      console.error(`Error handling payment success:`, error);
-      throw error;
+      console.error("Error fetching pending feedback:", error);
+      res.status(500).json({ message: "Failed to fetch pending feedback" });
     }
-  }
+  });
+
+  app.post('/api/feedback/:id/responses', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
 
-  async function handlePaymentFailure(invoice: Stripe.Invoice) {
-    const subscription = (invoice as any).subscription;
-    const userId = invoice.metadata?.userId;
+      const { responses } = submitArchetypeAssessmentSchema.parse(req.body);
+      const result = await submitFeedback(userId, req.params.id, responses);
+      if (!('error' in result)) {
+        return res.json(result);
+      }
 
-    if (!subscription) {
-      console.log("Invoice not associated with subscription, skipping");
-      return;
+      switch (result.error) {
+        case 'invalid_submission':
+          return res.status(400).json({ message: "Answer every question before submitting", issues: result.issues });
+        case 'not_invited':
+          return res.status(404).json({ message: "Feedback request not found" });
+        case 'already_responded':
+          return res.status(409).json({ message: "You have already given feedback on this request" });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid feedback submission", errors: error.errors });
+      }
+      console.error("Error submitting feedback:", error);
+      res.status(500).json({ message: "Failed to submit feedback" });
     }
+  });
 
+  // Choose the coaching provider and model for the whole organization
+  app.patch('/api/organizations/coaching', isAuthenticated, requireOrganizationRole('admin'), async (req: any, res) => {
     try {
-      console.log(`Payment failed for subscription: ${subscription}`);
-      
-      // Could implement logic here to handle failed payments
-      // e.g., send notification emails, grace period logic, etc.
-      
-      // For now, just log the failure
-      if (userId) {
-        console.log(`Payment failure for user: ${userId}`);
+      const coaching = coachingSettingsSchema.parse(req.body);
+      const organization = req.organization;
+      const updated = await storage.updateOrganization(organization.id, {
+        settings: { ...(organization.settings as Record<string, unknown> | null), coaching },
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid coaching settings", errors: error.errors });
       }
+      console.error("Error updating coaching settings:", error);
+      res.status(500).json({ message: "Failed to update coaching settings" });
+    }
+  });
 
+  // How often members are prompted to retake the archetype assessment
+  app.patch('/api/organizations/assessments', isAuthenticated, requireOrganizationRole('admin'), async (req: any, res) => {
+    try {
+      const assessments = assessmentSettingsSchema.parse(req.body);
+      const organization = req.organization;
+      const updated = await storage.updateOrganization(organization.id, {
+        settings: { ...(organization.settings as Record<string, unknown> | null), assessments },
+      });
+      res.json(updated);
     } catch (error) {
-      console.error(`Error handling payment failure:`, error);
-      throw error;
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid assessment settings", errors: error.errors });
+      }
+      console.error("Error updating assessment settings:", error);
+      res.status(500).json({ message: "Failed to update assessment settings" });
     }
-  }
+  });
 
-  async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
-    const userId = session.metadata?.userId;
-    const tier = session.metadata?.tier;
+  // Organization membership routes
+  app.get('/api/organizations/members', isAuthenticated, requireOrganizationRole('observer'), async (req: any, res) => {
+    try {
+      const members = await storage.getOrganizationMembers(req.organization.id);
+      res.json(members.map(({ user, ...member }) => ({
+        ...member,
+        user: {
+          id: user.id,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          email: user.email,
+          profileImageUrl: user.profileImageUrl,
+        },
+      })));
+    } catch (error) {
+      console.error("Error fetching organization members:", error);
+      res.status(500).json({ message: "Failed to fetch organization members" });
+    }
+  });
 
-    if (!userId || !tier) {
-      console.error(`Missing metadata in checkout session: ${session.id}`);
-      return;
+  app.patch('/api/organizations/members/:userId', isAuthenticated, requireOrganizationRole('admin'), async (req: any, res) => {
+    try {
+      const { role } = updateOrganizationMemberSchema.parse(req.body);
+      const organization = req.organization;
+      const member = await storage.getOrganizationMember(organization.id, req.params.userId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      // Only owners may grant or take away owner and admin roles
+      const touchesAdmins = hasOrganizationRole(role, 'admin') || hasOrganizationRole(member.role, 'admin');
+      if (touchesAdmins && req.organizationRole !== 'owner') {
+        return res.status(403).json({ message: "Requires owner role in this organization" });
+      }
+
+      if (member.role === 'owner' && role !== 'owner') {
+        const members = await storage.getOrganizationMembers(organization.id);
+        if (members.filter(m => m.role === 'owner').length <= 1) {
+          return res.status(400).json({ message: "An organization must keep at least one owner" });
+        }
+      }
+
+      const updated = await storage.updateOrganizationMemberRole(organization.id, member.userId, role);
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid role", errors: error.errors });
+      }
+      console.error("Error updating organization member:", error);
+      res.status(500).json({ message: "Failed to update organization member" });
     }
+  });
 
+  // Organization invitation routes (for frontend Organization page)
+  app.post('/api/organizations/invite', isAuthenticated, requireOrganizationRole('admin'), async (req: any, res) => {
     try {
-      if (validateSubscriptionTier(tier)) {
-        await storage.upsertUser({
-          subscriptionTier: tier as any,
-        }, userId);
+      const userId = req.user.claims.sub;
+      const { email, role, message } = createInvitationSchema.parse(req.body);
+
+      // Same rule as changing a member's role: only owners may bring in owners and admins
+      if (hasOrganizationRole(role, 'admin') && req.organizationRole !== 'owner') {
+        return res.status(403).json({ message: "Requires owner role in this organization" });
+      }
+
+      const inviter = await storage.getUser(userId);
+      const organization = req.organization;
+
+      const existing = await storage.getOrganizationInvitations(organization.id);
+      if (existing.some(i => i.status === 'pending' && i.email.toLowerCase() === email.toLowerCase() && !isInvitationExpired(i))) {
+        return res.status(409).json({ message: "A pending invitation already exists for this email" });
+      }
+
+      const invitation = await storage.createInvitation({
+        organizationId: organization.id,
+        email,
+        role,
+        message: message || null,
+        token: createInvitationToken(),
+        invitedBy: userId,
+        expiresAt: invitationExpiry(),
+      });
+
+      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      await sendMail(buildInvitationEmail(invitation, organization, inviter, baseUrl));
 
-        console.log(`Checkout completed for user ${userId}, tier: ${tier}`);
+      res.json({
+        message: "Invitation sent successfully",
+        invitation: toPublicInvitation(invitation),
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid invitation", errors: error.errors });
       }
+      console.error("Error sending invitation:", error);
+      res.status(500).json({ message: "Failed to send invitation" });
+    }
+  });
 
+  app.get('/api/organizations/invitations', isAuthenticated, requireOrganizationRole('admin'), async (req: any, res) => {
+    try {
+      const organization = req.organization;
+      const invitations = await storage.getOrganizationInvitations(organization.id);
+      res.json(invitations.map(invitation => ({
+        ...toPublicInvitation(invitation),
+        status: invitation.status === 'pending' && isInvitationExpired(invitation) ? 'expired' : invitation.status,
+      })));
     } catch (error) {
-      console.error(`Error handling checkout completion:`, error);
-      throw error;
+      console.error("Error fetching invitations:", error);
+      res.status(500).json({ message: "Failed to fetch invitations" });
     }
-  }
+  });
 
-  // Biblical Matrix routes
-  app.get('/api/biblical-matrix', async (req, res) => {
+  app.post('/api/organizations/invitations/:id/revoke', isAuthenticated, requireOrganizationRole('admin'), async (req: any, res) => {
     try {
-      const matrix = await storage.getBiblicalMatrix();
-      res.json(matrix);
+      const userId = req.user.claims.sub;
+      const organization = req.organization;
+      const invitation = await storage.getInvitation(req.params.id);
+
+      if (!invitation || invitation.organizationId !== organization.id) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      if (invitation.status !== 'pending') {
+        return res.status(400).json({ message: `Invitation is already ${invitation.status}` });
+      }
+
+      const revoked = await storage.updateInvitationStatus(invitation.id, 'revoked', userId);
+      res.json(toPublicInvitation(revoked));
     } catch (error) {
-      console.error("Error fetching biblical matrix:", error);
-      res.status(500).json({ message: "Failed to fetch biblical matrix" });
+      console.error("Error revoking invitation:", error);
+      res.status(500).json({ message: "Failed to revoke invitation" });
     }
   });
 
-  app.get('/api/biblical-matrix/book/:bookNumber', async (req, res) => {
+  // Organization plan and seat routes
+  app.get('/api/organizations/billing', isAuthenticated, requireOrganizationRole('admin'), async (req: any, res) => {
     try {
-      const bookNumber = parseInt(req.params.bookNumber);
-      const bookEntries = await storage.getBiblicalMatrixByBook(bookNumber);
-      res.json(bookEntries);
+      const organization = req.organization;
+      const [plan, seats, members] = await Promise.all([
+        storage.getOrganizationSubscription(organization.id),
+        storage.getOrganizationSeats(organization.id),
+        storage.getOrganizationMembers(organization.id),
+      ]);
+      const seatHolders = new Set(seats.map(seat => seat.userId));
+      const holder = (user: User) => ({
+        userId: user.id,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        email: user.email,
+      });
+
+      const response: OrganizationBillingResponse = {
+        plan: plan ? {
+          tier: plan.tier,
+          seats: plan.seats,
+          status: plan.status,
+          grantsSeats: organizationPlanGrantsSeats(plan.status),
+          cancelAtPeriodEnd: plan.cancelAtPeriodEnd,
+          currentPeriodEnd: plan.currentPeriodEnd?.toISOString() ?? null,
+        } : null,
+        seats: seats.map(seat => ({ ...holder(seat.user), assignedAt: seat.assignedAt?.toISOString() ?? null })),
+        members: members.map(member => ({ ...holder(member.user), role: member.role, hasSeat: seatHolders.has(member.userId) })),
+        pricing: (['pioneer', 'visionary'] as const).map(tier => ({
+          tier,
+          name: SUBSCRIPTION_TIERS[tier].name,
+          pricePerSeat: SUBSCRIPTION_TIERS[tier].price,
+          available: !!stripe && !!SUBSCRIPTION_TIERS[tier].priceId,
+        })),
+      };
+      res.json(response);
     } catch (error) {
-      console.error("Error fetching biblical matrix book:", error);
-      res.status(500).json({ message: "Failed to fetch biblical matrix book" });
+      console.error("Error fetching organization billing:", error);
+      res.status(500).json({ message: "Failed to fetch organization billing" });
     }
   });
 
-  app.get('/api/biblical-matrix/chapter/:chapterNumber', async (req, res) => {
+  app.post('/api/organizations/billing/subscription', isAuthenticated, requireOrganizationRole('admin'), async (req: any, res) => {
+    if (!stripe) {
+      return res.status(503).json({ message: "Payment processing not configured. Please contact support." });
+    }
+
     try {
-      const chapterNumber = parseInt(req.params.chapterNumber);
-      const entry = await storage.getBiblicalMatrixByChapter(chapterNumber);
-      res.json(entry || null);
+      const { tier, seats } = createOrganizationSubscriptionSchema.parse(req.body);
+      const organization = req.organization;
+      const admin = await storage.getUser(req.user.claims.sub);
+      if (!admin) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (!admin.email) {
+        return res.status(400).json({ message: "A billing email is required for organization plans" });
+      }
+
+      if (!SUBSCRIPTION_TIERS[tier].priceId) {
+        return res.status(400).json({ message: `${SUBSCRIPTION_TIERS[tier].name} tier is not configured for payment processing` });
+      }
+
+      const existing = await storage.getOrganizationSubscription(organization.id);
+      if (hasOpenOrganizationPlan(existing)) {
+        return res.status(409).json({ message: "This organization already has a plan. Change its seats instead." });
+      }
+
+      const { plan, clientSecret } = await createOrganizationPlan(stripe, organization, { ...admin, email: admin.email }, tier, seats, existing);
+      res.status(201).json({ plan, clientSecret, requiresPayment: !!clientSecret });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid organization plan", errors: error.errors });
+      }
+      logSecurityEvent('ORGANIZATION_SUBSCRIPTION_CREATION_FAILED', {
+        organizationId: req.organization?.id,
+        error: error.message,
+        stripeError: error.type || 'unknown'
+      }, false);
+      res.status(500).json({ message: "Failed to create organization plan" });
+    }
+  });
+
+  app.patch('/api/organizations/billing/subscription', isAuthenticated, requireOrganizationRole('admin'), async (req: any, res) => {
+    if (!stripe) {
+      return res.status(503).json({ message: "Payment processing not configured. Please contact support." });
+    }
+
+    try {
+      const { seats } = updateOrganizationSeatsSchema.parse(req.body);
+      const plan = await storage.getOrganizationSubscription(req.organization.id);
+      if (!plan?.stripeSubscriptionId || !hasOpenOrganizationPlan(plan)) {
+        return res.status(404).json({ message: "This organization has no active plan" });
+      }
+
+      const assigned = (await storage.getOrganizationSeats(plan.organizationId)).length;
+      if (seats < assigned) {
+        return res.status(400).json({ message: `${assigned} seats are assigned. Revoke seats before reducing the plan to ${seats}.` });
+      }
+
+      const updated = await updateOrganizationSeatCount(stripe, { ...plan, stripeSubscriptionId: plan.stripeSubscriptionId }, seats);
+      res.json(updated);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid seat count", errors: error.errors });
+      }
+      logSecurityEvent('ORGANIZATION_SEATS_UPDATE_FAILED', {
+        organizationId: req.organization?.id,
+        error: error.message,
+        stripeError: error.type || 'unknown'
+      }, false);
+      res.status(500).json({ message: "Failed to update organization seats" });
+    }
+  });
+
+  app.post('/api/organizations/billing/subscription/cancel', isAuthenticated, requireOrganizationRole('owner'), async (req: any, res) => {
+    if (!stripe) {
+      return res.status(503).json({ message: "Payment processing not configured. Please contact support." });
+    }
+
+    try {
+      const plan = await storage.getOrganizationSubscription(req.organization.id);
+      if (!plan?.stripeSubscriptionId || !hasOpenOrganizationPlan(plan)) {
+        return res.status(404).json({ message: "This organization has no active plan" });
+      }
+
+      const updated = await cancelOrganizationPlan(stripe, { ...plan, stripeSubscriptionId: plan.stripeSubscriptionId });
+      res.json(updated);
+    } catch (error: any) {
+      logSecurityEvent('ORGANIZATION_SUBSCRIPTION_CANCELLATION_FAILED', {
+        organizationId: req.organization?.id,
+        error: error.message,
+        stripeError: error.type || 'unknown'
+      }, false);
+      res.status(500).json({ message: "Failed to cancel organization plan" });
+    }
+  });
+
+  app.post('/api/organizations/billing/seats', isAuthenticated, requireOrganizationRole('admin'), async (req: any, res) => {
+    try {
+      const { userId } = assignOrganizationSeatSchema.parse(req.body);
+      const organization = req.organization;
+      const plan = await storage.getOrganizationSubscription(organization.id);
+      if (!plan || !organizationPlanGrantsSeats(plan.status)) {
+        return res.status(400).json({ message: "Seats can only be assigned while the organization plan is active" });
+      }
+
+      const member = await storage.getOrganizationMember(organization.id, userId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      const seats = await storage.getOrganizationSeats(organization.id);
+      const existing = seats.find(seat => seat.userId === userId);
+      if (existing) {
+        const { user, ...seat } = existing;
+        return res.json(seat);
+      }
+
+      if (seats.length >= plan.seats) {
+        return res.status(409).json({ message: `All ${plan.seats} seats are assigned. Add seats to the plan first.` });
+      }
+
+      const seat = await storage.assignOrganizationSeat({
+        organizationId: organization.id,
+        userId,
+        assignedBy: req.user.claims.sub,
+      });
+      res.status(201).json(seat);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid seat assignment", errors: error.errors });
+      }
+      console.error("Error assigning organization seat:", error);
+      res.status(500).json({ message: "Failed to assign seat" });
+    }
+  });
+
+  app.delete('/api/organizations/billing/seats/:userId', isAuthenticated, requireOrganizationRole('admin'), async (req: any, res) => {
+    try {
+      const revoked = await storage.revokeOrganizationSeat(req.organization.id, req.params.userId);
+      if (!revoked) {
+        return res.status(404).json({ message: "Seat not found" });
+      }
+      res.json({ message: "Seat revoked" });
+    } catch (error) {
+      console.error("Error revoking organization seat:", error);
+      res.status(500).json({ message: "Failed to revoke seat" });
+    }
+  });
+
+  // Invitation lookup for the invite landing page (the token is the credential)
+  app.get('/api/invitations/:token', async (req, res) => {
+    try {
+      const invitation = await storage.getInvitationByToken(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      const organization = await storage.getOrganization(invitation.organizationId);
+      res.json({
+        organization: organization ? { id: organization.id, name: organization.name, type: organization.type } : null,
+        email: invitation.email,
+        role: invitation.role,
+        message: invitation.message,
+        status: invitation.status === 'pending' && isInvitationExpired(invitation) ? 'expired' : invitation.status,
+        expiresAt: invitation.expiresAt,
+      });
     } catch (error) {
-      console.error("Error fetching biblical matrix chapter:", error);
-      res.status(500).json({ message: "Failed to fetch biblical matrix chapter" });
+      console.error("Error fetching invitation:", error);
+      res.status(500).json({ message: "Failed to fetch invitation" });
     }
   });
 
-  // Assessment submission route (for frontend Assessment page)
-  app.post('/api/assessment/submit', isAuthenticated, async (req: any, res) => {
+  app.post('/api/invitations/:token/accept', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { archetype, scores, answers, stage } = req.body;
-      
-      // Update user's archetype and stage
-      await storage.upsertUser({
-        archetype: archetype,
-        currentStage: stage || 'r1',
-      }, userId);
+      const invitation = await storage.getInvitationByToken(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
 
-      const results = {
-        archetype,
-        scores,
-        answers,
-        completedAt: new Date().toISOString(),
-        stage: stage || 'R1'
-      };
+      if (invitation.status !== 'pending') {
+        return res.status(400).json({ message: `Invitation is already ${invitation.status}` });
+      }
+
+      if (isInvitationExpired(invitation)) {
+        await storage.updateInvitationStatus(invitation.id, 'expired');
+        return res.status(410).json({ message: "Invitation has expired" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (user?.email && user.email.toLowerCase() !== invitation.email.toLowerCase()) {
+        return res.status(403).json({ message: "This invitation was sent to a different email address" });
+      }
+
+      // Existing members keep their role: an invitation never demotes (or promotes) anyone
+      const existingMember = await storage.getOrganizationMember(invitation.organizationId, userId);
+      if (!existingMember) {
+        await storage.addOrganizationMember(invitation.organizationId, userId, invitation.role);
+        await storage.upsertUser({
+          organizationId: invitation.organizationId,
+        }, userId);
+      }
+      const accepted = await storage.updateInvitationStatus(invitation.id, 'accepted', userId);
+      const organization = await storage.getOrganization(invitation.organizationId);
 
-      res.json(results);
+      res.json({
+        message: existingMember ? "You are already a member of this organization" : "Invitation accepted",
+        invitation: toPublicInvitation(accepted),
+        organization,
+      });
     } catch (error) {
-      console.error("Error submitting assessment:", error);
-      res.status(500).json({ message: "Failed to submit assessment" });
+      console.error("Error accepting invitation:", error);
+      res.status(500).json({ message: "Failed to accept invitation" });
     }
   });
 
-  // Organization invitation route (for frontend Organization page)
-  app.post('/api/organizations/invite', isAuthenticated, async (req: any, res) => {
+  app.post('/api/invitations/:token/decline', async (req: any, res) => {
     try {
-      const { email, role, message } = req.body;
-      
-      // In a real app, you'd send an email invitation here
-      // For now, just return success
-      console.log(`Invitation sent to ${email} with role ${role}`);
-      
-      res.json({ 
-        message: "Invitation sent successfully",
-        email,
-        role 
+      const invitation = await storage.getInvitationByToken(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      if (invitation.status !== 'pending') {
+        return res.status(400).json({ message: `Invitation is already ${invitation.status}` });
+      }
+
+      const userId = req.user?.claims?.sub || (req.session as any)?.userId;
+      const declined = await storage.updateInvitationStatus(invitation.id, 'declined', userId);
+      res.json({
+        message: "Invitation declined",
+        invitation: toPublicInvitation(declined),
       });
     } catch (error) {
-      console.error("Error sending invitation:", error);
-      res.status(500).json({ message: "Failed to send invitation" });
+      console.error("Error declining invitation:", error);
+      res.status(500).json({ message: "Failed to decline invitation" });
     }
   });
 
@@ -1716,11 +2604,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const updates = req.body;
+      const updates = updateProfileSchema.parse(req.body);
       
       const updatedUser = await storage.upsertUser(updates, userId);
       res.json(updatedUser);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid profile update", errors: error.errors });
+      }
       console.error("Error updating user:", error);
       res.status(500).json({ message: "Failed to update user" });
     }
@@ -1758,8 +2649,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Claude AI Integration Routes
-  // Biblical leadership insights (public endpoint)
-  app.post('/api/claude/leadership-insight', async (req, res) => {
+  // Biblical leadership insights (metered against the caller's AI quota)
+  app.post('/api/claude/leadership-insight', meterAiUsage('leadership_insight'), async (req: any, res) => {
     try {
       const { query, userArchetype } = req.body;
       
@@ -1767,11 +2658,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Query is required" });
       }
 
-      if (!process.env.ANTHROPIC_API_KEY) {
-        return res.status(500).json({ message: "Claude AI not configured" });
-      }
-
-      const insight = await provideBiblicalGuidance(query, userArchetype);
+      const coach = await getCoachingProvider(getRequestUserId(req), req.aiUsage);
+      const insight = await coach.provideGuidance(query, basicCoachingContext(userArchetype));
       res.json({ insight });
     } catch (error) {
       console.error("Error getting Claude insight:", error);
@@ -1779,8 +2667,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/claude/leadership-insight/stream', meterAiUsage('leadership_insight'), async (req: any, res) => {
+    const { query, userArchetype } = req.body;
+    
+    if (!query) {
+      return res.status(400).json({ message: "Query is required" });
+    }
+
+    const settleAiUsage = req.settleAiStream();
+    const stream = openEventStream(res);
+    let completed = false;
+    try {
+      const coach = await getCoachingProvider(getRequestUserId(req), req.aiUsage);
+      await coach.streamGuidance(query, basicCoachingContext(userArchetype), [], {
+        onText: (text) => stream.send('token', { text }),
+        signal: stream.signal,
+      });
+      completed = true;
+      stream.send('done', { timestamp: new Date().toISOString() });
+    } catch (error) {
+      if (!stream.signal.aborted) {
+        console.error("Error streaming Claude insight:", error);
+        stream.send('error', { message: "Failed to get leadership insight" });
+      }
+    } finally {
+      // A cancelled stream still used its tokens; a failed one hands its request back
+      settleAiUsage(completed || stream.signal.aborted);
+      stream.close();
+    }
+  });
+
   // Assessment analysis with Claude (authenticated)
-  app.post('/api/claude/analyze-archetype', isAuthenticated, async (req: any, res) => {
+  app.post('/api/claude/analyze-archetype', isAuthenticated, meterAiUsage('archetype_analysis'), async (req: any, res) => {
     try {
       const { responses, archetype } = req.body;
       
@@ -1788,12 +2706,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Responses and archetype are required" });
       }
 
-      if (!process.env.ANTHROPIC_API_KEY) {
-        return res.status(500).json({ message: "Claude AI not configured" });
-      }
-
-      const questions = await generateReflectionQuestions(archetype);
-      const analysis = `Based on your responses, here are key insights for ${archetype} archetype development:\n\nReflection Questions:\n${questions.join('\n')}`;
+      const coach = await getCoachingProvider(req.user.claims.sub, req.aiUsage);
+      const analysis = await coach.analyzeArchetypeDeepDive(responses, archetype);
       res.json({ analysis });
     } catch (error) {
       console.error("Error analyzing archetype:", error);
@@ -1802,7 +2716,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Meditation guidance with Claude (authenticated)
-  app.post('/api/claude/meditation-guidance', isAuthenticated, async (req: any, res) => {
+  app.post('/api/claude/meditation-guidance', isAuthenticated, meterAiUsage('meditation'), async (req: any, res) => {
     try {
       const { frequency, userArchetype } = req.body;
       
@@ -1810,14 +2724,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Frequency is required" });
       }
 
-      if (!process.env.ANTHROPIC_API_KEY) {
-        return res.status(500).json({ message: "Claude AI not configured" });
-      }
-
-      const guidance = await provideBiblicalGuidance(
-        `Provide meditation guidance for ${frequency}Hz frequency meditation for spiritual leadership development`,
-        userArchetype
-      );
+      const coach = await getCoachingProvider(req.user.claims.sub, req.aiUsage);
+      const guidance = await coach.generateMeditationScript(frequency, userArchetype);
       res.json({ guidance });
     } catch (error) {
       console.error("Error generating meditation guidance:", error);
@@ -1825,61 +2733,281 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Claude status check
-  app.get('/api/claude/status', (req, res) => {
-    const isConfigured = !!process.env.ANTHROPIC_API_KEY;
-    res.json({ 
-      configured: isConfigured,
-      model: "claude-sonnet-4-20250514",
-      features: [
-        "Biblical leadership insights",
-        "Archetype analysis", 
-        "Sacred frequency meditation guidance"
-      ]
-    });
+  // Coaching status: reports the provider actually serving the requester's organization
+  app.get('/api/claude/status', async (req, res) => {
+    try {
+      const { provider, source, requested } = await resolveCoachingForUser(getRequestUserId(req));
+      res.json({
+        configured: isAnthropicConfigured(),
+        provider: provider.name,
+        model: provider.model,
+        source,
+        fallbackFrom: requested ?? null,
+        features: [
+          "Biblical leadership insights",
+          "Archetype analysis",
+          "Sacred frequency meditation guidance"
+        ]
+      });
+    } catch (error) {
+      console.error("Error checking coaching status:", error);
+      res.status(500).json({ message: "Failed to check coaching status" });
+    }
+  });
+
+  // AI usage dashboard for the signed-in user
+  app.get('/api/usage', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 90);
+      const since = usageDaysAgo(days - 1);
+      const rows = await storage.getUserAiUsage(user.id, since);
+
+      res.json({
+        quota: await getQuotaStatus(user),
+        period: { since, days },
+        totals: summarizeUsage(rows),
+        daily: groupUsage(rows, row => row.day).map(({ key, ...totals }) => ({ day: key, ...totals })),
+        byFeature: groupUsage(rows, row => row.feature).map(({ key, ...totals }) => ({ feature: key, ...totals })),
+      });
+    } catch (error) {
+      console.error("Error fetching AI usage:", error);
+      res.status(500).json({ message: "Failed to fetch AI usage" });
+    }
+  });
+
+  // AI usage across the organization, per member and per day
+  app.get('/api/organizations/usage', isAuthenticated, requireOrganizationRole('admin'), async (req: any, res) => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 90);
+      const since = usageDaysAgo(days - 1);
+      const [rows, members] = await Promise.all([
+        storage.getOrganizationAiUsage(req.organization.id, since),
+        storage.getOrganizationMembers(req.organization.id),
+      ]);
+      const usageByUser = new Map(groupUsage(rows, row => row.userId).map(({ key, ...totals }) => [key, totals]));
+
+      res.json({
+        period: { since, days },
+        totals: summarizeUsage(rows),
+        daily: groupUsage(rows, row => row.day).map(({ key, ...totals }) => ({ day: key, ...totals })),
+        members: await Promise.all(members.map(async ({ user, role }) => ({
+          userId: user.id,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          email: user.email,
+          role,
+          tier: await getUserTier(user),
+          ...(usageByUser.get(user.id) || summarizeUsage([])),
+        }))),
+      });
+    } catch (error) {
+      console.error("Error fetching organization AI usage:", error);
+      res.status(500).json({ message: "Failed to fetch organization AI usage" });
+    }
   });
 
   // Chat routes for Claude AI biblical guidance
-  app.post('/api/chat', isAuthenticated, async (req: any, res) => {
+  // Chat conversation routes: history lives on the server so chats survive reloads
+  app.get('/api/chat/conversations', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { message, conversationHistory = [] } = req.body;
-      
-      if (!message || message.trim().length === 0) {
-        return res.status(400).json({ message: "Message is required" });
+      const chapterNumber = req.query.chapterNumber ? parseInt(req.query.chapterNumber as string) : undefined;
+      const conversations = await storage.getUserChatConversations(userId, chapterNumber);
+      res.json(conversations);
+    } catch (error) {
+      console.error("Error fetching conversations:", error);
+      res.status(500).json({ message: "Failed to fetch conversations" });
+    }
+  });
+
+  app.post('/api/chat/conversations', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { title, chapterNumber } = createChatConversationSchema.parse(req.body);
+      const conversation = await storage.createChatConversation({
+        userId,
+        title: title || chatConversationTitle('New conversation', chapterNumber),
+        chapterNumber,
+      });
+      res.json(conversation);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid conversation" });
+      }
+      console.error("Error creating conversation:", error);
+      res.status(500).json({ message: "Failed to create conversation" });
+    }
+  });
+
+  app.get('/api/chat/conversations/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const conversation = await storage.getChatConversation(req.params.id);
+      if (!conversation || conversation.userId !== userId) {
+        return res.status(404).json({ message: "Conversation not found" });
       }
 
-      // Get user profile for personalized guidance
-      const user = await storage.getUser(userId);
-      const userArchetype = user?.archetype || 'pioneer';
-      const userGeneration = user?.generation || 'millennial';
+      const messages = await storage.getChatMessages(conversation.id);
+      res.json({ ...conversation, messages });
+    } catch (error) {
+      console.error("Error fetching conversation:", error);
+      res.status(500).json({ message: "Failed to fetch conversation" });
+    }
+  });
 
-      const response = await provideBiblicalGuidance(
-        message,
-        userArchetype,
-        userGeneration,
-        conversationHistory
-      );
+  app.patch('/api/chat/conversations/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { title } = updateChatConversationSchema.parse(req.body);
+      const conversation = await storage.getChatConversation(req.params.id);
+      if (!conversation || conversation.userId !== userId) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const renamed = await storage.renameChatConversation(conversation.id, title);
+      res.json(renamed);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid title" });
+      }
+      console.error("Error renaming conversation:", error);
+      res.status(500).json({ message: "Failed to rename conversation" });
+    }
+  });
+
+  app.delete('/api/chat/conversations/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const conversation = await storage.getChatConversation(req.params.id);
+      if (!conversation || conversation.userId !== userId) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      await storage.deleteChatConversation(conversation.id);
+      res.json({ message: "Conversation deleted" });
+    } catch (error) {
+      console.error("Error deleting conversation:", error);
+      res.status(500).json({ message: "Failed to delete conversation" });
+    }
+  });
+
+  app.post('/api/chat', isAuthenticated, meterAiUsage('chat'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const turn = await prepareChatTurn(userId, req.body);
+      if (!turn) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const coach = await getCoachingProvider(userId, req.aiUsage);
+      const response = await coach.provideGuidance(turn.message, turn.context, turn.conversationHistory);
+      const conversation = await saveChatTurn(userId, turn, response);
 
       res.json({ 
         response,
-        archetype: userArchetype,
+        archetype: turn.archetype,
+        conversationId: conversation.id,
         timestamp: new Date().toISOString()
       });
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid message" });
+      }
       console.error("Error in chat endpoint:", error);
       res.status(500).json({ message: "Failed to generate response: " + error.message });
     }
   });
 
+  // Streaming chat over Server-Sent Events: token events, then done (or error)
+  app.post('/api/chat/stream', isAuthenticated, meterAiUsage('chat'), async (req: any, res) => {
+    let turn;
+    try {
+      turn = await prepareChatTurn(req.user.claims.sub, req.body);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid message" });
+      }
+      console.error("Error preparing chat stream:", error);
+      return res.status(500).json({ message: "Failed to start chat" });
+    }
+    if (!turn) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
+
+    const settleAiUsage = req.settleAiStream();
+    const stream = openEventStream(res);
+    let completed = false;
+    try {
+      const coach = await getCoachingProvider(req.user.claims.sub, req.aiUsage);
+      const response = await coach.streamGuidance(
+        turn.message,
+        turn.context,
+        turn.conversationHistory,
+        {
+          onText: (text) => stream.send('token', { text }),
+          signal: stream.signal,
+        }
+      );
+
+      completed = true;
+
+      // A cancelled turn is dropped rather than saved half-answered
+      if (stream.signal.aborted) return;
+
+      const conversation = await saveChatTurn(req.user.claims.sub, turn, response);
+      stream.send('done', {
+        archetype: turn.archetype,
+        conversationId: conversation.id,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error: any) {
+      if (!stream.signal.aborted) {
+        console.error("Error in chat stream:", error);
+        stream.send('error', { message: "Failed to generate response" });
+      }
+    } finally {
+      // A cancelled stream still used its tokens; a failed one hands its request back
+      settleAiUsage(completed || stream.signal.aborted);
+      stream.close();
+    }
+  });
+
+  // Debug view of the context the coach receives for a user's next chat turn
+  app.get('/api/user/:userId/coaching-context', requireUserAccess(), async (req, res) => {
+    try {
+      const chapterNumber = req.query.chapterNumber ? parseInt(req.query.chapterNumber as string) : undefined;
+      if (chapterNumber !== undefined && !CHAPTERS.some(chapter => chapter.ch === chapterNumber)) {
+        return res.status(400).json({ message: "Unknown chapter" });
+      }
+
+      const context = await buildCoachingContext(req.params.userId, chapterNumber);
+      const { provider } = await resolveCoachingForUser(req.params.userId);
+      res.json({
+        provider: provider.name,
+        model: provider.model,
+        context,
+        prompt: formatCoachingContext(context),
+      });
+    } catch (error) {
+      console.error("Error building coaching context:", error);
+      res.status(500).json({ message: "Failed to build coaching context" });
+    }
+  });
+
   // Get reflection questions for user's archetype
-  app.get('/api/reflection-questions', isAuthenticated, async (req: any, res) => {
+  app.get('/api/reflection-questions', isAuthenticated, meterAiUsage('reflection_questions'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
       const userArchetype = user?.archetype || 'pioneer';
 
-      const questions = await generateReflectionQuestions(userArchetype);
+      const coach = await getCoachingProvider(userId, req.aiUsage);
+      const questions = await coach.generateReflectionQuestions(userArchetype);
       res.json({ 
         questions,
         archetype: userArchetype
@@ -1949,6 +3077,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!birthYear || !userId) {
         return res.status(400).json({ message: "Birth year and user ID required" });
       }
+
+      if (getRequestUserId(req) !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       
       const generation = await storage.setUserGeneration(userId, birthYear);
       res.json(generation);
@@ -1958,7 +3090,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/user/:userId/generation', async (req, res) => {
+  app.get('/api/user/:userId/generation', requireUserAccess(), async (req, res) => {
     try {
       const { userId } = req.params;
       const generation = await storage.getUserGeneration(userId);
@@ -1975,7 +3107,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Chapter progression routes
-  app.get('/api/chapters/available/:userId', async (req, res) => {
+  app.get('/api/chapters/available/:userId', requireUserAccess(), async (req, res) => {
     try {
       const { userId } = req.params;
       const chapterAccess = await storage.getAvailableChapters(userId);
@@ -1986,7 +3118,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/user/:userId/progress', async (req, res) => {
+  app.get('/api/user/:userId/progress', requireUserAccess(), async (req, res) => {
     try {
       const { userId } = req.params;
       const chapterProgress = await storage.getUserChapterProgress(userId);
@@ -2002,7 +3134,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/chapters/:chapterNumber/unlock', isAuthenticated, async (req: any, res) => {
+  app.post('/api/chapters/:chapterNumber/unlock', isAuthenticated, requireChapterEntitlement(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub || (req.session as any)?.userId;
       const chapterNumber = parseInt(req.params.chapterNumber);
@@ -2026,32 +3158,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/chapters/:chapterNumber/complete', isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = req.user.claims.sub || (req.session as any)?.userId;
-      const chapterNumber = parseInt(req.params.chapterNumber);
-      const { assessmentScore = 0, practiceMinutes = 0 } = req.body;
-      
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-      
-      const progress = await storage.completeChapterProgress(
-        userId, 
-        chapterNumber, 
-        assessmentScore, 
-        practiceMinutes
-      );
-      
-      res.json(progress);
-    } catch (error) {
-      console.error("Error completing chapter:", error);
-      res.status(500).json({ message: "Failed to complete chapter" });
-    }
-  });
-
   // Chapter assessments
-  app.post('/api/chapters/:chapterNumber/assessment', isAuthenticated, async (req: any, res) => {
+  app.post('/api/chapters/:chapterNumber/assessment', isAuthenticated, requireChapterEntitlement(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub || (req.session as any)?.userId;
       const chapterNumber = parseInt(req.params.chapterNumber);
@@ -2081,7 +3189,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/user/:userId/assessments/:chapterNumber?', async (req, res) => {
+  app.get('/api/user/:userId/assessments/:chapterNumber?', requireUserAccess(), async (req, res) => {
     try {
       const { userId, chapterNumber } = req.params;
       const chapterNum = chapterNumber ? parseInt(chapterNumber) : undefined;
@@ -2097,20 +3205,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Public assessment submission (for non-authenticated users)
   app.post('/api/assessment/public-submit', async (req, res) => {
     try {
-      const { responses, birthYear, email } = req.body;
-      
-      if (!responses || !birthYear) {
-        return res.status(400).json({ message: "Responses and birth year required" });
+      const { responses, birthYear, email } = publicArchetypeAssessmentSchema.parse(req.body);
+      const bank = getArchetypeQuestionBank()!;
+      const issues = validateArchetypeResponses(bank, responses);
+      if (issues.length > 0) {
+        return res.status(400).json({ message: "Answer every question before submitting", issues });
       }
-      
-      // Calculate archetype from responses
-      const archetype = calculateArchetypeFromResponses(responses);
+
+      const result = scoreArchetype(bank, responses);
+      const archetype = result.primary;
       
       // Determine generation
       const generation = determineGeneration(birthYear);
       
-      // Store in session for later use
-      (req.session as any).assessmentResults = {
+      // Kept in the session until the visitor signs in, when it is saved to their account
+      const pending: PendingAssessment = {
+        ...result,
         archetype,
         generation,
         birthYear,
@@ -2118,34 +3228,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         submittedAt: new Date().toISOString(),
         responses
       };
+      req.session.assessmentResults = pending;
       
       res.json({
+        ...result,
         archetype,
         generation,
         nextStep: `/matrix?archetype=${archetype}&generation=${generation}`,
         message: "Assessment completed! Create an account to save your progress."
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid assessment submission", errors: error.errors });
+      }
       console.error("Error submitting public assessment:", error);
       res.status(500).json({ message: "Failed to submit assessment" });
     }
   });
 
   // Game progression routes
-  app.get('/api/user/:id/game-progress', isAuthenticated, async (req: any, res) => {
+  app.get('/api/user/:id/game-progress', isAuthenticated, requireUserAccess('id'), async (req: any, res) => {
     try {
       const { id } = req.params;
-      
-      // For demo users, allow access, otherwise ensure user can only access their own data
-      const userSub = req.user?.claims?.sub;
-      const userEmail = req.user?.claims?.email;
-      const isDemo = userEmail && userEmail.startsWith('demo-');
-      
-      if (!isDemo && userSub !== id) {
-        console.log(`Access denied: userSub=${userSub}, id=${id}, isDemo=${isDemo}`);
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
       const gameProgress = await storage.getUserGameProgress(id);
       res.json(gameProgress);
     } catch (error) {
@@ -2154,7 +3258,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/chapters/:id/complete', isAuthenticated, async (req: any, res) => {
+  // XP total, level thresholds from the active level curve, and recent ledger entries
+  app.get('/api/xp', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      res.json(await getXpSummary(userId));
+    } catch (error) {
+      console.error("Error fetching XP summary:", error);
+      res.status(500).json({ message: "Failed to fetch XP summary" });
+    }
+  });
+
+  // Every badge, earned or not, with progress toward the rest
+  app.get('/api/achievements', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = getRequestUserId(req);
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      res.json(await getBadgeShelf(userId));
+    } catch (error) {
+      console.error("Error fetching achievements:", error);
+      res.status(500).json({ message: "Failed to fetch achievements" });
+    }
+  });
+
+  app.get('/api/xp/rules', isAuthenticated, async (req, res) => {
+    res.json(getXpRules());
+  });
+
+  app.post('/api/chapters/:id/complete', isAuthenticated, requireChapterEntitlement('id'), async (req: any, res) => {
     try {
       const { id: chapterNumberStr } = req.params;
       const chapterNumber = parseInt(chapterNumberStr);
@@ -2168,18 +3306,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid chapter number" });
       }
 
-      // Complete chapter with XP award
-      const result = await storage.completeChapterWithXP(userId, chapterNumber);
+      // Chapters are completed in unlock order
+      const availableChapters = await storage.getAvailableChapters(userId);
+      if (!availableChapters.some(chapter => chapter.chapterNumber === chapterNumber)) {
+        return res.status(403).json({ message: "Chapter not yet available" });
+      }
+
+      // Complete chapter with XP award; the ledger pays each chapter once
+      const result = await completeChapterWithXp(userId, chapterNumber);
+      if (result.awarded) {
+        await recordChapterPractice(userId, chapterNumber);
+      }
       
-      // Unlock next chapter
+      // Unlock next chapter and start its practice clock
       const unlockedChapters = await storage.unlockNextChapter(userId);
+      if (unlockedChapters.includes(chapterNumber + 1)) {
+        await storage.unlockChapter(userId, chapterNumber + 1);
+      }
+      const newBadges = await evaluateAchievements(userId);
+      await promoteStage(userId);
       
       res.json({
         ...result,
         unlockedChapters,
+        newBadges,
         message: result.levelUp ? 
           `Congratulations! You've reached level ${result.user.level}!` : 
-          `Chapter ${chapterNumber} completed! +${result.xpGained} XP`
+          result.awarded ? `Chapter ${chapterNumber} completed! +${result.xpGained} XP` : `Chapter ${chapterNumber} was already completed`
       });
     } catch (error) {
       console.error("Error completing chapter:", error);
@@ -2187,15 +3340,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/chapters/available/:userId', isAuthenticated, async (req: any, res) => {
+  app.get('/api/chapters/available/:userId', isAuthenticated, requireUserAccess(), async (req: any, res) => {
     try {
       const { userId } = req.params;
-      
-      // Ensure user can only access their own data
-      if (req.user?.claims?.sub !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-      
       const availableChapters = await storage.getAvailableChapters(userId);
       res.json(availableChapters);
     } catch (error) {
@@ -2204,55 +3351,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Gate progression routes
-  app.get('/api/gates', isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = req.user?.claims?.sub;
-      
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-      
-      const gates = await storage.getGateStatus(userId);
-      res.json(gates);
-    } catch (error) {
-      console.error("Error fetching gate status:", error);
-      res.status(500).json({ message: "Failed to fetch gate status" });
-    }
-  });
-
-  app.post('/api/gates/:gateType/complete', isAuthenticated, async (req: any, res) => {
-    try {
-      const { gateType } = req.params;
-      const { chapterNumber } = req.body;
-      const userId = req.user?.claims?.sub;
-
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
-
-      const validGateTypes = ['identity_mirror', 'shofar_convergence', 'network_multiplication', 'twelve_gate_convergence'];
-      if (!validGateTypes.includes(gateType)) {
-        return res.status(400).json({ message: "Invalid gate type" });
-      }
-
-      if (!chapterNumber || isNaN(chapterNumber)) {
-        return res.status(400).json({ message: "Chapter number required" });
-      }
-
-      const completedGate = await storage.completeGate(userId, gateType, parseInt(chapterNumber));
-      
-      res.json({
-        gate: completedGate,
-        message: `Congratulations! You've completed the ${gateType.replace('_', ' ')} gate!`,
-        experienceGained: 100
-      });
-    } catch (error) {
-      console.error("Error completing gate:", error);
-      res.status(500).json({ message: "Failed to complete gate" });
-    }
-  });
-
   // Initialize user gates for new users
   app.post('/api/gates/initialize', isAuthenticated, async (req: any, res) => {
     try {
@@ -2262,9 +3360,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "User not authenticated" });
       }
       
-      await storage.initializeUserGates(userId);
-      const gates = await storage.getGateStatus(userId);
-      
+      const gates = await getUserGates(userId, await getUserEntitlements(userId));
+
       res.json({
         gates,
         message: "Gates initialized successfully"
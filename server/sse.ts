@@ -0,0 +1,39 @@
+import type { Response } from "express";
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+  signal: AbortSignal; // aborted when the client goes away before close()
+}
+
+// Switches an Express response into a Server-Sent Events stream
+export function openEventStream(res: Response): EventStream {
+  const controller = new AbortController();
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // keep reverse proxies from buffering tokens
+  res.flushHeaders();
+
+  // req 'close' also fires once the body has been read, so watch the response instead
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  return {
+    send(event, data) {
+      if (res.writableEnded || controller.signal.aborted) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (!res.writableEnded) {
+        res.end();
+      }
+    },
+    signal: controller.signal,
+  };
+}
@@ -0,0 +1,224 @@
+import type { DevelopmentStage } from "@shared/schema";
+import type { StageAssessment } from "@shared/stages";
+
+// The assessment for each development stage with its scoring. Published versions are kept, never
+// edited, so earlier results stay explainable; changes go in a new version.
+
+export interface StageQuestionDefinition {
+  id: string;
+  question: string;
+  // score is 0-100 for how far the answer reflects the stage's formation
+  options: { value: string; title: string; description: string; score: number }[];
+}
+
+export interface StageAssessmentDefinition {
+  stage: DevelopmentStage;
+  version: number;
+  title: string;
+  passingScore: number; // 0-100, the average across questions
+  questions: StageQuestionDefinition[];
+}
+
+export const STAGE_ASSESSMENTS: StageAssessmentDefinition[] = [
+  {
+    stage: 'r1',
+    version: 1,
+    title: 'Identity Foundations Assessment',
+    passingScore: 60,
+    questions: [
+      {
+        id: 'identity_source',
+        question: 'Where does your sense of identity as a leader come from?',
+        options: [
+          { value: 'role', title: 'My role and title', description: 'I know who I am by what I am responsible for', score: 20 },
+          { value: 'results', title: 'What I achieve', description: 'My fruit tells me I am on the right track', score: 40 },
+          { value: 'growing', title: 'Growing into God\'s view of me', description: 'I am learning to rest in who God says I am', score: 80 },
+          { value: 'rooted', title: 'Rooted in Christ', description: 'My identity is settled before I lead anyone', score: 100 },
+        ],
+      },
+      {
+        id: 'calling_clarity',
+        question: 'How would you describe your core calling today?',
+        options: [
+          { value: 'unknown', title: 'I have not thought about it', description: 'I lead where I am needed', score: 20 },
+          { value: 'searching', title: 'Actively searching', description: 'I am asking God and others to help me see it', score: 60 },
+          { value: 'named', title: 'I can name it', description: 'I can describe it in a sentence or two', score: 100 },
+        ],
+      },
+      {
+        id: 'altar_rhythm',
+        question: 'How often do you deliberately surrender your leadership to God?',
+        options: [
+          { value: 'rarely', title: 'Rarely', description: 'Mostly when things go wrong', score: 20 },
+          { value: 'weekly', title: 'Weekly', description: 'In worship and at key decisions', score: 70 },
+          { value: 'daily', title: 'Daily', description: 'It is a regular part of my rhythm', score: 100 },
+        ],
+      },
+    ],
+  },
+  {
+    stage: 'r2',
+    version: 1,
+    title: 'Calling Clarity Assessment',
+    passingScore: 65,
+    questions: [
+      {
+        id: 'boundaries',
+        question: 'How do you define boundaries in leadership?',
+        options: [
+          { value: 'none', title: 'I rarely set them', description: 'I say yes to most requests', score: 20 },
+          { value: 'clear_expectations', title: 'Clear expectations and roles', description: 'Define what each person should do and when', score: 80 },
+          { value: 'flexible_guidelines', title: 'Flexible guidelines', description: 'Provide direction while allowing adaptation', score: 80 },
+          { value: 'collaborative_agreements', title: 'Collaborative agreements', description: 'Co-create boundaries with team input', score: 100 },
+        ],
+      },
+      {
+        id: 'saying_no',
+        question: 'When an opportunity falls outside your calling, you:',
+        options: [
+          { value: 'take_it', title: 'Take it anyway', description: 'Opportunities are hard to turn down', score: 20 },
+          { value: 'agonise', title: 'Agonise, then usually accept', description: 'I know I should decline but rarely do', score: 40 },
+          { value: 'redirect', title: 'Redirect it', description: 'I connect it to someone it fits better', score: 100 },
+          { value: 'decline', title: 'Decline with peace', description: 'My calling helps me say no', score: 90 },
+        ],
+      },
+      {
+        id: 'calling_statement',
+        question: 'How well could your team describe your calling?',
+        options: [
+          { value: 'not_at_all', title: 'Not at all', description: 'I have not shared it', score: 20 },
+          { value: 'roughly', title: 'Roughly', description: 'They have a general sense of it', score: 60 },
+          { value: 'clearly', title: 'Clearly', description: 'They could say it back to me', score: 100 },
+        ],
+      },
+    ],
+  },
+  {
+    stage: 'r3',
+    version: 1,
+    title: 'Formation Habits Assessment',
+    passingScore: 70,
+    questions: [
+      {
+        id: 'practice_consistency',
+        question: 'How consistent are your formation practices?',
+        options: [
+          { value: 'occasional', title: 'Occasional', description: 'When I find the time', score: 20 },
+          { value: 'most_weeks', title: 'Most weeks', description: 'A few days a week', score: 60 },
+          { value: 'daily', title: 'Daily', description: 'Practices are part of each day', score: 100 },
+        ],
+      },
+      {
+        id: 'practice_recovery',
+        question: 'When you miss your practices for a few days, you:',
+        options: [
+          { value: 'drift', title: 'Drift for weeks', description: 'It takes a crisis to restart', score: 20 },
+          { value: 'guilt', title: 'Restart with guilt', description: 'I come back but feel behind', score: 60 },
+          { value: 'grace', title: 'Restart with grace', description: 'I simply pick the rhythm back up', score: 100 },
+        ],
+      },
+      {
+        id: 'sabbath',
+        question: 'How do you practice rest?',
+        options: [
+          { value: 'no_rest', title: 'I rarely rest', description: 'There is always more to do', score: 20 },
+          { value: 'when_tired', title: 'When I am exhausted', description: 'Rest is recovery, not rhythm', score: 50 },
+          { value: 'weekly_sabbath', title: 'A weekly Sabbath', description: 'Rest is planned and protected', score: 100 },
+        ],
+      },
+    ],
+  },
+  {
+    stage: 'r4',
+    version: 1,
+    title: 'Team Alignment Assessment',
+    passingScore: 70,
+    questions: [
+      {
+        id: 'team_vision',
+        question: 'How aligned is your team around a shared vision?',
+        options: [
+          { value: 'unclear', title: 'It is unclear', description: 'Everyone is pulling in their own direction', score: 20 },
+          { value: 'leader_only', title: 'I hold it alone', description: 'I know where we are going; they follow', score: 50 },
+          { value: 'shared', title: 'It is shared', description: 'The team can carry the vision without me', score: 100 },
+        ],
+      },
+      {
+        id: 'generational_bridge',
+        question: 'How do you work across generations on your team?',
+        options: [
+          { value: 'avoid', title: 'I stick with my own generation', description: 'It is simpler that way', score: 20 },
+          { value: 'tolerate', title: 'I adapt when I must', description: 'Differences are a cost to manage', score: 50 },
+          { value: 'leverage', title: 'I leverage the differences', description: 'Each generation brings strengths we need', score: 100 },
+        ],
+      },
+      {
+        id: 'feedback_culture',
+        question: 'How does feedback flow on your team?',
+        options: [
+          { value: 'top_down', title: 'Top down only', description: 'I give it; I rarely receive it', score: 30 },
+          { value: 'formal', title: 'In formal reviews', description: 'It happens on a schedule', score: 60 },
+          { value: 'open', title: 'Openly, every direction', description: 'Anyone can speak into anyone, including me', score: 100 },
+        ],
+      },
+    ],
+  },
+  {
+    stage: 'r5',
+    version: 1,
+    title: 'Role in the Whole Assessment',
+    passingScore: 75,
+    questions: [
+      {
+        id: 'kingdom_view',
+        question: 'How do you see your leadership in relation to the wider Kingdom?',
+        options: [
+          { value: 'my_area', title: 'My area is my focus', description: 'I lead what is in front of me', score: 30 },
+          { value: 'partner', title: 'I partner with others', description: 'We collaborate where it helps us both', score: 70 },
+          { value: 'part_of_whole', title: 'One part of a larger body', description: 'I lead for the sake of the whole', score: 100 },
+        ],
+      },
+      {
+        id: 'multiplying',
+        question: 'How many leaders are you actively developing?',
+        options: [
+          { value: 'none', title: 'None right now', description: 'I am focused on my own growth', score: 20 },
+          { value: 'one_or_two', title: 'One or two', description: 'I mentor a few people', score: 70 },
+          { value: 'multiplying', title: 'Leaders who develop leaders', description: 'Those I mentor are mentoring others', score: 100 },
+        ],
+      },
+      {
+        id: 'legacy',
+        question: 'What would you want to remain if you stepped away tomorrow?',
+        options: [
+          { value: 'results', title: 'The results', description: 'The work we accomplished', score: 40 },
+          { value: 'systems', title: 'Healthy systems', description: 'Structures that keep working', score: 70 },
+          { value: 'people', title: 'Leaders and a culture', description: 'People who carry the pattern forward', score: 100 },
+        ],
+      },
+    ],
+  },
+];
+
+// The latest version for a stage, or a specific one when reviewing an earlier result
+export function getStageAssessment(stage: DevelopmentStage, version?: number): StageAssessmentDefinition | undefined {
+  const versions = STAGE_ASSESSMENTS.filter(assessment => assessment.stage === stage);
+  if (version !== undefined) {
+    return versions.find(assessment => assessment.version === version);
+  }
+  return versions.sort((a, b) => b.version - a.version)[0];
+}
+
+export function toPublicStageAssessment(assessment: StageAssessmentDefinition): StageAssessment {
+  return {
+    stage: assessment.stage,
+    version: assessment.version,
+    title: assessment.title,
+    passingScore: assessment.passingScore,
+    questions: assessment.questions.map(question => ({
+      id: question.id,
+      question: question.question,
+      options: question.options.map(({ value, title, description }) => ({ value, title, description })),
+    })),
+  };
+}
@@ -0,0 +1,106 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { NextStageResponse } from "@shared/stages";
+import { storage } from "./storage";
+import { getStageProgression, promoteStage, STAGE_PROMOTION_RULES, MAX_CHAPTER_PRACTICE_MINUTES } from "./stages";
+import { startTestApp, type TestApp } from "./test-app";
+
+function practiceMinutes(progression: NextStageResponse) {
+  return progression.next?.requirements.find(requirement => requirement.kind === 'practice_minutes')?.current;
+}
+
+async function createUserWithPassedAssessment(username: string) {
+  const user = await storage.createUser({ username: `${username}_${Date.now()}` });
+  await storage.seedUserProgress(user.id, 1);
+  const assessment = await storage.createAssessment({ userId: user.id, stage: 'r1', kind: 'stage', responses: {} });
+  await storage.completeAssessment(assessment.id, { score: 100, passingScore: 60, passed: true });
+  return user;
+}
+
+describe("stage promotion", () => {
+  it("ignores client-reported chapter scores and practice minutes", async () => {
+    const user = await createUserWithPassedAssessment('reported');
+    for (const chapter of [2, 3, 4]) {
+      await storage.completeChapterProgress(user.id, chapter, 100, 1000);
+    }
+
+    const progression = await promoteStage(user.id);
+    assert.equal(progression.currentStage, 'r1');
+    assert.equal(progression.next?.requirements.find(requirement => requirement.kind === 'chapters')?.current, 0);
+    assert.equal(practiceMinutes(progression), 0);
+  });
+
+  it("does not count self-reported daily practice durations", async () => {
+    const user = await createUserWithPassedAssessment('self_reported');
+    await storage.createDailyPractice({ userId: user.id, date: new Date(), practiceType: 'reflection', completed: true, duration: 600 });
+
+    assert.equal(practiceMinutes(await getStageProgression(user.id)), 0);
+  });
+
+  it("counts a gate's chapter only once the gate is passed", async () => {
+    const user = await createUserWithPassedAssessment('gated');
+    await storage.completeChapter(user.id, 1); // the identity mirror gate's chapter
+
+    const progression = await getStageProgression(user.id);
+    assert.equal(progression.next?.requirements.find(requirement => requirement.kind === 'chapters')?.current, 0);
+  });
+
+  it("reports eligibility on read and promotes only when asked to", async () => {
+    const user = await createUserWithPassedAssessment('eligible');
+    const rule = STAGE_PROMOTION_RULES.r2;
+    for (let chapter = 2; chapter < 2 + rule.minChapters; chapter++) {
+      await storage.completeChapter(user.id, chapter);
+      await storage.completeChapterProgress(user.id, chapter, 0, Math.ceil(rule.minPracticeMinutes / rule.minChapters));
+    }
+
+    const read = await getStageProgression(user.id);
+    assert.equal(read.next?.eligible, true);
+    assert.equal(read.promotedTo, null);
+    assert.equal((await storage.getUser(user.id))?.currentStage, 'r1');
+
+    const promoted = await promoteStage(user.id);
+    assert.equal(promoted.promotedTo, 'r2');
+    assert.equal((await storage.getUser(user.id))?.currentStage, 'r2');
+  });
+});
+
+describe("POST /api/chapters/:id/complete", () => {
+  let app: TestApp;
+  let user: { userId: string; cookie: string };
+
+  before(async () => {
+    app = await startTestApp();
+    user = await app.login('organizer_demo');
+    await storage.seedUserProgress(user.userId, 2);
+  });
+
+  after(() => app.close());
+
+  it("refuses chapters that are not unlocked yet", async () => {
+    const response = await app.request('POST', '/api/chapters/4/complete', user.cookie);
+
+    assert.equal(response.status, 403);
+    assert.equal((await storage.getUserProgress(user.userId))?.completedChapters.includes(4), false);
+  });
+
+  it("records the minutes the chapter was open as its practice", async () => {
+    const opened = await storage.unlockChapter(user.userId, 2);
+    opened.unlockedAt = new Date(Date.now() - 45 * 60 * 1000);
+
+    assert.equal((await app.request('POST', '/api/chapters/2/complete', user.cookie)).status, 200);
+    assert.equal(practiceMinutes(await getStageProgression(user.userId)), 45);
+
+    // Completing it again neither restarts nor adds to its clock
+    assert.equal((await app.request('POST', '/api/chapters/2/complete', user.cookie)).status, 200);
+    assert.equal(practiceMinutes(await getStageProgression(user.userId)), 45);
+  });
+
+  it("starts the next chapter's clock and caps a chapter left open", async () => {
+    const next = (await storage.getUserChapterProgress(user.userId)).find(entry => entry.chapterNumber === 3);
+    assert.ok(next?.unlockedAt);
+    next.unlockedAt = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000);
+
+    assert.equal((await app.request('POST', '/api/chapters/3/complete', user.cookie)).status, 200);
+    assert.equal(practiceMinutes(await getStageProgression(user.userId)), 45 + MAX_CHAPTER_PRACTICE_MINUTES);
+  });
+});
@@ -0,0 +1,249 @@
+import type { Assessment, DevelopmentStage } from "@shared/schema";
+import { GATE_DEFINITIONS } from "@shared/gates";
+import {
+  STAGE_ORDER, STAGE_NAMES,
+  type StageAssessmentResults, type StageAssessmentResponse, type StageProgression, type StageRequirementStatus, type NextStageResponse,
+} from "@shared/stages";
+import { storage } from "./storage";
+import { getStageAssessment, type StageAssessmentDefinition } from "./stage-assessments";
+
+// Users start at R1 and move up one stage at a time once the rule for the next stage is met; R5
+// leads into the hidden track. Stages are only ever entered through these rules, never by taking
+// an assessment alone, and nobody is moved back down. The rules read stage assessments scored on the
+// server, chapters completed in unlock order and the practice minutes the server measured for them;
+// self-reported daily practice durations never count.
+
+interface StagePromotionRule {
+  assessmentStage: DevelopmentStage; // the stage whose assessment must be passed
+  minAssessmentScore: number;
+  minChapters: number;        // completed chapters; a gate's chapter counts once its gate is passed
+  minPracticeMinutes: number; // chapter_progress.practiceMinutes summed over the chapters that count
+}
+
+export const STAGE_PROMOTION_RULES: Record<Exclude<DevelopmentStage, 'r1'>, StagePromotionRule> = {
+  r2: { assessmentStage: 'r1', minAssessmentScore: 60, minChapters: 3, minPracticeMinutes: 60 },
+  r3: { assessmentStage: 'r2', minAssessmentScore: 65, minChapters: 8, minPracticeMinutes: 180 },
+  r4: { assessmentStage: 'r3', minAssessmentScore: 70, minChapters: 13, minPracticeMinutes: 360 },
+  r5: { assessmentStage: 'r4', minAssessmentScore: 70, minChapters: 18, minPracticeMinutes: 600 },
+  // The hidden track is for leaders who have walked nearly the whole matrix and kept a deep practice
+  hidden_track: { assessmentStage: 'r5', minAssessmentScore: 75, minChapters: 25, minPracticeMinutes: 900 },
+};
+
+export function isDevelopmentStage(value: string): value is DevelopmentStage {
+  return value === 'hidden_track' || (STAGE_ORDER as readonly string[]).includes(value);
+}
+
+// Unanswered questions and answers that are not options; scoring only runs on complete submissions
+export function validateStageResponses(definition: StageAssessmentDefinition, responses: Record<string, string>): string[] {
+  const issues: string[] = [];
+
+  for (const question of definition.questions) {
+    const answer = responses[question.id];
+    if (!answer) {
+      issues.push(`Choose an answer for "${question.question}"`);
+    } else if (!question.options.some(option => option.value === answer)) {
+      issues.push(`"${answer}" is not an option for "${question.question}"`);
+    }
+  }
+
+  return issues;
+}
+
+export function scoreStageAssessment(definition: StageAssessmentDefinition, responses: Record<string, string>): StageAssessmentResults {
+  const total = definition.questions.reduce((sum, question) =>
+    sum + (question.options.find(option => option.value === responses[question.id])?.score ?? 0), 0);
+  const score = Math.round(total / definition.questions.length);
+  return { score, passingScore: definition.passingScore, passed: score >= definition.passingScore };
+}
+
+// A chapter's practice minutes are the time it was open, from when the server unlocked it to its
+// completion. A chapter left open for weeks counts for no more than this many minutes.
+export const MAX_CHAPTER_PRACTICE_MINUTES = 60;
+
+// Records the completed chapter's practice minutes in chapter_progress; a chapter whose clock never
+// started (opened before it was tracked) counts for none
+export async function recordChapterPractice(userId: string, chapterNumber: number) {
+  const chapter = (await storage.getUserChapterProgress(userId)).find(entry => entry.chapterNumber === chapterNumber);
+  const openMinutes = chapter?.unlockedAt ? Math.floor((Date.now() - chapter.unlockedAt.getTime()) / 60000) : 0;
+  const practiceMinutes = Math.min(Math.max(openMinutes, 0), MAX_CHAPTER_PRACTICE_MINUTES);
+  return storage.completeChapterProgress(userId, chapterNumber, chapter?.assessmentScore ?? 0, practiceMinutes);
+}
+
+interface StageFacts {
+  bestAssessmentScores: Partial<Record<DevelopmentStage, number>>;
+  chaptersCompleted: number;
+  practiceMinutes: number;
+}
+
+async function loadStageFacts(userId: string): Promise<StageFacts> {
+  const [assessments, progress, gates, chapterProgress] = await Promise.all([
+    storage.getUserAssessments(userId),
+    storage.getUserProgress(userId),
+    storage.getGateStatus(userId),
+    storage.getUserChapterProgress(userId),
+  ]);
+
+  // Retakes can only help: the best scored attempt at each stage counts
+  const bestAssessmentScores: Partial<Record<DevelopmentStage, number>> = {};
+  for (const assessment of assessments) {
+    const score = (assessment.results as StageAssessmentResults | null)?.score;
+    if (assessment.kind !== 'stage' || !assessment.completedAt || typeof score !== 'number') continue;
+    bestAssessmentScores[assessment.stage] = Math.max(bestAssessmentScores[assessment.stage] ?? 0, score);
+  }
+
+  // Gate chapters wait for their gate, which is scored on the server
+  const gateChapters = new Set(Object.values(GATE_DEFINITIONS).map(gate => gate.chapterNumber));
+  const passedGateChapters = new Set(gates.filter(gate => gate.state === 'completed').map(gate => gate.chapterNumber));
+  const countedChapters = new Set((progress?.completedChapters ?? [])
+    .filter(chapter => !gateChapters.has(chapter) || passedGateChapters.has(chapter)));
+
+  // Minutes only count for those same chapters, so rows written by other routes add nothing
+  return {
+    bestAssessmentScores,
+    chaptersCompleted: countedChapters.size,
+    practiceMinutes: chapterProgress
+      .filter(entry => entry.completed && countedChapters.has(entry.chapterNumber))
+      .reduce((sum, entry) => sum + Math.min(Math.max(entry.practiceMinutes ?? 0, 0), MAX_CHAPTER_PRACTICE_MINUTES), 0),
+  };
+}
+
+function evaluateRule(stage: Exclude<DevelopmentStage, 'r1'>, facts: StageFacts): StageProgression {
+  const rule = STAGE_PROMOTION_RULES[stage];
+  const assessmentName = STAGE_NAMES[rule.assessmentStage];
+  const requirements: StageRequirementStatus[] = [
+    {
+      kind: 'assessment',
+      description: `Score ${rule.minAssessmentScore} or more on the ${assessmentName} assessment`,
+      required: rule.minAssessmentScore,
+      current: facts.bestAssessmentScores[rule.assessmentStage] ?? 0,
+      met: false,
+    },
+    {
+      kind: 'chapters',
+      description: `Complete ${rule.minChapters} chapters`,
+      required: rule.minChapters,
+      current: facts.chaptersCompleted,
+      met: false,
+    },
+    {
+      kind: 'practice_minutes',
+      description: `Spend ${rule.minPracticeMinutes} minutes practicing in your chapters`,
+      required: rule.minPracticeMinutes,
+      current: facts.practiceMinutes,
+      met: false,
+    },
+  ];
+  for (const requirement of requirements) {
+    requirement.met = requirement.current >= requirement.required;
+  }
+
+  const missing = requirements.filter(requirement => !requirement.met).map(requirement => {
+    switch (requirement.kind) {
+      case 'assessment':
+        return requirement.current > 0
+          ? `Your best ${assessmentName} assessment score is ${requirement.current}; ${requirement.required} is needed`
+          : `Take the ${assessmentName} assessment and score at least ${requirement.required}`;
+      case 'chapters':
+        return `Complete ${requirement.required - requirement.current} more chapter${requirement.required - requirement.current === 1 ? '' : 's'}`;
+      case 'practice_minutes':
+        return `Spend ${requirement.required - requirement.current} more minutes practicing in your chapters`;
+    }
+  });
+
+  return { stage, name: STAGE_NAMES[stage], eligible: missing.length === 0, requirements, missing };
+}
+
+function nextStageAfter(stage: DevelopmentStage): Exclude<DevelopmentStage, 'r1'> | null {
+  if (stage === 'hidden_track') return null;
+  const next = STAGE_ORDER[STAGE_ORDER.indexOf(stage) + 1];
+  return (next as Exclude<DevelopmentStage, 'r1'> | undefined) ?? 'hidden_track';
+}
+
+function describeProgression(currentStage: DevelopmentStage, startingStage: DevelopmentStage, facts: StageFacts): NextStageResponse {
+  const next = nextStageAfter(currentStage);
+  return {
+    currentStage,
+    promotedTo: currentStage !== startingStage ? currentStage : null,
+    next: next && next !== 'hidden_track' ? evaluateRule(next, facts) : null,
+    hiddenTrack: currentStage === 'hidden_track' ? null : evaluateRule('hidden_track', facts),
+  };
+}
+
+// Reports the rule for the next stage and for the hidden track with whatever is still missing;
+// reading it never moves anyone
+export async function getStageProgression(userId: string): Promise<NextStageResponse> {
+  const user = await storage.getUser(userId);
+  if (!user) throw new Error('User not found');
+
+  const currentStage: DevelopmentStage = user.currentStage || 'r1';
+  return describeProgression(currentStage, currentStage, await loadStageFacts(userId));
+}
+
+// Promotes the user through every stage whose rule is met (usually none or one). Called wherever
+// progress the rules read is recorded: stage assessments, chapters and gates.
+export async function promoteStage(userId: string): Promise<NextStageResponse> {
+  const user = await storage.getUser(userId);
+  if (!user) throw new Error('User not found');
+
+  const facts = await loadStageFacts(userId);
+  const startingStage: DevelopmentStage = user.currentStage || 'r1';
+  let currentStage = startingStage;
+
+  for (let next = nextStageAfter(currentStage); next && evaluateRule(next, facts).eligible; next = nextStageAfter(currentStage)) {
+    await storage.recordStageChange({ userId, fromStage: currentStage, toStage: next });
+    currentStage = next;
+  }
+  if (currentStage !== startingStage) {
+    await storage.upsertUser({ currentStage }, userId);
+  }
+
+  return describeProgression(currentStage, startingStage, facts);
+}
+
+export type StageAssessmentResult =
+  | StageAssessmentResponse
+  | { error: 'no_assessment' | 'stage_locked' }
+  | { error: 'invalid_submission'; issues: string[] };
+
+async function scoreAndComplete(assessment: Assessment, definition: StageAssessmentDefinition): Promise<StageAssessmentResult> {
+  const responses = (assessment.responses ?? {}) as Record<string, string>;
+  const issues = validateStageResponses(definition, responses);
+  if (issues.length > 0) return { error: 'invalid_submission', issues };
+
+  const results = scoreStageAssessment(definition, responses);
+  await storage.completeAssessment(assessment.id, results, definition.version);
+
+  return { ...results, assessmentId: assessment.id, progression: await promoteStage(assessment.userId) };
+}
+
+// Only the current stage's assessment and earlier ones (as retakes) can be taken
+async function resolveStageAssessment(userId: string, stage: DevelopmentStage): Promise<StageAssessmentDefinition | { error: 'no_assessment' | 'stage_locked' }> {
+  const definition = getStageAssessment(stage);
+  if (!definition) return { error: 'no_assessment' };
+
+  const user = await storage.getUser(userId);
+  const currentStage = user?.currentStage || 'r1';
+  if (currentStage !== 'hidden_track' && STAGE_ORDER.indexOf(stage) > STAGE_ORDER.indexOf(currentStage)) {
+    return { error: 'stage_locked' };
+  }
+  return definition;
+}
+
+export async function submitStageAssessment(userId: string, stage: DevelopmentStage, responses: Record<string, string>): Promise<StageAssessmentResult> {
+  const definition = await resolveStageAssessment(userId, stage);
+  if ('error' in definition) return definition;
+
+  const issues = validateStageResponses(definition, responses);
+  if (issues.length > 0) return { error: 'invalid_submission', issues };
+
+  const assessment = await storage.createAssessment({ userId, stage, kind: 'stage', responses });
+  return scoreAndComplete(assessment, definition);
+}
+
+// For assessments created through POST /api/assessments: the stored responses are scored here,
+// whatever results the client sends
+export async function completeStageAssessment(assessment: Assessment): Promise<StageAssessmentResult> {
+  const definition = await resolveStageAssessment(assessment.userId, assessment.stage);
+  if ('error' in definition) return definition;
+  return scoreAndComplete(assessment, definition);
+}
@@ -1,6 +1,8 @@
 import {
   users,
   organizations,
+  organizationMembers,
+  organizationInvitations,
   teams,
   teamMembers,
   assessments,
@@ -9,10 +11,21 @@ import {
   sacredMatrix,
   userProgress,
   gateProgress,
+  gateAttempts,
+  xpLedger,
+  stageChanges,
+  feedbackInvitations,
+  feedbackResponses,
+  userBadges,
   type User,
   type UpsertUser,
+  type BillingStatus,
   type Organization,
   type InsertOrganization,
+  type OrganizationMember,
+  type OrganizationRole,
+  type OrganizationInvitation,
+  type InsertOrganizationInvitation,
   type Team,
   type InsertTeam,
   type TeamMember,
@@ -21,6 +34,7 @@ import {
   type DailyPractice,
   type InsertDailyPractice,
   type ProgressMetric,
+  type InsertProgressMetric,
   type SacredMatrixEntry,
   type InsertSacredMatrixEntry,
   type UserProgress,
@@ -28,6 +42,17 @@ import {
   type InsertUserProgress,
   type GateProgress,
   type InsertGateProgress,
+  type GateState,
+  type GateAttempt,
+  type InsertGateAttempt,
+  type XpLedgerEntry,
+  type InsertXpLedgerEntry,
+  type StageChange,
+  type InsertStageChange,
+  type FeedbackInvitation,
+  type FeedbackResponse,
+  type UserBadge,
+  type InsertUserBadge,
   type GameProgressResponse,
 } from "@shared/schema";
 import { 
@@ -39,10 +64,178 @@ import {
   type UserGeneration, 
   type NewUserGeneration, 
   type ChapterAssessment, 
-  type NewChapterAssessment 
+  type NewChapterAssessment,
+  chatConversations,
+  chatMessages,
+  type ChatConversation,
+  type ChatMessage,
+  type InsertChatConversation,
+  type InsertChatMessage,
+  aiUsage,
+  type AiUsage,
+  type InsertAiUsage,
+  aiQuotaCounters,
+  type AiQuotaCounter,
+  stripeEvents,
+  organizationSubscriptions,
+  organizationSeats,
+  type OrganizationSubscription,
+  type InsertOrganizationSubscription,
+  type OrganizationSeat,
+  type InsertOrganizationSeat,
+  type StripeEvent,
+  type InsertStripeEvent,
+  type StripeEventStatus,
+  invoices,
+  type Invoice,
+  type InsertInvoice,
+  promoCampaigns,
+  promoRedemptions,
+  type PromoCampaign,
+  type InsertPromoCampaign,
+  type PromoRedemption,
+  type InsertPromoRedemption,
+  dataMigrations,
+  type DataMigration,
 } from '@shared/schema';
-import { db } from "./db";
-import { eq, and, desc, gte, sql, asc } from "drizzle-orm";
+import { getEntitlements, canAccessChapter, higherTier, type SubscriptionTierName, type GateType } from "@shared/entitlements";
+import { organizationPlanGrantsSeats } from "@shared/billing";
+import { randomUUID } from "crypto";
+import { db, useMemoryStorage } from "./db";
+import { eq, and, or, desc, gte, lt, lte, sql, asc, isNull, isNotNull, inArray, like } from "drizzle-orm";
+
+// Demo accounts seeded on startup for the demo login page
+const DEMO_ACCOUNTS = [
+  {
+    username: 'pioneer_demo',
+    password: 'demo123', // In production, this would be hashed
+    firstName: 'David',
+    lastName: 'Pioneer',
+    email: 'pioneer@demo.fractalleader.com',
+    hebrewName: 'דוד',
+    generation: 'millennial' as const,
+    archetype: 'pioneer' as const,
+    currentStage: 'r2' as const,
+    subscriptionTier: 'pioneer' as const,
+    authType: 'local',
+    isDemo: true,
+    profileImageUrl: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=150'
+  },
+  {
+    username: 'organizer_demo',
+    password: 'demo123',
+    firstName: 'Sarah',
+    lastName: 'Organizer',
+    email: 'organizer@demo.fractalleader.com',
+    hebrewName: 'שרה',
+    generation: 'gen_x' as const,
+    archetype: 'organizer' as const,
+    currentStage: 'r3' as const,
+    subscriptionTier: 'visionary' as const,
+    authType: 'local',
+    isDemo: true,
+    profileImageUrl: 'https://images.unsplash.com/photo-1494790108755-2616b612b130?w=150'
+  },
+  {
+    username: 'builder_demo',
+    password: 'demo123',
+    firstName: 'Michael',
+    lastName: 'Builder',
+    email: 'builder@demo.fractalleader.com',
+    hebrewName: 'מיכאל',
+    generation: 'gen_z' as const,
+    archetype: 'builder' as const,
+    currentStage: 'r1' as const,
+    subscriptionTier: 'seeker' as const,
+    authType: 'local',
+    isDemo: true,
+    profileImageUrl: 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=150'
+  },
+  {
+    username: 'guardian_demo',
+    password: 'demo123',
+    firstName: 'Ruth',
+    lastName: 'Guardian',
+    email: 'guardian@demo.fractalleader.com',
+    hebrewName: 'רות',
+    generation: 'boomer' as const,
+    archetype: 'guardian' as const,
+    currentStage: 'r4' as const,
+    subscriptionTier: 'pioneer' as const,
+    authType: 'local',
+    isDemo: true,
+    profileImageUrl: 'https://images.unsplash.com/photo-1438761681033-6461ffad8d80?w=150'
+  }
+];
+
+function determineGeneration(birthYear: number): string {
+  if (birthYear >= 1997) return 'gen-z';
+  if (birthYear >= 1981) return 'millennial';
+  if (birthYear >= 1965) return 'gen-x';
+  if (birthYear >= 1946) return 'boomer';
+  return 'silent';
+}
+
+function bookForChapter(chapterNumber: number): 1 | 2 | 3 | 4 | 5 {
+  if (chapterNumber >= 21) return 5;
+  if (chapterNumber >= 16) return 4;
+  if (chapterNumber >= 11) return 3;
+  if (chapterNumber >= 6) return 2;
+  return 1;
+}
+
+// Simplified tribal alignment calculation based on archetype consistency
+function calculateTribalAlignment(user: User, assessments: Assessment[]): number {
+  const completedAssessments = assessments.filter(a => a.completedAt);
+  if (completedAssessments.length === 0) return 0;
+  
+  // Mock calculation - in real implementation, this would analyze response patterns
+  return Math.floor(Math.random() * 20) + 80; // 80-100% range
+}
+
+// Helper for finding next milestone
+function findNextMilestone(completedChapters: number[]): { chapterNumber: number; isGate: boolean; title: string } | undefined {
+  const milestones = [5, 10, 15, 20, 25, 26, 27];
+  const gates = [1, 25, 26, 27];
+  
+  for (const milestone of milestones) {
+    if (!completedChapters.includes(milestone)) {
+      return {
+        chapterNumber: milestone,
+        isGate: gates.includes(milestone),
+        title: gates.includes(milestone) ? `Gate ${milestone}` : `Chapter ${milestone} Milestone`,
+      };
+    }
+  }
+  
+  return undefined;
+}
+
+export interface BookProgress {
+  book1: { completed: number; total: number; unlocked: boolean };
+  book2: { completed: number; total: number; unlocked: boolean };
+  book3: { completed: number; total: number; unlocked: boolean };
+  book4: { completed: number; total: number; unlocked: boolean };
+  book5: { completed: number; total: number; unlocked: boolean };
+}
+
+function summarizeBookProgress(progress: ChapterProgress[]): BookProgress {
+  const completed = progress.filter(p => p.completed).map(p => p.chapterNumber);
+  
+  const book1Completed = completed.filter(c => c >= 1 && c <= 5).length;
+  const book2Completed = completed.filter(c => c >= 6 && c <= 10).length;
+  const book3Completed = completed.filter(c => c >= 11 && c <= 15).length;
+  const book4Completed = completed.filter(c => c >= 16 && c <= 20).length;
+  const book5Completed = completed.filter(c => c >= 21 && c <= 27).length;
+  
+  return {
+    book1: { completed: book1Completed, total: 5, unlocked: true },
+    book2: { completed: book2Completed, total: 5, unlocked: book1Completed >= 5 },
+    book3: { completed: book3Completed, total: 5, unlocked: book2Completed >= 5 },
+    book4: { completed: book4Completed, total: 5, unlocked: book3Completed >= 5 },
+    book5: { completed: book5Completed, total: 7, unlocked: book4Completed >= 5 },
+  };
+}
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
@@ -52,6 +245,9 @@ export interface IStorage {
   createUser(user: UpsertUser): Promise<User>;
   upsertUser(user: UpsertUser, userId?: string): Promise<User>;
   updateUserStripeInfo(userId: string, customerId: string, subscriptionId: string): Promise<User>;
+  getUserByStripeCustomerId(customerId: string): Promise<User | undefined>;
+  getUsersByBillingStatus(statuses: BillingStatus[]): Promise<User[]>;
+  getUsersWithOrganization(): Promise<User[]>; // oldest account first
   
   // Demo account initialization
   initializeDemoAccounts(): Promise<void>;
@@ -60,29 +256,68 @@ export interface IStorage {
   createOrganization(org: InsertOrganization): Promise<Organization>;
   getOrganization(id: string): Promise<Organization | undefined>;
   getUserOrganization(userId: string): Promise<Organization | undefined>;
+  updateOrganization(id: string, updates: Partial<InsertOrganization>): Promise<Organization>;
+
+  // Organization membership operations
+  // Existing members keep their role; changing it goes through updateOrganizationMemberRole
+  addOrganizationMember(orgId: string, userId: string, role?: OrganizationRole): Promise<OrganizationMember>;
+  getOrganizationMember(orgId: string, userId: string): Promise<OrganizationMember | undefined>;
+  getOrganizationMembers(orgId: string): Promise<(OrganizationMember & { user: User })[]>;
+  updateOrganizationMemberRole(orgId: string, userId: string, role: OrganizationRole): Promise<OrganizationMember>;
+
+  // Organization plan and seat operations
+  getOrganizationSubscription(orgId: string): Promise<OrganizationSubscription | undefined>;
+  getOrganizationSubscriptionByStripeId(stripeSubscriptionId: string): Promise<OrganizationSubscription | undefined>;
+  saveOrganizationSubscription(subscription: InsertOrganizationSubscription): Promise<OrganizationSubscription>;
+  updateOrganizationSubscription(orgId: string, updates: Partial<InsertOrganizationSubscription>): Promise<OrganizationSubscription>;
+  getOrganizationSeats(orgId: string): Promise<(OrganizationSeat & { user: User })[]>;
+  getUserOrganizationSeat(userId: string): Promise<OrganizationSeat | undefined>;
+  assignOrganizationSeat(seat: InsertOrganizationSeat): Promise<OrganizationSeat>;
+  revokeOrganizationSeat(orgId: string, userId: string): Promise<boolean>;
+  getEffectiveSubscriptionTier(userId: string): Promise<SubscriptionTierName>; // personal tier or seat tier, whichever is higher
+
+  // Organization invitation operations
+  createInvitation(invitation: InsertOrganizationInvitation): Promise<OrganizationInvitation>;
+  getInvitation(id: string): Promise<OrganizationInvitation | undefined>;
+  getInvitationByToken(token: string): Promise<OrganizationInvitation | undefined>;
+  getOrganizationInvitations(orgId: string): Promise<OrganizationInvitation[]>;
+  updateInvitationStatus(id: string, status: OrganizationInvitation['status'], respondedBy?: string): Promise<OrganizationInvitation>;
   
   // Team operations
   createTeam(team: InsertTeam): Promise<Team>;
   getTeam(id: string): Promise<Team | undefined>;
   getUserTeams(userId: string): Promise<Team[]>;
-  getOrganizationTeams(orgId: string): Promise<Team[]>;
+  getOrganizationTeams(orgId: string, includeArchived?: boolean): Promise<Team[]>;
+  updateTeam(id: string, updates: Partial<InsertTeam>): Promise<Team>;
+  archiveTeam(id: string): Promise<Team>;
+  restoreTeam(id: string): Promise<Team>;
   addTeamMember(teamId: string, userId: string, role?: string): Promise<TeamMember>;
+  getTeamMember(teamId: string, userId: string): Promise<TeamMember | undefined>;
   getTeamMembers(teamId: string): Promise<(TeamMember & { user: User })[]>;
+  updateTeamMemberRole(teamId: string, userId: string, role: string): Promise<TeamMember>;
+  // Promotes the new leader and demotes the old one to member together with teams.leaderId
+  transferTeamLeadership(teamId: string, newLeaderId: string): Promise<Team>;
+  removeTeamMember(teamId: string, userId: string): Promise<void>;
   
   // Assessment operations
   createAssessment(assessment: InsertAssessment): Promise<Assessment>;
+  getAssessment(id: string): Promise<Assessment | undefined>;
   getUserAssessments(userId: string): Promise<Assessment[]>;
   getLatestAssessment(userId: string, stage: string): Promise<Assessment | undefined>;
-  completeAssessment(id: string, results: any): Promise<Assessment>;
+  completeAssessment(id: string, results: any, bankVersion?: number): Promise<Assessment>;
+  recordStageChange(change: InsertStageChange): Promise<StageChange>;
+  getStageChanges(userId: string): Promise<StageChange[]>; // oldest first
   
   // Daily practice operations
   createDailyPractice(practice: InsertDailyPractice): Promise<DailyPractice>;
+  getDailyPractice(id: string): Promise<DailyPractice | undefined>;
   getUserDailyPractices(userId: string, startDate: Date, endDate: Date): Promise<DailyPractice[]>;
   completeDailyPractice(id: string, duration?: number, notes?: string): Promise<DailyPractice>;
   
   // Progress metrics operations
   getUserProgressMetrics(userId: string, metricType?: string): Promise<ProgressMetric[]>;
   getTeamProgressMetrics(teamId: string, metricType?: string): Promise<ProgressMetric[]>;
+  createProgressMetrics(metrics: InsertProgressMetric[]): Promise<ProgressMetric[]>;
   calculateUserProgress(userId: string): Promise<any>;
   calculateTeamEffectiveness(teamId: string): Promise<any>;
   
@@ -98,23 +333,98 @@ export interface IStorage {
   completeChapter(userId: string, chapterNumber: number): Promise<UserProgress>;
   unlockDimension(userId: string, dimension: string): Promise<UserProgress>;
   masterSacredShape(userId: string, shape: string): Promise<UserProgress>;
-  
+
+  // Generation operations
+  setUserGeneration(userId: string, birthYear: number): Promise<UserGeneration>;
+  getUserGeneration(userId: string): Promise<UserGeneration | null>;
+
+  // Chapter progression operations
+  getUserChapterProgress(userId: string): Promise<ChapterProgress[]>;
+  unlockChapter(userId: string, chapterNumber: number): Promise<ChapterProgress>;
+  completeChapterProgress(userId: string, chapterNumber: number, assessmentScore?: number, practiceMinutes?: number): Promise<ChapterProgress>;
+  createChapterAssessment(userId: string, chapterNumber: number, responses: any, score: number, passed: boolean): Promise<ChapterAssessment>;
+  getChapterAssessments(userId: string, chapterNumber?: number): Promise<ChapterAssessment[]>;
+  getUserBookProgress(userId: string): Promise<BookProgress>;
+
+  // Chat conversation operations
+  createChatConversation(conversation: InsertChatConversation): Promise<ChatConversation>;
+  getChatConversation(id: string): Promise<ChatConversation | undefined>;
+  getUserChatConversations(userId: string, chapterNumber?: number): Promise<ChatConversation[]>;
+  renameChatConversation(id: string, title: string): Promise<ChatConversation>;
+  deleteChatConversation(id: string): Promise<void>;
+  addChatMessages(conversationId: string, messages: Omit<InsertChatMessage, 'conversationId'>[]): Promise<ChatMessage[]>;
+  getChatMessages(conversationId: string): Promise<ChatMessage[]>;
+
+  // AI usage metering operations
+  recordAiUsage(usage: InsertAiUsage): Promise<AiUsage>;
+  getUserAiUsage(userId: string, sinceDay: string): Promise<AiUsage[]>;
+  getOrganizationAiUsage(orgId: string, sinceDay: string): Promise<AiUsage[]>;
+  // Takes one request from the day's quota in a single statement; undefined when the quota is used up
+  reserveAiRequest(userId: string, day: string, limits: { dailyRequests: number; dailyTokens: number }): Promise<AiQuotaCounter | undefined>;
+  // Adds a reserved request's tokens, or hands the request back when it failed
+  settleAiRequest(userId: string, day: string, tokens: number, release: boolean): Promise<void>;
+  getAiQuotaCounter(userId: string, day: string): Promise<AiQuotaCounter | undefined>;
+
+  // Stripe webhook ledger operations
+  recordStripeEvent(event: InsertStripeEvent): Promise<StripeEvent | undefined>; // undefined when the id was already recorded
+  getStripeEvent(id: string): Promise<StripeEvent | undefined>;
+  claimStripeEvent(id: string, staleBefore: Date): Promise<StripeEvent | undefined>;
+  completeStripeEvent(id: string, status: 'processed' | 'failed', error?: string): Promise<StripeEvent>;
+  getStripeEvents(status?: StripeEventStatus, limit?: number): Promise<StripeEvent[]>;
+
+  // Invoice cache operations
+  saveInvoice(invoice: InsertInvoice): Promise<Invoice | undefined>; // undefined when a newer event already updated the row
+  getUserInvoices(userId: string, limit?: number): Promise<Invoice[]>;
+
+  // Promo campaign operations
+  createPromoCampaign(campaign: InsertPromoCampaign): Promise<PromoCampaign>;
+  getPromoCampaigns(): Promise<PromoCampaign[]>;
+  getPromoCampaign(id: string): Promise<PromoCampaign | undefined>;
+  getPromoCampaignByCode(code: string): Promise<PromoCampaign | undefined>;
+  updatePromoCampaign(id: string, updates: Partial<InsertPromoCampaign>): Promise<PromoCampaign>;
+  getUserPromoRedemptions(userId: string): Promise<PromoRedemption[]>;
+  redeemPromoCampaign(redemption: InsertPromoRedemption): Promise<PromoRedemption | undefined>; // undefined when the limit is reached or the user already redeemed it
+  releasePromoRedemption(redemption: PromoRedemption): Promise<void>;
+
   // Game progression operations
   getUserGameProgress(userId: string): Promise<GameProgressResponse>;
   updateChapterProgress(userId: string, chapterId: string): Promise<UserProgressEntry>;
-  completeChapterWithXP(userId: string, chapterNumber: number): Promise<{ user: User; progress: UserProgressEntry; xpGained: number; levelUp: boolean }>;
+  // Opens chapters 1..startingChapter and makes the starting chapter current
+  seedUserProgress(userId: string, startingChapter: number): Promise<UserProgressEntry>;
   getAvailableChapters(userId: string): Promise<SacredMatrixEntry[]>;
   unlockNextChapter(userId: string): Promise<number[]>;
   
   // Gate progression operations
   getGateStatus(userId: string): Promise<GateProgress[]>;
-  completeGate(userId: string, gateType: string, chapterNumber: number): Promise<GateProgress>;
-  initializeUserGates(userId: string): Promise<void>;
+  getUserGate(userId: string, gateType: GateType): Promise<GateProgress | undefined>;
+  ensureUserGate(userId: string, gateType: GateType, chapterNumber: number): Promise<GateProgress>;
+  transitionGate(id: string, from: GateState, changes: Partial<InsertGateProgress> & { state: GateState }): Promise<GateProgress | undefined>;
+  getGatePracticeRecords(createdBefore: Date): Promise<DailyPractice[]>;
+  createGateAttempt(attempt: InsertGateAttempt): Promise<GateAttempt>;
+  getGateAttempts(filters: { userId?: string; gateType?: GateType }, limit?: number): Promise<GateAttempt[]>;
   
-  // XP and Level operations
-  calculateLevel(experiencePoints: number): number;
-  getXPForNextLevel(currentLevel: number): number;
-  awardExperience(userId: string, xpAmount: number): Promise<{ user: User; levelUp: boolean }>;
+  // XP ledger operations; levels are worked out by the XP service from its rules
+  recordXpAward(entry: InsertXpLedgerEntry): Promise<XpLedgerEntry | undefined>; // undefined when this award was already recorded
+  getXpLedger(userId: string, limit?: number): Promise<XpLedgerEntry[]>;
+  getXpLedgerTotal(userId: string): Promise<{ total: number; entries: number }>;
+  addExperience(userId: string, amount: number): Promise<User | undefined>;
+  setExperience(userId: string, experiencePoints: number, level: number): Promise<User | undefined>;
+
+  // Badge operations; the achievements service decides what is earned
+  getUserBadges(userId: string): Promise<UserBadge[]>;
+  awardBadge(badge: InsertUserBadge): Promise<UserBadge | undefined>; // undefined when already awarded
+
+  // 360 feedback operations
+  createFeedbackInvitations(assessmentId: string, respondentIds: string[]): Promise<FeedbackInvitation[]>;
+  getFeedbackInvitations(assessmentId: string): Promise<FeedbackInvitation[]>;
+  getPendingFeedbackInvitations(respondentId: string): Promise<FeedbackInvitation[]>;
+  // Marks the invitation answered and stores the answers apart from it; undefined when already answered
+  recordFeedbackResponse(invitationId: string, responses: Record<string, string>): Promise<FeedbackResponse | undefined>;
+  getFeedbackResponses(assessmentId: string): Promise<FeedbackResponse[]>;
+
+  // Data migration bookkeeping; the migrations themselves live in server/data-migrations.ts
+  getDataMigration(id: string): Promise<DataMigration | undefined>;
+  recordDataMigration(id: string, affectedRows: number): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -165,6 +475,20 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.stripeCustomerId, customerId));
+    return user;
+  }
+
+  async getUsersByBillingStatus(statuses: BillingStatus[]): Promise<User[]> {
+    if (statuses.length === 0) return [];
+    return await db.select().from(users).where(inArray(users.billingStatus, statuses));
+  }
+
+  async getUsersWithOrganization(): Promise<User[]> {
+    return await db.select().from(users).where(isNotNull(users.organizationId)).orderBy(asc(users.createdAt));
+  }
+
   async getUserByUsername(username: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.username, username));
     return user;
@@ -192,70 +516,8 @@ export class DatabaseStorage implements IStorage {
         return;
       }
 
-      const demoAccounts = [
-        {
-          username: 'pioneer_demo',
-          password: 'demo123', // In production, this would be hashed
-          firstName: 'David',
-          lastName: 'Pioneer',
-          email: 'pioneer@demo.fractalleader.com',
-          hebrewName: 'דוד',
-          generation: 'millennial' as const,
-          archetype: 'pioneer' as const,
-          currentStage: 'r2' as const,
-          subscriptionTier: 'pioneer' as const,
-          authType: 'local',
-          isDemo: true,
-          profileImageUrl: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=150'
-        },
-        {
-          username: 'organizer_demo',
-          password: 'demo123',
-          firstName: 'Sarah',
-          lastName: 'Organizer',
-          email: 'organizer@demo.fractalleader.com',
-          hebrewName: 'שרה',
-          generation: 'gen_x' as const,
-          archetype: 'organizer' as const,
-          currentStage: 'r3' as const,
-          subscriptionTier: 'visionary' as const,
-          authType: 'local',
-          isDemo: true,
-          profileImageUrl: 'https://images.unsplash.com/photo-1494790108755-2616b612b130?w=150'
-        },
-        {
-          username: 'builder_demo',
-          password: 'demo123',
-          firstName: 'Michael',
-          lastName: 'Builder',
-          email: 'builder@demo.fractalleader.com',
-          hebrewName: 'מיכאל',
-          generation: 'gen_z' as const,
-          archetype: 'builder' as const,
-          currentStage: 'r1' as const,
-          subscriptionTier: 'seeker' as const,
-          authType: 'local',
-          isDemo: true,
-          profileImageUrl: 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=150'
-        },
-        {
-          username: 'guardian_demo',
-          password: 'demo123',
-          firstName: 'Ruth',
-          lastName: 'Guardian',
-          email: 'guardian@demo.fractalleader.com',
-          hebrewName: 'רות',
-          generation: 'boomer' as const,
-          archetype: 'guardian' as const,
-          currentStage: 'r4' as const,
-          subscriptionTier: 'pioneer' as const,
-          authType: 'local',
-          isDemo: true,
-          profileImageUrl: 'https://images.unsplash.com/photo-1438761681033-6461ffad8d80?w=150'
-        }
-      ];
-
-      for (const account of demoAccounts) {
+
+      for (const account of DEMO_ACCOUNTS) {
         await this.createUser(account);
         console.log(`Created demo account: ${account.username} (${account.archetype})`);
       }
@@ -283,6 +545,177 @@ export class DatabaseStorage implements IStorage {
     return this.getOrganization(user.organizationId);
   }
 
+  async updateOrganization(id: string, updates: Partial<InsertOrganization>): Promise<Organization> {
+    const [organization] = await db
+      .update(organizations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(organizations.id, id))
+      .returning();
+    return organization;
+  }
+
+  // Organization membership operations
+  async addOrganizationMember(orgId: string, userId: string, role: OrganizationRole = 'member'): Promise<OrganizationMember> {
+    const [member] = await db
+      .insert(organizationMembers)
+      .values({ organizationId: orgId, userId, role })
+      .onConflictDoNothing({ target: [organizationMembers.organizationId, organizationMembers.userId] })
+      .returning();
+    return member ?? (await this.getOrganizationMember(orgId, userId))!;
+  }
+
+  async getOrganizationMember(orgId: string, userId: string): Promise<OrganizationMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(organizationMembers)
+      .where(and(eq(organizationMembers.organizationId, orgId), eq(organizationMembers.userId, userId)));
+    return member;
+  }
+
+  async getOrganizationMembers(orgId: string): Promise<(OrganizationMember & { user: User })[]> {
+    const members = await db
+      .select()
+      .from(organizationMembers)
+      .innerJoin(users, eq(organizationMembers.userId, users.id))
+      .where(eq(organizationMembers.organizationId, orgId))
+      .orderBy(asc(organizationMembers.joinedAt));
+    
+    return members.map(row => ({ ...row.organization_members, user: row.users }));
+  }
+
+  async updateOrganizationMemberRole(orgId: string, userId: string, role: OrganizationRole): Promise<OrganizationMember> {
+    const [member] = await db
+      .update(organizationMembers)
+      .set({ role, updatedAt: new Date() })
+      .where(and(eq(organizationMembers.organizationId, orgId), eq(organizationMembers.userId, userId)))
+      .returning();
+    return member;
+  }
+
+  // Organization plan and seat operations
+  async getOrganizationSubscription(orgId: string): Promise<OrganizationSubscription | undefined> {
+    const [subscription] = await db
+      .select()
+      .from(organizationSubscriptions)
+      .where(eq(organizationSubscriptions.organizationId, orgId));
+    return subscription;
+  }
+
+  async getOrganizationSubscriptionByStripeId(stripeSubscriptionId: string): Promise<OrganizationSubscription | undefined> {
+    const [subscription] = await db
+      .select()
+      .from(organizationSubscriptions)
+      .where(eq(organizationSubscriptions.stripeSubscriptionId, stripeSubscriptionId));
+    return subscription;
+  }
+
+  async saveOrganizationSubscription(subscription: InsertOrganizationSubscription): Promise<OrganizationSubscription> {
+    const [saved] = await db
+      .insert(organizationSubscriptions)
+      .values(subscription)
+      .onConflictDoUpdate({
+        target: organizationSubscriptions.organizationId,
+        set: { ...subscription, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async updateOrganizationSubscription(orgId: string, updates: Partial<InsertOrganizationSubscription>): Promise<OrganizationSubscription> {
+    const [subscription] = await db
+      .update(organizationSubscriptions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(organizationSubscriptions.organizationId, orgId))
+      .returning();
+    return subscription;
+  }
+
+  async getOrganizationSeats(orgId: string): Promise<(OrganizationSeat & { user: User })[]> {
+    const seats = await db
+      .select()
+      .from(organizationSeats)
+      .innerJoin(users, eq(organizationSeats.userId, users.id))
+      .where(eq(organizationSeats.organizationId, orgId))
+      .orderBy(asc(organizationSeats.assignedAt));
+
+    return seats.map(row => ({ ...row.organization_seats, user: row.users }));
+  }
+
+  async getUserOrganizationSeat(userId: string): Promise<OrganizationSeat | undefined> {
+    const [seat] = await db.select().from(organizationSeats).where(eq(organizationSeats.userId, userId));
+    return seat;
+  }
+
+  async assignOrganizationSeat(seat: InsertOrganizationSeat): Promise<OrganizationSeat> {
+    const [assigned] = await db
+      .insert(organizationSeats)
+      .values(seat)
+      .onConflictDoNothing({ target: [organizationSeats.organizationId, organizationSeats.userId] })
+      .returning();
+    if (assigned) return assigned;
+
+    const [existing] = await db
+      .select()
+      .from(organizationSeats)
+      .where(and(eq(organizationSeats.organizationId, seat.organizationId), eq(organizationSeats.userId, seat.userId)));
+    return existing;
+  }
+
+  async revokeOrganizationSeat(orgId: string, userId: string): Promise<boolean> {
+    const revoked = await db
+      .delete(organizationSeats)
+      .where(and(eq(organizationSeats.organizationId, orgId), eq(organizationSeats.userId, userId)))
+      .returning();
+    return revoked.length > 0;
+  }
+
+  async getEffectiveSubscriptionTier(userId: string): Promise<SubscriptionTierName> {
+    const [user, seat] = await Promise.all([this.getUser(userId), this.getUserOrganizationSeat(userId)]);
+    const plan = seat ? await this.getOrganizationSubscription(seat.organizationId) : undefined;
+    return higherTier(user?.subscriptionTier, organizationPlanGrantsSeats(plan?.status) ? plan?.tier : null);
+  }
+
+  // Organization invitation operations
+  async createInvitation(invitation: InsertOrganizationInvitation): Promise<OrganizationInvitation> {
+    const [newInvitation] = await db.insert(organizationInvitations).values(invitation).returning();
+    return newInvitation;
+  }
+
+  async getInvitation(id: string): Promise<OrganizationInvitation | undefined> {
+    const [invitation] = await db.select().from(organizationInvitations).where(eq(organizationInvitations.id, id));
+    return invitation;
+  }
+
+  async getInvitationByToken(token: string): Promise<OrganizationInvitation | undefined> {
+    const [invitation] = await db.select().from(organizationInvitations).where(eq(organizationInvitations.token, token));
+    return invitation;
+  }
+
+  async getOrganizationInvitations(orgId: string): Promise<OrganizationInvitation[]> {
+    return await db
+      .select()
+      .from(organizationInvitations)
+      .where(eq(organizationInvitations.organizationId, orgId))
+      .orderBy(desc(organizationInvitations.createdAt));
+  }
+
+  async updateInvitationStatus(
+    id: string,
+    status: OrganizationInvitation['status'],
+    respondedBy?: string
+  ): Promise<OrganizationInvitation> {
+    const [invitation] = await db
+      .update(organizationInvitations)
+      .set({
+        status,
+        respondedBy,
+        respondedAt: new Date(),
+      })
+      .where(eq(organizationInvitations.id, id))
+      .returning();
+    return invitation;
+  }
+
   // Team operations
   async createTeam(team: InsertTeam): Promise<Team> {
     const [newTeam] = await db.insert(teams).values(team).returning();
@@ -299,13 +732,45 @@ export class DatabaseStorage implements IStorage {
       .select({ team: teams })
       .from(teamMembers)
       .innerJoin(teams, eq(teamMembers.teamId, teams.id))
-      .where(eq(teamMembers.userId, userId));
+      .where(and(eq(teamMembers.userId, userId), isNull(teams.archivedAt)));
     
     return userTeams.map(row => row.team);
   }
 
-  async getOrganizationTeams(orgId: string): Promise<Team[]> {
-    return await db.select().from(teams).where(eq(teams.organizationId, orgId));
+  async getOrganizationTeams(orgId: string, includeArchived: boolean = false): Promise<Team[]> {
+    const conditions = [eq(teams.organizationId, orgId)];
+    if (!includeArchived) {
+      conditions.push(isNull(teams.archivedAt));
+    }
+    
+    return await db.select().from(teams).where(and(...conditions));
+  }
+
+  async updateTeam(id: string, updates: Partial<InsertTeam>): Promise<Team> {
+    const [team] = await db
+      .update(teams)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(teams.id, id))
+      .returning();
+    return team;
+  }
+
+  async archiveTeam(id: string): Promise<Team> {
+    const [team] = await db
+      .update(teams)
+      .set({ archivedAt: new Date(), updatedAt: new Date() })
+      .where(eq(teams.id, id))
+      .returning();
+    return team;
+  }
+
+  async restoreTeam(id: string): Promise<Team> {
+    const [team] = await db
+      .update(teams)
+      .set({ archivedAt: null, updatedAt: new Date() })
+      .where(eq(teams.id, id))
+      .returning();
+    return team;
   }
 
   async addTeamMember(teamId: string, userId: string, role: string = 'member'): Promise<TeamMember> {
@@ -317,6 +782,14 @@ export class DatabaseStorage implements IStorage {
     return member;
   }
 
+  async getTeamMember(teamId: string, userId: string): Promise<TeamMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(teamMembers)
+      .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, userId)));
+    return member;
+  }
+
   async getTeamMembers(teamId: string): Promise<(TeamMember & { user: User })[]> {
     const members = await db
       .select()
@@ -327,12 +800,52 @@ export class DatabaseStorage implements IStorage {
     return members.map(row => ({ ...row.team_members, user: row.users }));
   }
 
+  async updateTeamMemberRole(teamId: string, userId: string, role: string): Promise<TeamMember> {
+    const [member] = await db
+      .update(teamMembers)
+      .set({ role })
+      .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, userId)))
+      .returning();
+    return member;
+  }
+
+  async transferTeamLeadership(teamId: string, newLeaderId: string): Promise<Team> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(teams).where(eq(teams.id, teamId));
+      await tx
+        .update(teamMembers)
+        .set({ role: 'member' })
+        .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, current.leaderId)));
+      await tx
+        .update(teamMembers)
+        .set({ role: 'leader' })
+        .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, newLeaderId)));
+      const [team] = await tx
+        .update(teams)
+        .set({ leaderId: newLeaderId, updatedAt: new Date() })
+        .where(eq(teams.id, teamId))
+        .returning();
+      return team;
+    });
+  }
+
+  async removeTeamMember(teamId: string, userId: string): Promise<void> {
+    await db
+      .delete(teamMembers)
+      .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, userId)));
+  }
+
   // Assessment operations
   async createAssessment(assessment: InsertAssessment): Promise<Assessment> {
     const [newAssessment] = await db.insert(assessments).values(assessment).returning();
     return newAssessment;
   }
 
+  async getAssessment(id: string): Promise<Assessment | undefined> {
+    const [assessment] = await db.select().from(assessments).where(eq(assessments.id, id));
+    return assessment;
+  }
+
   async getUserAssessments(userId: string): Promise<Assessment[]> {
     return await db
       .select()
@@ -351,11 +864,12 @@ export class DatabaseStorage implements IStorage {
     return assessment;
   }
 
-  async completeAssessment(id: string, results: any): Promise<Assessment> {
+  async completeAssessment(id: string, results: any, bankVersion?: number): Promise<Assessment> {
     const [assessment] = await db
       .update(assessments)
       .set({
         results,
+        bankVersion,
         completedAt: new Date(),
       })
       .where(eq(assessments.id, id))
@@ -363,12 +877,30 @@ export class DatabaseStorage implements IStorage {
     return assessment;
   }
 
+  async recordStageChange(change: InsertStageChange): Promise<StageChange> {
+    const [recorded] = await db.insert(stageChanges).values(change).returning();
+    return recorded;
+  }
+
+  async getStageChanges(userId: string): Promise<StageChange[]> {
+    return await db
+      .select()
+      .from(stageChanges)
+      .where(eq(stageChanges.userId, userId))
+      .orderBy(asc(stageChanges.changedAt));
+  }
+
   // Daily practice operations
   async createDailyPractice(practice: InsertDailyPractice): Promise<DailyPractice> {
     const [newPractice] = await db.insert(dailyPractices).values(practice).returning();
     return newPractice;
   }
 
+  async getDailyPractice(id: string): Promise<DailyPractice | undefined> {
+    const [practice] = await db.select().from(dailyPractices).where(eq(dailyPractices.id, id));
+    return practice;
+  }
+
   async getUserDailyPractices(userId: string, startDate: Date, endDate: Date): Promise<DailyPractice[]> {
     return await db
       .select()
@@ -377,7 +909,7 @@ export class DatabaseStorage implements IStorage {
         and(
           eq(dailyPractices.userId, userId),
           gte(dailyPractices.date, startDate),
-          gte(dailyPractices.date, endDate)
+          lte(dailyPractices.date, endDate)
         )
       )
       .orderBy(desc(dailyPractices.date));
@@ -423,6 +955,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(progressMetrics.calculatedAt));
   }
 
+  async createProgressMetrics(metrics: InsertProgressMetric[]): Promise<ProgressMetric[]> {
+    if (metrics.length === 0) return [];
+    return await db.insert(progressMetrics).values(metrics).returning();
+  }
+
   async calculateUserProgress(userId: string): Promise<any> {
     const user = await this.getUser(userId);
     if (!user) return null;
@@ -434,9 +971,10 @@ export class DatabaseStorage implements IStorage {
       new Date()
     );
 
-    const completedStages = assessments
-      .filter(a => a.completedAt)
-      .map(a => a.stage);
+    // Stages whose assessment was passed; older rows without a result count as passed
+    const completedStages = Array.from(new Set(assessments
+      .filter(a => a.kind === 'stage' && a.completedAt && (a.results as any)?.passed !== false)
+      .map(a => a.stage)));
 
     const weeklyCompletion = practices.filter(p => p.completed).length / 7;
     
@@ -444,7 +982,7 @@ export class DatabaseStorage implements IStorage {
       currentStage: user.currentStage,
       completedStages,
       weeklyCompletion: Math.round(weeklyCompletion * 100),
-      tribalAlignment: this.calculateTribalAlignment(user, assessments),
+      tribalAlignment: calculateTribalAlignment(user, assessments),
     };
   }
 
@@ -452,7 +990,7 @@ export class DatabaseStorage implements IStorage {
     const members = await this.getTeamMembers(teamId);
     const team = await this.getTeam(teamId);
     
-    if (!team || members.length === 0) return null;
+    if (!team || team.archivedAt || members.length === 0) return null;
 
     // Calculate generational distribution
     const generationalMix = members.reduce((acc, member) => {
@@ -482,15 +1020,6 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  private calculateTribalAlignment(user: User, assessments: Assessment[]): number {
-    // Simplified tribal alignment calculation based on archetype consistency
-    const completedAssessments = assessments.filter(a => a.completedAt);
-    if (completedAssessments.length === 0) return 0;
-    
-    // Mock calculation - in real implementation, this would analyze response patterns
-    return Math.floor(Math.random() * 20) + 80; // 80-100% range
-  }
-
   // Biblical Matrix operations  
   async getBiblicalMatrix(): Promise<SacredMatrixEntry[]> {
     return await db.select().from(sacredMatrix).orderBy(sacredMatrix.chapterNumber);
@@ -624,15 +1153,8 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
-    // Determine current book based on chapter
-    let currentBook = 1;
-    if (chapterNumber >= 21) currentBook = 5;
-    else if (chapterNumber >= 16) currentBook = 4;
-    else if (chapterNumber >= 11) currentBook = 3;
-    else if (chapterNumber >= 6) currentBook = 2;
-
     return await this.updateUserProgress(userId, {
-      currentBook: currentBook as 1 | 2 | 3 | 4 | 5,
+      currentBook: bookForChapter(chapterNumber),
       completedChapters,
       sacredShapesMastered,
     });
@@ -672,7 +1194,7 @@ export class DatabaseStorage implements IStorage {
 
   // Generation detection and management
   async setUserGeneration(userId: string, birthYear: number): Promise<UserGeneration> {
-    const generation = this.determineGeneration(birthYear);
+    const generation = determineGeneration(birthYear);
     
     const [result] = await db.insert(userGeneration).values({
       userId,
@@ -695,14 +1217,6 @@ export class DatabaseStorage implements IStorage {
     return result || null;
   }
 
-  private determineGeneration(birthYear: number): string {
-    if (birthYear >= 1997) return 'gen-z';
-    if (birthYear >= 1981) return 'millennial';
-    if (birthYear >= 1965) return 'gen-x';
-    if (birthYear >= 1946) return 'boomer';
-    return 'silent';
-  }
-
   // Chapter progression management
   async getUserChapterProgress(userId: string): Promise<ChapterProgress[]> {
     return await db.select()
@@ -740,14 +1254,15 @@ export class DatabaseStorage implements IStorage {
     userId: string, 
     chapterNumber: number, 
     assessmentScore: number = 0,
-    practiceMinutes: number = 0
+    practiceMinutes?: number
   ): Promise<ChapterProgress> {
+    // Practice minutes are measured by the server at completion; other callers leave them as they are
     const [result] = await db.update(chapterProgress)
       .set({
         completed: true,
         completedAt: new Date(),
         assessmentScore,
-        practiceMinutes,
+        ...(practiceMinutes !== undefined && { practiceMinutes }),
         updatedAt: new Date(),
       })
       .where(and(
@@ -764,7 +1279,7 @@ export class DatabaseStorage implements IStorage {
         completed: true,
         completedAt: new Date(),
         assessmentScore,
-        practiceMinutes,
+        practiceMinutes: practiceMinutes ?? 0,
       }).returning();
       return newResult;
     }
@@ -805,155 +1320,403 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Book progression helpers
-  async getUserBookProgress(userId: string): Promise<{
-    book1: { completed: number; total: number; unlocked: boolean };
-    book2: { completed: number; total: number; unlocked: boolean };
-    book3: { completed: number; total: number; unlocked: boolean };
-    book4: { completed: number; total: number; unlocked: boolean };
-    book5: { completed: number; total: number; unlocked: boolean };
-  }> {
+  async getUserBookProgress(userId: string): Promise<BookProgress> {
     const progress = await this.getUserChapterProgress(userId);
-    const completed = progress.filter(p => p.completed).map(p => p.chapterNumber);
-    
-    const book1Completed = completed.filter(c => c >= 1 && c <= 5).length;
-    const book2Completed = completed.filter(c => c >= 6 && c <= 10).length;
-    const book3Completed = completed.filter(c => c >= 11 && c <= 15).length;
-    const book4Completed = completed.filter(c => c >= 16 && c <= 20).length;
-    const book5Completed = completed.filter(c => c >= 21 && c <= 27).length;
-    
-    return {
-      book1: { completed: book1Completed, total: 5, unlocked: true },
-      book2: { completed: book2Completed, total: 5, unlocked: book1Completed >= 5 },
-      book3: { completed: book3Completed, total: 5, unlocked: book2Completed >= 5 },
-      book4: { completed: book4Completed, total: 5, unlocked: book3Completed >= 5 },
-      book5: { completed: book5Completed, total: 7, unlocked: book4Completed >= 5 },
-    };
+    return summarizeBookProgress(progress);
   }
 
-  // Game progression operations
-  async getUserGameProgress(userId: string): Promise<GameProgressResponse> {
-    const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
+  // Chat conversation operations
+  async createChatConversation(conversation: InsertChatConversation): Promise<ChatConversation> {
+    const [newConversation] = await db.insert(chatConversations).values(conversation).returning();
+    return newConversation;
+  }
 
-    // Get the actual database entry instead of the interface
-    const [progressEntry] = await db
-      .select()
-      .from(userProgress)
-      .where(eq(userProgress.userId, userId));
+  async getChatConversation(id: string): Promise<ChatConversation | undefined> {
+    const [conversation] = await db.select().from(chatConversations).where(eq(chatConversations.id, id));
+    return conversation;
+  }
 
-    const gates = await this.getGateStatus(userId);
-    const availableChapters = await this.getAvailableChapters(userId);
+  async getUserChatConversations(userId: string, chapterNumber?: number): Promise<ChatConversation[]> {
+    const conditions = [eq(chatConversations.userId, userId)];
+    if (chapterNumber !== undefined) {
+      conditions.push(eq(chatConversations.chapterNumber, chapterNumber));
+    }
+    
+    return await db
+      .select()
+      .from(chatConversations)
+      .where(and(...conditions))
+      .orderBy(desc(chatConversations.updatedAt));
+  }
 
-    // Find next milestone
-    const completedChapters = progressEntry?.completedChapters as number[] || [];
-    const nextMilestone = this.findNextMilestone(completedChapters);
+  async renameChatConversation(id: string, title: string): Promise<ChatConversation> {
+    const [conversation] = await db
+      .update(chatConversations)
+      .set({ title, updatedAt: new Date() })
+      .where(eq(chatConversations.id, id))
+      .returning();
+    return conversation;
+  }
 
-    return {
-      user: {
-        id: user.id,
-        experiencePoints: user.experiencePoints || 0,
-        level: user.level || 1,
-        currentChapterId: user.currentChapterId || progressEntry?.currentChapterId || undefined,
-      },
-      progress: {
-        currentBook: progressEntry?.currentBook || 1,
-        currentChapterId: progressEntry?.currentChapterId || undefined,
-        completedChapters,
-        unlockedChapters: progressEntry?.unlockedChapters as number[] || [1],
-        totalChaptersCompleted: progressEntry?.totalChaptersCompleted || 0,
-      },
-      gates,
-      availableChapters,
-      nextMilestone,
-    };
+  async deleteChatConversation(id: string): Promise<void> {
+    await db.delete(chatMessages).where(eq(chatMessages.conversationId, id));
+    await db.delete(chatConversations).where(eq(chatConversations.id, id));
   }
 
-  async updateChapterProgress(userId: string, chapterId: string): Promise<UserProgressEntry> {
-    const [result] = await db
-      .update(userProgress)
-      .set({
-        currentChapterId: chapterId,
-        updatedAt: new Date(),
-      })
-      .where(eq(userProgress.userId, userId))
+  async addChatMessages(conversationId: string, messages: Omit<InsertChatMessage, 'conversationId'>[]): Promise<ChatMessage[]> {
+    if (messages.length === 0) return [];
+
+    // Stagger timestamps by a millisecond so a question always sorts before its answer
+    const now = Date.now();
+    const inserted = await db
+      .insert(chatMessages)
+      .values(messages.map((message, index) => ({
+        ...message,
+        conversationId,
+        createdAt: new Date(now + index),
+      })))
       .returning();
+    await db
+      .update(chatConversations)
+      .set({ updatedAt: new Date() })
+      .where(eq(chatConversations.id, conversationId));
+    return inserted;
+  }
 
-    if (!result) {
-      // Create if doesn't exist
-      const [newResult] = await db.insert(userProgress).values({
-        userId,
-        currentChapterId: chapterId,
-        currentBook: 1,
-        completedChapters: [],
-        unlockedChapters: [1],
-        unlockedDimensions: [],
-        sacredShapesMastered: [],
-        totalChaptersCompleted: 0,
-      }).returning();
-      return newResult;
-    }
+  async getChatMessages(conversationId: string): Promise<ChatMessage[]> {
+    return await db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.conversationId, conversationId))
+      .orderBy(asc(chatMessages.createdAt));
+  }
 
-    return result;
+  // AI usage metering operations
+  async recordAiUsage(usage: InsertAiUsage): Promise<AiUsage> {
+    const [row] = await db
+      .insert(aiUsage)
+      .values(usage)
+      .onConflictDoUpdate({
+        target: [aiUsage.userId, aiUsage.day, aiUsage.feature],
+        set: {
+          requests: sql`${aiUsage.requests} + ${usage.requests ?? 0}`,
+          inputTokens: sql`${aiUsage.inputTokens} + ${usage.inputTokens ?? 0}`,
+          outputTokens: sql`${aiUsage.outputTokens} + ${usage.outputTokens ?? 0}`,
+          organizationId: usage.organizationId ?? null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return row;
   }
 
-  async completeChapterWithXP(
-    userId: string, 
-    chapterNumber: number
-  ): Promise<{ user: User; progress: UserProgressEntry; xpGained: number; levelUp: boolean }> {
-    const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
+  async getUserAiUsage(userId: string, sinceDay: string): Promise<AiUsage[]> {
+    return await db
+      .select()
+      .from(aiUsage)
+      .where(and(eq(aiUsage.userId, userId), gte(aiUsage.day, sinceDay)))
+      .orderBy(asc(aiUsage.day));
+  }
 
-    const currentLevel = user.level || 1;
-    const xpGained = 50; // Standard XP per chapter
-    const newXP = (user.experiencePoints || 0) + xpGained;
-    const newLevel = this.calculateLevel(newXP);
-    const levelUp = newLevel > currentLevel;
+  async reserveAiRequest(userId: string, day: string, limits: { dailyRequests: number; dailyTokens: number }): Promise<AiQuotaCounter | undefined> {
+    const [counter] = await db
+      .insert(aiQuotaCounters)
+      .values({ userId, day, requests: 1 })
+      .onConflictDoUpdate({
+        target: [aiQuotaCounters.userId, aiQuotaCounters.day],
+        set: { requests: sql`${aiQuotaCounters.requests} + 1`, updatedAt: new Date() },
+        setWhere: and(lt(aiQuotaCounters.requests, limits.dailyRequests), lt(aiQuotaCounters.tokens, limits.dailyTokens)),
+      })
+      .returning();
+    return counter;
+  }
 
-    // Update user XP and level
-    const [updatedUser] = await db
-      .update(users)
+  async settleAiRequest(userId: string, day: string, tokens: number, release: boolean): Promise<void> {
+    await db
+      .update(aiQuotaCounters)
       .set({
-        experiencePoints: newXP,
-        level: newLevel,
+        requests: release ? sql`greatest(${aiQuotaCounters.requests} - 1, 0)` : aiQuotaCounters.requests,
+        tokens: sql`${aiQuotaCounters.tokens} + ${tokens}`,
         updatedAt: new Date(),
       })
-      .where(eq(users.id, userId))
-      .returning();
-
-    // Update progress by calling the existing complete chapter logic
-    const progressResult = await this.completeChapter(userId, chapterNumber);
-    
-    // Get the actual UserProgressEntry from database 
-    const [progress] = await db
-      .select()
-      .from(userProgress)
-      .where(eq(userProgress.userId, userId));
-
-    return {
-      user: updatedUser,
-      progress: progress,
-      xpGained,
-      levelUp,
-    };
+      .where(and(eq(aiQuotaCounters.userId, userId), eq(aiQuotaCounters.day, day)));
   }
 
-  async getAvailableChapters(userId: string): Promise<SacredMatrixEntry[]> {
-    const [progressEntry] = await db
+  async getAiQuotaCounter(userId: string, day: string): Promise<AiQuotaCounter | undefined> {
+    const [counter] = await db
       .select()
-      .from(userProgress)
-      .where(eq(userProgress.userId, userId));
-    const unlockedChapters = progressEntry?.unlockedChapters as number[] || [1];
+      .from(aiQuotaCounters)
+      .where(and(eq(aiQuotaCounters.userId, userId), eq(aiQuotaCounters.day, day)));
+    return counter;
+  }
 
+  async getOrganizationAiUsage(orgId: string, sinceDay: string): Promise<AiUsage[]> {
     return await db
       .select()
-      .from(sacredMatrix)
-      .where(sql`${sacredMatrix.chapterNumber} = ANY(${unlockedChapters})`)
-      .orderBy(asc(sacredMatrix.chapterNumber));
+      .from(aiUsage)
+      .where(and(eq(aiUsage.organizationId, orgId), gte(aiUsage.day, sinceDay)))
+      .orderBy(asc(aiUsage.day));
   }
 
-  async unlockNextChapter(userId: string): Promise<number[]> {
-    const [progressEntry] = await db
-      .select()
+  // Stripe webhook ledger operations
+  async recordStripeEvent(event: InsertStripeEvent): Promise<StripeEvent | undefined> {
+    const [row] = await db
+      .insert(stripeEvents)
+      .values({ ...event, status: 'processing', attempts: 1 })
+      .onConflictDoNothing({ target: stripeEvents.id })
+      .returning();
+    return row;
+  }
+
+  async getStripeEvent(id: string): Promise<StripeEvent | undefined> {
+    const [row] = await db.select().from(stripeEvents).where(eq(stripeEvents.id, id));
+    return row;
+  }
+
+  // Takes over a failed event, or one whose processing stalled before staleBefore, in a single update
+  async claimStripeEvent(id: string, staleBefore: Date): Promise<StripeEvent | undefined> {
+    const [row] = await db
+      .update(stripeEvents)
+      .set({
+        status: 'processing',
+        attempts: sql`${stripeEvents.attempts} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(stripeEvents.id, id),
+        or(
+          eq(stripeEvents.status, 'failed'),
+          and(eq(stripeEvents.status, 'processing'), lt(stripeEvents.updatedAt, staleBefore))
+        )
+      ))
+      .returning();
+    return row;
+  }
+
+  async completeStripeEvent(id: string, status: 'processed' | 'failed', error?: string): Promise<StripeEvent> {
+    const [row] = await db
+      .update(stripeEvents)
+      .set({
+        status,
+        lastError: status === 'failed' ? error ?? null : null,
+        processedAt: status === 'processed' ? new Date() : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(stripeEvents.id, id))
+      .returning();
+    return row;
+  }
+
+  async getStripeEvents(status?: StripeEventStatus, limit: number = 50): Promise<StripeEvent[]> {
+    return await db
+      .select()
+      .from(stripeEvents)
+      .where(status ? eq(stripeEvents.status, status) : undefined)
+      .orderBy(desc(stripeEvents.receivedAt))
+      .limit(limit);
+  }
+
+  // Invoice cache operations
+  async saveInvoice(invoice: InsertInvoice): Promise<Invoice | undefined> {
+    const [saved] = await db
+      .insert(invoices)
+      .values(invoice)
+      .onConflictDoUpdate({
+        target: invoices.id,
+        set: invoice,
+        setWhere: lte(invoices.syncedAt, invoice.syncedAt),
+      })
+      .returning();
+    return saved;
+  }
+
+  async getUserInvoices(userId: string, limit: number = 24): Promise<Invoice[]> {
+    return await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.userId, userId))
+      .orderBy(desc(invoices.issuedAt))
+      .limit(limit);
+  }
+
+  // Promo campaign operations
+  async createPromoCampaign(campaign: InsertPromoCampaign): Promise<PromoCampaign> {
+    const [created] = await db.insert(promoCampaigns).values(campaign).returning();
+    return created;
+  }
+
+  async getPromoCampaigns(): Promise<PromoCampaign[]> {
+    return await db.select().from(promoCampaigns).orderBy(desc(promoCampaigns.createdAt));
+  }
+
+  async getPromoCampaign(id: string): Promise<PromoCampaign | undefined> {
+    const [campaign] = await db.select().from(promoCampaigns).where(eq(promoCampaigns.id, id));
+    return campaign;
+  }
+
+  async getPromoCampaignByCode(code: string): Promise<PromoCampaign | undefined> {
+    const [campaign] = await db.select().from(promoCampaigns).where(eq(promoCampaigns.code, code));
+    return campaign;
+  }
+
+  async updatePromoCampaign(id: string, updates: Partial<InsertPromoCampaign>): Promise<PromoCampaign> {
+    const [campaign] = await db
+      .update(promoCampaigns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(promoCampaigns.id, id))
+      .returning();
+    return campaign;
+  }
+
+  async getUserPromoRedemptions(userId: string): Promise<PromoRedemption[]> {
+    return await db
+      .select()
+      .from(promoRedemptions)
+      .where(eq(promoRedemptions.userId, userId))
+      .orderBy(desc(promoRedemptions.redeemedAt));
+  }
+
+  // Takes a slot with a conditional increment so concurrent redemptions cannot pass maxRedemptions
+  async redeemPromoCampaign(redemption: InsertPromoRedemption): Promise<PromoRedemption | undefined> {
+    const [counted] = await db
+      .update(promoCampaigns)
+      .set({ redemptionCount: sql`${promoCampaigns.redemptionCount} + 1`, updatedAt: new Date() })
+      .where(and(
+        eq(promoCampaigns.id, redemption.campaignId),
+        or(isNull(promoCampaigns.maxRedemptions), lt(promoCampaigns.redemptionCount, promoCampaigns.maxRedemptions))
+      ))
+      .returning();
+    if (!counted) return undefined;
+
+    const [redeemed] = await db
+      .insert(promoRedemptions)
+      .values(redemption)
+      .onConflictDoNothing({ target: [promoRedemptions.campaignId, promoRedemptions.userId] })
+      .returning();
+    if (!redeemed) {
+      await db
+        .update(promoCampaigns)
+        .set({ redemptionCount: sql`${promoCampaigns.redemptionCount} - 1` })
+        .where(eq(promoCampaigns.id, redemption.campaignId));
+    }
+    return redeemed;
+  }
+
+  async releasePromoRedemption(redemption: PromoRedemption): Promise<void> {
+    const released = await db.delete(promoRedemptions).where(eq(promoRedemptions.id, redemption.id)).returning();
+    if (released.length > 0) {
+      await db
+        .update(promoCampaigns)
+        .set({ redemptionCount: sql`greatest(${promoCampaigns.redemptionCount} - 1, 0)` })
+        .where(eq(promoCampaigns.id, redemption.campaignId));
+    }
+  }
+
+  // Game progression operations
+  async getUserGameProgress(userId: string): Promise<GameProgressResponse> {
+    const user = await this.getUser(userId);
+    if (!user) throw new Error('User not found');
+
+    // Get the actual database entry instead of the interface
+    const [progressEntry] = await db
+      .select()
+      .from(userProgress)
+      .where(eq(userProgress.userId, userId));
+
+    const gates = await this.getGateStatus(userId);
+    const availableChapters = await this.getAvailableChapters(userId);
+
+    // Find next milestone
+    const completedChapters = progressEntry?.completedChapters as number[] || [];
+    const nextMilestone = findNextMilestone(completedChapters);
+
+    return {
+      user: {
+        id: user.id,
+        experiencePoints: user.experiencePoints || 0,
+        level: user.level || 1,
+        currentChapterId: user.currentChapterId || progressEntry?.currentChapterId || undefined,
+      },
+      progress: {
+        currentBook: progressEntry?.currentBook || 1,
+        currentChapterId: progressEntry?.currentChapterId || undefined,
+        completedChapters,
+        unlockedChapters: progressEntry?.unlockedChapters as number[] || [1],
+        totalChaptersCompleted: progressEntry?.totalChaptersCompleted || 0,
+      },
+      gates,
+      availableChapters,
+      nextMilestone,
+    };
+  }
+
+  async updateChapterProgress(userId: string, chapterId: string): Promise<UserProgressEntry> {
+    const [result] = await db
+      .update(userProgress)
+      .set({
+        currentChapterId: chapterId,
+        updatedAt: new Date(),
+      })
+      .where(eq(userProgress.userId, userId))
+      .returning();
+
+    if (!result) {
+      // Create if doesn't exist
+      const [newResult] = await db.insert(userProgress).values({
+        userId,
+        currentChapterId: chapterId,
+        currentBook: 1,
+        completedChapters: [],
+        unlockedChapters: [1],
+        unlockedDimensions: [],
+        sacredShapesMastered: [],
+        totalChaptersCompleted: 0,
+      }).returning();
+      return newResult;
+    }
+
+    return result;
+  }
+
+  async seedUserProgress(userId: string, startingChapter: number): Promise<UserProgressEntry> {
+    const [chapter] = await db.select().from(sacredMatrix).where(eq(sacredMatrix.chapterNumber, startingChapter));
+    const seed = {
+      currentChapterId: chapter?.id ?? null,
+      unlockedChapters: Array.from({ length: startingChapter }, (_, i) => i + 1),
+      updatedAt: new Date(),
+    };
+
+    const [result] = await db
+      .update(userProgress)
+      .set(seed)
+      .where(eq(userProgress.userId, userId))
+      .returning();
+    if (result) return result;
+
+    const [created] = await db.insert(userProgress).values({ userId, ...seed }).returning();
+    return created;
+  }
+
+  async getAvailableChapters(userId: string): Promise<SacredMatrixEntry[]> {
+    const [progressEntry] = await db
+      .select()
+      .from(userProgress)
+      .where(eq(userProgress.userId, userId));
+    // Tier limits apply on read, so progress made before a downgrade comes back after an upgrade
+    const entitlements = getEntitlements(await this.getEffectiveSubscriptionTier(userId));
+    const unlockedChapters = (progressEntry?.unlockedChapters as number[] || [1])
+      .filter(chapterNumber => canAccessChapter(entitlements, chapterNumber));
+
+    return await db
+      .select()
+      .from(sacredMatrix)
+      .where(sql`${sacredMatrix.chapterNumber} = ANY(${unlockedChapters})`)
+      .orderBy(asc(sacredMatrix.chapterNumber));
+  }
+
+  async unlockNextChapter(userId: string): Promise<number[]> {
+    const [progressEntry] = await db
+      .select()
       .from(userProgress)
       .where(eq(userProgress.userId, userId));
     const completedChapters = progressEntry?.completedChapters as number[] || [];
@@ -988,124 +1751,1673 @@ export class DatabaseStorage implements IStorage {
       .orderBy(asc(gateProgress.chapterNumber));
   }
 
-  async completeGate(userId: string, gateType: string, chapterNumber: number): Promise<GateProgress> {
-    const [result] = await db
-      .update(gateProgress)
-      .set({
-        completed: true,
-        completedAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(and(
-        eq(gateProgress.userId, userId),
-        eq(gateProgress.gateType, gateType as any),
-        eq(gateProgress.chapterNumber, chapterNumber)
-      ))
-      .returning();
+  async getUserGate(userId: string, gateType: GateType): Promise<GateProgress | undefined> {
+    const [gate] = await db
+      .select()
+      .from(gateProgress)
+      .where(and(eq(gateProgress.userId, userId), eq(gateProgress.gateType, gateType)));
+    return gate;
+  }
 
-    if (!result) {
-      const [newResult] = await db.insert(gateProgress).values({
-        userId,
-        gateType: gateType as any,
-        chapterNumber,
-        unlocked: true,
-        completed: true,
-        completedAt: new Date(),
-        experienceGained: 100,
-      }).returning();
-      
-      // Award bonus XP for gate completion
-      await this.awardExperience(userId, 100);
-      
-      return newResult;
-    }
+  async ensureUserGate(userId: string, gateType: GateType, chapterNumber: number): Promise<GateProgress> {
+    await db
+      .insert(gateProgress)
+      .values({ userId, gateType, chapterNumber, state: 'locked' })
+      .onConflictDoNothing({ target: [gateProgress.userId, gateProgress.gateType] });
+    return (await this.getUserGate(userId, gateType))!;
+  }
 
-    // Award bonus XP for gate completion
-    await this.awardExperience(userId, 100);
+  // Only applies when the gate is still in `from`, so concurrent requests cannot both complete it
+  async transitionGate(id: string, from: GateState, changes: Partial<InsertGateProgress> & { state: GateState }): Promise<GateProgress | undefined> {
+    const [gate] = await db
+      .update(gateProgress)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(gateProgress.id, id), eq(gateProgress.state, from)))
+      .returning();
+    return gate;
+  }
 
-    return result;
+  async getGatePracticeRecords(createdBefore: Date): Promise<DailyPractice[]> {
+    return await db
+      .select()
+      .from(dailyPractices)
+      .where(and(like(dailyPractices.practiceType, 'gate\\_challenge\\_%'), lt(dailyPractices.createdAt, createdBefore)))
+      .orderBy(asc(dailyPractices.date));
   }
 
-  async initializeUserGates(userId: string): Promise<void> {
-    const gateChapters = [
-      { gateType: 'identity_mirror', chapterNumber: 1 },
-      { gateType: 'shofar_convergence', chapterNumber: 25 },
-      { gateType: 'network_multiplication', chapterNumber: 26 },
-      { gateType: 'twelve_gate_convergence', chapterNumber: 27 },
-    ];
-
-    for (const gate of gateChapters) {
-      const existing = await db
-        .select()
-        .from(gateProgress)
-        .where(and(
-          eq(gateProgress.userId, userId),
-          eq(gateProgress.gateType, gate.gateType as any),
-          eq(gateProgress.chapterNumber, gate.chapterNumber)
-        ))
-        .limit(1);
-
-      if (existing.length === 0) {
-        await db.insert(gateProgress).values({
-          userId,
-          gateType: gate.gateType as any,
-          chapterNumber: gate.chapterNumber,
-          unlocked: gate.chapterNumber === 1, // Only chapter 1 starts unlocked
-          completed: false,
-          experienceGained: 100,
-        });
-      }
-    }
+  async createGateAttempt(attempt: InsertGateAttempt): Promise<GateAttempt> {
+    const [created] = await db.insert(gateAttempts).values(attempt).returning();
+    return created;
   }
 
-  // XP and Level operations
-  calculateLevel(experiencePoints: number): number {
-    return 1 + Math.floor(experiencePoints / 100);
+  async getGateAttempts(filters: { userId?: string; gateType?: GateType }, limit: number = 50): Promise<GateAttempt[]> {
+    const conditions = [];
+    if (filters.userId) conditions.push(eq(gateAttempts.userId, filters.userId));
+    if (filters.gateType) conditions.push(eq(gateAttempts.gateType, filters.gateType));
+
+    return await db
+      .select()
+      .from(gateAttempts)
+      .where(and(...conditions))
+      .orderBy(desc(gateAttempts.createdAt))
+      .limit(limit);
   }
 
-  getXPForNextLevel(currentLevel: number): number {
-    return currentLevel * 100;
+  // XP ledger operations
+  async recordXpAward(entry: InsertXpLedgerEntry): Promise<XpLedgerEntry | undefined> {
+    const [recorded] = await db
+      .insert(xpLedger)
+      .values(entry)
+      .onConflictDoNothing({ target: [xpLedger.userId, xpLedger.source, xpLedger.sourceKey] })
+      .returning();
+    return recorded;
   }
 
-  async awardExperience(userId: string, xpAmount: number): Promise<{ user: User; levelUp: boolean }> {
-    const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
+  async getXpLedger(userId: string, limit: number = 50): Promise<XpLedgerEntry[]> {
+    return await db
+      .select()
+      .from(xpLedger)
+      .where(eq(xpLedger.userId, userId))
+      .orderBy(desc(xpLedger.createdAt))
+      .limit(limit);
+  }
 
-    const currentLevel = user.level || 1;
-    const newXP = (user.experiencePoints || 0) + xpAmount;
-    const newLevel = this.calculateLevel(newXP);
-    const levelUp = newLevel > currentLevel;
+  async getXpLedgerTotal(userId: string): Promise<{ total: number; entries: number }> {
+    const [result] = await db
+      .select({
+        total: sql<number>`coalesce(sum(${xpLedger.amount}), 0)::int`,
+        entries: sql<number>`count(*)::int`,
+      })
+      .from(xpLedger)
+      .where(eq(xpLedger.userId, userId));
+    return result;
+  }
 
-    const [updatedUser] = await db
+  // Increments in the database so concurrent awards cannot overwrite each other
+  async addExperience(userId: string, amount: number): Promise<User | undefined> {
+    const [user] = await db
       .update(users)
       .set({
-        experiencePoints: newXP,
-        level: newLevel,
+        experiencePoints: sql`coalesce(${users.experiencePoints}, 0) + ${amount}`,
         updatedAt: new Date(),
       })
       .where(eq(users.id, userId))
       .returning();
+    return user;
+  }
 
-    return { user: updatedUser, levelUp };
+  async setExperience(userId: string, experiencePoints: number, level: number): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ experiencePoints, level, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
   }
 
-  // Helper method for finding next milestone
-  private findNextMilestone(completedChapters: number[]): { chapterNumber: number; isGate: boolean; title: string } | undefined {
-    const milestones = [5, 10, 15, 20, 25, 26, 27];
-    const gates = [1, 25, 26, 27];
-    
-    for (const milestone of milestones) {
-      if (!completedChapters.includes(milestone)) {
-        return {
-          chapterNumber: milestone,
-          isGate: gates.includes(milestone),
-          title: gates.includes(milestone) ? `Gate ${milestone}` : `Chapter ${milestone} Milestone`,
-        };
-      }
-    }
-    
-    return undefined;
+  // Badge operations
+  async getUserBadges(userId: string): Promise<UserBadge[]> {
+    return await db
+      .select()
+      .from(userBadges)
+      .where(eq(userBadges.userId, userId))
+      .orderBy(desc(userBadges.awardedAt));
+  }
+
+  async awardBadge(badge: InsertUserBadge): Promise<UserBadge | undefined> {
+    const [awarded] = await db
+      .insert(userBadges)
+      .values(badge)
+      .onConflictDoNothing({ target: [userBadges.userId, userBadges.badgeId] })
+      .returning();
+    return awarded;
+  }
+
+  // 360 feedback operations
+  async createFeedbackInvitations(assessmentId: string, respondentIds: string[]): Promise<FeedbackInvitation[]> {
+    if (respondentIds.length === 0) return [];
+    return await db
+      .insert(feedbackInvitations)
+      .values(respondentIds.map(respondentId => ({ assessmentId, respondentId })))
+      .onConflictDoNothing({ target: [feedbackInvitations.assessmentId, feedbackInvitations.respondentId] })
+      .returning();
+  }
+
+  async getFeedbackInvitations(assessmentId: string): Promise<FeedbackInvitation[]> {
+    return await db.select().from(feedbackInvitations).where(eq(feedbackInvitations.assessmentId, assessmentId));
+  }
+
+  async getPendingFeedbackInvitations(respondentId: string): Promise<FeedbackInvitation[]> {
+    return await db
+      .select()
+      .from(feedbackInvitations)
+      .where(and(eq(feedbackInvitations.respondentId, respondentId), isNull(feedbackInvitations.respondedAt)))
+      .orderBy(desc(feedbackInvitations.createdAt));
+  }
+
+  async recordFeedbackResponse(invitationId: string, responses: Record<string, string>): Promise<FeedbackResponse | undefined> {
+    return await db.transaction(async (tx) => {
+      const [invitation] = await tx
+        .update(feedbackInvitations)
+        .set({ respondedAt: new Date() })
+        .where(and(eq(feedbackInvitations.id, invitationId), isNull(feedbackInvitations.respondedAt)))
+        .returning();
+      if (!invitation) return undefined;
+
+      const [response] = await tx
+        .insert(feedbackResponses)
+        .values({ assessmentId: invitation.assessmentId, responses })
+        .returning();
+      return response;
+    });
+  }
+
+  async getFeedbackResponses(assessmentId: string): Promise<FeedbackResponse[]> {
+    return await db.select().from(feedbackResponses).where(eq(feedbackResponses.assessmentId, assessmentId));
+  }
+
+  // Data migration bookkeeping
+  async getDataMigration(id: string): Promise<DataMigration | undefined> {
+    const [migration] = await db.select().from(dataMigrations).where(eq(dataMigrations.id, id));
+    return migration;
+  }
+
+  async recordDataMigration(id: string, affectedRows: number): Promise<void> {
+    await db.insert(dataMigrations).values({ id, affectedRows }).onConflictDoNothing();
+  }
+}
+
+// Drop undefined keys so partial updates behave like drizzle's .set()
+function definedFields<T extends object>(data: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+function newestFirst<T>(rows: T[], dateOf: (row: T) => Date | null): T[] {
+  return [...rows].sort((a, b) => (dateOf(b)?.getTime() || 0) - (dateOf(a)?.getTime() || 0));
+}
+
+// In-memory storage for running the API without Postgres (STORAGE_DRIVER=memory)
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  private organizations = new Map<string, Organization>();
+  private organizationMembers = new Map<string, OrganizationMember>();
+  private invitations = new Map<string, OrganizationInvitation>();
+  private teams = new Map<string, Team>();
+  private teamMembers = new Map<string, TeamMember>();
+  private assessments = new Map<string, Assessment>();
+  private dailyPractices = new Map<string, DailyPractice>();
+  private stageChanges = new Map<string, StageChange>();
+  private feedbackInvitations = new Map<string, FeedbackInvitation>();
+  private feedbackResponses = new Map<string, FeedbackResponse>();
+  private dataMigrations = new Map<string, DataMigration>();
+  private progressMetrics = new Map<string, ProgressMetric>();
+  private sacredMatrix = new Map<number, SacredMatrixEntry>();
+  private userProgress = new Map<string, UserProgressEntry>(); // keyed by userId
+  private gateProgress = new Map<string, GateProgress>();
+  private gateAttempts = new Map<string, GateAttempt>();
+  private xpLedger = new Map<string, XpLedgerEntry>();
+  private userBadges = new Map<string, UserBadge>(); // keyed by userId:badgeId
+  private chapterProgress = new Map<string, ChapterProgress>();
+  private userGeneration = new Map<string, UserGeneration>(); // keyed by userId
+  private chapterAssessments = new Map<string, ChapterAssessment>();
+  private chatConversations = new Map<string, ChatConversation>();
+  private chatMessages = new Map<string, ChatMessage>();
+  private aiUsage = new Map<string, AiUsage>(); // keyed by userId:day:feature
+  private aiQuotaCounters = new Map<string, AiQuotaCounter>(); // keyed by userId:day
+  private stripeEvents = new Map<string, StripeEvent>();
+  private organizationSubscriptions = new Map<string, OrganizationSubscription>(); // keyed by organizationId
+  private organizationSeats = new Map<string, OrganizationSeat>();
+  private invoices = new Map<string, Invoice>();
+  private promoCampaigns = new Map<string, PromoCampaign>();
+  private promoRedemptions = new Map<string, PromoRedemption>();
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.email === email);
+  }
+
+  async getUserByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.stripeCustomerId === customerId);
+  }
+
+  async getUsersByBillingStatus(statuses: BillingStatus[]): Promise<User[]> {
+    return Array.from(this.users.values()).filter(user => !!user.billingStatus && statuses.includes(user.billingStatus));
+  }
+
+  async getUsersWithOrganization(): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter(user => !!user.organizationId)
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  }
+
+  private insertUser(id: string, userData: UpsertUser): User {
+    const now = new Date();
+    const user: User = {
+      id,
+      email: null,
+      username: null,
+      password: null,
+      firstName: null,
+      lastName: null,
+      profileImageUrl: null,
+      hebrewName: null,
+      generation: null,
+      archetype: null,
+      currentStage: 'r1',
+      subscriptionTier: 'seeker',
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      billingStatus: 'active',
+      paymentFailedAt: null,
+      graceEndsAt: null,
+      organizationId: null,
+      authType: 'replit',
+      isDemo: false,
+      experiencePoints: 0,
+      level: 1,
+      currentChapterId: null,
+      createdAt: now,
+      updatedAt: now,
+      ...definedFields(userData),
+    };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async createUser(userData: UpsertUser): Promise<User> {
+    return this.insertUser(randomUUID(), userData);
+  }
+
+  async upsertUser(userData: UpsertUser, userId?: string): Promise<User> {
+    const existing = userId ? this.users.get(userId) : undefined;
+    if (!existing) {
+      return this.insertUser(userId || randomUUID(), userData);
+    }
+
+    const updated: User = { ...existing, ...definedFields(userData), updatedAt: new Date() };
+    this.users.set(existing.id, updated);
+    return updated;
+  }
+
+  async updateUserStripeInfo(userId: string, customerId: string, subscriptionId: string): Promise<User> {
+    return this.upsertUser({
+      stripeCustomerId: customerId,
+      stripeSubscriptionId: subscriptionId,
+    }, userId);
+  }
+
+  async initializeDemoAccounts(): Promise<void> {
+    const existingDemo = Array.from(this.users.values()).some(user => user.isDemo);
+    if (existingDemo) return;
+
+    for (const account of DEMO_ACCOUNTS) {
+      await this.createUser(account);
+    }
+  }
+
+  // Organization operations
+  async createOrganization(org: InsertOrganization): Promise<Organization> {
+    const now = new Date();
+    const organization: Organization = {
+      id: randomUUID(),
+      name: org.name,
+      type: org.type,
+      size: org.size ?? null,
+      structure: org.structure ?? null,
+      settings: org.settings ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.organizations.set(organization.id, organization);
+    return organization;
+  }
+
+  async getOrganization(id: string): Promise<Organization | undefined> {
+    return this.organizations.get(id);
+  }
+
+  async getUserOrganization(userId: string): Promise<Organization | undefined> {
+    const user = await this.getUser(userId);
+    if (!user?.organizationId) return undefined;
+    return this.getOrganization(user.organizationId);
+  }
+
+  async updateOrganization(id: string, updates: Partial<InsertOrganization>): Promise<Organization> {
+    const existing = this.organizations.get(id);
+    if (!existing) throw new Error('Organization not found');
+
+    const organization = { ...existing, ...definedFields(updates), updatedAt: new Date() };
+    this.organizations.set(id, organization);
+    return organization;
+  }
+
+  // Organization membership operations
+  async addOrganizationMember(orgId: string, userId: string, role: OrganizationRole = 'member'): Promise<OrganizationMember> {
+    const existing = await this.getOrganizationMember(orgId, userId);
+    if (existing) return existing;
+
+    const now = new Date();
+    const member: OrganizationMember = {
+      id: randomUUID(),
+      organizationId: orgId,
+      userId,
+      role,
+      joinedAt: now,
+      updatedAt: now,
+    };
+    this.organizationMembers.set(member.id, member);
+    return member;
+  }
+
+  async getOrganizationMember(orgId: string, userId: string): Promise<OrganizationMember | undefined> {
+    return Array.from(this.organizationMembers.values()).find(member =>
+      member.organizationId === orgId && member.userId === userId
+    );
+  }
+
+  async getOrganizationMembers(orgId: string): Promise<(OrganizationMember & { user: User })[]> {
+    return Array.from(this.organizationMembers.values())
+      .filter(member => member.organizationId === orgId && this.users.has(member.userId))
+      .sort((a, b) => (a.joinedAt?.getTime() || 0) - (b.joinedAt?.getTime() || 0))
+      .map(member => ({ ...member, user: this.users.get(member.userId)! }));
+  }
+
+  async updateOrganizationMemberRole(orgId: string, userId: string, role: OrganizationRole): Promise<OrganizationMember> {
+    const existing = await this.getOrganizationMember(orgId, userId);
+    if (!existing) throw new Error('Organization member not found');
+
+    const member = { ...existing, role, updatedAt: new Date() };
+    this.organizationMembers.set(member.id, member);
+    return member;
+  }
+
+  // Organization plan and seat operations
+  async getOrganizationSubscription(orgId: string): Promise<OrganizationSubscription | undefined> {
+    return this.organizationSubscriptions.get(orgId);
+  }
+
+  async getOrganizationSubscriptionByStripeId(stripeSubscriptionId: string): Promise<OrganizationSubscription | undefined> {
+    return Array.from(this.organizationSubscriptions.values())
+      .find(subscription => subscription.stripeSubscriptionId === stripeSubscriptionId);
+  }
+
+  async saveOrganizationSubscription(subscription: InsertOrganizationSubscription): Promise<OrganizationSubscription> {
+    const existing = this.organizationSubscriptions.get(subscription.organizationId);
+    const now = new Date();
+    const saved: OrganizationSubscription = {
+      id: existing?.id ?? randomUUID(),
+      status: 'incomplete',
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      cancelAtPeriodEnd: false,
+      currentPeriodEnd: null,
+      createdAt: existing?.createdAt ?? now,
+      ...definedFields(subscription),
+      organizationId: subscription.organizationId,
+      tier: subscription.tier,
+      seats: subscription.seats,
+      createdBy: subscription.createdBy,
+      updatedAt: now,
+    };
+    this.organizationSubscriptions.set(saved.organizationId, saved);
+    return saved;
+  }
+
+  async updateOrganizationSubscription(orgId: string, updates: Partial<InsertOrganizationSubscription>): Promise<OrganizationSubscription> {
+    const existing = this.organizationSubscriptions.get(orgId);
+    if (!existing) throw new Error('Organization subscription not found');
+
+    const updated: OrganizationSubscription = { ...existing, ...definedFields(updates), updatedAt: new Date() };
+    this.organizationSubscriptions.set(orgId, updated);
+    return updated;
+  }
+
+  async getOrganizationSeats(orgId: string): Promise<(OrganizationSeat & { user: User })[]> {
+    return Array.from(this.organizationSeats.values())
+      .filter(seat => seat.organizationId === orgId && this.users.has(seat.userId))
+      .sort((a, b) => (a.assignedAt?.getTime() || 0) - (b.assignedAt?.getTime() || 0))
+      .map(seat => ({ ...seat, user: this.users.get(seat.userId)! }));
+  }
+
+  async getUserOrganizationSeat(userId: string): Promise<OrganizationSeat | undefined> {
+    return Array.from(this.organizationSeats.values()).find(seat => seat.userId === userId);
+  }
+
+  async assignOrganizationSeat(seat: InsertOrganizationSeat): Promise<OrganizationSeat> {
+    const existing = Array.from(this.organizationSeats.values())
+      .find(row => row.organizationId === seat.organizationId && row.userId === seat.userId);
+    if (existing) return existing;
+
+    const assigned: OrganizationSeat = { id: randomUUID(), ...seat, assignedAt: new Date() };
+    this.organizationSeats.set(assigned.id, assigned);
+    return assigned;
+  }
+
+  async revokeOrganizationSeat(orgId: string, userId: string): Promise<boolean> {
+    const seat = Array.from(this.organizationSeats.values())
+      .find(row => row.organizationId === orgId && row.userId === userId);
+    return seat ? this.organizationSeats.delete(seat.id) : false;
+  }
+
+  async getEffectiveSubscriptionTier(userId: string): Promise<SubscriptionTierName> {
+    const seat = await this.getUserOrganizationSeat(userId);
+    const plan = seat ? this.organizationSubscriptions.get(seat.organizationId) : undefined;
+    return higherTier(this.users.get(userId)?.subscriptionTier, organizationPlanGrantsSeats(plan?.status) ? plan?.tier : null);
+  }
+
+  // Organization invitation operations
+  async createInvitation(invitation: InsertOrganizationInvitation): Promise<OrganizationInvitation> {
+    const newInvitation: OrganizationInvitation = {
+      id: randomUUID(),
+      organizationId: invitation.organizationId,
+      email: invitation.email,
+      role: invitation.role ?? 'member',
+      token: invitation.token,
+      message: invitation.message ?? null,
+      invitedBy: invitation.invitedBy,
+      status: invitation.status ?? 'pending',
+      expiresAt: invitation.expiresAt,
+      respondedBy: invitation.respondedBy ?? null,
+      respondedAt: invitation.respondedAt ?? null,
+      createdAt: new Date(),
+    };
+    this.invitations.set(newInvitation.id, newInvitation);
+    return newInvitation;
+  }
+
+  async getInvitation(id: string): Promise<OrganizationInvitation | undefined> {
+    return this.invitations.get(id);
+  }
+
+  async getInvitationByToken(token: string): Promise<OrganizationInvitation | undefined> {
+    return Array.from(this.invitations.values()).find(invitation => invitation.token === token);
+  }
+
+  async getOrganizationInvitations(orgId: string): Promise<OrganizationInvitation[]> {
+    const rows = Array.from(this.invitations.values()).filter(i => i.organizationId === orgId);
+    return newestFirst(rows, i => i.createdAt);
+  }
+
+  async updateInvitationStatus(
+    id: string,
+    status: OrganizationInvitation['status'],
+    respondedBy?: string
+  ): Promise<OrganizationInvitation> {
+    const existing = this.invitations.get(id);
+    if (!existing) throw new Error('Invitation not found');
+
+    const invitation = {
+      ...existing,
+      status,
+      respondedBy: respondedBy ?? existing.respondedBy,
+      respondedAt: new Date(),
+    };
+    this.invitations.set(id, invitation);
+    return invitation;
+  }
+
+  // Team operations
+  async createTeam(team: InsertTeam): Promise<Team> {
+    const now = new Date();
+    const newTeam: Team = {
+      id: randomUUID(),
+      name: team.name,
+      organizationId: team.organizationId,
+      leaderId: team.leaderId,
+      generationalMix: team.generationalMix ?? null,
+      pactDetails: team.pactDetails ?? null,
+      status: team.status ?? 'forming',
+      archivedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.teams.set(newTeam.id, newTeam);
+    return newTeam;
+  }
+
+  async getTeam(id: string): Promise<Team | undefined> {
+    return this.teams.get(id);
+  }
+
+  async getUserTeams(userId: string): Promise<Team[]> {
+    return Array.from(this.teamMembers.values())
+      .filter(member => member.userId === userId)
+      .map(member => this.teams.get(member.teamId))
+      .filter((team): team is Team => !!team && !team.archivedAt);
+  }
+
+  async getOrganizationTeams(orgId: string, includeArchived: boolean = false): Promise<Team[]> {
+    return Array.from(this.teams.values()).filter(team =>
+      team.organizationId === orgId && (includeArchived || !team.archivedAt)
+    );
+  }
+
+  async updateTeam(id: string, updates: Partial<InsertTeam>): Promise<Team> {
+    const existing = this.teams.get(id);
+    if (!existing) throw new Error('Team not found');
+
+    const team = { ...existing, ...definedFields(updates), updatedAt: new Date() };
+    this.teams.set(id, team);
+    return team;
+  }
+
+  async archiveTeam(id: string): Promise<Team> {
+    const existing = this.teams.get(id);
+    if (!existing) throw new Error('Team not found');
+
+    const team = { ...existing, archivedAt: new Date(), updatedAt: new Date() };
+    this.teams.set(id, team);
+    return team;
+  }
+
+  async restoreTeam(id: string): Promise<Team> {
+    const existing = this.teams.get(id);
+    if (!existing) throw new Error('Team not found');
+
+    const team = { ...existing, archivedAt: null, updatedAt: new Date() };
+    this.teams.set(id, team);
+    return team;
+  }
+
+  async addTeamMember(teamId: string, userId: string, role: string = 'member'): Promise<TeamMember> {
+    const member: TeamMember = {
+      id: randomUUID(),
+      teamId,
+      userId,
+      role,
+      joinedAt: new Date(),
+    };
+    this.teamMembers.set(member.id, member);
+    return member;
+  }
+
+  async getTeamMember(teamId: string, userId: string): Promise<TeamMember | undefined> {
+    return Array.from(this.teamMembers.values()).find(member =>
+      member.teamId === teamId && member.userId === userId
+    );
+  }
+
+  async getTeamMembers(teamId: string): Promise<(TeamMember & { user: User })[]> {
+    return Array.from(this.teamMembers.values())
+      .filter(member => member.teamId === teamId && this.users.has(member.userId))
+      .map(member => ({ ...member, user: this.users.get(member.userId)! }));
+  }
+
+  async updateTeamMemberRole(teamId: string, userId: string, role: string): Promise<TeamMember> {
+    const existing = await this.getTeamMember(teamId, userId);
+    if (!existing) throw new Error('Team member not found');
+
+    const member = { ...existing, role };
+    this.teamMembers.set(member.id, member);
+    return member;
+  }
+
+  async transferTeamLeadership(teamId: string, newLeaderId: string): Promise<Team> {
+    const existing = this.teams.get(teamId);
+    if (!existing) throw new Error('Team not found');
+
+    const oldLeader = await this.getTeamMember(teamId, existing.leaderId);
+    if (oldLeader) {
+      this.teamMembers.set(oldLeader.id, { ...oldLeader, role: 'member' });
+    }
+    await this.updateTeamMemberRole(teamId, newLeaderId, 'leader');
+
+    const team = { ...existing, leaderId: newLeaderId, updatedAt: new Date() };
+    this.teams.set(teamId, team);
+    return team;
+  }
+
+  async removeTeamMember(teamId: string, userId: string): Promise<void> {
+    const existing = await this.getTeamMember(teamId, userId);
+    if (existing) {
+      this.teamMembers.delete(existing.id);
+    }
+  }
+
+  // Assessment operations
+  async createAssessment(assessment: InsertAssessment): Promise<Assessment> {
+    const newAssessment: Assessment = {
+      id: randomUUID(),
+      userId: assessment.userId,
+      stage: assessment.stage,
+      kind: assessment.kind ?? 'stage',
+      responses: assessment.responses,
+      results: assessment.results ?? null,
+      bankVersion: assessment.bankVersion ?? null,
+      teamId: assessment.teamId ?? null,
+      completedAt: assessment.completedAt ?? null,
+      createdAt: new Date(),
+    };
+    this.assessments.set(newAssessment.id, newAssessment);
+    return newAssessment;
+  }
+
+  async getAssessment(id: string): Promise<Assessment | undefined> {
+    return this.assessments.get(id);
+  }
+
+  async getUserAssessments(userId: string): Promise<Assessment[]> {
+    const rows = Array.from(this.assessments.values()).filter(a => a.userId === userId);
+    return newestFirst(rows, a => a.createdAt);
+  }
+
+  async getLatestAssessment(userId: string, stage: string): Promise<Assessment | undefined> {
+    const assessments = await this.getUserAssessments(userId);
+    return assessments.find(a => a.stage === stage);
+  }
+
+  async completeAssessment(id: string, results: any, bankVersion?: number): Promise<Assessment> {
+    const existing = this.assessments.get(id);
+    if (!existing) throw new Error('Assessment not found');
+
+    const assessment = { ...existing, results, bankVersion: bankVersion ?? existing.bankVersion, completedAt: new Date() };
+    this.assessments.set(id, assessment);
+    return assessment;
+  }
+
+  async recordStageChange(change: InsertStageChange): Promise<StageChange> {
+    const recorded: StageChange = {
+      id: randomUUID(),
+      userId: change.userId,
+      fromStage: change.fromStage ?? null,
+      toStage: change.toStage,
+      changedAt: change.changedAt ?? new Date(),
+    };
+    this.stageChanges.set(recorded.id, recorded);
+    return recorded;
+  }
+
+  async getStageChanges(userId: string): Promise<StageChange[]> {
+    return newestFirst(
+      Array.from(this.stageChanges.values()).filter(change => change.userId === userId),
+      change => change.changedAt
+    ).reverse();
+  }
+
+  // Daily practice operations
+  async createDailyPractice(practice: InsertDailyPractice): Promise<DailyPractice> {
+    const newPractice: DailyPractice = {
+      id: randomUUID(),
+      userId: practice.userId,
+      date: practice.date,
+      practiceType: practice.practiceType,
+      completed: practice.completed ?? false,
+      duration: practice.duration ?? null,
+      notes: practice.notes ?? null,
+      generationAdaptation: practice.generationAdaptation ?? null,
+      createdAt: new Date(),
+    };
+    this.dailyPractices.set(newPractice.id, newPractice);
+    return newPractice;
+  }
+
+  async getDailyPractice(id: string): Promise<DailyPractice | undefined> {
+    return this.dailyPractices.get(id);
+  }
+
+  async getUserDailyPractices(userId: string, startDate: Date, endDate: Date): Promise<DailyPractice[]> {
+    const rows = Array.from(this.dailyPractices.values()).filter(p =>
+      p.userId === userId && p.date >= startDate && p.date <= endDate
+    );
+    return newestFirst(rows, p => p.date);
+  }
+
+  async completeDailyPractice(id: string, duration?: number, notes?: string): Promise<DailyPractice> {
+    const existing = this.dailyPractices.get(id);
+    if (!existing) throw new Error('Practice not found');
+
+    const practice: DailyPractice = {
+      ...existing,
+      completed: true,
+      duration: duration ?? existing.duration,
+      notes: notes ?? existing.notes,
+    };
+    this.dailyPractices.set(id, practice);
+    return practice;
+  }
+
+  // Progress metrics operations
+  async getUserProgressMetrics(userId: string, metricType?: string): Promise<ProgressMetric[]> {
+    const rows = Array.from(this.progressMetrics.values()).filter(m =>
+      m.userId === userId && (!metricType || m.metricType === metricType)
+    );
+    return newestFirst(rows, m => m.calculatedAt);
+  }
+
+  async getTeamProgressMetrics(teamId: string, metricType?: string): Promise<ProgressMetric[]> {
+    const rows = Array.from(this.progressMetrics.values()).filter(m =>
+      m.teamId === teamId && (!metricType || m.metricType === metricType)
+    );
+    return newestFirst(rows, m => m.calculatedAt);
+  }
+
+  async createProgressMetrics(metrics: InsertProgressMetric[]): Promise<ProgressMetric[]> {
+    const calculatedAt = new Date();
+    return metrics.map(metric => {
+      const row: ProgressMetric = {
+        id: randomUUID(),
+        userId: metric.userId,
+        teamId: metric.teamId ?? null,
+        metricType: metric.metricType,
+        value: metric.value,
+        period: metric.period,
+        calculatedAt,
+      };
+      this.progressMetrics.set(row.id, row);
+      return row;
+    });
+  }
+
+  async calculateUserProgress(userId: string): Promise<any> {
+    const user = await this.getUser(userId);
+    if (!user) return null;
+
+    const assessments = await this.getUserAssessments(userId);
+    const practices = await this.getUserDailyPractices(
+      userId,
+      new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+      new Date()
+    );
+
+    // Stages whose assessment was passed; older rows without a result count as passed
+    const completedStages = Array.from(new Set(assessments
+      .filter(a => a.kind === 'stage' && a.completedAt && (a.results as any)?.passed !== false)
+      .map(a => a.stage)));
+
+    const weeklyCompletion = practices.filter(p => p.completed).length / 7;
+
+    return {
+      currentStage: user.currentStage,
+      completedStages,
+      weeklyCompletion: Math.round(weeklyCompletion * 100),
+      tribalAlignment: calculateTribalAlignment(user, assessments),
+    };
+  }
+
+  async calculateTeamEffectiveness(teamId: string): Promise<any> {
+    const members = await this.getTeamMembers(teamId);
+    const team = await this.getTeam(teamId);
+
+    if (!team || team.archivedAt || members.length === 0) return null;
+
+    const generationalMix = members.reduce((acc, member) => {
+      const gen = member.user.generation || 'unknown';
+      acc[gen] = (acc[gen] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+
+    const generations = Object.keys(generationalMix).length;
+    const baseEffectiveness = generations > 2 ? 1.2 : 1.0;
+
+    const memberProgress = await Promise.all(
+      members.map(member => this.calculateUserProgress(member.user.id))
+    );
+
+    const avgCompletion = memberProgress.reduce((sum, progress) =>
+      sum + (progress?.weeklyCompletion || 0), 0) / members.length;
+
+    return {
+      teamId,
+      generationalMix,
+      crossGenEffectiveness: Math.round(avgCompletion * baseEffectiveness),
+      memberCount: members.length,
+      avgWeeklyCompletion: Math.round(avgCompletion),
+    };
+  }
+
+  // Biblical Matrix operations
+  async getBiblicalMatrix(): Promise<SacredMatrixEntry[]> {
+    return Array.from(this.sacredMatrix.values()).sort((a, b) => a.chapterNumber - b.chapterNumber);
+  }
+
+  async getBiblicalMatrixByBook(bookNumber: number): Promise<SacredMatrixEntry[]> {
+    const matrix = await this.getBiblicalMatrix();
+    return matrix.filter(entry => entry.bookNumber === bookNumber);
+  }
+
+  async getBiblicalMatrixByChapter(chapterNumber: number): Promise<SacredMatrixEntry | undefined> {
+    return this.sacredMatrix.get(chapterNumber);
+  }
+
+  async initializeBiblicalMatrix(): Promise<void> {
+    if (this.sacredMatrix.size > 0) return;
+
+    const { sacredMatrixData } = await import('./sacred-matrix-data');
+    for (const entry of sacredMatrixData) {
+      this.sacredMatrix.set(entry.chapterNumber, {
+        id: randomUUID(),
+        ...entry,
+        tribe: entry.tribe ?? null,
+        prophet: entry.prophet ?? null,
+        apostle: entry.apostle ?? null,
+        directionalMapping: entry.directionalMapping ?? null,
+        createdAt: new Date(),
+      });
+    }
+  }
+
+  // User Progress operations
+  private ensureProgressEntry(userId: string): UserProgressEntry {
+    const existing = this.userProgress.get(userId);
+    if (existing) return existing;
+
+    const now = new Date();
+    const entry: UserProgressEntry = {
+      id: randomUUID(),
+      userId,
+      currentBook: 1,
+      currentChapterId: null,
+      completedChapters: [],
+      unlockedChapters: [1],
+      unlockedDimensions: [],
+      sacredShapesMastered: [],
+      lastChapterCompleted: null,
+      totalChaptersCompleted: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.userProgress.set(userId, entry);
+    return entry;
+  }
+
+  private updateProgressEntry(userId: string, changes: Partial<UserProgressEntry>): UserProgressEntry {
+    const entry = { ...this.ensureProgressEntry(userId), ...changes, updatedAt: new Date() };
+    this.userProgress.set(userId, entry);
+    return entry;
+  }
+
+  async getUserProgress(userId: string): Promise<UserProgress | null> {
+    const user = await this.getUser(userId);
+    if (!user) return null;
+
+    const progressEntry = this.ensureProgressEntry(userId);
+    return {
+      currentBook: progressEntry.currentBook as 1 | 2 | 3 | 4 | 5,
+      completedChapters: progressEntry.completedChapters as number[],
+      archetype: user.archetype as 'pioneer' | 'organizer' | 'builder' | 'guardian',
+      generation: user.generation as 'gen-z' | 'millennial' | 'gen-x' | 'boomer',
+      unlockedDimensions: progressEntry.unlockedDimensions as string[],
+      sacredShapesMastered: progressEntry.sacredShapesMastered as string[],
+    };
+  }
+
+  async updateUserProgress(userId: string, progress: Partial<UserProgress>): Promise<UserProgress> {
+    const existingProgress = await this.getUserProgress(userId);
+    if (!existingProgress) {
+      throw new Error('User progress not found');
+    }
+
+    const updateData: Partial<UserProgressEntry> = {};
+
+    if (progress.currentBook !== undefined) {
+      updateData.currentBook = progress.currentBook;
+    }
+    if (progress.completedChapters !== undefined) {
+      updateData.completedChapters = progress.completedChapters;
+      updateData.totalChaptersCompleted = progress.completedChapters.length;
+      updateData.lastChapterCompleted = Math.max(...progress.completedChapters);
+    }
+    if (progress.unlockedDimensions !== undefined) {
+      updateData.unlockedDimensions = progress.unlockedDimensions;
+    }
+    if (progress.sacredShapesMastered !== undefined) {
+      updateData.sacredShapesMastered = progress.sacredShapesMastered;
+    }
+
+    this.updateProgressEntry(userId, updateData);
+    return await this.getUserProgress(userId) as UserProgress;
+  }
+
+  async completeChapter(userId: string, chapterNumber: number): Promise<UserProgress> {
+    const currentProgress = await this.getUserProgress(userId);
+    if (!currentProgress) {
+      throw new Error('User progress not found');
+    }
+
+    const completedChapters = [...currentProgress.completedChapters];
+    if (!completedChapters.includes(chapterNumber)) {
+      completedChapters.push(chapterNumber);
+      completedChapters.sort((a, b) => a - b);
+    }
+
+    const chapterMatrixEntry = await this.getBiblicalMatrixByChapter(chapterNumber);
+    const sacredShapesMastered = [...currentProgress.sacredShapesMastered];
+    if (chapterMatrixEntry?.geometryIcon && !sacredShapesMastered.includes(chapterMatrixEntry.geometryIcon)) {
+      sacredShapesMastered.push(chapterMatrixEntry.geometryIcon);
+    }
+
+    return await this.updateUserProgress(userId, {
+      currentBook: bookForChapter(chapterNumber),
+      completedChapters,
+      sacredShapesMastered,
+    });
+  }
+
+  async unlockDimension(userId: string, dimension: string): Promise<UserProgress> {
+    const currentProgress = await this.getUserProgress(userId);
+    if (!currentProgress) {
+      throw new Error('User progress not found');
+    }
+
+    const unlockedDimensions = [...currentProgress.unlockedDimensions];
+    if (!unlockedDimensions.includes(dimension)) {
+      unlockedDimensions.push(dimension);
+    }
+
+    return await this.updateUserProgress(userId, { unlockedDimensions });
+  }
+
+  async masterSacredShape(userId: string, shape: string): Promise<UserProgress> {
+    const currentProgress = await this.getUserProgress(userId);
+    if (!currentProgress) {
+      throw new Error('User progress not found');
+    }
+
+    const sacredShapesMastered = [...currentProgress.sacredShapesMastered];
+    if (!sacredShapesMastered.includes(shape)) {
+      sacredShapesMastered.push(shape);
+    }
+
+    return await this.updateUserProgress(userId, { sacredShapesMastered });
+  }
+
+  // Generation detection and management
+  async setUserGeneration(userId: string, birthYear: number): Promise<UserGeneration> {
+    const result: UserGeneration = {
+      id: this.userGeneration.get(userId)?.id || randomUUID(),
+      userId,
+      birthYear,
+      generation: determineGeneration(birthYear),
+      detectedAt: new Date(),
+    };
+    this.userGeneration.set(userId, result);
+    return result;
+  }
+
+  async getUserGeneration(userId: string): Promise<UserGeneration | null> {
+    return this.userGeneration.get(userId) || null;
+  }
+
+  // Chapter progression management
+  private findChapterProgress(userId: string, chapterNumber: number): ChapterProgress | undefined {
+    return Array.from(this.chapterProgress.values()).find(p =>
+      p.userId === userId && p.chapterNumber === chapterNumber
+    );
+  }
+
+  async getUserChapterProgress(userId: string): Promise<ChapterProgress[]> {
+    return Array.from(this.chapterProgress.values())
+      .filter(p => p.userId === userId)
+      .sort((a, b) => a.chapterNumber - b.chapterNumber);
+  }
+
+  async unlockChapter(userId: string, chapterNumber: number): Promise<ChapterProgress> {
+    const existing = this.findChapterProgress(userId, chapterNumber);
+    if (existing) return existing;
+
+    const now = new Date();
+    const result: ChapterProgress = {
+      id: randomUUID(),
+      userId,
+      chapterNumber,
+      completed: false,
+      unlockedAt: now,
+      completedAt: null,
+      assessmentScore: null,
+      practiceMinutes: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.chapterProgress.set(result.id, result);
+    return result;
+  }
+
+  async completeChapterProgress(
+    userId: string,
+    chapterNumber: number,
+    assessmentScore: number = 0,
+    practiceMinutes?: number
+  ): Promise<ChapterProgress> {
+    const existing = await this.unlockChapter(userId, chapterNumber);
+    const now = new Date();
+    const result: ChapterProgress = {
+      ...existing,
+      completed: true,
+      completedAt: now,
+      assessmentScore,
+      practiceMinutes: practiceMinutes ?? existing.practiceMinutes,
+      updatedAt: now,
+    };
+    this.chapterProgress.set(result.id, result);
+    return result;
+  }
+
+  // Chapter assessments
+  async createChapterAssessment(
+    userId: string,
+    chapterNumber: number,
+    responses: any,
+    score: number,
+    passed: boolean
+  ): Promise<ChapterAssessment> {
+    const result: ChapterAssessment = {
+      id: randomUUID(),
+      userId,
+      chapterNumber,
+      responses,
+      score,
+      passed,
+      completedAt: new Date(),
+    };
+    this.chapterAssessments.set(result.id, result);
+    return result;
+  }
+
+  async getChapterAssessments(userId: string, chapterNumber?: number): Promise<ChapterAssessment[]> {
+    const rows = Array.from(this.chapterAssessments.values()).filter(a =>
+      a.userId === userId && (!chapterNumber || a.chapterNumber === chapterNumber)
+    );
+    return newestFirst(rows, a => a.completedAt);
+  }
+
+  async getUserBookProgress(userId: string): Promise<BookProgress> {
+    const progress = await this.getUserChapterProgress(userId);
+    return summarizeBookProgress(progress);
+  }
+
+  // Chat conversation operations
+  async createChatConversation(conversation: InsertChatConversation): Promise<ChatConversation> {
+    const now = new Date();
+    const newConversation: ChatConversation = {
+      id: randomUUID(),
+      userId: conversation.userId,
+      title: conversation.title,
+      chapterNumber: conversation.chapterNumber ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.chatConversations.set(newConversation.id, newConversation);
+    return newConversation;
+  }
+
+  async getChatConversation(id: string): Promise<ChatConversation | undefined> {
+    return this.chatConversations.get(id);
+  }
+
+  async getUserChatConversations(userId: string, chapterNumber?: number): Promise<ChatConversation[]> {
+    const rows = Array.from(this.chatConversations.values()).filter(c =>
+      c.userId === userId && (chapterNumber === undefined || c.chapterNumber === chapterNumber)
+    );
+    return newestFirst(rows, c => c.updatedAt);
+  }
+
+  async renameChatConversation(id: string, title: string): Promise<ChatConversation> {
+    const existing = this.chatConversations.get(id);
+    if (!existing) throw new Error('Conversation not found');
+
+    const conversation = { ...existing, title, updatedAt: new Date() };
+    this.chatConversations.set(id, conversation);
+    return conversation;
+  }
+
+  async deleteChatConversation(id: string): Promise<void> {
+    Array.from(this.chatMessages.values())
+      .filter(message => message.conversationId === id)
+      .forEach(message => this.chatMessages.delete(message.id));
+    this.chatConversations.delete(id);
+  }
+
+  async addChatMessages(conversationId: string, messages: Omit<InsertChatMessage, 'conversationId'>[]): Promise<ChatMessage[]> {
+    const now = Date.now();
+    const inserted = messages.map((message, index) => {
+      const newMessage: ChatMessage = {
+        id: randomUUID(),
+        conversationId,
+        role: message.role,
+        content: message.content,
+        createdAt: new Date(now + index),
+      };
+      this.chatMessages.set(newMessage.id, newMessage);
+      return newMessage;
+    });
+
+    const conversation = this.chatConversations.get(conversationId);
+    if (conversation && inserted.length > 0) {
+      this.chatConversations.set(conversationId, { ...conversation, updatedAt: new Date() });
+    }
+    return inserted;
+  }
+
+  async getChatMessages(conversationId: string): Promise<ChatMessage[]> {
+    const rows = Array.from(this.chatMessages.values()).filter(message => message.conversationId === conversationId);
+    return rows.sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  }
+
+  // AI usage metering operations
+  async recordAiUsage(usage: InsertAiUsage): Promise<AiUsage> {
+    const key = `${usage.userId}:${usage.day}:${usage.feature}`;
+    const existing = this.aiUsage.get(key);
+    const row: AiUsage = {
+      id: existing?.id ?? randomUUID(),
+      userId: usage.userId,
+      organizationId: usage.organizationId ?? null,
+      day: usage.day,
+      feature: usage.feature,
+      requests: (existing?.requests ?? 0) + (usage.requests ?? 0),
+      inputTokens: (existing?.inputTokens ?? 0) + (usage.inputTokens ?? 0),
+      outputTokens: (existing?.outputTokens ?? 0) + (usage.outputTokens ?? 0),
+      updatedAt: new Date(),
+    };
+    this.aiUsage.set(key, row);
+    return row;
+  }
+
+  async getUserAiUsage(userId: string, sinceDay: string): Promise<AiUsage[]> {
+    return Array.from(this.aiUsage.values())
+      .filter(row => row.userId === userId && row.day >= sinceDay)
+      .sort((a, b) => a.day.localeCompare(b.day));
+  }
+
+  // No await between the check and the write, so reservations cannot interleave
+  async reserveAiRequest(userId: string, day: string, limits: { dailyRequests: number; dailyTokens: number }): Promise<AiQuotaCounter | undefined> {
+    const key = `${userId}:${day}`;
+    const existing = this.aiQuotaCounters.get(key);
+    if (existing && (existing.requests >= limits.dailyRequests || existing.tokens >= limits.dailyTokens)) return undefined;
+
+    const counter: AiQuotaCounter = {
+      id: existing?.id ?? randomUUID(),
+      userId,
+      day,
+      requests: (existing?.requests ?? 0) + 1,
+      tokens: existing?.tokens ?? 0,
+      updatedAt: new Date(),
+    };
+    this.aiQuotaCounters.set(key, counter);
+    return counter;
+  }
+
+  async settleAiRequest(userId: string, day: string, tokens: number, release: boolean): Promise<void> {
+    const key = `${userId}:${day}`;
+    const existing = this.aiQuotaCounters.get(key);
+    if (!existing) return;
+
+    this.aiQuotaCounters.set(key, {
+      ...existing,
+      requests: release ? Math.max(existing.requests - 1, 0) : existing.requests,
+      tokens: existing.tokens + tokens,
+      updatedAt: new Date(),
+    });
+  }
+
+  async getAiQuotaCounter(userId: string, day: string): Promise<AiQuotaCounter | undefined> {
+    return this.aiQuotaCounters.get(`${userId}:${day}`);
+  }
+
+  async getOrganizationAiUsage(orgId: string, sinceDay: string): Promise<AiUsage[]> {
+    return Array.from(this.aiUsage.values())
+      .filter(row => row.organizationId === orgId && row.day >= sinceDay)
+      .sort((a, b) => a.day.localeCompare(b.day));
+  }
+
+  // Stripe webhook ledger operations
+  async recordStripeEvent(event: InsertStripeEvent): Promise<StripeEvent | undefined> {
+    if (this.stripeEvents.has(event.id)) return undefined;
+    const now = new Date();
+    const row: StripeEvent = {
+      id: event.id,
+      type: event.type,
+      payloadHash: event.payloadHash,
+      payload: event.payload,
+      status: 'processing',
+      attempts: 1,
+      lastError: null,
+      receivedAt: now,
+      processedAt: null,
+      updatedAt: now,
+    };
+    this.stripeEvents.set(row.id, row);
+    return row;
+  }
+
+  async getStripeEvent(id: string): Promise<StripeEvent | undefined> {
+    return this.stripeEvents.get(id);
+  }
+
+  async claimStripeEvent(id: string, staleBefore: Date): Promise<StripeEvent | undefined> {
+    const existing = this.stripeEvents.get(id);
+    const stalled = existing?.status === 'processing' && (existing.updatedAt?.getTime() || 0) < staleBefore.getTime();
+    if (!existing || (existing.status !== 'failed' && !stalled)) return undefined;
+
+    const row: StripeEvent = { ...existing, status: 'processing', attempts: existing.attempts + 1, updatedAt: new Date() };
+    this.stripeEvents.set(id, row);
+    return row;
+  }
+
+  async completeStripeEvent(id: string, status: 'processed' | 'failed', error?: string): Promise<StripeEvent> {
+    const existing = this.stripeEvents.get(id);
+    if (!existing) throw new Error('Stripe event not found');
+
+    const row: StripeEvent = {
+      ...existing,
+      status,
+      lastError: status === 'failed' ? error ?? null : null,
+      processedAt: status === 'processed' ? new Date() : null,
+      updatedAt: new Date(),
+    };
+    this.stripeEvents.set(id, row);
+    return row;
+  }
+
+  async getStripeEvents(status?: StripeEventStatus, limit: number = 50): Promise<StripeEvent[]> {
+    return Array.from(this.stripeEvents.values())
+      .filter(row => !status || row.status === status)
+      .sort((a, b) => (b.receivedAt?.getTime() || 0) - (a.receivedAt?.getTime() || 0))
+      .slice(0, limit);
+  }
+
+  // Invoice cache operations
+  async saveInvoice(invoice: InsertInvoice): Promise<Invoice | undefined> {
+    const existing = this.invoices.get(invoice.id);
+    if (existing && existing.syncedAt.getTime() > invoice.syncedAt.getTime()) return undefined;
+
+    const row: Invoice = {
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      number: null,
+      amountDue: 0,
+      amountPaid: 0,
+      total: 0,
+      hostedInvoiceUrl: null,
+      invoicePdf: null,
+      periodStart: null,
+      periodEnd: null,
+      paidAt: null,
+      ...definedFields(invoice),
+      id: invoice.id,
+      userId: invoice.userId,
+      status: invoice.status,
+      currency: invoice.currency,
+      issuedAt: invoice.issuedAt,
+      syncedAt: invoice.syncedAt,
+    };
+    this.invoices.set(row.id, row);
+    return row;
+  }
+
+  async getUserInvoices(userId: string, limit: number = 24): Promise<Invoice[]> {
+    const rows = Array.from(this.invoices.values()).filter(row => row.userId === userId);
+    return newestFirst(rows, row => row.issuedAt).slice(0, limit);
+  }
+
+  // Promo campaign operations
+  async createPromoCampaign(campaign: InsertPromoCampaign): Promise<PromoCampaign> {
+    if (Array.from(this.promoCampaigns.values()).some(existing => existing.code === campaign.code)) {
+      throw new Error(`Promo code ${campaign.code} already exists`);
+    }
+
+    const now = new Date();
+    const created: PromoCampaign = {
+      id: randomUUID(),
+      tier: null,
+      trialDays: null,
+      percentOff: null,
+      durationInMonths: null,
+      stripeCouponId: null,
+      maxRedemptions: null,
+      startsAt: null,
+      expiresAt: null,
+      active: true,
+      ...definedFields(campaign),
+      code: campaign.code,
+      name: campaign.name,
+      createdBy: campaign.createdBy,
+      redemptionCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.promoCampaigns.set(created.id, created);
+    return created;
+  }
+
+  async getPromoCampaigns(): Promise<PromoCampaign[]> {
+    return newestFirst(Array.from(this.promoCampaigns.values()), campaign => campaign.createdAt);
+  }
+
+  async getPromoCampaign(id: string): Promise<PromoCampaign | undefined> {
+    return this.promoCampaigns.get(id);
+  }
+
+  async getPromoCampaignByCode(code: string): Promise<PromoCampaign | undefined> {
+    return Array.from(this.promoCampaigns.values()).find(campaign => campaign.code === code);
+  }
+
+  async updatePromoCampaign(id: string, updates: Partial<InsertPromoCampaign>): Promise<PromoCampaign> {
+    const existing = this.promoCampaigns.get(id);
+    if (!existing) throw new Error('Promo campaign not found');
+
+    const updated: PromoCampaign = { ...existing, ...definedFields(updates), updatedAt: new Date() };
+    this.promoCampaigns.set(id, updated);
+    return updated;
+  }
+
+  async getUserPromoRedemptions(userId: string): Promise<PromoRedemption[]> {
+    const rows = Array.from(this.promoRedemptions.values()).filter(row => row.userId === userId);
+    return newestFirst(rows, row => row.redeemedAt);
+  }
+
+  async redeemPromoCampaign(redemption: InsertPromoRedemption): Promise<PromoRedemption | undefined> {
+    const campaign = this.promoCampaigns.get(redemption.campaignId);
+    if (!campaign) return undefined;
+    if (campaign.maxRedemptions !== null && campaign.redemptionCount >= campaign.maxRedemptions) return undefined;
+
+    const alreadyRedeemed = Array.from(this.promoRedemptions.values())
+      .some(row => row.campaignId === redemption.campaignId && row.userId === redemption.userId);
+    if (alreadyRedeemed) return undefined;
+
+    const redeemed: PromoRedemption = {
+      id: randomUUID(),
+      trialDays: null,
+      ...definedFields(redemption),
+      campaignId: redemption.campaignId,
+      userId: redemption.userId,
+      tier: redemption.tier,
+      redeemedAt: new Date(),
+    };
+    this.promoRedemptions.set(redeemed.id, redeemed);
+    this.promoCampaigns.set(campaign.id, { ...campaign, redemptionCount: campaign.redemptionCount + 1, updatedAt: new Date() });
+    return redeemed;
+  }
+
+  async releasePromoRedemption(redemption: PromoRedemption): Promise<void> {
+    if (!this.promoRedemptions.delete(redemption.id)) return;
+
+    const campaign = this.promoCampaigns.get(redemption.campaignId);
+    if (campaign) {
+      this.promoCampaigns.set(campaign.id, { ...campaign, redemptionCount: Math.max(campaign.redemptionCount - 1, 0) });
+    }
+  }
+
+  // Game progression operations
+  async getUserGameProgress(userId: string): Promise<GameProgressResponse> {
+    const user = await this.getUser(userId);
+    if (!user) throw new Error('User not found');
+
+    const progressEntry = this.userProgress.get(userId);
+    const gates = await this.getGateStatus(userId);
+    const availableChapters = await this.getAvailableChapters(userId);
+
+    const completedChapters = progressEntry?.completedChapters as number[] || [];
+    const nextMilestone = findNextMilestone(completedChapters);
+
+    return {
+      user: {
+        id: user.id,
+        experiencePoints: user.experiencePoints || 0,
+        level: user.level || 1,
+        currentChapterId: user.currentChapterId || progressEntry?.currentChapterId || undefined,
+      },
+      progress: {
+        currentBook: progressEntry?.currentBook || 1,
+        currentChapterId: progressEntry?.currentChapterId || undefined,
+        completedChapters,
+        unlockedChapters: progressEntry?.unlockedChapters as number[] || [1],
+        totalChaptersCompleted: progressEntry?.totalChaptersCompleted || 0,
+      },
+      gates,
+      availableChapters,
+      nextMilestone,
+    };
+  }
+
+  async updateChapterProgress(userId: string, chapterId: string): Promise<UserProgressEntry> {
+    return this.updateProgressEntry(userId, { currentChapterId: chapterId });
+  }
+
+  async seedUserProgress(userId: string, startingChapter: number): Promise<UserProgressEntry> {
+    const chapter = (await this.getBiblicalMatrix()).find(entry => entry.chapterNumber === startingChapter);
+    return this.updateProgressEntry(userId, {
+      currentChapterId: chapter?.id ?? null,
+      unlockedChapters: Array.from({ length: startingChapter }, (_, i) => i + 1),
+    });
+  }
+
+  async getAvailableChapters(userId: string): Promise<SacredMatrixEntry[]> {
+    const entitlements = getEntitlements(await this.getEffectiveSubscriptionTier(userId));
+    const unlockedChapters = this.userProgress.get(userId)?.unlockedChapters as number[] || [1];
+    const matrix = await this.getBiblicalMatrix();
+    return matrix.filter(entry =>
+      unlockedChapters.includes(entry.chapterNumber) && canAccessChapter(entitlements, entry.chapterNumber)
+    );
+  }
+
+  async unlockNextChapter(userId: string): Promise<number[]> {
+    const progressEntry = this.ensureProgressEntry(userId);
+    const completedChapters = progressEntry.completedChapters as number[];
+    const unlockedChapters = progressEntry.unlockedChapters as number[];
+
+    // Golden Path logic: sequential unlocking
+    const nextChapter = Math.max(...completedChapters) + 1;
+
+    if (nextChapter <= 27 && !unlockedChapters.includes(nextChapter)) {
+      const newUnlockedChapters = [...unlockedChapters, nextChapter];
+      this.updateProgressEntry(userId, { unlockedChapters: newUnlockedChapters });
+      return newUnlockedChapters;
+    }
+
+    return unlockedChapters;
+  }
+
+  // Gate progression operations
+  async getGateStatus(userId: string): Promise<GateProgress[]> {
+    return Array.from(this.gateProgress.values())
+      .filter(g => g.userId === userId)
+      .sort((a, b) => a.chapterNumber - b.chapterNumber);
+  }
+
+  async getUserGate(userId: string, gateType: GateType): Promise<GateProgress | undefined> {
+    return Array.from(this.gateProgress.values()).find(g => g.userId === userId && g.gateType === gateType);
+  }
+
+  async ensureUserGate(userId: string, gateType: GateType, chapterNumber: number): Promise<GateProgress> {
+    const existing = await this.getUserGate(userId, gateType);
+    if (existing) return existing;
+
+    const now = new Date();
+    const gate: GateProgress = {
+      id: randomUUID(),
+      userId,
+      gateType,
+      chapterNumber,
+      state: 'locked',
+      unlocked: false,
+      completed: false,
+      responses: null,
+      reflections: null,
+      unlockedAt: null,
+      startedAt: null,
+      completedAt: null,
+      score: null,
+      experienceGained: 100,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.gateProgress.set(gate.id, gate);
+    return gate;
+  }
+
+  async transitionGate(id: string, from: GateState, changes: Partial<InsertGateProgress> & { state: GateState }): Promise<GateProgress | undefined> {
+    const existing = this.gateProgress.get(id);
+    if (!existing || existing.state !== from) return undefined;
+
+    const updated: GateProgress = { ...existing, ...definedFields(changes), updatedAt: new Date() };
+    this.gateProgress.set(id, updated);
+    return updated;
+  }
+
+  async getGatePracticeRecords(createdBefore: Date): Promise<DailyPractice[]> {
+    return Array.from(this.dailyPractices.values())
+      .filter(practice => practice.practiceType.startsWith('gate_challenge_') && (practice.createdAt?.getTime() ?? 0) < createdBefore.getTime())
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  async createGateAttempt(attempt: InsertGateAttempt): Promise<GateAttempt> {
+    const created: GateAttempt = {
+      ...definedFields(attempt),
+      id: randomUUID(),
+      userId: attempt.userId,
+      gateType: attempt.gateType,
+      challengeVersion: attempt.challengeVersion,
+      responses: attempt.responses,
+      reflections: attempt.reflections,
+      score: attempt.score,
+      passingScore: attempt.passingScore,
+      passed: attempt.passed,
+      feedback: attempt.feedback,
+      scoredBy: attempt.scoredBy ?? 'rubric',
+      createdAt: new Date(),
+    };
+    this.gateAttempts.set(created.id, created);
+    return created;
+  }
+
+  async getGateAttempts(filters: { userId?: string; gateType?: GateType }, limit: number = 50): Promise<GateAttempt[]> {
+    return newestFirst(Array.from(this.gateAttempts.values())
+      .filter(attempt => (!filters.userId || attempt.userId === filters.userId) && (!filters.gateType || attempt.gateType === filters.gateType)),
+      attempt => attempt.createdAt).slice(0, limit);
+  }
+
+  // XP ledger operations
+  async recordXpAward(entry: InsertXpLedgerEntry): Promise<XpLedgerEntry | undefined> {
+    const duplicate = Array.from(this.xpLedger.values()).some(existing =>
+      existing.userId === entry.userId && existing.source === entry.source && existing.sourceKey === entry.sourceKey
+    );
+    if (duplicate) return undefined;
+
+    const recorded: XpLedgerEntry = {
+      id: randomUUID(),
+      userId: entry.userId,
+      source: entry.source,
+      sourceKey: entry.sourceKey,
+      amount: entry.amount,
+      reason: entry.reason,
+      createdAt: entry.createdAt ?? new Date(),
+    };
+    this.xpLedger.set(recorded.id, recorded);
+    return recorded;
+  }
+
+  async getXpLedger(userId: string, limit: number = 50): Promise<XpLedgerEntry[]> {
+    return newestFirst(
+      Array.from(this.xpLedger.values()).filter(entry => entry.userId === userId),
+      entry => entry.createdAt
+    ).slice(0, limit);
+  }
+
+  async getXpLedgerTotal(userId: string): Promise<{ total: number; entries: number }> {
+    const entries = Array.from(this.xpLedger.values()).filter(entry => entry.userId === userId);
+    return { total: entries.reduce((sum, entry) => sum + entry.amount, 0), entries: entries.length };
+  }
+
+  async addExperience(userId: string, amount: number): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    return this.upsertUser({ experiencePoints: (user.experiencePoints || 0) + amount }, userId);
+  }
+
+  async setExperience(userId: string, experiencePoints: number, level: number): Promise<User | undefined> {
+    if (!this.users.has(userId)) return undefined;
+    return this.upsertUser({ experiencePoints, level }, userId);
+  }
+
+  // Badge operations
+  async getUserBadges(userId: string): Promise<UserBadge[]> {
+    return newestFirst(
+      Array.from(this.userBadges.values()).filter(badge => badge.userId === userId),
+      badge => badge.awardedAt
+    );
+  }
+
+  async awardBadge(badge: InsertUserBadge): Promise<UserBadge | undefined> {
+    const key = `${badge.userId}:${badge.badgeId}`;
+    if (this.userBadges.has(key)) return undefined;
+
+    const awarded: UserBadge = {
+      id: randomUUID(),
+      userId: badge.userId,
+      badgeId: badge.badgeId,
+      awardedAt: badge.awardedAt ?? new Date(),
+    };
+    this.userBadges.set(key, awarded);
+    return awarded;
+  }
+
+  // 360 feedback operations
+  async createFeedbackInvitations(assessmentId: string, respondentIds: string[]): Promise<FeedbackInvitation[]> {
+    const existing = new Set((await this.getFeedbackInvitations(assessmentId)).map(invitation => invitation.respondentId));
+    const created: FeedbackInvitation[] = [];
+
+    for (const respondentId of respondentIds) {
+      if (existing.has(respondentId)) continue;
+      existing.add(respondentId);
+
+      const invitation: FeedbackInvitation = {
+        id: randomUUID(),
+        assessmentId,
+        respondentId,
+        respondedAt: null,
+        createdAt: new Date(),
+      };
+      this.feedbackInvitations.set(invitation.id, invitation);
+      created.push(invitation);
+    }
+    return created;
+  }
+
+  async getFeedbackInvitations(assessmentId: string): Promise<FeedbackInvitation[]> {
+    return Array.from(this.feedbackInvitations.values()).filter(invitation => invitation.assessmentId === assessmentId);
+  }
+
+  async getPendingFeedbackInvitations(respondentId: string): Promise<FeedbackInvitation[]> {
+    return newestFirst(
+      Array.from(this.feedbackInvitations.values())
+        .filter(invitation => invitation.respondentId === respondentId && !invitation.respondedAt),
+      invitation => invitation.createdAt
+    );
+  }
+
+  async recordFeedbackResponse(invitationId: string, responses: Record<string, string>): Promise<FeedbackResponse | undefined> {
+    const invitation = this.feedbackInvitations.get(invitationId);
+    if (!invitation || invitation.respondedAt) return undefined;
+
+    this.feedbackInvitations.set(invitationId, { ...invitation, respondedAt: new Date() });
+    const response: FeedbackResponse = { id: randomUUID(), assessmentId: invitation.assessmentId, responses };
+    this.feedbackResponses.set(response.id, response);
+    return response;
+  }
+
+  async getFeedbackResponses(assessmentId: string): Promise<FeedbackResponse[]> {
+    return Array.from(this.feedbackResponses.values()).filter(response => response.assessmentId === assessmentId);
+  }
+
+  // Data migration bookkeeping
+  async getDataMigration(id: string): Promise<DataMigration | undefined> {
+    return this.dataMigrations.get(id);
+  }
+
+  async recordDataMigration(id: string, affectedRows: number): Promise<void> {
+    if (this.dataMigrations.has(id)) return;
+    this.dataMigrations.set(id, { id, affectedRows, appliedAt: new Date() });
   }
 }
 
-export const storage = new DatabaseStorage();
+export const storage: IStorage = useMemoryStorage ? new MemStorage() : new DatabaseStorage();
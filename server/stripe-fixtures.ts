@@ -0,0 +1,136 @@
+import { randomBytes } from "crypto";
+import { pathToFileURL } from "url";
+import Stripe from "stripe";
+
+// Fixture webhook events for exercising /api/webhooks/stripe without a Stripe account.
+// The server verifies them like real deliveries, so it needs STRIPE_WEBHOOK_SECRET set to the same
+// local secret and any test STRIPE_SECRET_KEY (e.g. sk_test_local).
+//
+//   STRIPE_WEBHOOK_SECRET=whsec_local npm run stripe:fixture -- subscription_updated <userId> pioneer
+//
+// Pass an existing event id as the fourth argument to send a redelivery of it.
+
+export interface StripeFixtureOptions {
+  userId: string;
+  tier?: string;
+  eventId?: string;
+}
+
+export type StripeFixtureName = keyof typeof STRIPE_FIXTURES;
+
+function fixtureId(prefix: string): string {
+  return `${prefix}_fixture_${randomBytes(8).toString('hex')}`;
+}
+
+function fixtureEvent(type: string, object: Record<string, unknown>, eventId?: string) {
+  return {
+    id: eventId || fixtureId('evt'),
+    object: 'event',
+    api_version: '2025-08-27.basil',
+    created: Math.floor(Date.now() / 1000),
+    livemode: false,
+    pending_webhooks: 1,
+    request: { id: null, idempotency_key: null },
+    type,
+    data: { object },
+  };
+}
+
+function fixtureSubscription({ userId, tier = 'pioneer' }: StripeFixtureOptions, status: string) {
+  return {
+    id: fixtureId('sub'),
+    object: 'subscription',
+    customer: fixtureId('cus'),
+    status,
+    metadata: { userId, tier },
+    items: { object: 'list', data: [] },
+  };
+}
+
+function fixtureInvoice({ userId }: StripeFixtureOptions, status: string = 'open') {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    id: fixtureId('in'),
+    object: 'invoice',
+    customer: fixtureId('cus'),
+    subscription: fixtureId('sub'),
+    number: `FIX-${randomBytes(3).toString('hex').toUpperCase()}`,
+    status,
+    currency: 'usd',
+    amount_due: 2900,
+    amount_paid: status === 'paid' ? 2900 : 0,
+    total: 2900,
+    created: now,
+    period_start: now,
+    period_end: now + 30 * 24 * 60 * 60,
+    status_transitions: { paid_at: status === 'paid' ? now : null },
+    metadata: { userId },
+  };
+}
+
+export const STRIPE_FIXTURES = {
+  subscription_created: (options: StripeFixtureOptions) =>
+    fixtureEvent('customer.subscription.created', fixtureSubscription(options, 'active'), options.eventId),
+  subscription_updated: (options: StripeFixtureOptions) =>
+    fixtureEvent('customer.subscription.updated', fixtureSubscription(options, 'active'), options.eventId),
+  subscription_deleted: (options: StripeFixtureOptions) =>
+    fixtureEvent('customer.subscription.deleted', fixtureSubscription(options, 'canceled'), options.eventId),
+  // Looks up the subscription through the Stripe API, so it fails against a test key and lands in the failed ledger
+  invoice_payment_succeeded: (options: StripeFixtureOptions) =>
+    fixtureEvent('invoice.payment_succeeded', fixtureInvoice(options, 'paid'), options.eventId),
+  // Only updates the billing history cache, so it works without Stripe API access
+  invoice_paid: (options: StripeFixtureOptions) =>
+    fixtureEvent('invoice.paid', fixtureInvoice(options, 'paid'), options.eventId),
+  invoice_payment_failed: (options: StripeFixtureOptions) =>
+    fixtureEvent('invoice.payment_failed', fixtureInvoice(options), options.eventId),
+  checkout_session_completed: ({ userId, tier = 'pioneer', eventId }: StripeFixtureOptions) =>
+    fixtureEvent('checkout.session.completed', {
+      id: fixtureId('cs'),
+      object: 'checkout.session',
+      mode: 'subscription',
+      metadata: { userId, tier },
+    }, eventId),
+};
+
+export function isStripeFixture(name: string): name is StripeFixtureName {
+  return name in STRIPE_FIXTURES;
+}
+
+// Serializes a fixture and signs it the way Stripe signs webhook deliveries
+export function signStripeFixture(event: object, secret: string): { payload: string; signature: string } {
+  const payload = JSON.stringify(event);
+  return { payload, signature: Stripe.webhooks.generateTestHeaderString({ payload, secret }) };
+}
+
+async function sendFixture(args: string[]) {
+  const [name, userId, tier, eventId] = args;
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  const url = process.env.STRIPE_WEBHOOK_URL || `http://localhost:${process.env.PORT || '5000'}/api/webhooks/stripe`;
+
+  if (!name || !isStripeFixture(name) || !userId) {
+    console.error(`Usage: stripe-fixtures <${Object.keys(STRIPE_FIXTURES).join('|')}> <userId> [tier] [eventId]`);
+    process.exit(1);
+  }
+
+  if (!secret) {
+    console.error("STRIPE_WEBHOOK_SECRET must be set to the secret the server verifies with");
+    process.exit(1);
+  }
+
+  const event = STRIPE_FIXTURES[name]({ userId, tier, eventId });
+  const { payload, signature } = signStripeFixture(event, secret);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Stripe-Signature': signature },
+    body: payload,
+  });
+
+  console.log(`${event.type} ${event.id} -> ${response.status} ${await response.text()}`);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  sendFixture(process.argv.slice(2)).catch(error => {
+    console.error("Error sending Stripe fixture:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,216 @@
+import { describe, it, before, after, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import type Stripe from "stripe";
+import { storage } from "./storage";
+import { processStripeEvent, replayStripeEvent, hashStripePayload } from "./stripe-webhooks";
+import { STRIPE_FIXTURES, signStripeFixture } from "./stripe-fixtures";
+import { startTestApp, type TestApp } from "./test-app";
+
+function subscriptionEvent(userId: string, tier: string = 'pioneer') {
+  const event = STRIPE_FIXTURES.subscription_updated({ userId, tier }) as unknown as Stripe.Event;
+  return { event, payloadHash: hashStripePayload(JSON.stringify(event)) };
+}
+
+// Fails the next tier update, as a database outage partway through a delivery would
+function failNextUpsert() {
+  mock.method(storage, 'upsertUser', async () => {
+    throw new Error("Database unavailable");
+  }, { times: 1 });
+}
+
+describe("stripe_events ledger", () => {
+  let userId: string;
+
+  beforeEach(async () => {
+    userId = (await storage.createUser({ username: `billing_${Date.now()}` })).id;
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  it("processes a delivery once and ignores its redeliveries", async () => {
+    const { event, payloadHash } = subscriptionEvent(userId);
+    const upserts = mock.method(storage, 'upsertUser');
+
+    const first = await processStripeEvent(event, payloadHash);
+    const again = await processStripeEvent(event, payloadHash);
+
+    assert.equal(first.outcome, 'processed');
+    assert.equal(again.outcome, 'duplicate');
+    assert.equal(upserts.mock.callCount(), 1);
+    assert.equal((await storage.getUser(userId))?.subscriptionTier, 'pioneer');
+
+    const recorded = await storage.getStripeEvent(event.id);
+    assert.equal(recorded?.status, 'processed');
+    assert.equal(recorded?.attempts, 1);
+  });
+
+  it("treats a redelivery with a different payload as the recorded event", async () => {
+    const { event, payloadHash } = subscriptionEvent(userId, 'pioneer');
+    await processStripeEvent(event, payloadHash);
+
+    const tampered = { ...event, data: { object: { ...event.data.object, metadata: { userId, tier: 'visionary' } } } } as Stripe.Event;
+    const result = await processStripeEvent(tampered, hashStripePayload(JSON.stringify(tampered)));
+
+    assert.equal(result.outcome, 'duplicate');
+    assert.equal((await storage.getUser(userId))?.subscriptionTier, 'pioneer');
+  });
+
+  it("records a failed delivery and retries it when Stripe redelivers", async () => {
+    const { event, payloadHash } = subscriptionEvent(userId);
+    failNextUpsert();
+
+    const failed = await processStripeEvent(event, payloadHash);
+    assert.equal(failed.outcome, 'failed');
+    assert.equal(failed.error, "Database unavailable");
+    assert.equal(failed.event.status, 'failed');
+    assert.equal(failed.event.lastError, "Database unavailable");
+
+    const retried = await processStripeEvent(event, payloadHash);
+    assert.equal(retried.outcome, 'processed');
+    assert.equal(retried.event.attempts, 2);
+    assert.equal(retried.event.lastError, null);
+    assert.equal((await storage.getUser(userId))?.subscriptionTier, 'pioneer');
+  });
+
+  it("reports a delivery that is still being processed as in progress", async () => {
+    const { event, payloadHash } = subscriptionEvent(userId);
+    // Recorded by another instance that has not finished it yet
+    await storage.recordStripeEvent({ id: event.id, type: event.type, payloadHash, payload: event });
+    const upserts = mock.method(storage, 'upsertUser');
+
+    assert.equal((await processStripeEvent(event, payloadHash)).outcome, 'in_progress');
+    assert.equal((await replayStripeEvent(event.id))?.outcome, 'in_progress');
+    assert.equal(upserts.mock.callCount(), 0);
+  });
+
+  it("retries a delivery whose processing stalled", async () => {
+    const { event, payloadHash } = subscriptionEvent(userId);
+    const recorded = await storage.recordStripeEvent({ id: event.id, type: event.type, payloadHash, payload: event });
+    // Backdate the claim as if its instance died mid-processing
+    recorded!.updatedAt = new Date(Date.now() - 10 * 60 * 1000);
+
+    const result = await processStripeEvent(event, payloadHash);
+
+    assert.equal(result.outcome, 'processed');
+    assert.equal(result.event.attempts, 2);
+  });
+
+  describe("replayStripeEvent", () => {
+    it("re-runs a failed event from its recorded payload", async () => {
+      const { event, payloadHash } = subscriptionEvent(userId);
+      failNextUpsert();
+      await processStripeEvent(event, payloadHash);
+
+      const replayed = await replayStripeEvent(event.id);
+
+      assert.equal(replayed?.outcome, 'processed');
+      assert.equal(replayed?.event.attempts, 2);
+      assert.equal((await storage.getUser(userId))?.subscriptionTier, 'pioneer');
+    });
+
+    it("does not re-run a processed event", async () => {
+      const { event, payloadHash } = subscriptionEvent(userId);
+      await processStripeEvent(event, payloadHash);
+      const upserts = mock.method(storage, 'upsertUser');
+
+      const replayed = await replayStripeEvent(event.id);
+
+      assert.equal(replayed?.outcome, 'duplicate');
+      assert.equal(replayed?.event.attempts, 1);
+      assert.equal(upserts.mock.callCount(), 0);
+    });
+
+    it("returns nothing for an event that was never recorded", async () => {
+      assert.equal(await replayStripeEvent('evt_unknown'), undefined);
+    });
+  });
+});
+
+describe("POST /api/webhooks/stripe", () => {
+  const secret = 'whsec_local';
+  let app: TestApp;
+  let userId: string;
+
+  function deliver(payload: string, signature: string) {
+    return fetch(`${app.baseUrl}/api/webhooks/stripe`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'stripe-signature': signature },
+      body: payload,
+    });
+  }
+
+  before(async () => {
+    process.env.STRIPE_WEBHOOK_SECRET = secret;
+    app = await startTestApp();
+  });
+
+  after(() => app.close());
+
+  beforeEach(async () => {
+    userId = (await storage.createUser({ username: `webhook_${Date.now()}` })).id;
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  it("processes a signed delivery once and ignores its redelivery", async () => {
+    const event = STRIPE_FIXTURES.subscription_updated({ userId, tier: 'pioneer' });
+    const { payload, signature } = signStripeFixture(event, secret);
+    const upserts = mock.method(storage, 'upsertUser');
+
+    const first = await deliver(payload, signature);
+    assert.equal(first.status, 200);
+    assert.equal((await first.json()).eventId, event.id);
+
+    // Stripe signs each redelivery afresh
+    const again = await deliver(payload, signStripeFixture(event, secret).signature);
+    assert.equal(again.status, 200);
+    assert.equal((await again.json()).status, 'duplicate_ignored');
+
+    assert.equal(upserts.mock.callCount(), 1);
+    assert.equal((await storage.getUser(userId))?.subscriptionTier, 'pioneer');
+    assert.equal((await storage.getStripeEvent(event.id))?.status, 'processed');
+  });
+
+  it("answers a failed delivery with a 500 so Stripe redelivers it", async () => {
+    const event = STRIPE_FIXTURES.subscription_updated({ userId, tier: 'pioneer' });
+    const { payload, signature } = signStripeFixture(event, secret);
+    failNextUpsert();
+
+    assert.equal((await deliver(payload, signature)).status, 500);
+    assert.equal((await deliver(payload, signature)).status, 200);
+    assert.equal((await storage.getStripeEvent(event.id))?.attempts, 2);
+  });
+
+  it("rejects a payload signed with another secret", async () => {
+    const event = STRIPE_FIXTURES.subscription_updated({ userId, tier: 'visionary' });
+    const { payload, signature } = signStripeFixture(event, 'whsec_other');
+
+    const response = await deliver(payload, signature);
+
+    assert.equal(response.status, 400);
+    assert.equal(await storage.getStripeEvent(event.id), undefined);
+    assert.equal((await storage.getUser(userId))?.subscriptionTier, 'seeker');
+  });
+
+  it("rejects a payload changed after signing", async () => {
+    const event = STRIPE_FIXTURES.subscription_updated({ userId, tier: 'pioneer' });
+    const { signature } = signStripeFixture(event, secret);
+    const tampered = JSON.stringify({ ...event, data: { object: { ...event.data.object, metadata: { userId, tier: 'visionary' } } } });
+
+    const response = await deliver(tampered, signature);
+
+    assert.equal(response.status, 400);
+    assert.equal(await storage.getStripeEvent(event.id), undefined);
+  });
+
+  it("rejects a delivery without a signature", async () => {
+    const event = STRIPE_FIXTURES.subscription_updated({ userId });
+    const response = await fetch(`${app.baseUrl}/api/webhooks/stripe`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(event),
+    });
+
+    assert.equal(response.status, 400);
+  });
+});
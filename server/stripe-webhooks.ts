@@ -0,0 +1,350 @@
+import { createHash } from "crypto";
+import type Stripe from "stripe";
+import type { StripeEvent, User } from "@shared/schema";
+import { storage } from "./storage";
+import { stripe, logSecurityEvent } from "./stripe";
+import { SUBSCRIPTION_TIERS, validateSubscriptionTier } from "./subscription-tiers";
+import { syncOrganizationSubscription } from "./organization-billing";
+import { invoiceRecord } from "./billing-history";
+import { getBillingStatus, hasPaidAccess, recordPaymentFailed, recordPaymentSucceeded, recordSubscriptionCanceled } from "./dunning";
+
+// A delivery stuck in 'processing' this long is assumed to have died with its instance and may be retried
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+// Invoice lifecycle events that update the billing history cache
+const CACHED_INVOICE_EVENTS = [
+  'invoice.created',
+  'invoice.finalized',
+  'invoice.updated',
+  'invoice.paid',
+  'invoice.payment_succeeded',
+  'invoice.payment_failed',
+  'invoice.voided',
+  'invoice.marked_uncollectible',
+];
+
+export type StripeEventOutcome = 'processed' | 'duplicate' | 'in_progress' | 'failed';
+
+export interface StripeEventResult {
+  outcome: StripeEventOutcome;
+  event: StripeEvent;
+  error?: string;
+}
+
+export function hashStripePayload(payload: Buffer | string): string {
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+// Webhook helper functions
+async function handleSubscriptionUpdate(subscription: Stripe.Subscription, eventType: string) {
+  if (subscription.metadata?.organizationId) {
+    return syncOrganizationSubscription(subscription);
+  }
+
+  const userId = subscription.metadata?.userId;
+  const tier = subscription.metadata?.tier;
+
+  if (!userId) {
+    console.error(`No userId in subscription metadata: ${subscription.id}`);
+    return;
+  }
+
+  const user = await storage.getUser(userId);
+  if (!user) {
+    console.error(`User not found for subscription: ${userId}`);
+    return;
+  }
+
+  // Determine tier from subscription
+  let subscriptionTier: 'seeker' | 'pioneer' | 'visionary' = 'seeker';
+
+  if (tier && validateSubscriptionTier(tier)) {
+    subscriptionTier = tier;
+  } else {
+    // Fallback: determine tier from price
+    const price = subscription.items.data[0]?.price;
+    if (price) {
+      for (const [tierKey, tierData] of Object.entries(SUBSCRIPTION_TIERS)) {
+        if (tierData.priceId === price.id) {
+          subscriptionTier = tierKey as any;
+          break;
+        }
+      }
+    }
+  }
+
+  // A new subscription after a cancellation starts a clean billing cycle
+  const isPaying = subscription.status === 'active' || subscription.status === 'trialing';
+  const current = getBillingStatus(user) === 'canceled' && isPaying ? await recordPaymentSucceeded(user) : user;
+
+  // Suspended accounts stay on the free tier until an invoice payment succeeds
+  if (!hasPaidAccess(current)) {
+    subscriptionTier = 'seeker';
+  }
+
+  // Update user subscription status
+  await storage.upsertUser({
+    subscriptionTier,
+    stripeCustomerId: subscription.customer as string,
+    stripeSubscriptionId: subscription.id,
+  }, userId);
+
+  console.log(`Updated user ${userId} subscription to ${subscriptionTier} tier (${eventType})`);
+}
+
+async function handleSubscriptionCancellation(subscription: Stripe.Subscription) {
+  if (subscription.metadata?.organizationId) {
+    return syncOrganizationSubscription(subscription, true);
+  }
+
+  const userId = subscription.metadata?.userId;
+
+  if (!userId) {
+    console.error(`No userId in subscription metadata: ${subscription.id}`);
+    return;
+  }
+
+  const user = await storage.getUser(userId);
+  if (user) {
+    await recordSubscriptionCanceled(user);
+  }
+
+  // Downgrade user to free tier
+  await storage.upsertUser({
+    subscriptionTier: 'seeker',
+    stripeSubscriptionId: null,
+  }, userId);
+
+  console.log(`Downgraded user ${userId} to Seeker tier due to subscription cancellation`);
+}
+
+// Invoices carry the user in their own metadata, the subscription snapshot, or only via the Stripe customer
+async function resolveInvoiceUser(invoice: Stripe.Invoice): Promise<User | undefined> {
+  const userId = invoice.metadata?.userId || invoice.parent?.subscription_details?.metadata?.userId;
+  if (userId) {
+    return storage.getUser(userId);
+  }
+
+  const customerId = typeof invoice.customer === 'string' ? invoice.customer : invoice.customer?.id;
+  return customerId ? storage.getUserByStripeCustomerId(customerId) : undefined;
+}
+
+function invoiceSubscriptionId(invoice: Stripe.Invoice): string | undefined {
+  const subscription = (invoice as any).subscription ?? invoice.parent?.subscription_details?.subscription;
+  return typeof subscription === 'string' ? subscription : subscription?.id;
+}
+
+// Keeps the local invoice cache behind billing history current; organization invoices are not cached
+async function handleInvoiceSync(invoice: Stripe.Invoice, syncedAt: Date) {
+  if (!invoice.id || invoice.parent?.subscription_details?.metadata?.organizationId) {
+    return;
+  }
+
+  const user = await resolveInvoiceUser(invoice);
+  if (!user) {
+    console.log(`No user found for invoice ${invoice.id}, not caching it`);
+    return;
+  }
+
+  const saved = await storage.saveInvoice(invoiceRecord(invoice as Stripe.Invoice & { id: string }, user.id, syncedAt));
+  if (!saved) {
+    console.log(`Skipping stale update for invoice ${invoice.id}`);
+  }
+}
+
+async function handlePaymentSuccess(invoice: Stripe.Invoice) {
+  const subscription = invoiceSubscriptionId(invoice);
+
+  if (!subscription) {
+    console.log("Invoice not associated with subscription, skipping");
+    return;
+  }
+
+  if (!stripe) {
+    throw new Error("Stripe not configured");
+  }
+
+  // Retrieve full subscription details
+  const fullSubscription = await stripe.subscriptions.retrieve(subscription);
+
+  // Clear dunning first so the subscription update restores the paid tier of a suspended account
+  const user = fullSubscription.metadata?.organizationId ? undefined : await resolveInvoiceUser(invoice);
+  if (user) {
+    await recordPaymentSucceeded(user);
+  }
+
+  await handleSubscriptionUpdate(fullSubscription, 'payment_succeeded');
+
+  console.log(`Payment successful for subscription: ${subscription}`);
+}
+
+async function handlePaymentFailure(invoice: Stripe.Invoice, failedAt: Date) {
+  const subscription = invoiceSubscriptionId(invoice);
+
+  if (!subscription) {
+    console.log("Invoice not associated with subscription, skipping");
+    return;
+  }
+
+  console.log(`Payment failed for subscription: ${subscription}`);
+
+  // Organization plans follow Stripe's subscription status through customer.subscription.updated
+  if (invoice.parent?.subscription_details?.metadata?.organizationId) {
+    return;
+  }
+
+  const user = await resolveInvoiceUser(invoice);
+  if (!user) {
+    console.error(`No user found for failed invoice: ${invoice.id}`);
+    return;
+  }
+
+  await recordPaymentFailed(user, failedAt);
+}
+
+async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
+  const userId = session.metadata?.userId;
+  const tier = session.metadata?.tier;
+
+  if (!userId || !tier) {
+    console.error(`Missing metadata in checkout session: ${session.id}`);
+    return;
+  }
+
+  if (validateSubscriptionTier(tier)) {
+    const user = await storage.getUser(userId);
+    // Checking out pays up front, which also settles a suspended account
+    if (user && !hasPaidAccess(user)) {
+      await recordPaymentSucceeded(user);
+    }
+
+    await storage.upsertUser({
+      subscriptionTier: tier,
+    }, userId);
+
+    console.log(`Checkout completed for user ${userId}, tier: ${tier}`);
+  }
+}
+
+// Applies an event's side effects. Handlers only set state, so running one twice leaves the same result.
+async function dispatchStripeEvent(event: Stripe.Event) {
+  // Invoice events refresh the cached copy; the payment ones also drive tiers and dunning below
+  if (CACHED_INVOICE_EVENTS.includes(event.type)) {
+    await handleInvoiceSync(event.data.object as Stripe.Invoice, new Date(event.created * 1000));
+  }
+
+  switch (event.type) {
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+      await handleSubscriptionUpdate(event.data.object, event.type);
+      break;
+
+    case 'customer.subscription.deleted':
+      await handleSubscriptionCancellation(event.data.object);
+      break;
+
+    case 'invoice.payment_succeeded':
+      await handlePaymentSuccess(event.data.object);
+      break;
+
+    case 'invoice.payment_failed':
+      // Dunning dates start from Stripe's event time, so redeliveries and replays do not shift them
+      await handlePaymentFailure(event.data.object, new Date(event.created * 1000));
+      break;
+
+    case 'invoice.created':
+    case 'invoice.finalized':
+    case 'invoice.updated':
+    case 'invoice.paid':
+    case 'invoice.voided':
+    case 'invoice.marked_uncollectible':
+      // Cached above
+      break;
+
+    case 'checkout.session.completed':
+      await handleCheckoutCompleted(event.data.object);
+      break;
+
+    default:
+      console.log(`Unhandled webhook event type: ${event.type}`);
+  }
+}
+
+// Runs a claimed event and records the result on its ledger row
+async function runClaimedEvent(claimed: StripeEvent): Promise<StripeEventResult> {
+  const event = claimed.payload as Stripe.Event;
+  logSecurityEvent('WEBHOOK_PROCESSING', { eventType: event.type, eventId: event.id, attempt: claimed.attempts });
+
+  try {
+    await dispatchStripeEvent(event);
+    const processed = await storage.completeStripeEvent(claimed.id, 'processed');
+    logSecurityEvent('WEBHOOK_SUCCESS', { eventType: event.type, eventId: event.id });
+    return { outcome: 'processed', event: processed };
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    const failed = await storage.completeStripeEvent(claimed.id, 'failed', message);
+    logSecurityEvent('WEBHOOK_PROCESSING_ERROR', {
+      eventType: event.type,
+      eventId: event.id,
+      attempt: claimed.attempts,
+      error: message,
+      stack: error?.stack?.substring(0, 500) // Log partial stack for debugging
+    }, false);
+    return { outcome: 'failed', event: failed, error: message };
+  }
+}
+
+// Records a verified webhook delivery in the stripe_events ledger and processes it at most once.
+// Redeliveries of a processed event are duplicates; redeliveries of a failed one retry it.
+export async function processStripeEvent(event: Stripe.Event, payloadHash: string): Promise<StripeEventResult> {
+  const recorded = await storage.recordStripeEvent({
+    id: event.id,
+    type: event.type,
+    payloadHash,
+    payload: event,
+  });
+  if (recorded) {
+    return runClaimedEvent(recorded);
+  }
+
+  const existing = await storage.getStripeEvent(event.id);
+  if (!existing) {
+    throw new Error(`Stripe event ${event.id} could not be recorded`);
+  }
+
+  if (existing.payloadHash !== payloadHash) {
+    logSecurityEvent('WEBHOOK_PAYLOAD_MISMATCH', { eventId: event.id, eventType: event.type }, false);
+  }
+
+  if (existing.status === 'processed') {
+    logSecurityEvent('WEBHOOK_DUPLICATE_IGNORED', { eventId: event.id, eventType: event.type });
+    return { outcome: 'duplicate', event: existing };
+  }
+
+  const claimed = await storage.claimStripeEvent(event.id, new Date(Date.now() - STALE_PROCESSING_MS));
+  if (!claimed) {
+    // Another delivery is processing it right now, or just finished
+    const current = await storage.getStripeEvent(event.id) ?? existing;
+    return { outcome: current.status === 'processed' ? 'duplicate' : 'in_progress', event: current };
+  }
+
+  return runClaimedEvent(claimed);
+}
+
+// Re-runs a stored event from its recorded payload, for failed events or ones whose processing stalled
+export async function replayStripeEvent(eventId: string): Promise<StripeEventResult | undefined> {
+  const existing = await storage.getStripeEvent(eventId);
+  if (!existing) return undefined;
+
+  if (existing.status === 'processed') {
+    return { outcome: 'duplicate', event: existing };
+  }
+
+  const claimed = await storage.claimStripeEvent(eventId, new Date(Date.now() - STALE_PROCESSING_MS));
+  if (!claimed) {
+    return { outcome: 'in_progress', event: existing };
+  }
+
+  logSecurityEvent('WEBHOOK_REPLAY', { eventId, eventType: existing.type, attempt: claimed.attempts });
+  return runClaimedEvent(claimed);
+}
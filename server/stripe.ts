@@ -0,0 +1,13 @@
+import Stripe from "stripe";
+
+// Enhanced Stripe configuration for biblical leadership tiers
+export const stripe = process.env.STRIPE_SECRET_KEY ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+  apiVersion: "2025-08-27.basil",
+}) : null;
+
+// Security logging function
+export function logSecurityEvent(event: string, details: any, isSuccess = true) {
+  const timestamp = new Date().toISOString();
+  const logLevel = isSuccess ? 'INFO' : 'WARN';
+  console.log(`[${logLevel}] [${timestamp}] STRIPE_SECURITY: ${event}`, JSON.stringify(details, null, 2));
+}
@@ -0,0 +1,67 @@
+// Reads a numeric quota override such as PIONEER_AI_DAILY_REQUESTS, keeping the default when unset
+function quotaFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Biblical Leadership Subscription Tiers with Stripe Price IDs
+export const SUBSCRIPTION_TIERS = {
+  seeker: {
+    name: "Seeker",
+    price: 0,
+    interval: "month",
+    priceId: process.env.STRIPE_SEEKER_PRICE_ID || null, // Free tier, no Stripe needed
+    features: [
+      "Access to first 5 biblical chapters",
+      "Basic archetype assessment",
+      "Community access"
+    ],
+    // AI coaching is not part of the free tier
+    aiQuota: {
+      dailyRequests: quotaFromEnv('SEEKER_AI_DAILY_REQUESTS', 0),
+      dailyTokens: quotaFromEnv('SEEKER_AI_DAILY_TOKENS', 0),
+    }
+  },
+  pioneer: {
+    name: "Pioneer",
+    price: 4500, // $45.00 in cents
+    interval: "month",
+    priceId: process.env.STRIPE_PIONEER_PRICE_ID || "price_pioneer_default",
+    features: [
+      "Full 27-chapter biblical framework access",
+      "AI biblical coaching with Claude",
+      "Advanced progress tracking",
+      "Team formation tools",
+      "Frequency meditation guides"
+    ],
+    aiQuota: {
+      dailyRequests: quotaFromEnv('PIONEER_AI_DAILY_REQUESTS', 50),
+      dailyTokens: quotaFromEnv('PIONEER_AI_DAILY_TOKENS', 100_000),
+    }
+  },
+  visionary: {
+    name: "Visionary",
+    price: 9900, // $99.00 in cents
+    interval: "month",
+    priceId: process.env.STRIPE_VISIONARY_PRICE_ID || "price_visionary_default",
+    features: [
+      "Everything in Pioneer tier",
+      "Advanced analytics and insights",
+      "Multi-generational team optimization",
+      "Custom organizational assessments",
+      "Priority coaching and support",
+      "Early access to new features"
+    ],
+    aiQuota: {
+      dailyRequests: quotaFromEnv('VISIONARY_AI_DAILY_REQUESTS', 200),
+      dailyTokens: quotaFromEnv('VISIONARY_AI_DAILY_TOKENS', 500_000),
+    }
+  }
+} as const;
+
+export type SubscriptionTier = keyof typeof SUBSCRIPTION_TIERS;
+
+// Helper function to validate subscription tier
+export function validateSubscriptionTier(tier: string): tier is SubscriptionTier {
+  return tier in SUBSCRIPTION_TIERS;
+}
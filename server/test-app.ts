@@ -0,0 +1,70 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+// Route tests run the real routes over HTTP against the memory driver (see the npm test script)
+
+// body is the parsed JSON reply, or the raw text when it is not JSON
+export interface TestResponse {
+  status: number;
+  body: any;
+  headers: Headers;
+}
+
+export interface TestApp {
+  baseUrl: string;
+  // Signs in one of the seeded demo accounts and returns its session cookie
+  login(username: string): Promise<{ userId: string; cookie: string }>;
+  request(method: string, path: string, cookie?: string, body?: unknown): Promise<TestResponse>;
+  close(): Promise<void>;
+}
+
+export async function startTestApp(): Promise<TestApp> {
+  const app = express();
+  // Parsed as in index.ts: webhook signatures are checked against the raw body
+  app.use('/api/webhooks/stripe', express.raw({ type: 'application/json' }));
+  app.use(express.json());
+  const server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  async function request(method: string, path: string, cookie?: string, body?: unknown): Promise<TestResponse> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(cookie ? { cookie } : {}),
+        ...(body !== undefined ? { 'content-type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const text = await response.text();
+    let parsed: any = text;
+    try {
+      parsed = JSON.parse(text);
+    } catch {}
+    return { status: response.status, body: parsed, headers: response.headers };
+  }
+
+  return {
+    baseUrl,
+    async login(username: string) {
+      const response = await request('POST', '/api/auth/demo-login', undefined, { username, password: 'demo123' });
+      if (response.status !== 200) throw new Error(`Demo login failed for ${username}: ${response.status}`);
+      const cookie = response.headers.get('set-cookie')!.split(';')[0];
+      return { userId: response.body.user.id, cookie };
+    },
+    request,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve())),
+  };
+}
+
+// An organization whose members are the given users, each made current in it
+export async function createTestOrganization(members: Record<string, 'owner' | 'admin' | 'leader' | 'member' | 'observer'>) {
+  const organization = await storage.createOrganization({ name: `Test org ${Date.now()}`, type: 'smb' });
+  for (const [userId, role] of Object.entries(members)) {
+    await storage.addOrganizationMember(organization.id, userId, role);
+    await storage.upsertUser({ organizationId: organization.id }, userId);
+  }
+  return organization;
+}
@@ -0,0 +1,120 @@
+import { describe, it, before, after, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { SUBSCRIPTION_TIERS } from "./subscription-tiers";
+import { reserveAiUsage, getQuotaStatus, usageDay } from "./usage";
+import { LocalCoachingProvider } from "./local-coach";
+import type { GuidanceStreamOptions } from "./coaching";
+import { startTestApp, type TestApp } from "./test-app";
+
+async function quotaUsed(userId: string) {
+  return (await getQuotaStatus((await storage.getUser(userId))!)).used;
+}
+
+// Settling writes in the background once the stream ends
+async function eventually(check: () => Promise<boolean>) {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (await check()) return;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  assert.fail("Timed out waiting for the AI usage to settle");
+}
+
+describe("reserveAiUsage", () => {
+  it("never hands out more requests than the daily quota, however many arrive at once", async () => {
+    const user = await storage.createUser({ username: `quota_${Date.now()}`, subscriptionTier: 'pioneer' });
+    const limit = SUBSCRIPTION_TIERS.pioneer.aiQuota.dailyRequests;
+
+    const reservations = await Promise.all(Array.from({ length: limit + 5 }, () => reserveAiUsage(user, 'chat')));
+    const granted = reservations.filter(reservation => !('error' in reservation));
+    const refused = reservations.filter(reservation => 'error' in reservation && reservation.error === 'quota_reached');
+
+    assert.equal(granted.length, limit);
+    assert.equal(refused.length, 5);
+    assert.equal((await getQuotaStatus(user)).remaining.requests, 0);
+  });
+
+  it("hands a failed request back and records a successful one with its tokens", async () => {
+    const user = await storage.createUser({ username: `settle_${Date.now()}`, subscriptionTier: 'pioneer' });
+
+    const failed = await reserveAiUsage(user, 'chat');
+    assert.ok(!('error' in failed));
+    failed.settle(false);
+
+    const succeeded = await reserveAiUsage(user, 'chat');
+    assert.ok(!('error' in succeeded));
+    succeeded.onUsage({ inputTokens: 120, outputTokens: 30 });
+    succeeded.settle(true);
+    await new Promise(resolve => setImmediate(resolve));
+
+    const status = await getQuotaStatus(user);
+    assert.equal(status.used.requests, 1);
+    assert.equal(status.used.tokens, 150);
+    const [usage] = await storage.getUserAiUsage(user.id, usageDay());
+    assert.equal(usage.requests, 1);
+  });
+
+  it("refuses tiers without AI coaching", async () => {
+    const user = await storage.createUser({ username: `seeker_${Date.now()}`, subscriptionTier: 'seeker' });
+    const reservation = await reserveAiUsage(user, 'chat');
+    assert.ok('error' in reservation && reservation.error === 'not_included');
+  });
+});
+
+describe("meterAiUsage on event streams", () => {
+  let app: TestApp;
+
+  function openInsightStream(cookie: string, signal?: AbortSignal) {
+    return fetch(`${app.baseUrl}/api/claude/leadership-insight/stream`, {
+      method: 'POST',
+      headers: { cookie, 'content-type': 'application/json' },
+      body: JSON.stringify({ query: "How do I start?" }),
+      signal,
+    });
+  }
+
+  before(async () => {
+    // The streams below fake the local coach's replies, whatever provider the environment configures
+    process.env.COACHING_PROVIDER = 'local';
+    app = await startTestApp();
+  });
+
+  after(() => app.close());
+
+  afterEach(() => mock.restoreAll());
+
+  it("hands back the request of a stream that fails after it opened", async () => {
+    const { userId, cookie } = await app.login('pioneer_demo');
+    const original = await quotaUsed(userId);
+    mock.method(LocalCoachingProvider.prototype, 'streamGuidance', async (_message: string, _context: unknown, _history: unknown, { onText }: GuidanceStreamOptions) => {
+      onText("Lead ");
+      throw new Error("Upstream failed");
+    });
+
+    const response = await openInsightStream(cookie);
+    assert.equal(response.status, 200);
+    assert.match(await response.text(), /event: error/);
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.deepEqual(await quotaUsed(userId), original);
+  });
+
+  it("records the request and the tokens of a stream the client cancels", async () => {
+    const { userId, cookie } = await app.login('organizer_demo');
+    const original = await quotaUsed(userId);
+    mock.method(LocalCoachingProvider.prototype, 'streamGuidance', async function (this: any, _message: string, _context: unknown, _history: unknown, { onText, signal }: GuidanceStreamOptions) {
+      onText("Lead ");
+      await new Promise(resolve => signal!.addEventListener('abort', resolve));
+      this.onUsage?.({ inputTokens: 40, outputTokens: 2 });
+      throw new Error("Request was aborted.");
+    });
+
+    const controller = new AbortController();
+    const response = await openInsightStream(cookie, controller.signal);
+    await response.body!.getReader().read();
+    controller.abort();
+
+    await eventually(async () => (await quotaUsed(userId)).tokens === original.tokens + 42);
+    assert.equal((await quotaUsed(userId)).requests, original.requests + 1);
+  });
+});
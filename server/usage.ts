@@ -0,0 +1,195 @@
+import type { RequestHandler, Response } from "express";
+import type { AiUsage, User } from "@shared/schema";
+import { storage } from "./storage";
+import { getRequestUserId } from "./authorization";
+import { SUBSCRIPTION_TIERS, validateSubscriptionTier, type SubscriptionTier } from "./subscription-tiers";
+import type { UsageListener } from "./coaching";
+
+export type AiFeature = 'chat' | 'leadership_insight' | 'archetype_analysis' | 'meditation' | 'reflection_questions' | 'gate_grading';
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface QuotaStatus {
+  tier: SubscriptionTier;
+  limits: { dailyRequests: number; dailyTokens: number };
+  used: { requests: number; tokens: number };
+  remaining: { requests: number; tokens: number };
+  resetsAt: string;
+}
+
+// Quotas reset at midnight UTC, so usage is bucketed by UTC date
+export function usageDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function usageDaysAgo(days: number): string {
+  return usageDay(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+}
+
+function nextQuotaReset(): Date {
+  const reset = new Date();
+  reset.setUTCHours(24, 0, 0, 0);
+  return reset;
+}
+
+// Personal tier or organization seat tier, whichever is higher
+export async function getUserTier(user: User): Promise<SubscriptionTier> {
+  const tier = await storage.getEffectiveSubscriptionTier(user.id);
+  return validateSubscriptionTier(tier) ? tier : 'seeker';
+}
+
+export function summarizeUsage(rows: AiUsage[]): UsageTotals {
+  const totals = { requests: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+  for (const row of rows) {
+    totals.requests += row.requests;
+    totals.inputTokens += row.inputTokens;
+    totals.outputTokens += row.outputTokens;
+  }
+  totals.totalTokens = totals.inputTokens + totals.outputTokens;
+  return totals;
+}
+
+// Groups usage rows by a key, e.g. per day, per feature or per user
+export function groupUsage(rows: AiUsage[], keyOf: (row: AiUsage) => string): (UsageTotals & { key: string })[] {
+  const groups = new Map<string, AiUsage[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+  return Array.from(groups, ([key, group]) => ({ key, ...summarizeUsage(group) }));
+}
+
+// Reads the quota counter, so requests that are still running already count as used
+export async function getQuotaStatus(user: User): Promise<QuotaStatus> {
+  const tier = await getUserTier(user);
+  const limits = SUBSCRIPTION_TIERS[tier].aiQuota;
+  const today = await storage.getAiQuotaCounter(user.id, usageDay());
+  const used = { requests: today?.requests ?? 0, tokens: today?.tokens ?? 0 };
+
+  return {
+    tier,
+    limits: { ...limits },
+    used,
+    remaining: {
+      requests: Math.max(0, limits.dailyRequests - used.requests),
+      tokens: Math.max(0, limits.dailyTokens - used.tokens),
+    },
+    resetsAt: nextQuotaReset().toISOString(),
+  };
+}
+
+export interface AiReservation {
+  status: QuotaStatus; // as of the reservation, counting it
+  onUsage: UsageListener;
+  // Records the request and its tokens, or hands the request back to the quota when it failed
+  settle(succeeded: boolean): void;
+}
+
+export type AiReservationResult = AiReservation | { error: 'not_included' | 'quota_reached'; status: QuotaStatus };
+
+// Takes one request from the user's daily quota before the model is called. The check and the
+// increment are one conditional statement, so concurrent requests cannot both take the last one.
+export async function reserveAiUsage(user: User, feature: AiFeature): Promise<AiReservationResult> {
+  const status = await getQuotaStatus(user);
+  if (status.limits.dailyRequests === 0) return { error: 'not_included', status };
+
+  const day = usageDay();
+  const counter = await storage.reserveAiRequest(user.id, day, status.limits);
+  if (!counter) return { error: 'quota_reached', status: await getQuotaStatus(user) };
+
+  const tokens = { inputTokens: 0, outputTokens: 0 };
+  let settled = false;
+
+  return {
+    status: {
+      ...status,
+      used: { requests: counter.requests, tokens: counter.tokens },
+      remaining: {
+        requests: Math.max(0, status.limits.dailyRequests - counter.requests),
+        tokens: Math.max(0, status.limits.dailyTokens - counter.tokens),
+      },
+    },
+    onUsage: (usage) => {
+      tokens.inputTokens += usage.inputTokens;
+      tokens.outputTokens += usage.outputTokens;
+    },
+    settle: (succeeded) => {
+      if (settled) return;
+      settled = true;
+
+      const recorded = succeeded
+        ? storage.recordAiUsage({ userId: user.id, organizationId: user.organizationId, day, feature, requests: 1, ...tokens })
+        : Promise.resolve();
+      Promise.all([recorded, storage.settleAiRequest(user.id, day, tokens.inputTokens + tokens.outputTokens, !succeeded)])
+        .catch(error => console.error("Error recording AI usage:", error));
+    },
+  };
+}
+
+function setQuotaHeaders(res: Response, status: QuotaStatus, requestsRemaining: number) {
+  res.setHeader('X-AI-Requests-Limit', status.limits.dailyRequests);
+  res.setHeader('X-AI-Requests-Remaining', requestsRemaining);
+  res.setHeader('X-AI-Tokens-Limit', status.limits.dailyTokens);
+  res.setHeader('X-AI-Tokens-Remaining', status.remaining.tokens);
+  res.setHeader('X-AI-Quota-Reset', status.resetsAt);
+}
+
+// Enforces the caller's daily AI quota and records the request and its tokens once the response ends;
+// failed responses hand their request back.
+// Routes pass req.aiUsage to getCoachingProvider so providers can report token counts. Event streams
+// answer 200 before the model runs, so streaming routes call req.settleAiStream() when they open
+// the stream and settle from its outcome instead of the status code.
+export function meterAiUsage(feature: AiFeature): RequestHandler {
+  return async (req: any, res, next) => {
+    try {
+      const userId = getRequestUserId(req);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const reservation = await reserveAiUsage(user, feature);
+      if ('error' in reservation) {
+        const { status } = reservation;
+        if (reservation.error === 'not_included') {
+          setQuotaHeaders(res, status, 0);
+          return res.status(402).json({
+            message: `AI coaching is not included in the ${SUBSCRIPTION_TIERS[status.tier].name} tier`,
+            tier: status.tier,
+            upgradeUrl: '/subscribe',
+          });
+        }
+
+        setQuotaHeaders(res, status, status.remaining.requests);
+        res.setHeader('Retry-After', Math.ceil((Date.parse(status.resetsAt) - Date.now()) / 1000));
+        return res.status(429).json({
+          message: "Daily AI coaching quota reached",
+          tier: status.tier,
+          resetsAt: status.resetsAt,
+        });
+      }
+
+      // This request counts against the quota it reports
+      setQuotaHeaders(res, reservation.status, reservation.status.remaining.requests);
+      let streaming = false;
+      req.aiUsage = reservation.onUsage;
+      req.settleAiStream = () => {
+        streaming = true;
+        return reservation.settle;
+      };
+      res.on('close', () => {
+        if (!streaming) reservation.settle(res.statusCode < 400);
+      });
+
+      next();
+    } catch (error) {
+      console.error("Error checking AI quota:", error);
+      res.status(500).json({ message: "Failed to check AI quota" });
+    }
+  };
+}
@@ -0,0 +1,90 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { awardPracticeXp, getXpRules } from "./xp";
+import { startTestApp, type TestApp } from "./test-app";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number): Date {
+  return new Date(Date.now() - days * DAY_MS);
+}
+
+async function completePractice(userId: string, date: Date) {
+  const practice = await storage.createDailyPractice({ userId, date, practiceType: 'reflection', completed: true });
+  return awardPracticeXp(userId, practice);
+}
+
+async function streakAwards(userId: string) {
+  return (await storage.getXpLedger(userId)).filter(entry => entry.source === 'streak');
+}
+
+describe("awardPracticeXp", () => {
+  it("pays for at most practiceDailyLimit practices a day", async () => {
+    const rules = getXpRules();
+    const user = await storage.createUser({ username: `practice_${Date.now()}` });
+
+    const awarded: boolean[] = [];
+    for (let i = 0; i < rules.practiceDailyLimit + 2; i++) {
+      const practice = await storage.createDailyPractice({ userId: user.id, date: new Date(), practiceType: `reflection_${i}`, completed: true });
+      awarded.push((await awardPracticeXp(user.id, practice)).awarded);
+    }
+
+    assert.deepEqual(awarded, [...Array(rules.practiceDailyLimit).fill(true), false, false]);
+    assert.equal((await storage.getUser(user.id))?.experiencePoints, rules.practiceDailyLimit * rules.practiceCompleted);
+  });
+
+  it("pays backdated practices from today's limit", async () => {
+    const rules = getXpRules();
+    const user = await storage.createUser({ username: `backdated_${Date.now()}` });
+
+    for (let days = 10; days < 10 + rules.practiceDailyLimit + 2; days++) {
+      await completePractice(user.id, daysAgo(days));
+    }
+
+    const practiceAwards = (await storage.getXpLedger(user.id)).filter(entry => entry.source === 'practice');
+    assert.equal(practiceAwards.length, rules.practiceDailyLimit);
+  });
+
+  it("pays streak milestones for runs ending today only", async () => {
+    const user = await storage.createUser({ username: `streak_${Date.now()}` });
+    const firstMilestone = Math.min(...getXpRules().practiceStreaks.map(milestone => milestone.days));
+
+    // An old run, recorded before dates were checked, ends long before today
+    for (let days = 20 + firstMilestone; days > 20; days--) {
+      await completePractice(user.id, daysAgo(days));
+    }
+    assert.equal((await streakAwards(user.id)).length, 0);
+
+    for (let days = firstMilestone - 1; days >= 0; days--) {
+      await completePractice(user.id, daysAgo(days));
+    }
+    await completePractice(user.id, new Date());
+    assert.equal((await streakAwards(user.id)).length, 1);
+  });
+});
+
+describe("POST /api/practices", () => {
+  let app: TestApp;
+  let cookie: string;
+
+  before(async () => {
+    app = await startTestApp();
+    ({ cookie } = await app.login('guardian_demo'));
+  });
+
+  after(() => app.close());
+
+  it("records a practice done today", async () => {
+    const response = await app.request('POST', '/api/practices', cookie, { date: new Date().toISOString(), practiceType: 'reflection', completed: true });
+    assert.equal(response.status, 200);
+  });
+
+  it("refuses backdated and future practices", async () => {
+    for (const date of [daysAgo(3), daysAgo(-3)]) {
+      const response = await app.request('POST', '/api/practices', cookie, { date: date.toISOString(), practiceType: 'reflection', completed: true });
+      assert.equal(response.status, 400);
+      assert.match(response.body.message, /Practices can only be recorded for today/);
+    }
+  });
+});
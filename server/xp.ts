@@ -0,0 +1,226 @@
+import type { DailyPractice, User, XpSource } from "@shared/schema";
+import type { GateType } from "@shared/entitlements";
+import { DEFAULT_XP_RULES, xpRulesSchema, levelForXp, xpForLevel, type XpRules, type XpSummary } from "@shared/xp";
+import { storage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// XP_RULES holds JSON overriding any part of the defaults, e.g.
+// {"chapterCompleted": 75, "levelCurve": {"baseXp": 100, "growth": 1.15}}
+export function loadXpRules(raw: string | undefined): XpRules {
+  if (!raw) return DEFAULT_XP_RULES;
+
+  try {
+    const overrides = JSON.parse(raw);
+    return xpRulesSchema.parse({
+      ...DEFAULT_XP_RULES,
+      ...overrides,
+      gateCompleted: { ...DEFAULT_XP_RULES.gateCompleted, ...overrides.gateCompleted },
+      levelCurve: { ...DEFAULT_XP_RULES.levelCurve, ...overrides.levelCurve },
+    });
+  } catch (error) {
+    console.error("Invalid XP_RULES, using the default XP rules:", error);
+    return DEFAULT_XP_RULES;
+  }
+}
+
+let activeRules: XpRules | undefined;
+export function getXpRules(): XpRules {
+  if (!activeRules) activeRules = loadXpRules(process.env.XP_RULES);
+  return activeRules;
+}
+
+export interface XpAward {
+  source: XpSource;
+  sourceKey: string;
+  amount: number;
+  reason: string;
+}
+
+export interface XpAwardResult {
+  awarded: boolean; // false when the same award was already in the ledger
+  xpGained: number;
+  user: User;
+  levelUp: boolean;
+}
+
+// Users who earned XP before the ledger existed get entries for what can be attributed (completed
+// chapters and gates) and one adjustment for the rest, so recomputing keeps their total and
+// re-completing an old chapter pays nothing
+async function ensureXpLedger(user: User) {
+  if (!user.experiencePoints) return;
+  const { entries } = await storage.getXpLedgerTotal(user.id);
+  if (entries > 0) return;
+
+  const rules = getXpRules();
+  const [progress, gates] = await Promise.all([storage.getUserProgress(user.id), storage.getGateStatus(user.id)]);
+  let attributed = 0;
+
+  for (const chapterNumber of progress?.completedChapters ?? []) {
+    const entry = await storage.recordXpAward({
+      userId: user.id,
+      source: 'chapter',
+      sourceKey: String(chapterNumber),
+      amount: rules.chapterCompleted,
+      reason: `Completed chapter ${chapterNumber} (before the XP ledger)`,
+    });
+    attributed += entry?.amount ?? 0;
+  }
+
+  for (const gate of gates.filter(gate => gate.state === 'completed')) {
+    const entry = await storage.recordXpAward({
+      userId: user.id,
+      source: 'gate',
+      sourceKey: gate.gateType,
+      amount: gate.experienceGained ?? rules.gateCompleted[gate.gateType],
+      reason: `Completed the ${gate.gateType} gate (before the XP ledger)`,
+    });
+    attributed += entry?.amount ?? 0;
+  }
+
+  const remainder = user.experiencePoints - attributed;
+  if (remainder !== 0) {
+    await storage.recordXpAward({
+      userId: user.id,
+      source: 'adjustment',
+      sourceKey: 'legacy-balance',
+      amount: remainder,
+      reason: "XP earned before the XP ledger",
+    });
+  }
+}
+
+// Records the award and adds it to the user's total. An award whose source and key are already in
+// the ledger pays nothing, which is what makes retried or repeated completions safe.
+export async function awardXp(userId: string, award: XpAward): Promise<XpAwardResult> {
+  const before = await storage.getUser(userId);
+  if (!before) throw new Error('User not found');
+  await ensureXpLedger(before);
+
+  const entry = award.amount > 0 ? await storage.recordXpAward({ userId, ...award }) : undefined;
+  if (!entry) {
+    return { awarded: false, xpGained: 0, user: before, levelUp: false };
+  }
+
+  let user = (await storage.addExperience(userId, award.amount))!;
+  const level = levelForXp(user.experiencePoints || 0, getXpRules().levelCurve);
+  if (level !== user.level) {
+    user = await storage.upsertUser({ level }, userId);
+  }
+
+  return { awarded: true, xpGained: award.amount, user, levelUp: level > (before.level || 1) };
+}
+
+export async function completeChapterWithXp(userId: string, chapterNumber: number) {
+  const progress = await storage.completeChapter(userId, chapterNumber);
+  const result = await awardXp(userId, {
+    source: 'chapter',
+    sourceKey: String(chapterNumber),
+    amount: getXpRules().chapterCompleted,
+    reason: `Completed chapter ${chapterNumber}`,
+  });
+  return { ...result, progress };
+}
+
+export function awardGateXp(userId: string, gateType: GateType): Promise<XpAwardResult> {
+  return awardXp(userId, {
+    source: 'gate',
+    sourceKey: gateType,
+    amount: getXpRules().gateCompleted[gateType],
+    reason: `Completed the ${gateType} gate`,
+  });
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Consecutive days with a completed practice, counting back from the given day
+async function practiceStreakEndingOn(userId: string, day: Date, maxDays: number): Promise<number> {
+  const end = new Date(`${dayKey(day)}T23:59:59.999Z`);
+  const practices = await storage.getUserDailyPractices(userId, new Date(end.getTime() - (maxDays + 1) * DAY_MS), end);
+  const practiceDays = new Set(practices.filter(practice => practice.completed).map(practice => dayKey(practice.date)));
+
+  let streak = 0;
+  while (streak <= maxDays && practiceDays.has(dayKey(new Date(end.getTime() - streak * DAY_MS)))) {
+    streak++;
+  }
+  return streak;
+}
+
+// The practice's own award plus any streak milestone reached today. Practice awards are keyed by the
+// day they are paid on and a slot up to practiceDailyLimit, so neither extra nor backdated practices
+// earn more than the daily limit. Streaks are counted back from the server's day and each milestone
+// pays once per day it is reached, so a second practice on the same day adds nothing for the streak
+// and backdated runs never pay.
+export async function awardPracticeXp(userId: string, practice: DailyPractice): Promise<XpAwardResult> {
+  const rules = getXpRules();
+  const today = dayKey(new Date());
+  let result!: XpAwardResult;
+  for (let slot = 1; slot <= rules.practiceDailyLimit && !result?.awarded; slot++) {
+    result = await awardXp(userId, {
+      source: 'practice',
+      sourceKey: `${today}:${slot}`,
+      amount: rules.practiceCompleted,
+      reason: `Completed a ${practice.practiceType} practice`,
+    });
+  }
+
+  if (rules.practiceStreaks.length === 0) return result;
+
+  const longestMilestone = Math.max(...rules.practiceStreaks.map(milestone => milestone.days));
+  const streak = await practiceStreakEndingOn(userId, new Date(), longestMilestone);
+  const milestone = rules.practiceStreaks.find(candidate => candidate.days === streak);
+
+  if (milestone) {
+    const bonus = await awardXp(userId, {
+      source: 'streak',
+      sourceKey: `${milestone.days}:${today}`,
+      amount: milestone.xp,
+      reason: `${milestone.days}-day practice streak`,
+    });
+    result = {
+      awarded: result.awarded || bonus.awarded,
+      xpGained: result.xpGained + bonus.xpGained,
+      user: bonus.user,
+      levelUp: result.levelUp || bonus.levelUp,
+    };
+  }
+
+  return result;
+}
+
+// Rebuilds experiencePoints and level from the ledger, e.g. after correcting entries or changing the level curve
+export async function recomputeExperience(userId: string) {
+  const user = await storage.getUser(userId);
+  if (!user) throw new Error('User not found');
+  await ensureXpLedger(user);
+
+  const { total, entries } = await storage.getXpLedgerTotal(userId);
+  const level = levelForXp(total, getXpRules().levelCurve);
+  const updated = (await storage.setExperience(userId, total, level))!;
+
+  return {
+    entries,
+    previous: { experiencePoints: user.experiencePoints || 0, level: user.level || 1 },
+    experiencePoints: updated.experiencePoints || 0,
+    level: updated.level || 1,
+  };
+}
+
+export async function getXpSummary(userId: string): Promise<XpSummary> {
+  const user = await storage.getUser(userId);
+  if (!user) throw new Error('User not found');
+  await ensureXpLedger(user);
+
+  const { levelCurve } = getXpRules();
+  const level = user.level || 1;
+
+  return {
+    experiencePoints: user.experiencePoints || 0,
+    level,
+    currentLevelXp: xpForLevel(level, levelCurve),
+    nextLevelXp: xpForLevel(level + 1, levelCurve),
+    recent: await storage.getXpLedger(userId, 20),
+  };
+}
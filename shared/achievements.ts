@@ -0,0 +1,45 @@
+// Badges and the rules that award them. Rules are data so new badges need no new evaluation code;
+// ids are stored against users, so an id must never be reused for a different badge.
+
+export type AchievementRule =
+  | { type: 'chapters_completed'; count: number }
+  | { type: 'element_chapters'; element: string } // every matrix chapter of this element
+  | { type: 'practices_completed'; count: number }
+  | { type: 'practice_streak'; days: number }     // longest run of consecutive practice days
+  | { type: 'sacred_shapes'; count: number }
+  | { type: 'gates_completed'; count: number };
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string; // lucide icon name, resolved by the badge shelf
+  rule: AchievementRule;
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  { id: 'first_practice', name: 'First Step', description: 'Complete your first daily practice', icon: 'Footprints', rule: { type: 'practices_completed', count: 1 } },
+  { id: 'first_chapter', name: 'Rooted', description: 'Complete your first chapter', icon: 'Sprout', rule: { type: 'chapters_completed', count: 1 } },
+  { id: 'fire_chapters', name: 'Altar Fire', description: 'Complete all Fire chapters', icon: 'Flame', rule: { type: 'element_chapters', element: 'Fire' } },
+  { id: 'air_chapters', name: 'Wings of Wisdom', description: 'Complete all Air chapters', icon: 'Wind', rule: { type: 'element_chapters', element: 'Air' } },
+  { id: 'water_chapters', name: 'Clear Waters', description: 'Complete all Water chapters', icon: 'Droplets', rule: { type: 'element_chapters', element: 'Water' } },
+  { id: 'earth_chapters', name: 'Embodied', description: 'Complete all Earth chapters', icon: 'Mountain', rule: { type: 'element_chapters', element: 'Earth' } },
+  { id: 'plasma_chapters', name: 'Pattern Manifest', description: 'Complete all Plasma chapters', icon: 'Sparkles', rule: { type: 'element_chapters', element: 'Plasma' } },
+  { id: 'practice_streak_7', name: 'Seven Days', description: 'Keep a 7-day practice streak', icon: 'CalendarCheck', rule: { type: 'practice_streak', days: 7 } },
+  { id: 'practice_streak_30', name: 'Faithful Rhythm', description: 'Keep a 30-day practice streak', icon: 'CalendarHeart', rule: { type: 'practice_streak', days: 30 } },
+  { id: 'sacred_shapes_5', name: 'Shape Keeper', description: 'Master 5 sacred shapes', icon: 'Hexagon', rule: { type: 'sacred_shapes', count: 5 } },
+  { id: 'all_gates', name: 'Twelve Gates', description: 'Pass all four gates', icon: 'DoorOpen', rule: { type: 'gates_completed', count: 4 } },
+  { id: 'all_chapters', name: 'Pattern Complete', description: 'Complete all 27 chapters', icon: 'Crown', rule: { type: 'chapters_completed', count: 27 } },
+];
+
+// One badge on GET /api/achievements, earned or not
+export interface BadgeStatus {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  earned: boolean;
+  awardedAt: string | null;
+  progress: number; // toward target, capped at target
+  target: number;
+}
@@ -0,0 +1,56 @@
+import type { Archetype, DevelopmentStage } from "./schema";
+
+export const ARCHETYPE_KEYS: readonly Archetype[] = ['pioneer', 'organizer', 'builder', 'guardian'];
+
+// A question bank question as the client sees it: options without their archetype loadings
+export interface ArchetypeQuestion {
+  id: string;
+  question: string;
+  options: { value: string; title: string; description: string }[];
+}
+
+// GET /api/assessment/question-bank
+export interface ArchetypeQuestionBank {
+  version: number;
+  questions: ArchetypeQuestion[];
+}
+
+export interface ArchetypeScoreResult {
+  bankVersion: number;
+  scores: Record<Archetype, number>; // 0-100: share of the most each archetype could have scored
+  primary: Archetype;
+  secondary: Archetype;
+  confidence: number; // 0-1: how clearly the primary leads the secondary
+}
+
+// One completed archetype assessment in a user's history
+export interface ArchetypeHistoryPoint extends ArchetypeScoreResult {
+  assessmentId: string;
+  completedAt: string;
+  stage: DevelopmentStage; // the user's stage when they took it
+}
+
+// A change of primary archetype between two consecutive assessments
+export interface ArchetypeDrift {
+  fromAssessmentId: string;
+  toAssessmentId: string;
+  at: string;
+  from: Archetype;
+  to: Archetype;
+  scoreChanges: Record<Archetype, number>; // points gained (or lost) per archetype
+}
+
+export interface ArchetypeRetakeSchedule {
+  intervalDays: number;
+  lastTakenAt: string | null;
+  nextDueAt: string | null; // null until the first assessment
+  due: boolean;
+}
+
+// GET /api/assessments/archetype-history
+export interface ArchetypeHistoryResponse {
+  points: ArchetypeHistoryPoint[]; // oldest first
+  stageChanges: { fromStage: DevelopmentStage | null; toStage: DevelopmentStage; changedAt: string }[];
+  drift: ArchetypeDrift[];
+  retake: ArchetypeRetakeSchedule;
+}
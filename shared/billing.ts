@@ -0,0 +1,73 @@
+import type { BillingStatus } from "./schema";
+
+// In-app notice for accounts that are behind on payment, shown until the status returns to active
+export interface BillingBanner {
+  level: 'warning' | 'critical';
+  title: string;
+  message: string;
+  actionLabel: string;
+  actionUrl: string;
+}
+
+// Billing section of GET /api/subscription/status
+export interface BillingState {
+  status: BillingStatus;
+  paymentFailedAt: string | null;
+  graceEndsAt: string | null;
+  banner: BillingBanner | null;
+}
+
+// Organization plan statuses under which assigned seats carry the plan's tier; past_due keeps them while Stripe retries
+export const SEAT_GRANTING_STATUSES = ['active', 'trialing', 'past_due'];
+
+export function organizationPlanGrantsSeats(status?: string | null): boolean {
+  return !!status && SEAT_GRANTING_STATUSES.includes(status);
+}
+
+export interface OrganizationSeatHolder {
+  userId: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+}
+
+// GET /api/organizations/billing
+export interface OrganizationBillingResponse {
+  plan: {
+    tier: 'seeker' | 'pioneer' | 'visionary';
+    seats: number;
+    status: string;
+    grantsSeats: boolean;
+    cancelAtPeriodEnd: boolean;
+    currentPeriodEnd: string | null;
+  } | null;
+  seats: (OrganizationSeatHolder & { assignedAt: string | null })[];
+  members: (OrganizationSeatHolder & { role: string; hasSeat: boolean })[];
+  pricing: { tier: 'pioneer' | 'visionary'; name: string; pricePerSeat: number; available: boolean }[];
+}
+
+// GET /api/subscription/invoices; amounts are in the currency's smallest unit
+export interface InvoiceSummary {
+  id: string;
+  number: string | null;
+  status: string;
+  currency: string;
+  amountDue: number;
+  amountPaid: number;
+  total: number;
+  issuedAt: string;
+  paidAt: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  hostedInvoiceUrl: string | null;
+  invoicePdf: string | null;
+}
+
+// GET /api/subscription/payment-method; only display details, never the card number
+export interface PaymentMethodSummary {
+  type: string;
+  brand: string | null;
+  last4: string | null;
+  expMonth: number | null;
+  expYear: number | null;
+}
@@ -0,0 +1,95 @@
+// Tier entitlements shared by the server (enforcement) and the client (upgrade prompts)
+
+export const SUBSCRIPTION_TIER_ORDER = ['seeker', 'pioneer', 'visionary'] as const;
+export type SubscriptionTierName = typeof SUBSCRIPTION_TIER_ORDER[number];
+
+export const GATE_TYPES = ['identity_mirror', 'shofar_convergence', 'network_multiplication', 'twelve_gate_convergence'] as const;
+export type GateType = typeof GATE_TYPES[number];
+
+export interface TierEntitlements {
+  tier: SubscriptionTierName;
+  chapters: { from: number; to: number };
+  gates: GateType[];
+  teamTools: boolean;  // creating teams and managing their members
+  analytics: boolean;  // team effectiveness and fractal scans
+  aiCoaching: boolean;
+}
+
+export type EntitlementFeature = 'teamTools' | 'analytics' | 'aiCoaching';
+
+export interface TierUpgrade {
+  tier: SubscriptionTierName;
+  name: string;
+}
+
+// GET /api/entitlements: what the tier allows, plus the cheapest upgrade for everything it does not
+export interface EntitlementsResponse extends TierEntitlements {
+  upgrades: {
+    chapters: (TierUpgrade & { from: number }) | null;
+    gates: (TierUpgrade & { gateType: GateType })[];
+    teamTools: TierUpgrade | null;
+    analytics: TierUpgrade | null;
+    aiCoaching: TierUpgrade | null;
+  };
+}
+
+export const TIER_ENTITLEMENTS: Record<SubscriptionTierName, TierEntitlements> = {
+  seeker: {
+    tier: 'seeker',
+    chapters: { from: 1, to: 5 },
+    gates: ['identity_mirror'],
+    teamTools: false,
+    analytics: false,
+    aiCoaching: false,
+  },
+  pioneer: {
+    tier: 'pioneer',
+    chapters: { from: 1, to: 27 },
+    gates: [...GATE_TYPES],
+    teamTools: true,
+    analytics: false,
+    aiCoaching: true,
+  },
+  visionary: {
+    tier: 'visionary',
+    chapters: { from: 1, to: 27 },
+    gates: [...GATE_TYPES],
+    teamTools: true,
+    analytics: true,
+    aiCoaching: true,
+  },
+};
+
+export const ENTITLEMENT_FEATURE_NAMES: Record<EntitlementFeature, string> = {
+  teamTools: 'Team tools',
+  analytics: 'Team analytics',
+  aiCoaching: 'AI coaching',
+};
+
+export function isSubscriptionTier(tier: unknown): tier is SubscriptionTierName {
+  return SUBSCRIPTION_TIER_ORDER.includes(tier as SubscriptionTierName);
+}
+
+// The better of two tiers, e.g. a personal subscription and an organization seat
+export function higherTier(a?: string | null, b?: string | null): SubscriptionTierName {
+  const rank = (tier?: string | null) => isSubscriptionTier(tier) ? SUBSCRIPTION_TIER_ORDER.indexOf(tier) : 0;
+  return SUBSCRIPTION_TIER_ORDER[Math.max(rank(a), rank(b))];
+}
+
+// Unknown or missing tiers get the free tier's entitlements
+export function getEntitlements(tier?: string | null): TierEntitlements {
+  return TIER_ENTITLEMENTS[isSubscriptionTier(tier) ? tier : 'seeker'];
+}
+
+export function canAccessChapter(entitlements: TierEntitlements, chapterNumber: number): boolean {
+  return chapterNumber >= entitlements.chapters.from && chapterNumber <= entitlements.chapters.to;
+}
+
+export function canAccessGate(entitlements: TierEntitlements, gateType: string): boolean {
+  return entitlements.gates.includes(gateType as GateType);
+}
+
+// Cheapest tier that passes the check, used to tell users what to upgrade to
+export function minimumTierFor(check: (entitlements: TierEntitlements) => boolean): SubscriptionTierName | undefined {
+  return SUBSCRIPTION_TIER_ORDER.find(tier => check(TIER_ENTITLEMENTS[tier]));
+}
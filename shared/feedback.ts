@@ -0,0 +1,39 @@
+import type { Archetype } from "./schema";
+import type { ArchetypeQuestion } from "./archetypes";
+
+// No report is shown until this many team members have answered, so no one answer stands alone
+export const FEEDBACK_MIN_RESPONDENTS = 3;
+
+// Stored on a feedback assessment's results once enough team members have answered
+export interface FeedbackGapReport {
+  bankVersion: number;
+  respondentCount: number;
+  selfAssessmentId: string;          // the archetype assessment the others are compared with
+  self: Record<Archetype, number>;   // 0-100, as scored on the leader's own assessment
+  others: Record<Archetype, number>; // 0-100, averaged over respondents
+  gaps: Record<Archetype, number>;   // others minus self: positive where others see more than the leader does
+  selfPrimary: Archetype;
+  othersPrimary: Archetype;
+  largestGap: Archetype;
+}
+
+// GET /api/feedback: a leader's own requests
+export interface FeedbackRequestSummary {
+  assessmentId: string;
+  teamId: string | null;
+  teamName: string | null;
+  requestedAt: string | null;
+  invited: number;
+  responded: number;
+  minRespondents: number;
+  report: FeedbackGapReport | null; // null until minRespondents have answered
+}
+
+// GET /api/feedback/pending: requests waiting on the signed-in team member
+export interface PendingFeedbackRequest {
+  assessmentId: string;
+  leaderName: string;
+  teamName: string | null;
+  bankVersion: number;
+  questions: ArchetypeQuestion[];
+}
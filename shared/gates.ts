@@ -0,0 +1,85 @@
+import type { GateState, GateQuestionFeedback } from "./schema";
+import type { GateType } from "./entitlements";
+import type { BadgeStatus } from "./achievements";
+
+// XP for completing each gate is part of the XP rules (shared/xp.ts)
+export interface GateDefinition {
+  name: string;
+  chapterNumber: number;   // the matrix chapter the gate sits on
+  nextChapter: number | null; // unlocked on completion; the final gate opens nothing further
+}
+
+export const GATE_DEFINITIONS: Record<GateType, GateDefinition> = {
+  identity_mirror: { name: "Identity Mirror Gate", chapterNumber: 1, nextChapter: 2 },
+  shofar_convergence: { name: "Shofar Convergence Gate", chapterNumber: 25, nextChapter: 26 },
+  network_multiplication: { name: "Network Multiplication Gate", chapterNumber: 26, nextChapter: 27 },
+  twelve_gate_convergence: { name: "Twelve Gate Convergence", chapterNumber: 27, nextChapter: null },
+};
+
+// A gate challenge as the client sees it: questions and options without their scoring
+export interface GateChallengeQuestion {
+  id: string;
+  type: 'choice' | 'reflection';
+  question: string;
+  description?: string;
+  options?: { value: string; title: string; description: string }[];
+  minWords?: number; // reflections only
+}
+
+// GET /api/gates/:gateType/challenge
+export interface GateChallenge {
+  gateType: GateType;
+  version: number;
+  passingScore: number;
+  questions: GateChallengeQuestion[];
+}
+
+export interface GateAttemptSummary {
+  id: string;
+  gateType: GateType;
+  challengeVersion: number;
+  score: number;
+  passingScore: number;
+  passed: boolean;
+  feedback: GateQuestionFeedback[];
+  scoredBy: string;
+  createdAt: string | null;
+}
+
+// One gate in GET /api/gates
+export interface GateStatus {
+  gateType: GateType;
+  name: string;
+  chapterNumber: number;
+  state: GateState;
+  prerequisiteChapters: number[];
+  missingChapters: number[]; // prerequisites not completed yet; empty once the gate unlocks
+  entitled: boolean;         // false when the user's tier does not include the gate
+  xp: number;
+  unlockedAt: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  score: number | null;
+  responses: Record<string, string> | null;
+  reflections: Record<string, string> | null;
+}
+
+// POST /api/gates/:gateType/complete
+export interface GateCompletionResponse {
+  gate: GateStatus;
+  attempt: GateAttemptSummary;
+  xpEarned: number;
+  totalXP: number;
+  newLevel: number;
+  levelUp: boolean;
+  unlockedChapter: number | null;
+  newBadges: BadgeStatus[]; // badges this completion earned
+  message: string;
+}
+
+// 422 from POST /api/gates/:gateType/complete: the attempt was saved but did not pass
+export interface GateAttemptFailedResponse {
+  message: string;
+  reason: 'not_passed';
+  attempt: GateAttemptSummary;
+}
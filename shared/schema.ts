@@ -9,6 +9,7 @@ import {
   integer,
   boolean,
   pgEnum,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -30,7 +31,14 @@ export const organizationTypeEnum = pgEnum('organization_type', ['church', 'remo
 export const subscriptionTierEnum = pgEnum('subscription_tier', ['seeker', 'pioneer', 'visionary']);
 export const developmentStageEnum = pgEnum('development_stage', ['r1', 'r2', 'r3', 'r4', 'r5', 'hidden_track']);
 export const archetypeEnum = pgEnum('archetype', ['pioneer', 'organizer', 'builder', 'guardian']);
+export const assessmentKindEnum = pgEnum('assessment_kind', ['stage', 'archetype', 'feedback']);
 export const gateTypeEnum = pgEnum('gate_type', ['identity_mirror', 'shofar_convergence', 'network_multiplication', 'twelve_gate_convergence']);
+export const gateStateEnum = pgEnum('gate_state', ['locked', 'unlocked', 'in_progress', 'completed']);
+export const xpSourceEnum = pgEnum('xp_source', ['chapter', 'gate', 'practice', 'streak', 'adjustment']);
+export const invitationRoleEnum = pgEnum('invitation_role', ['member', 'leader', 'admin', 'observer']);
+export const organizationRoleEnum = pgEnum('organization_role', ['owner', 'admin', 'leader', 'member', 'observer']);
+export const invitationStatusEnum = pgEnum('invitation_status', ['pending', 'accepted', 'declined', 'revoked', 'expired']);
+export const billingStatusEnum = pgEnum('billing_status', ['active', 'past_due', 'grace', 'suspended', 'canceled']);
 
 // User storage table (supports both Replit Auth and local auth)
 export const users = pgTable("users", {
@@ -48,6 +56,10 @@ export const users = pgTable("users", {
   subscriptionTier: subscriptionTierEnum("subscription_tier").default('seeker'),
   stripeCustomerId: varchar("stripe_customer_id"),
   stripeSubscriptionId: varchar("stripe_subscription_id"),
+  // Dunning state, driven by invoice webhooks and the dunning job
+  billingStatus: billingStatusEnum("billing_status").default('active'),
+  paymentFailedAt: timestamp("payment_failed_at"), // first failure of the current unpaid invoice
+  graceEndsAt: timestamp("grace_ends_at"), // paid access ends here unless a payment succeeds
   organizationId: varchar("organization_id"),
   authType: varchar("auth_type").default('replit'), // 'replit' or 'local'
   isDemo: boolean("is_demo").default(false), // mark demo accounts
@@ -70,6 +82,31 @@ export const organizations = pgTable("organizations", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Who belongs to an organization and what they may do there
+export const organizationMembers = pgTable("organization_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  role: organizationRoleEnum("role").notNull().default('member'),
+  joinedAt: timestamp("joined_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("IDX_org_member").on(table.organizationId, table.userId)]);
+
+export const organizationInvitations = pgTable("organization_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull(),
+  email: varchar("email").notNull(),
+  role: invitationRoleEnum("role").notNull().default('member'),
+  token: varchar("token").notNull().unique(),
+  message: text("message"),
+  invitedBy: varchar("invited_by").notNull(),
+  status: invitationStatusEnum("status").notNull().default('pending'),
+  expiresAt: timestamp("expires_at").notNull(),
+  respondedBy: varchar("responded_by"), // user who accepted or declined
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_invitation_org").on(table.organizationId)]);
+
 export const teams = pgTable("teams", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: varchar("name").notNull(),
@@ -78,6 +115,7 @@ export const teams = pgTable("teams", {
   generationalMix: jsonb("generational_mix"), // generation distribution
   pactDetails: jsonb("pact_details"), // team agreements and protocols
   status: varchar("status").default('forming'), // forming, active, completed
+  archivedAt: timestamp("archived_at"), // soft archival: hidden from listings and effectiveness
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -94,12 +132,24 @@ export const assessments = pgTable("assessments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
   stage: developmentStageEnum("stage").notNull(),
+  kind: assessmentKindEnum("kind").notNull().default('stage'), // a stage's assessment, the archetype assessment taken at that stage, or 360 feedback on the archetype
   responses: jsonb("responses").notNull(),
   results: jsonb("results"), // calculated scores and insights
+  bankVersion: integer("bank_version"), // version of the question bank or stage assessment that scored it; null for older rows
+  teamId: varchar("team_id"), // feedback only: the team asked to respond
   completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Every move between development stages, shown alongside archetype history
+export const stageChanges = pgTable("stage_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  fromStage: developmentStageEnum("from_stage"), // null for the first recorded stage
+  toStage: developmentStageEnum("to_stage").notNull(),
+  changedAt: timestamp("changed_at").defaultNow(),
+}, (table) => [index("IDX_stage_changes_user").on(table.userId)]);
+
 export const dailyPractices = pgTable("daily_practices", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
@@ -132,6 +182,7 @@ export const userRelations = relations(users, ({ one, many }) => ({
   dailyPractices: many(dailyPractices),
   progressMetrics: many(progressMetrics),
   teamMemberships: many(teamMembers),
+  organizationMemberships: many(organizationMembers),
   ledTeams: many(teams, { relationName: "teamLeader" }),
   progress: one(userProgress),
 }));
@@ -139,6 +190,30 @@ export const userRelations = relations(users, ({ one, many }) => ({
 export const organizationRelations = relations(organizations, ({ many }) => ({
   users: many(users),
   teams: many(teams),
+  members: many(organizationMembers),
+  invitations: many(organizationInvitations),
+}));
+
+export const organizationMemberRelations = relations(organizationMembers, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationMembers.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [organizationMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const organizationInvitationRelations = relations(organizationInvitations, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationInvitations.organizationId],
+    references: [organizations.id],
+  }),
+  inviter: one(users, {
+    fields: [organizationInvitations.invitedBy],
+    references: [users.id],
+  }),
 }));
 
 export const teamRelations = relations(teams, ({ one, many }) => ({
@@ -191,8 +266,11 @@ export const progressMetricRelations = relations(progressMetrics, ({ one }) => (
 }));
 
 // Stripe request validation schemas
+const promoCodeField = z.string().trim().min(1).max(64).optional();
+
 export const createSubscriptionSchema = z.object({
   tier: z.enum(['seeker', 'pioneer', 'visionary']),
+  promoCode: promoCodeField, // internal campaign code or a Stripe promotion code
 });
 
 export const cancelSubscriptionSchema = z.object({
@@ -201,6 +279,7 @@ export const cancelSubscriptionSchema = z.object({
 
 export const updateTierSchema = z.object({
   newTier: z.enum(['seeker', 'pioneer', 'visionary']),
+  promoCode: promoCodeField,
 });
 
 export const webhookEventSchema = z.object({
@@ -213,6 +292,82 @@ export const webhookEventSchema = z.object({
   livemode: z.boolean(),
 });
 
+// Organization invitation request validation
+export const createInvitationSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(['member', 'leader', 'admin', 'observer']).default('member'),
+  message: z.string().max(1000).optional(),
+});
+
+// Archetype assessment validation: the chosen option for each question bank question, keyed by question id
+export const submitArchetypeAssessmentSchema = z.object({
+  responses: z.record(z.string().max(100)),
+});
+
+// Stage assessment validation: the chosen option for each of the stage's questions, keyed by question id
+export const submitStageAssessmentSchema = z.object({
+  responses: z.record(z.string().max(100)),
+});
+
+export const publicArchetypeAssessmentSchema = submitArchetypeAssessmentSchema.extend({
+  birthYear: z.coerce.number().int().min(1900).max(new Date().getFullYear()),
+  email: z.string().email().nullish(),
+});
+
+// Gate request validation: multiple-choice answers and free-text reflections keyed by question id
+export const completeGateSchema = z.object({
+  responses: z.record(z.string().max(5000)).default({}),
+  reflections: z.record(z.string().max(5000)).default({}),
+});
+
+// Profile request validation: only what a user may edit about themselves. Organization, billing,
+// progression and archetype fields are set by their own flows.
+export const updateProfileSchema = z.object({
+  firstName: z.string().max(100).optional(),
+  lastName: z.string().max(100).optional(),
+  profileImageUrl: z.string().url().max(2000).optional(),
+  hebrewName: z.string().max(100).optional(),
+  // The settings form sends '' until a generation is chosen
+  generation: z.enum(generationEnum.enumValues).or(z.literal('').transform(() => undefined)).optional(),
+});
+
+// Team request validation
+export const updateTeamSchema = z.object({
+  name: z.string().min(1).optional(),
+  pactDetails: z.any().optional(),
+  generationalMix: z.any().optional(),
+  status: z.enum(['forming', 'active', 'completed']).optional(),
+  leaderId: z.string().optional(),
+});
+
+export const teamMemberRoleSchema = z.enum(['leader', 'member', 'observer']);
+
+export const addTeamMemberSchema = z.object({
+  userId: z.string().min(1, "User ID required"),
+  role: teamMemberRoleSchema.default('member'),
+});
+
+export const updateTeamMemberSchema = z.object({
+  role: teamMemberRoleSchema,
+});
+
+// Organization membership request validation
+export const updateOrganizationMemberSchema = z.object({
+  role: z.enum(['owner', 'admin', 'leader', 'member', 'observer']),
+});
+
+// Fractal scan request validation (team message logs)
+export const fractalScanLogSchema = z.object({
+  timestamp: z.number(),
+  sender: z.string().optional(),
+  message: z.string().optional(),
+  replies: z.array(z.any()).optional().default([]),
+});
+
+export const fractalScanRequestSchema = z.object({
+  logs: z.array(fractalScanLogSchema).min(1, "No logs provided"),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -226,8 +381,20 @@ export const insertOrganizationSchema = createInsertSchema(organizations).omit({
   updatedAt: true,
 });
 
+export const insertOrganizationMemberSchema = createInsertSchema(organizationMembers).omit({
+  id: true,
+  joinedAt: true,
+  updatedAt: true,
+});
+
+export const insertOrganizationInvitationSchema = createInsertSchema(organizationInvitations).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertTeamSchema = createInsertSchema(teams).omit({
   id: true,
+  archivedAt: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -242,6 +409,30 @@ export const insertDailyPracticeSchema = createInsertSchema(dailyPractices).omit
   createdAt: true,
 });
 
+// Gate completions used to be recorded as `gate_challenge_<type>` practices; gates now complete only
+// through the gate service, so clients may no longer create them
+export const GATE_PRACTICE_PREFIX = 'gate_challenge_';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Practices are recorded on the day they are done; a day either side of the server's allows for the
+// client's time zone. Streaks, streak XP and streak badges are counted from these dates.
+function isAroundToday(date: Date): boolean {
+  return Math.abs(Math.floor(date.getTime() / DAY_MS) - Math.floor(Date.now() / DAY_MS)) <= 1;
+}
+
+export const createDailyPracticeSchema = insertDailyPracticeSchema.extend({
+  date: z.coerce.date().refine(isAroundToday, { message: "Practices can only be recorded for today" }),
+  practiceType: z.string().min(1).refine(type => !type.startsWith(GATE_PRACTICE_PREFIX), {
+    message: "Gate challenges are completed through the gate endpoints",
+  }),
+});
+
+export const insertProgressMetricSchema = createInsertSchema(progressMetrics).omit({
+  id: true,
+  calculatedAt: true,
+});
+
 // Biblical Matrix Schema - The 5-Book Hebrew Letter Framework
 export const sacredMatrix = pgTable("sacred_matrix", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -309,13 +500,93 @@ export const gateProgress = pgTable("gate_progress", {
   userId: varchar("user_id").notNull(),
   gateType: gateTypeEnum("gate_type").notNull(),
   chapterNumber: integer("chapter_number").notNull(), // 1, 25, 26, 27
+  state: gateStateEnum("state").notNull().default('locked'),
+  // Mirrors of state for older readers; the gate service keeps them in step
   unlocked: boolean("unlocked").default(false),
   completed: boolean("completed").default(false),
+  responses: jsonb("responses").$type<Record<string, string>>(),
+  reflections: jsonb("reflections").$type<Record<string, string>>(),
+  unlockedAt: timestamp("unlocked_at"),
+  startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
+  score: integer("score"), // score of the passing attempt, 0-100
   experienceGained: integer("experience_gained").default(100), // Special gates give more XP
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("IDX_gate_progress_user_gate").on(table.userId, table.gateType),
+]);
+
+// How one question of a gate attempt scored
+export interface GateQuestionFeedback {
+  questionId: string;
+  type: 'choice' | 'reflection';
+  score: number; // 0-100
+  meetsMinimum: boolean; // reflections under the word minimum fail the attempt whatever the total
+  feedback: string;
+}
+
+// Every submitted gate challenge, passing or not, scored against the challenge version it answered
+export const gateAttempts = pgTable("gate_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  gateType: gateTypeEnum("gate_type").notNull(),
+  challengeVersion: integer("challenge_version").notNull(),
+  responses: jsonb("responses").$type<Record<string, string>>().notNull(),
+  reflections: jsonb("reflections").$type<Record<string, string>>().notNull(),
+  score: integer("score").notNull(),
+  passingScore: integer("passing_score").notNull(),
+  passed: boolean("passed").notNull(),
+  feedback: jsonb("feedback").$type<GateQuestionFeedback[]>().notNull(),
+  scoredBy: varchar("scored_by").notNull().default('rubric'), // 'rubric' or 'ai'
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_gate_attempts_user_gate").on(table.userId, table.gateType),
+]);
+
+// Every XP award. users.experiencePoints is a running total of these and can be rebuilt from them;
+// the unique key is what stops the same chapter, gate or practice paying out twice.
+export const xpLedger = pgTable("xp_ledger", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  source: xpSourceEnum("source").notNull(),
+  sourceKey: varchar("source_key").notNull(), // e.g. chapter number, gate type, practice day slot
+  amount: integer("amount").notNull(),
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_xp_ledger_award").on(table.userId, table.source, table.sourceKey),
+]);
+
+// Badges a user has earned; badgeId is an achievement id from shared/achievements.ts
+export const userBadges = pgTable("user_badges", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  badgeId: varchar("badge_id").notNull(),
+  awardedAt: timestamp("awarded_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_user_badges_user_badge").on(table.userId, table.badgeId),
+]);
+
+// Who was asked for 360 feedback on a feedback assessment, and whether they have answered
+export const feedbackInvitations = pgTable("feedback_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  assessmentId: varchar("assessment_id").notNull(),
+  respondentId: varchar("respondent_id").notNull(),
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_feedback_invitations_assessment_respondent").on(table.assessmentId, table.respondentId),
+  index("IDX_feedback_invitations_respondent_id").on(table.respondentId),
+]);
+
+// Answers to a 360 feedback request. Deliberately not linked to an invitation or timestamped, so
+// no answer can be traced back to the team member who gave it.
+export const feedbackResponses = pgTable("feedback_responses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  assessmentId: varchar("assessment_id").notNull(),
+  responses: jsonb("responses").$type<Record<string, string>>().notNull(),
+}, (table) => [index("IDX_feedback_responses_assessment").on(table.assessmentId)]);
 
 // User Progress Relations
 export const userProgressRelations = relations(userProgress, ({ one }) => ({
@@ -349,23 +620,44 @@ export const insertGateProgressSchema = createInsertSchema(gateProgress).omit({
 // Types
 export type UpsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type BillingStatus = NonNullable<User['billingStatus']>;
+export type Archetype = NonNullable<User['archetype']>;
+export type DevelopmentStage = NonNullable<User['currentStage']>;
 export type Organization = typeof organizations.$inferSelect;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type OrganizationRole = OrganizationMember['role'];
+export type OrganizationInvitation = typeof organizationInvitations.$inferSelect;
 export type Team = typeof teams.$inferSelect;
 export type TeamMember = typeof teamMembers.$inferSelect;
 export type Assessment = typeof assessments.$inferSelect;
 export type DailyPractice = typeof dailyPractices.$inferSelect;
+export type StageChange = typeof stageChanges.$inferSelect;
 export type ProgressMetric = typeof progressMetrics.$inferSelect;
 export type SacredMatrixEntry = typeof sacredMatrix.$inferSelect;
 export type UserProgressEntry = typeof userProgress.$inferSelect;
 export type GateProgress = typeof gateProgress.$inferSelect;
+export type GateState = GateProgress['state'];
+export type GateAttempt = typeof gateAttempts.$inferSelect;
+export type XpLedgerEntry = typeof xpLedger.$inferSelect;
+export type XpSource = XpLedgerEntry['source'];
+export type UserBadge = typeof userBadges.$inferSelect;
+export type FeedbackInvitation = typeof feedbackInvitations.$inferSelect;
+export type FeedbackResponse = typeof feedbackResponses.$inferSelect;
 
 export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type InsertOrganizationMember = z.infer<typeof insertOrganizationMemberSchema>;
+export type InsertOrganizationInvitation = z.infer<typeof insertOrganizationInvitationSchema>;
 export type InsertTeam = z.infer<typeof insertTeamSchema>;
 export type InsertAssessment = z.infer<typeof insertAssessmentSchema>;
 export type InsertDailyPractice = z.infer<typeof insertDailyPracticeSchema>;
+export type InsertStageChange = typeof stageChanges.$inferInsert;
+export type InsertProgressMetric = z.infer<typeof insertProgressMetricSchema>;
 export type InsertSacredMatrixEntry = z.infer<typeof insertSacredMatrixSchema>;
 export type InsertUserProgress = z.infer<typeof insertUserProgressSchema>;
 export type InsertGateProgress = z.infer<typeof insertGateProgressSchema>;
+export type InsertGateAttempt = typeof gateAttempts.$inferInsert;
+export type InsertXpLedgerEntry = typeof xpLedger.$inferInsert;
+export type InsertUserBadge = typeof userBadges.$inferInsert;
 
 // Stripe request types
 export type CreateSubscriptionRequest = z.infer<typeof createSubscriptionSchema>;
@@ -373,6 +665,26 @@ export type CancelSubscriptionRequest = z.infer<typeof cancelSubscriptionSchema>
 export type UpdateTierRequest = z.infer<typeof updateTierSchema>;
 export type WebhookEvent = z.infer<typeof webhookEventSchema>;
 
+// Archetype assessment request types
+export type SubmitArchetypeAssessmentRequest = z.infer<typeof submitArchetypeAssessmentSchema>;
+export type PublicArchetypeAssessmentRequest = z.infer<typeof publicArchetypeAssessmentSchema>;
+export type SubmitStageAssessmentRequest = z.infer<typeof submitStageAssessmentSchema>;
+
+// Gate request types
+export type CompleteGateRequest = z.infer<typeof completeGateSchema>;
+
+// Team request types
+export type UpdateTeamRequest = z.infer<typeof updateTeamSchema>;
+export type UpdateTeamMemberRequest = z.infer<typeof updateTeamMemberSchema>;
+
+// Organization invitation request types
+export type CreateInvitationRequest = z.infer<typeof createInvitationSchema>;
+export type UpdateOrganizationMemberRequest = z.infer<typeof updateOrganizationMemberSchema>;
+
+// Fractal scan request types
+export type FractalScanLog = z.infer<typeof fractalScanLogSchema>;
+export type FractalScanRequest = z.infer<typeof fractalScanRequestSchema>;
+
 // Chapter progression tables
 export const chapterProgress = pgTable('chapter_progress', {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -456,6 +768,360 @@ export type InsertChapterProgress = z.infer<typeof insertChapterProgressSchema>;
 export type InsertUserGeneration = z.infer<typeof insertUserGenerationSchema>;
 export type InsertChapterAssessment = z.infer<typeof insertChapterAssessmentSchema>;
 
+// AI coaching chat tables
+export const chatRoleEnum = pgEnum('chat_role', ['user', 'assistant']);
+
+export const chatConversations = pgTable('chat_conversations', {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar('user_id').notNull(),
+  title: varchar('title').notNull(),
+  chapterNumber: integer('chapter_number'), // set when the chat was opened from a matrix chapter
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => [index("IDX_chat_conversation_user").on(table.userId)]);
+
+export const chatMessages = pgTable('chat_messages', {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar('conversation_id').notNull(),
+  role: chatRoleEnum('role').notNull(),
+  content: text('content').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [index("IDX_chat_message_conversation").on(table.conversationId)]);
+
+export const chatConversationRelations = relations(chatConversations, ({ one, many }) => ({
+  user: one(users, {
+    fields: [chatConversations.userId],
+    references: [users.id],
+  }),
+  messages: many(chatMessages),
+}));
+
+export const chatMessageRelations = relations(chatMessages, ({ one }) => ({
+  conversation: one(chatConversations, {
+    fields: [chatMessages.conversationId],
+    references: [chatConversations.id],
+  }),
+}));
+
+export const insertChatConversationSchema = createInsertSchema(chatConversations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Chat request validation
+const chatChapterNumberSchema = z.number().int().refine(
+  (chapterNumber) => CHAPTERS.some(chapter => chapter.ch === chapterNumber),
+  { message: "Unknown chapter number" }
+);
+
+export const sendChatMessageSchema = z.object({
+  message: z.string().trim().min(1, "Message is required"),
+  conversationId: z.string().optional(),
+  chapterNumber: chatChapterNumberSchema.optional(),
+});
+
+export const createChatConversationSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  chapterNumber: chatChapterNumberSchema.optional(),
+});
+
+export const updateChatConversationSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+});
+
+export type ChatConversation = typeof chatConversations.$inferSelect;
+export type ChatMessage = typeof chatMessages.$inferSelect;
+export type InsertChatConversation = z.infer<typeof insertChatConversationSchema>;
+export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
+export type SendChatMessageRequest = z.infer<typeof sendChatMessageSchema>;
+
+// AI usage metering: one row per user, day and feature, incremented in place
+export const aiUsage = pgTable('ai_usage', {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar('user_id').notNull(),
+  organizationId: varchar('organization_id'), // user's organization when the usage was recorded
+  day: varchar('day', { length: 10 }).notNull(), // UTC date, YYYY-MM-DD
+  feature: varchar('feature').notNull(), // chat, leadership_insight, meditation, ...
+  requests: integer('requests').notNull().default(0),
+  inputTokens: integer('input_tokens').notNull().default(0),
+  outputTokens: integer('output_tokens').notNull().default(0),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_ai_usage_user_day_feature").on(table.userId, table.day, table.feature),
+  index("IDX_ai_usage_org_day").on(table.organizationId, table.day),
+]);
+
+export const aiUsageRelations = relations(aiUsage, ({ one }) => ({
+  user: one(users, {
+    fields: [aiUsage.userId],
+    references: [users.id],
+  }),
+}));
+
+export const insertAiUsageSchema = createInsertSchema(aiUsage).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export type AiUsage = typeof aiUsage.$inferSelect;
+export type InsertAiUsage = z.infer<typeof insertAiUsageSchema>;
+
+// Daily AI quota: one row per user and day, reserved with a conditional upsert before each model
+// call so concurrent requests cannot overrun it; ai_usage keeps the per-feature breakdown
+export const aiQuotaCounters = pgTable('ai_quota_counters', {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar('user_id').notNull(),
+  day: varchar('day', { length: 10 }).notNull(), // UTC date, YYYY-MM-DD
+  requests: integer('requests').notNull().default(0), // reserved, including requests still running
+  tokens: integer('tokens').notNull().default(0),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_ai_quota_user_day").on(table.userId, table.day),
+]);
+
+export type AiQuotaCounter = typeof aiQuotaCounters.$inferSelect;
+
+// Stripe webhook ledger: one row per Stripe event id, so deliveries are processed once across restarts and instances
+export const stripeEventStatusEnum = pgEnum('stripe_event_status', ['processing', 'processed', 'failed']);
+
+export const stripeEvents = pgTable('stripe_events', {
+  id: varchar("id").primaryKey(), // Stripe event id (evt_...)
+  type: varchar('type').notNull(),
+  payloadHash: varchar('payload_hash', { length: 64 }).notNull(), // sha256 of the raw webhook body
+  payload: jsonb('payload').notNull(), // verified event, kept for replay
+  status: stripeEventStatusEnum('status').notNull().default('processing'),
+  attempts: integer('attempts').notNull().default(0),
+  lastError: text('last_error'),
+  receivedAt: timestamp('received_at').defaultNow(),
+  processedAt: timestamp('processed_at'),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => [index("IDX_stripe_events_status").on(table.status, table.receivedAt)]);
+
+export const insertStripeEventSchema = createInsertSchema(stripeEvents).omit({
+  status: true,
+  attempts: true,
+  lastError: true,
+  receivedAt: true,
+  processedAt: true,
+  updatedAt: true,
+});
+
+export const stripeEventStatusSchema = z.enum(stripeEventStatusEnum.enumValues);
+
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+export type InsertStripeEvent = z.infer<typeof insertStripeEventSchema>;
+export type StripeEventStatus = StripeEvent['status'];
+
+// Organization plans: the organization buys a tier for a number of seats that admins hand out to members
+export const organizationSubscriptions = pgTable('organization_subscriptions', {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar('organization_id').notNull().unique(),
+  tier: subscriptionTierEnum('tier').notNull(),
+  seats: integer('seats').notNull(), // Stripe subscription quantity
+  status: varchar('status').notNull().default('incomplete'), // Stripe subscription status
+  stripeCustomerId: varchar('stripe_customer_id'),
+  stripeSubscriptionId: varchar('stripe_subscription_id').unique(),
+  cancelAtPeriodEnd: boolean('cancel_at_period_end').notNull().default(false),
+  currentPeriodEnd: timestamp('current_period_end'),
+  createdBy: varchar('created_by').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+export const organizationSeats = pgTable('organization_seats', {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar('organization_id').notNull(),
+  userId: varchar('user_id').notNull(),
+  assignedBy: varchar('assigned_by').notNull(),
+  assignedAt: timestamp('assigned_at').defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_org_seat").on(table.organizationId, table.userId),
+  index("IDX_org_seat_user").on(table.userId),
+]);
+
+export const organizationSubscriptionRelations = relations(organizationSubscriptions, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationSubscriptions.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const organizationSeatRelations = relations(organizationSeats, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationSeats.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [organizationSeats.userId],
+    references: [users.id],
+  }),
+}));
+
+export const insertOrganizationSubscriptionSchema = createInsertSchema(organizationSubscriptions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertOrganizationSeatSchema = createInsertSchema(organizationSeats).omit({
+  id: true,
+  assignedAt: true,
+});
+
+// Organization plans are paid tiers only; seekers need no seat
+export const createOrganizationSubscriptionSchema = z.object({
+  tier: z.enum(['pioneer', 'visionary']),
+  seats: z.number().int().min(1).max(1000),
+});
+
+export const updateOrganizationSeatsSchema = z.object({
+  seats: z.number().int().min(1).max(1000),
+});
+
+export const assignOrganizationSeatSchema = z.object({
+  userId: z.string().min(1),
+});
+
+export type OrganizationSubscription = typeof organizationSubscriptions.$inferSelect;
+export type InsertOrganizationSubscription = z.infer<typeof insertOrganizationSubscriptionSchema>;
+export type OrganizationSeat = typeof organizationSeats.$inferSelect;
+export type InsertOrganizationSeat = z.infer<typeof insertOrganizationSeatSchema>;
+
+// Local copy of a user's Stripe invoices, kept current by invoice webhooks so billing history needs no live Stripe call
+export const invoices = pgTable('invoices', {
+  id: varchar("id").primaryKey(), // Stripe invoice id (in_...)
+  userId: varchar('user_id').notNull(),
+  stripeCustomerId: varchar('stripe_customer_id'),
+  stripeSubscriptionId: varchar('stripe_subscription_id'),
+  number: varchar('number'),
+  status: varchar('status').notNull(), // Stripe invoice status: draft, open, paid, void, uncollectible
+  currency: varchar('currency', { length: 3 }).notNull(),
+  amountDue: integer('amount_due').notNull().default(0), // smallest currency unit, e.g. cents
+  amountPaid: integer('amount_paid').notNull().default(0),
+  total: integer('total').notNull().default(0),
+  hostedInvoiceUrl: text('hosted_invoice_url'),
+  invoicePdf: text('invoice_pdf'),
+  periodStart: timestamp('period_start'),
+  periodEnd: timestamp('period_end'),
+  issuedAt: timestamp('issued_at').notNull(), // Stripe's created time
+  paidAt: timestamp('paid_at'),
+  syncedAt: timestamp('synced_at').notNull(), // time of the Stripe event the row reflects; older events never overwrite it
+}, (table) => [index("IDX_invoices_user").on(table.userId, table.issuedAt)]);
+
+export const invoiceRelations = relations(invoices, ({ one }) => ({
+  user: one(users, {
+    fields: [invoices.userId],
+    references: [users.id],
+  }),
+}));
+
+export const insertInvoiceSchema = createInsertSchema(invoices);
+
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+
+// Internal promo campaigns, e.g. a 14-day Pioneer trial for a church cohort or a ministry discount.
+// Stripe promotion codes work alongside these without a row here.
+export const promoCampaigns = pgTable('promo_campaigns', {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: varchar('code', { length: 64 }).notNull().unique(), // stored uppercase
+  name: varchar('name').notNull(),
+  tier: subscriptionTierEnum('tier'), // null: any paid tier
+  trialDays: integer('trial_days'),
+  percentOff: integer('percent_off'),
+  durationInMonths: integer('duration_in_months'), // null: the discount covers the first invoice only
+  stripeCouponId: varchar('stripe_coupon_id'), // created with the campaign when it carries a discount
+  maxRedemptions: integer('max_redemptions'), // null: unlimited
+  redemptionCount: integer('redemption_count').notNull().default(0),
+  startsAt: timestamp('starts_at'),
+  expiresAt: timestamp('expires_at'),
+  active: boolean('active').notNull().default(true),
+  createdBy: varchar('created_by').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// One redemption per campaign and user; trialDays records whether the redemption started a trial
+export const promoRedemptions = pgTable('promo_redemptions', {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: varchar('campaign_id').notNull(),
+  userId: varchar('user_id').notNull(),
+  tier: subscriptionTierEnum('tier').notNull(),
+  trialDays: integer('trial_days'),
+  redeemedAt: timestamp('redeemed_at').defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_promo_redemption").on(table.campaignId, table.userId),
+  index("IDX_promo_redemption_user").on(table.userId),
+]);
+
+export const promoRedemptionRelations = relations(promoRedemptions, ({ one }) => ({
+  campaign: one(promoCampaigns, {
+    fields: [promoRedemptions.campaignId],
+    references: [promoCampaigns.id],
+  }),
+  user: one(users, {
+    fields: [promoRedemptions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const insertPromoCampaignSchema = createInsertSchema(promoCampaigns).omit({
+  id: true,
+  redemptionCount: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPromoRedemptionSchema = createInsertSchema(promoRedemptions).omit({
+  id: true,
+  redeemedAt: true,
+});
+
+export const createPromoCampaignSchema = z.object({
+  code: z.string().trim().regex(/^[A-Za-z0-9_-]{3,64}$/, "Codes use 3-64 letters, digits, dashes or underscores").transform(code => code.toUpperCase()),
+  name: z.string().trim().min(1).max(200),
+  tier: z.enum(['pioneer', 'visionary']).optional(),
+  trialDays: z.number().int().min(1).max(90).optional(),
+  percentOff: z.number().int().min(1).max(100).optional(),
+  durationInMonths: z.number().int().min(1).max(36).optional(),
+  maxRedemptions: z.number().int().min(1).optional(),
+  startsAt: z.coerce.date().optional(),
+  expiresAt: z.coerce.date().optional(),
+}).refine(campaign => campaign.trialDays || campaign.percentOff, {
+  message: "A campaign needs a trial, a discount or both",
+}).refine(campaign => !campaign.durationInMonths || campaign.percentOff, {
+  message: "durationInMonths applies to discounts only",
+  path: ['durationInMonths'],
+});
+
+// Terms that Stripe already holds (trial length, discount) are fixed once created
+export const updatePromoCampaignSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  active: z.boolean().optional(),
+  maxRedemptions: z.number().int().min(1).nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+});
+
+export type PromoCampaign = typeof promoCampaigns.$inferSelect;
+export type InsertPromoCampaign = z.infer<typeof insertPromoCampaignSchema>;
+export type PromoRedemption = typeof promoRedemptions.$inferSelect;
+export type InsertPromoRedemption = z.infer<typeof insertPromoRedemptionSchema>;
+
+// One-off data migrations run at startup (see server/data-migrations.ts); a recorded id never runs again
+export const dataMigrations = pgTable('data_migrations', {
+  id: varchar("id").primaryKey(),
+  affectedRows: integer('affected_rows').notNull().default(0),
+  appliedAt: timestamp('applied_at').defaultNow(),
+});
+
+export type DataMigration = typeof dataMigrations.$inferSelect;
+
 // Game progression response types for API
 export interface GameProgressResponse {
   user: {
@@ -0,0 +1,60 @@
+import type { DevelopmentStage } from "./schema";
+
+// R1-R5 in order; the hidden track is entered from R5 and has no stage after it
+export const STAGE_ORDER: readonly DevelopmentStage[] = ['r1', 'r2', 'r3', 'r4', 'r5'];
+
+export const STAGE_NAMES: Record<DevelopmentStage, string> = {
+  r1: 'R1: Identity Foundations',
+  r2: 'R2: Calling Clarity',
+  r3: 'R3: Formation Habits',
+  r4: 'R4: Team Alignment',
+  r5: 'R5: Role in the Whole',
+  hidden_track: 'Hidden Track: Quiet Flame',
+};
+
+// A stage assessment as the client sees it: questions and options without their scoring
+export interface StageAssessment {
+  stage: DevelopmentStage;
+  version: number;
+  title: string;
+  passingScore: number;
+  questions: { id: string; question: string; options: { value: string; title: string; description: string }[] }[];
+}
+
+// Results stored on a stage assessment row
+export interface StageAssessmentResults {
+  score: number; // 0-100
+  passingScore: number;
+  passed: boolean;
+}
+
+export interface StageRequirementStatus {
+  kind: 'assessment' | 'chapters' | 'practice_minutes';
+  description: string;
+  required: number;
+  current: number;
+  met: boolean;
+}
+
+// Whether the user may enter a stage, and what is still missing if not
+export interface StageProgression {
+  stage: DevelopmentStage;
+  name: string;
+  eligible: boolean;
+  requirements: StageRequirementStatus[];
+  missing: string[]; // one sentence per unmet requirement
+}
+
+// GET /api/stages/next
+export interface NextStageResponse {
+  currentStage: DevelopmentStage;
+  promotedTo: DevelopmentStage | null; // set when the progress just recorded moved the user on; always null on GET
+  next: StageProgression | null;       // null on R5 (see hiddenTrack) and on the hidden track
+  hiddenTrack: StageProgression | null; // null once on the hidden track
+}
+
+// POST /api/stages/:stage/assessment
+export interface StageAssessmentResponse extends StageAssessmentResults {
+  assessmentId: string;
+  progression: NextStageResponse;
+}
@@ -0,0 +1,72 @@
+import { z } from "zod";
+import type { XpLedgerEntry } from "./schema";
+
+// XP from level n to n + 1 is baseXp * growth^(n - 1); growth 1 keeps every level the same size
+export const levelCurveSchema = z.object({
+  baseXp: z.number().int().positive(),
+  growth: z.number().min(1).max(3),
+});
+
+export const xpRulesSchema = z.object({
+  chapterCompleted: z.number().int().min(0),
+  gateCompleted: z.object({
+    identity_mirror: z.number().int().min(0),
+    shofar_convergence: z.number().int().min(0),
+    network_multiplication: z.number().int().min(0),
+    twelve_gate_convergence: z.number().int().min(0),
+  }),
+  practiceCompleted: z.number().int().min(0),
+  practiceDailyLimit: z.number().int().min(1), // practices a day that pay practiceCompleted
+  // Bonus when a run of consecutive practice days reaches each milestone, once per run
+  practiceStreaks: z.array(z.object({ days: z.number().int().min(2), xp: z.number().int().min(0) })),
+  levelCurve: levelCurveSchema,
+});
+
+export type LevelCurve = z.infer<typeof levelCurveSchema>;
+export type XpRules = z.infer<typeof xpRulesSchema>;
+
+export const DEFAULT_XP_RULES: XpRules = {
+  chapterCompleted: 50,
+  gateCompleted: {
+    identity_mirror: 100,
+    shofar_convergence: 100,
+    network_multiplication: 100,
+    twelve_gate_convergence: 150,
+  },
+  practiceCompleted: 10,
+  practiceDailyLimit: 3,
+  practiceStreaks: [
+    { days: 3, xp: 25 },
+    { days: 7, xp: 75 },
+    { days: 30, xp: 300 },
+  ],
+  levelCurve: { baseXp: 100, growth: 1 },
+};
+
+// Total XP needed to reach a level; level 1 starts at 0
+export function xpForLevel(level: number, curve: LevelCurve): number {
+  let total = 0;
+  for (let current = 1; current < level; current++) {
+    total += Math.round(curve.baseXp * Math.pow(curve.growth, current - 1));
+  }
+  return total;
+}
+
+export function levelForXp(experiencePoints: number, curve: LevelCurve): number {
+  let level = 1;
+  let nextThreshold = xpForLevel(2, curve);
+  while (experiencePoints >= nextThreshold) {
+    level++;
+    nextThreshold += Math.round(curve.baseXp * Math.pow(curve.growth, level - 1));
+  }
+  return level;
+}
+
+// GET /api/xp
+export interface XpSummary {
+  experiencePoints: number;
+  level: number;
+  currentLevelXp: number; // total XP at which the current level started
+  nextLevelXp: number;    // total XP needed for the next level
+  recent: XpLedgerEntry[];
+}